@@ -28,18 +28,35 @@ log('Resources path: ' + process.resourcesPath);
 // Daily terminal console clear for long-running 24/7 operation
 let lastTerminalClear: string | null = null;
 
+// The main process can't read the owner's settings, so it uses STATION_TIMEZONE
+// (IANA name) or, failing that, this machine's own timezone
+const stationTimeZone = process.env.STATION_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Station date (YYYY-MM-DD) and time (HH:MM) right now
+function getStationClock(): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: stationTimeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date());
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
 function setupDailyTerminalClear(): void {
   const checkTerminalClear = () => {
     try {
-      const now = new Date();
-      // Convert to PST
-      const pstTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }));
-      const currentHour = pstTime.getHours();
-      const currentMinute = pstTime.getMinutes();
-      const currentDate = pstTime.toDateString();
-
-      // Clear terminal at midnight PST (00:00) if not already cleared today
-      if (currentHour === 0 && currentMinute === 0 && lastTerminalClear !== currentDate) {
+      const { date: currentDate, time } = getStationClock();
+
+      // Clear terminal at station midnight (00:00) if not already cleared today
+      if (time === '00:00' && lastTerminalClear !== currentDate) {
         console.log('🧹 [Electron] Performing daily terminal clear to free memory...');
         console.log(`📅 Last clear: ${lastTerminalClear || 'Never'}`);
         console.log(`📊 Clearing terminal for 24/7 operation maintenance`);
@@ -54,9 +71,9 @@ function setupDailyTerminalClear(): void {
           // Method 2: ANSI escape code for terminals (fallback)
           process.stdout.write('\x1Bc');
 
-          console.log('✅ [Electron] Terminal cleared at midnight PST - logs reset for new day');
+          console.log('✅ [Electron] Terminal cleared at station midnight - logs reset for new day');
           console.log(`📅 Date: ${currentDate}`);
-          log(`Terminal cleared at midnight PST - ${currentDate}`);
+          log(`Terminal cleared at midnight ${stationTimeZone} - ${currentDate}`);
         }, 1000);
       }
     } catch (err) {
@@ -70,7 +87,7 @@ function setupDailyTerminalClear(): void {
   // Check every minute (to catch midnight precisely)
   setInterval(checkTerminalClear, 60 * 1000);
 
-  log('Daily terminal clear scheduler started (midnight PST)');
+  log(`Daily terminal clear scheduler started (midnight ${stationTimeZone})`);
 }
 
 function createWindow(): void {
@@ -132,7 +149,7 @@ app.whenReady().then(async () => {
     createWindow();
     log('Window created');
 
-    // Setup daily terminal console clear at 3 AM PST
+    // Setup daily terminal console clear at station midnight
     setupDailyTerminalClear();
 
     app.on('activate', () => {
@@ -0,0 +1,120 @@
+/**
+ * Algo Authentication Verification
+ * Server-side counterpart of the header generation in src/lib/algo/client.ts
+ */
+
+import crypto from "crypto";
+import type http from "http";
+
+export type AuthResult = { ok: true } | { ok: false; reason: string };
+
+interface VerifyOptions {
+  method: string;
+  uri: string;
+  body: Buffer;
+  password: string;
+  supportedAuth: Array<"standard" | "basic">;
+  clockSkewSec: number;
+}
+
+/**
+ * Verify Basic auth: "Basic base64(admin:password)"
+ */
+function verifyBasic(header: string, password: string): AuthResult {
+  const encoded = header.slice("Basic ".length).trim();
+  const decoded = Buffer.from(encoded, "base64").toString("utf8");
+  if (decoded !== `admin:${password}`) {
+    return { ok: false, reason: "Invalid basic credentials" };
+  }
+  return { ok: true };
+}
+
+/**
+ * Verify Algo "standard" HMAC-SHA256 auth
+ *
+ * Header format: "hmac admin:{nonce}:{hmac}"
+ * HMAC input (with body):    METHOD:URI:MD5:CONTENT_TYPE:TIMESTAMP:NONCE
+ * HMAC input (without body): METHOD:URI:TIMESTAMP:NONCE
+ *
+ * The timestamp itself is not sent - it is recovered from the Date header.
+ * The client reads the clock twice (timestamp, then Date), so a second may
+ * tick between them; neighbouring seconds are accepted too.
+ */
+function verifyStandard(
+  header: string,
+  headers: http.IncomingHttpHeaders,
+  options: VerifyOptions
+): AuthResult {
+  const match = header.match(/^hmac admin:([^:]+):([0-9a-f]+)$/i);
+  if (!match) {
+    return { ok: false, reason: "Malformed hmac header" };
+  }
+  const [, nonce, providedHmac] = match;
+
+  const dateHeader = headers["date"];
+  if (!dateHeader) {
+    return { ok: false, reason: "Missing Date header" };
+  }
+  const dateTimestamp = Math.floor(Date.parse(dateHeader) / 1000);
+  if (Number.isNaN(dateTimestamp)) {
+    return { ok: false, reason: "Invalid Date header" };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - dateTimestamp) > options.clockSkewSec) {
+    return { ok: false, reason: "Request timestamp outside allowed skew" };
+  }
+
+  let prefix: string;
+  if (options.body.length > 0) {
+    const contentType = (headers["content-type"] || "").split(";")[0].trim();
+    const contentMd5 = crypto.createHash("md5").update(options.body).digest("hex");
+    if (headers["content-md5"] && headers["content-md5"] !== contentMd5) {
+      return { ok: false, reason: "Content-MD5 mismatch" };
+    }
+    prefix = `${options.method}:${options.uri}:${contentMd5}:${contentType}`;
+  } else {
+    prefix = `${options.method}:${options.uri}`;
+  }
+
+  for (const timestamp of [dateTimestamp, dateTimestamp - 1, dateTimestamp + 1]) {
+    const expected = crypto
+      .createHmac("sha256", options.password)
+      .update(`${prefix}:${timestamp}:${nonce}`)
+      .digest("hex");
+    if (expected === providedHmac.toLowerCase()) {
+      return { ok: true };
+    }
+  }
+
+  return { ok: false, reason: "HMAC signature mismatch" };
+}
+
+/**
+ * Verify an incoming request the way a real Algo unit does
+ */
+export function verifyRequestAuth(
+  headers: http.IncomingHttpHeaders,
+  options: VerifyOptions
+): AuthResult {
+  const header = headers["authorization"];
+  if (!header) {
+    return { ok: false, reason: "Missing Authorization header" };
+  }
+
+  if (header.startsWith("Basic ")) {
+    if (!options.supportedAuth.includes("basic")) {
+      return { ok: false, reason: "Basic auth disabled on this firmware" };
+    }
+    return verifyBasic(header, options.password);
+  }
+
+  if (header.toLowerCase().startsWith("hmac ")) {
+    if (!options.supportedAuth.includes("standard")) {
+      return { ok: false, reason: "Standard auth not supported on this firmware" };
+    }
+    return verifyStandard(header, headers, options);
+  }
+
+  return { ok: false, reason: "Unsupported auth scheme" };
+}
@@ -0,0 +1,613 @@
+/**
+ * Simulated Algo IP Endpoint
+ * Implements the REST surface AlgoClient talks to, so auth, reload-after-config
+ * and the /api/algo/* route handlers can be exercised without hardware
+ */
+
+import http from "http";
+import crypto from "crypto";
+import { verifyRequestAuth } from "./auth";
+import { MODEL_PROFILES, type FirmwareQuirks, type SimulatedAlgoModel } from "./models";
+
+export interface SimulatedAlgoUnitConfig {
+  name: string;
+  model: SimulatedAlgoModel;
+  port: number;
+  host?: string;                       // Bind address (default: 127.0.0.1)
+  password: string;
+  authMethod?: "standard" | "basic" | "none"; // "none" skips auth checks entirely
+  macAddress?: string;
+  firmwareVersion?: string;
+  availableFirmwareVersion?: string;   // Reported by upgrade/check and installed by upgrade/start
+  upgradeDurationMs?: number;          // Unreachable this long while upgrading (default: 15000)
+  bricksOnUpgrade?: boolean;           // Never comes back after upgrade/start
+  latencyMs?: number;                  // Added to every response
+  jitterMs?: number;                   // Random extra latency (0..jitterMs)
+  failureRate?: number;                // 0-1, chance of answering 500
+  failPaths?: string[];                // URI prefixes that always answer 500
+  offline?: boolean;                   // Drop every connection
+  temperatureC?: number;
+  toneDurationMs?: number;             // How long a non-looped tone "plays"
+  settings?: Record<string, string>;   // Overrides on top of the model defaults
+  quirks?: Partial<FirmwareQuirks>;
+}
+
+// Fields that can be changed at runtime through POST /__sim/config
+type RuntimeConfig = Pick<
+  SimulatedAlgoUnitConfig,
+  "latencyMs" | "jitterMs" | "failureRate" | "failPaths" | "offline" | "temperatureC"
+  | "availableFirmwareVersion" | "bricksOnUpgrade"
+> & { relayInput?: "active" | "idle" };
+
+interface StoredFile {
+  size: number;
+  md5: string;
+}
+
+interface JsonResponse {
+  status: number;
+  body?: unknown;
+}
+
+/**
+ * Generate a stable locally-administered MAC from the unit name
+ */
+function macFromName(name: string): string {
+  const hash = crypto.createHash("md5").update(name).digest();
+  const bytes = [0x02, hash[0], hash[1], hash[2], hash[3], hash[4]];
+  return bytes.map((b) => b.toString(16).padStart(2, "0")).join(":").toUpperCase();
+}
+
+export class AlgoDeviceSimulator {
+  private config: SimulatedAlgoUnitConfig;
+  private quirks: FirmwareQuirks;
+  private server: http.Server | null = null;
+
+  // Device state
+  private appliedSettings: Record<string, string> = {};
+  private pendingSettings: Record<string, string> = {};
+  private files: Record<string, Record<string, StoredFile>> = {};
+  private fileContents: Record<string, Buffer> = {}; // Uploaded bytes by "folder/filename"
+  private currentAction = "None";
+  private callStatus = "Idle";
+  private relayInput: "active" | "idle" = "idle";
+  private doorLocked = true;
+  private strobeActive = false;
+  private multicastState: Record<string, unknown> | null = null;
+  private unavailableUntil = 0;
+  private actionTimer: NodeJS.Timeout | null = null;
+  private bootTime = Date.now();
+
+  constructor(config: SimulatedAlgoUnitConfig) {
+    const profile = MODEL_PROFILES[config.model];
+    if (!profile) {
+      throw new Error(`Unknown Algo model: ${config.model}`);
+    }
+
+    this.config = {
+      authMethod: "standard",
+      host: "127.0.0.1",
+      latencyMs: 0,
+      jitterMs: 0,
+      failureRate: 0,
+      failPaths: [],
+      offline: false,
+      temperatureC: 38,
+      toneDurationMs: 3000,
+      ...config,
+    };
+    this.quirks = { ...profile.quirks, ...config.quirks };
+    this.resetState();
+  }
+
+  // ============ Lifecycle ============
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.log(`Handler error: ${error}`);
+        if (!res.headersSent) {
+          this.send(res, { status: 500, body: { error: "Internal simulator error" } });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.config.port, this.config.host, () => resolve());
+    });
+
+    this.log(`Listening on http://${this.config.host}:${this.config.port} (${this.config.model}, auth: ${this.config.authMethod})`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.actionTimer) {
+      clearTimeout(this.actionTimer);
+      this.actionTimer = null;
+    }
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  get address(): string {
+    return `${this.config.host}:${this.config.port}`;
+  }
+
+  // ============ Request Handling ============
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readBody(req);
+    const method = req.method || "GET";
+    const uri = req.url || "/";
+
+    // Simulator control endpoints bypass auth, latency and failure injection
+    if (uri.startsWith("/__sim/")) {
+      this.send(res, this.handleControl(method, uri, body));
+      return;
+    }
+
+    // Unreachable: offline, reloading or frozen after an mcast.mode write
+    if (this.config.offline || Date.now() < this.unavailableUntil) {
+      req.socket.destroy();
+      return;
+    }
+
+    await this.applyLatency();
+
+    if (this.shouldInjectFailure(uri)) {
+      this.send(res, { status: 500, body: { error: "Simulated device failure" } });
+      return;
+    }
+
+    // Root web UI (used by health HEAD checks and the network scanner)
+    if (!uri.startsWith("/api/")) {
+      this.sendHtml(res);
+      return;
+    }
+
+    if (this.config.authMethod !== "none") {
+      const auth = verifyRequestAuth(req.headers, {
+        method,
+        uri,
+        body,
+        password: this.config.password,
+        supportedAuth: this.quirks.supportedAuth,
+        clockSkewSec: this.quirks.hmacClockSkewSec,
+      });
+      if (!auth.ok) {
+        this.log(`401 ${method} ${uri} - ${auth.reason}`);
+        this.send(res, { status: 401, body: { error: auth.reason } });
+        return;
+      }
+    }
+
+    const response = this.route(method, uri, body);
+    this.log(`${response.status} ${method} ${uri}`);
+    this.send(res, response);
+  }
+
+  private route(method: string, uri: string, rawBody: Buffer): JsonResponse {
+    const path = uri.split("?")[0];
+    let json: Record<string, unknown> = {};
+    const isBinaryUpload = method === "PUT" && path.startsWith("/api/files/");
+    if (rawBody.length > 0 && !isBinaryUpload) {
+      try {
+        json = JSON.parse(rawBody.toString("utf8"));
+      } catch {
+        return { status: 400, body: { error: "Invalid JSON body" } };
+      }
+    }
+
+    // ---- Info ----
+    if (method === "GET" && path === "/api/info/about") {
+      return { status: 200, body: this.getAbout() };
+    }
+    if (method === "GET" && path === "/api/info/status") {
+      return { status: 200, body: this.getStatus() };
+    }
+    if (method === "GET" && path === "/api/info/tonelist") {
+      return { status: 200, body: { tonelist: Object.keys(this.files.tones || {}) } };
+    }
+    if (method === "GET" && path === "/api/info/input.relay.status") {
+      return { status: 200, body: { "input.relay.status": this.relayInput } };
+    }
+    if (method === "GET" && path.startsWith("/api/info/")) {
+      const key = decodeURIComponent(path.slice("/api/info/".length));
+      return this.readSetting(key);
+    }
+
+    // ---- Settings ----
+    if (method === "GET" && path.startsWith("/api/settings/")) {
+      const key = decodeURIComponent(path.slice("/api/settings/".length));
+      return this.readSetting(key);
+    }
+    if (method === "PUT" && (path === "/api/settings" || path === "/api/settings/")) {
+      return this.writeSettings(json);
+    }
+    if (method === "POST" && path === "/api/settings/action/restore") {
+      this.resetState();
+      this.beginReload("factory reset");
+      return { status: 200 };
+    }
+
+    // ---- Controls ----
+    if (method === "POST" && path.startsWith("/api/controls/")) {
+      return this.handleControlAction(path.slice("/api/controls/".length), json);
+    }
+
+    // ---- Multicast state ----
+    if (method === "POST" && path === "/api/state/mcast/update/") {
+      if (json.mode !== "sender" && json.mode !== "receiver") {
+        return { status: 400, body: { error: "mode must be sender or receiver" } };
+      }
+      this.multicastState = json;
+      return { status: 200 };
+    }
+
+    // ---- Files ----
+    if (path.startsWith("/api/files/")) {
+      return this.handleFiles(method, path.slice("/api/files/".length), rawBody, json);
+    }
+
+    return { status: 404, body: { error: `Unknown endpoint: ${method} ${path}` } };
+  }
+
+  private handleControlAction(action: string, json: Record<string, unknown>): JsonResponse {
+    switch (action) {
+      case "tone/start": {
+        const tonePath = String(json.path || "");
+        const toneName = tonePath.split("/").pop() || "";
+        if (!this.files.tones?.[toneName]) {
+          return { status: 404, body: { error: `Tone not found: ${tonePath}` } };
+        }
+        this.setAction(`Playing Tone: ${toneName}`, json.loop === true ? null : this.config.toneDurationMs!);
+        return { status: 200 };
+      }
+      case "tone/stop":
+      case "test/stop":
+        this.setAction("None", null);
+        return { status: 200 };
+      case "test/start":
+        this.setAction("Playing Test Tone", this.config.toneDurationMs!);
+        return { status: 200 };
+      case "test/loop":
+        this.setAction("Playing Test Tone", null);
+        return { status: 200 };
+      case "noise/update":
+        this.appliedSettings["audio.noise.level"] = String(json.level ?? "0");
+        return { status: 200 };
+      case "reload":
+        this.beginReload("reload");
+        return { status: 200 };
+      case "reboot":
+        this.beginReload("reboot");
+        return { status: 200 };
+      case "upgrade/check":
+        return { status: 200, body: { version: this.config.availableFirmwareVersion || this.currentFirmware() } };
+      case "upgrade/start":
+        this.beginUpgrade();
+        return { status: 200 };
+      case "call/start":
+        if (!json.extension) {
+          return { status: 400, body: { error: "extension is required" } };
+        }
+        this.callStatus = `Active: ${json.extension}`;
+        return { status: 200 };
+      case "call/stop":
+        this.callStatus = "Idle";
+        return { status: 200 };
+      case "door/unlock":
+        this.doorLocked = false;
+        return { status: 200 };
+      case "door/lock":
+        this.doorLocked = true;
+        return { status: 200 };
+      case "door/munlock": {
+        this.doorLocked = false;
+        const seconds = parseInt(String(json.duration || "5"), 10);
+        setTimeout(() => {
+          this.doorLocked = true;
+        }, seconds * 1000).unref();
+        return { status: 200 };
+      }
+      case "strobe/start":
+        this.strobeActive = true;
+        return { status: 200 };
+      case "strobe/stop":
+        this.strobeActive = false;
+        return { status: 200 };
+      case "rx/start":
+        this.setAction(`Receiving: ${json.port}`, null);
+        return { status: 200 };
+      case "rx/stop":
+        this.setAction("None", null);
+        return { status: 200 };
+      default:
+        return { status: 404, body: { error: `Unknown control: ${action}` } };
+    }
+  }
+
+  private handleFiles(
+    method: string,
+    rest: string,
+    rawBody: Buffer,
+    json: Record<string, unknown>
+  ): JsonResponse {
+    const parts = rest.split("/").filter(Boolean).map(decodeURIComponent);
+
+    if (method === "GET" && parts.length === 1) {
+      return { status: 200, body: { filelist: Object.keys(this.files[parts[0]] || {}) } };
+    }
+
+    if (method === "GET" && parts.length === 2) {
+      const [folder, filename] = parts;
+      const stored = this.files[folder]?.[filename];
+      if (!stored) {
+        return { status: 404, body: { error: `File not found: /${folder}/${filename}` } };
+      }
+      // Factory tones have no uploaded bytes - serve silence of the stored size
+      return { status: 200, body: this.fileContents[`${folder}/${filename}`] ?? Buffer.alloc(stored.size) };
+    }
+
+    if (method === "PUT" && parts.length === 2) {
+      const [folder, filename] = parts;
+      this.files[folder] = this.files[folder] || {};
+      this.files[folder][filename] = {
+        size: rawBody.length,
+        md5: crypto.createHash("md5").update(rawBody).digest("hex"),
+      };
+      this.fileContents[`${folder}/${filename}`] = Buffer.from(rawBody);
+      return { status: 200 };
+    }
+
+    if (method === "DELETE" && parts.length === 0) {
+      const filePath = String(json.path || "");
+      const [folder, filename] = filePath.split("/").filter(Boolean);
+      if (!folder || !filename || !this.files[folder]?.[filename]) {
+        return { status: 404, body: { error: `File not found: ${filePath}` } };
+      }
+      delete this.files[folder][filename];
+      delete this.fileContents[`${folder}/${filename}`];
+      return { status: 200 };
+    }
+
+    return { status: 404, body: { error: "Unknown file operation" } };
+  }
+
+  // ============ Simulator Control ============
+
+  private handleControl(method: string, uri: string, rawBody: Buffer): JsonResponse {
+    if (method === "GET" && uri === "/__sim/state") {
+      return { status: 200, body: this.snapshot() };
+    }
+
+    if (method === "POST" && uri === "/__sim/config") {
+      let update: RuntimeConfig;
+      try {
+        update = JSON.parse(rawBody.toString("utf8") || "{}");
+      } catch {
+        return { status: 400, body: { error: "Invalid JSON body" } };
+      }
+      const { relayInput, ...rest } = update;
+      if (relayInput) {
+        this.relayInput = relayInput;
+      }
+      Object.assign(this.config, rest);
+      this.log(`Runtime config updated: ${JSON.stringify(update)}`);
+      return { status: 200, body: this.snapshot() };
+    }
+
+    if (method === "POST" && uri === "/__sim/reset") {
+      this.resetState();
+      return { status: 200, body: this.snapshot() };
+    }
+
+    return { status: 404, body: { error: "Unknown simulator endpoint" } };
+  }
+
+  private snapshot() {
+    return {
+      name: this.config.name,
+      model: this.config.model,
+      address: this.address,
+      offline: this.config.offline,
+      reloading: Date.now() < this.unavailableUntil,
+      latencyMs: this.config.latencyMs,
+      failureRate: this.config.failureRate,
+      currentAction: this.currentAction,
+      callStatus: this.callStatus,
+      relayInput: this.relayInput,
+      doorLocked: this.doorLocked,
+      strobeActive: this.strobeActive,
+      multicastState: this.multicastState,
+      settings: this.appliedSettings,
+      pendingSettings: this.pendingSettings,
+      files: this.files,
+    };
+  }
+
+  // ============ State Helpers ============
+
+  private resetState(): void {
+    const profile = MODEL_PROFILES[this.config.model];
+    this.appliedSettings = { ...profile.settings, ...this.config.settings };
+    this.pendingSettings = {};
+    this.files = {
+      tones: Object.fromEntries(profile.tones.map((t) => [t, { size: 0, md5: "" }])),
+    };
+    this.fileContents = {};
+    this.currentAction = "None";
+    this.callStatus = "Idle";
+    this.doorLocked = true;
+    this.strobeActive = false;
+    this.multicastState = null;
+  }
+
+  private readSetting(key: string): JsonResponse {
+    if (!(key in this.appliedSettings)) {
+      return { status: 404, body: { error: `Unknown setting: ${key}` } };
+    }
+    return { status: 200, body: { [key]: this.appliedSettings[key] } };
+  }
+
+  private writeSettings(json: Record<string, unknown>): JsonResponse {
+    const entries = Object.entries(json);
+    if (entries.length === 0) {
+      return { status: 400, body: { error: "No settings provided" } };
+    }
+
+    for (const [key, value] of entries) {
+      const stringValue = String(value);
+      const needsReload = this.quirks.reloadRequiredPrefixes.some((p) => key.startsWith(p));
+      if (needsReload) {
+        this.pendingSettings[key] = stringValue;
+      } else {
+        this.appliedSettings[key] = stringValue;
+      }
+
+      if (key === "mcast.mode" && this.quirks.freezeOnMcastModeMs > 0) {
+        this.log(`mcast.mode written - freezing for ${this.quirks.freezeOnMcastModeMs}ms (firmware quirk)`);
+        this.unavailableUntil = Date.now() + this.quirks.freezeOnMcastModeMs;
+      }
+    }
+
+    return { status: 200 };
+  }
+
+  private beginReload(reason: string): void {
+    // Pending settings take effect once the main process comes back up
+    Object.assign(this.appliedSettings, this.pendingSettings);
+    this.pendingSettings = {};
+    this.setAction("None", null);
+    this.unavailableUntil = Date.now() + this.quirks.reloadDurationMs;
+    this.bootTime = this.unavailableUntil;
+    this.log(`${reason} - unreachable for ${this.quirks.reloadDurationMs}ms`);
+  }
+
+  private currentFirmware(): string {
+    return this.config.firmwareVersion || MODEL_PROFILES[this.config.model].firmwareVersion;
+  }
+
+  private beginUpgrade(): void {
+    const from = this.currentFirmware();
+    const to = this.config.availableFirmwareVersion || from;
+    const durationMs = this.config.upgradeDurationMs ?? 15000;
+
+    this.setAction("None", null);
+    this.unavailableUntil = Date.now() + durationMs;
+    this.bootTime = this.unavailableUntil;
+
+    if (this.config.bricksOnUpgrade) {
+      this.config.offline = true;
+      this.log(`firmware upgrade ${from} → ${to} - unit never comes back (bricksOnUpgrade)`);
+      return;
+    }
+    this.config.firmwareVersion = to;
+    this.log(`firmware upgrade ${from} → ${to} - unreachable for ${durationMs}ms`);
+  }
+
+  private setAction(action: string, durationMs: number | null): void {
+    if (this.actionTimer) {
+      clearTimeout(this.actionTimer);
+      this.actionTimer = null;
+    }
+    this.currentAction = action;
+    if (durationMs !== null && action !== "None") {
+      this.actionTimer = setTimeout(() => {
+        this.currentAction = "None";
+        this.actionTimer = null;
+      }, durationMs);
+      this.actionTimer.unref();
+    }
+  }
+
+  private getAbout() {
+    const profile = MODEL_PROFILES[this.config.model];
+    return {
+      "Product Name": profile.productName,
+      "Firmware Version": this.currentFirmware(),
+      "MAC Address": this.config.macAddress || macFromName(this.config.name),
+      "Hardware Info": profile.hardwareInfo,
+    };
+  }
+
+  private getStatus() {
+    const mode = this.appliedSettings["mcast.mode"];
+    const multicastMode = mode === "1" ? "Sender" : mode === "2" ? "Receiver" : "None";
+    return {
+      "Device Name": this.config.name,
+      "SIP Registration": this.appliedSettings["sip.ext"] ? "Registered" : "Not Registered",
+      "Call Status": this.callStatus,
+      MAC: this.config.macAddress || macFromName(this.config.name),
+      IPv4: this.config.host,
+      "Date / Time": new Date().toUTCString(),
+      "Current Action": this.currentAction,
+      "Multicast Mode": multicastMode,
+      Volume: `Page Volume: ${this.appliedSettings["audio.page.vol"]}`,
+      "Relay Input Status": this.relayInput,
+      Temperature: `${this.config.temperatureC}C`,
+      Uptime: `${Math.max(0, Math.floor((Date.now() - this.bootTime) / 1000))}s`,
+    };
+  }
+
+  // ============ Transport Helpers ============
+
+  private readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => resolve(Buffer.concat(chunks)));
+      req.on("error", reject);
+    });
+  }
+
+  private async applyLatency(): Promise<void> {
+    const jitter = this.config.jitterMs ? Math.random() * this.config.jitterMs : 0;
+    const total = (this.config.latencyMs || 0) + jitter;
+    if (total > 0) {
+      await new Promise((resolve) => setTimeout(resolve, total));
+    }
+  }
+
+  private shouldInjectFailure(uri: string): boolean {
+    if (this.config.failPaths?.some((p) => uri.startsWith(p))) {
+      return true;
+    }
+    return (this.config.failureRate || 0) > 0 && Math.random() < this.config.failureRate!;
+  }
+
+  private send(res: http.ServerResponse, response: JsonResponse): void {
+    if (response.body === undefined) {
+      res.writeHead(response.status);
+      res.end();
+      return;
+    }
+    if (Buffer.isBuffer(response.body)) {
+      res.writeHead(response.status, {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": response.body.length,
+      });
+      res.end(response.body);
+      return;
+    }
+    const payload = JSON.stringify(response.body);
+    res.writeHead(response.status, {
+      "Content-Type": "application/json",
+      "Content-Length": Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+
+  private sendHtml(res: http.ServerResponse): void {
+    const profile = MODEL_PROFILES[this.config.model];
+    const html = `<!DOCTYPE html><html><head><title>Algo ${profile.productName}</title></head>` +
+      `<body><h1>Algo ${profile.productName}</h1><p>${this.config.name}</p></body></html>`;
+    res.writeHead(200, { "Content-Type": "text/html", "Content-Length": Buffer.byteLength(html) });
+    res.end(html);
+  }
+
+  private log(message: string): void {
+    console.log(`[AlgoSim:${this.config.name}] ${message}`);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Algo Fleet Simulator
+ * Starts every unit listed in a fleet file, each on its own port
+ *
+ * Usage: npm run sim:algo -- [path/to/fleet.json]
+ */
+
+import fs from "fs";
+import path from "path";
+import { AlgoDeviceSimulator, type SimulatedAlgoUnitConfig } from "./device";
+
+interface FleetFile {
+  units: SimulatedAlgoUnitConfig[];
+}
+
+function loadFleet(filePath: string): FleetFile {
+  const raw = fs.readFileSync(filePath, "utf8");
+  const fleet = JSON.parse(raw) as FleetFile;
+
+  if (!Array.isArray(fleet.units) || fleet.units.length === 0) {
+    throw new Error(`No units defined in ${filePath}`);
+  }
+
+  const ports = new Set<number>();
+  for (const unit of fleet.units) {
+    if (!unit.name || !unit.model || !unit.port) {
+      throw new Error(`Each unit needs name, model and port: ${JSON.stringify(unit)}`);
+    }
+    if (ports.has(unit.port)) {
+      throw new Error(`Duplicate port ${unit.port} in ${filePath}`);
+    }
+    ports.add(unit.port);
+  }
+
+  return fleet;
+}
+
+async function main() {
+  const fleetPath = process.argv[2]
+    ? path.resolve(process.argv[2])
+    : path.join(__dirname, "fleet.example.json");
+
+  const fleet = loadFleet(fleetPath);
+  const simulators = fleet.units.map((unit) => new AlgoDeviceSimulator(unit));
+
+  await Promise.all(simulators.map((sim) => sim.start()));
+
+  console.log(`\n[AlgoSim] ${simulators.length} unit(s) running from ${fleetPath}`);
+  console.log("[AlgoSim] Add them in the app with IP address host:port, e.g.:");
+  for (const sim of simulators) {
+    console.log(`  - ${sim.address}`);
+  }
+
+  const shutdown = async () => {
+    console.log("\n[AlgoSim] Shutting down...");
+    await Promise.all(simulators.map((sim) => sim.stop()));
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("[AlgoSim] Fatal error:", error);
+  process.exit(1);
+});
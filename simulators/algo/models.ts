@@ -0,0 +1,99 @@
+/**
+ * Algo Device Model Profiles
+ * Default identity, settings and firmware behavior for each simulated model
+ */
+
+export type SimulatedAlgoModel = "8301" | "8180g2" | "8198";
+
+export interface FirmwareQuirks {
+  // Settings with these prefixes are only applied after /api/controls/reload
+  // (real units keep serving the old value until the main process restarts)
+  reloadRequiredPrefixes: string[];
+  // How long the unit is unreachable while reloading (ms)
+  reloadDurationMs: number;
+  // Writing mcast.mode makes the unit stop answering for this long (ms, 0 = never)
+  // The 8301 does this - which is why the live path changes speakers instead
+  freezeOnMcastModeMs: number;
+  // Auth methods the firmware accepts
+  supportedAuth: Array<"standard" | "basic">;
+  // Allowed clock skew between the Date header and the HMAC timestamp (seconds)
+  hmacClockSkewSec: number;
+}
+
+export interface ModelProfile {
+  productName: string;
+  firmwareVersion: string;
+  hardwareInfo: string;
+  settings: Record<string, string>;
+  tones: string[];
+  quirks: FirmwareQuirks;
+}
+
+// Tones shipped on every Algo unit (matches DEFAULT_TONES in src/lib/algo/announcement-library.ts)
+export const DEFAULT_TONES = [
+  "bell-na.wav",
+  "bell-uk.wav",
+  "buzzer.wav",
+  "chime.wav",
+  "dogs.wav",
+  "gong.wav",
+  "page-notif.wav",
+  "speech-test.wav",
+  "tone-1kHz-max.wav",
+  "warble1-low.wav",
+  "warble2-med.wav",
+  "warble3-high.wav",
+  "warble4-trill.wav",
+];
+
+const BASE_SETTINGS: Record<string, string> = {
+  "mcast.mode": "0",
+  "mcast.zone1": "224.0.2.60:50002",
+  "mcast.zone2": "224.0.2.60:50003",
+  "mcast.tx.fixed": "1",
+  "audio.page.vol": "-45dB",
+  "audio.noise.level": "0",
+  "sip.ext": "",
+  "sip.server": "",
+  "sip.user": "",
+  "sip.pwd": "",
+  "sip.realm": "",
+  "sip.proxy": "",
+  "sip.reg": "1",
+  "sip.reg.expiry": "3600",
+};
+
+const BASE_QUIRKS: FirmwareQuirks = {
+  reloadRequiredPrefixes: ["mcast."],
+  reloadDurationMs: 2000,
+  freezeOnMcastModeMs: 0,
+  supportedAuth: ["standard", "basic"],
+  hmacClockSkewSec: 30,
+};
+
+export const MODEL_PROFILES: Record<SimulatedAlgoModel, ModelProfile> = {
+  "8301": {
+    productName: "8301 IP Paging Adapter & Scheduler",
+    firmwareVersion: "5.4.2",
+    hardwareInfo: "8301 Rev C",
+    settings: { ...BASE_SETTINGS, "mcast.mode": "1", "info.product": "8301" },
+    tones: DEFAULT_TONES,
+    quirks: { ...BASE_QUIRKS, freezeOnMcastModeMs: 8000 },
+  },
+  "8180g2": {
+    productName: "8180G2 IP Audio Alerter",
+    firmwareVersion: "5.4.2",
+    hardwareInfo: "8180G2 Rev B",
+    settings: { ...BASE_SETTINGS, "mcast.mode": "2", "info.product": "8180G2" },
+    tones: DEFAULT_TONES,
+    quirks: { ...BASE_QUIRKS },
+  },
+  "8198": {
+    productName: "8198 PoE+ IP Ceiling Speaker",
+    firmwareVersion: "5.3.4",
+    hardwareInfo: "8198 Rev A",
+    settings: { ...BASE_SETTINGS, "mcast.mode": "2", "info.product": "8198" },
+    tones: DEFAULT_TONES,
+    quirks: { ...BASE_QUIRKS, reloadDurationMs: 3500 },
+  },
+};
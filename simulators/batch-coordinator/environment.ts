@@ -0,0 +1,504 @@
+/**
+ * Fake Browser Environment for BatchCoordinator
+ * Deterministic clock, MediaRecorder, AudioContext and Blob that stand in
+ * for the browser APIs the coordinator touches, so it can run under Node
+ */
+
+// Captured before install() replaces the globals
+const realSetImmediate = setImmediate;
+const RealDate = Date;
+
+type TimerCallback = (...args: unknown[]) => void;
+
+interface Timer {
+  id: number;
+  due: number;
+  interval: number | null;
+  callback: TimerCallback;
+}
+
+// ============ Fake Clock ============
+
+export class FakeClock {
+  now: number;
+  private timers = new Map<number, Timer>();
+  private nextId = 1;
+
+  constructor(start: number) {
+    this.now = start;
+  }
+
+  setTimeout = (callback: TimerCallback, ms = 0): number => {
+    return this.schedule(callback, ms, null);
+  };
+
+  setInterval = (callback: TimerCallback, ms = 0): number => {
+    return this.schedule(callback, ms, Math.max(ms, 1));
+  };
+
+  clearTimer = (id?: number | null): void => {
+    if (id !== undefined && id !== null) {
+      this.timers.delete(id);
+    }
+  };
+
+  /**
+   * Advance the clock, firing every timer that falls due in order.
+   * Pending promise chains are drained after each timer so async code
+   * observes the same ordering it would in a browser event loop.
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.now + ms;
+
+    for (;;) {
+      await this.flush();
+      const next = this.nextDueTimer(target);
+      if (!next) break;
+
+      this.now = next.due;
+      if (next.interval !== null) {
+        next.due += next.interval;
+      } else {
+        this.timers.delete(next.id);
+      }
+      next.callback();
+    }
+
+    this.now = target;
+    await this.flush();
+  }
+
+  /**
+   * Drain pending promise callbacks without moving the clock
+   */
+  async flush(): Promise<void> {
+    for (let i = 0; i < 3; i++) {
+      await new Promise((resolve) => realSetImmediate(resolve));
+    }
+  }
+
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  private schedule(callback: TimerCallback, ms: number, interval: number | null): number {
+    const id = this.nextId++;
+    this.timers.set(id, { id, due: this.now + Math.max(ms, 0), interval, callback });
+    return id;
+  }
+
+  private nextDueTimer(limit: number): Timer | null {
+    let next: Timer | null = null;
+    for (const timer of this.timers.values()) {
+      if (timer.due > limit) continue;
+      if (!next || timer.due < next.due || (timer.due === next.due && timer.id < next.id)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
+
+// ============ Fake Blob ============
+
+/**
+ * Text-backed Blob so assertions can read recordings back synchronously
+ */
+export class FakeBlob {
+  readonly type: string;
+  private readonly content: string;
+
+  constructor(parts: Array<string | FakeBlob> = [], options: { type?: string } = {}) {
+    this.content = parts.map((part) => (typeof part === "string" ? part : part.content)).join("");
+    this.type = options.type ?? "";
+  }
+
+  get size(): number {
+    return this.content.length;
+  }
+
+  contents(): string {
+    return this.content;
+  }
+
+  text(): Promise<string> {
+    return Promise.resolve(this.content);
+  }
+
+  arrayBuffer(): Promise<ArrayBuffer> {
+    return Promise.resolve(new TextEncoder().encode(this.content).buffer as ArrayBuffer);
+  }
+}
+
+// ============ Fake Media ============
+
+/**
+ * Every recorded chunk is a token "source#recorder@time:V|" where V marks
+ * a chunk that overlapped voice activity and "-" marks silence
+ */
+export interface ChunkToken {
+  source: string;
+  recorderId: number;
+  at: number;
+  voiced: boolean;
+}
+
+const CHUNK_PATTERN = /([a-z]+)#(\d+)@(\d+):([V-])\|/g;
+
+export function parseChunks(content: string): ChunkToken[] {
+  return Array.from(content.matchAll(CHUNK_PATTERN), (match) => ({
+    source: match[1],
+    recorderId: parseInt(match[2], 10),
+    at: parseInt(match[3], 10),
+    voiced: match[4] === "V",
+  }));
+}
+
+export function chunkKey(chunk: ChunkToken): string {
+  return `${chunk.source}#${chunk.recorderId}@${chunk.at}`;
+}
+
+export class FakeMediaStream {
+  constructor(
+    readonly label: string,
+    readonly voicedBetween: (from: number, to: number) => boolean
+  ) {}
+}
+
+type RecorderState = "inactive" | "recording" | "paused";
+
+export class FakeMediaRecorder {
+  static readonly supportedTypes = ["audio/webm;codecs=opus", "audio/webm"];
+
+  static isTypeSupported(type: string): boolean {
+    return FakeMediaRecorder.supportedTypes.includes(type);
+  }
+
+  readonly id: number;
+  readonly mimeType: string;
+  state: RecorderState = "inactive";
+  startedAt: number | null = null;
+  stoppedAt: number | null = null;
+  ondataavailable: ((event: { data: FakeBlob }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  private timer: number | null = null;
+  private lastEmit = 0;
+
+  constructor(
+    private env: FakeBrowserEnvironment,
+    readonly stream: FakeMediaStream,
+    options: { mimeType?: string } = {}
+  ) {
+    this.mimeType = options.mimeType ?? "audio/webm";
+    this.id = env.recorders.length + 1;
+    env.recorders.push(this);
+  }
+
+  start(timeslice = 1000): void {
+    if (this.state !== "inactive") return;
+    this.state = "recording";
+    this.startedAt = this.env.clock.now;
+    this.lastEmit = this.env.clock.now;
+    this.timer = this.env.clock.setInterval(() => this.emit(), timeslice);
+  }
+
+  stop(): void {
+    if (this.state === "inactive") return;
+    this.env.clock.clearTimer(this.timer);
+    this.timer = null;
+    this.state = "inactive";
+    this.stoppedAt = this.env.clock.now;
+
+    // Like the browser: final dataavailable, then stop, on a later task
+    this.env.clock.setTimeout(() => {
+      if (this.env.clock.now > this.lastEmit) {
+        this.emit();
+      }
+      this.onstop?.();
+    }, 0);
+  }
+
+  private emit(): void {
+    const now = this.env.clock.now;
+    const voiced = this.stream.voicedBetween(this.lastEmit, now);
+    this.lastEmit = now;
+    const token = `${this.stream.label}#${this.id}@${now}:${voiced ? "V" : "-"}|`;
+    this.env.chunks.push({ source: this.stream.label, recorderId: this.id, at: now, voiced });
+    this.ondataavailable?.({ data: new FakeBlob([token], { type: this.mimeType }) });
+  }
+}
+
+// ============ Fake Web Audio ============
+
+export class FakeAudioParam {
+  readonly ramps: Array<{ at: number; target: number; endTime: number }> = [];
+
+  constructor(public value: number, private context: FakeAudioContext) {}
+
+  cancelScheduledValues(): void {}
+
+  setValueAtTime(value: number): void {
+    this.value = value;
+  }
+
+  // Ramps land immediately - the harness asserts on the requested target
+  linearRampToValueAtTime(value: number, endTime: number): void {
+    this.ramps.push({ at: this.context.currentTime, target: value, endTime });
+    this.value = value;
+  }
+}
+
+class FakeAudioNode {
+  connect<T>(destination: T): T {
+    return destination;
+  }
+
+  disconnect(): void {}
+}
+
+class FakeGainNode extends FakeAudioNode {
+  readonly gain: FakeAudioParam;
+
+  constructor(context: FakeAudioContext) {
+    super();
+    this.gain = new FakeAudioParam(1, context);
+  }
+}
+
+class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+
+  get frequencyBinCount(): number {
+    return this.fftSize / 2;
+  }
+
+  getByteFrequencyData(array: Uint8Array): void {
+    array.fill(0);
+  }
+
+  getByteTimeDomainData(array: Uint8Array): void {
+    array.fill(128);
+  }
+}
+
+export class FakeAudioBuffer {
+  readonly numberOfChannels = 1;
+
+  constructor(readonly duration: number, readonly sampleRate: number, readonly contents: string) {}
+
+  get length(): number {
+    return Math.round(this.duration * this.sampleRate);
+  }
+
+  getChannelData(): Float32Array {
+    return new Float32Array(480).fill(0.1);
+  }
+}
+
+export interface PlaybackEntry {
+  contents: string;
+  start: number;
+  end: number;
+}
+
+class FakeBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+
+  constructor(private context: FakeAudioContext) {
+    super();
+  }
+
+  start(when = 0): void {
+    if (!this.buffer) return;
+    const clock = this.context.env.clock;
+    const start = Math.max(this.context.toClockTime(when), clock.now);
+    const end = start + Math.round(this.buffer.duration * 1000);
+    this.context.playbackLog.push({ contents: this.buffer.contents, start, end });
+    clock.setTimeout(() => this.onended?.(), end - clock.now);
+  }
+
+  stop(): void {}
+}
+
+export class FakeAudioContext {
+  readonly sampleRate = 48000;
+  readonly destination = new FakeAudioNode();
+  readonly playbackLog: PlaybackEntry[] = [];
+  state: "running" | "suspended" | "closed" = "running";
+  private readonly createdAt: number;
+
+  constructor(readonly env: FakeBrowserEnvironment) {
+    this.createdAt = env.clock.now;
+    env.audioContexts.push(this);
+  }
+
+  get currentTime(): number {
+    return (this.env.clock.now - this.createdAt) / 1000;
+  }
+
+  toClockTime(contextTime: number): number {
+    return this.createdAt + Math.round(contextTime * 1000);
+  }
+
+  createGain(): FakeGainNode {
+    return new FakeGainNode(this);
+  }
+
+  createAnalyser(): FakeAnalyserNode {
+    return new FakeAnalyserNode();
+  }
+
+  createBufferSource(): FakeBufferSourceNode {
+    return new FakeBufferSourceNode(this);
+  }
+
+  createMediaStreamDestination(): FakeAudioNode & { stream: FakeMediaStream } {
+    const node = new FakeAudioNode() as FakeAudioNode & { stream: FakeMediaStream };
+    node.stream = new FakeMediaStream("playback", (from, to) => this.wasPlayingVoice(from, to));
+    return node;
+  }
+
+  /**
+   * Each recorded chunk decodes to 100ms of audio
+   */
+  async decodeAudioData(data: ArrayBuffer): Promise<FakeAudioBuffer> {
+    const contents = new TextDecoder().decode(data);
+    const chunks = parseChunks(contents);
+    if (chunks.length === 0) {
+      throw new Error("Unable to decode audio data");
+    }
+    return new FakeAudioBuffer(chunks.length * 0.1, this.sampleRate, contents);
+  }
+
+  async resume(): Promise<void> {
+    if (this.state === "suspended") this.state = "running";
+  }
+
+  async close(): Promise<void> {
+    this.state = "closed";
+  }
+
+  private wasPlayingVoice(from: number, to: number): boolean {
+    return this.playbackLog.some(
+      (entry) => entry.start < to && entry.end > from && entry.contents.includes(":V|")
+    );
+  }
+}
+
+// ============ Environment ============
+
+const FAKE_GLOBALS = [
+  "Date",
+  "setTimeout",
+  "setInterval",
+  "clearTimeout",
+  "clearInterval",
+  "window",
+  "Blob",
+  "MediaRecorder",
+  "AudioContext",
+  "fetch",
+] as const;
+
+/**
+ * Build the replacement globals, bound to one environment
+ */
+function browserGlobals(env: FakeBrowserEnvironment): Record<string, unknown> {
+  const clock = env.clock;
+
+  class ClockDate extends RealDate {
+    constructor(value?: number | string) {
+      super(value ?? clock.now);
+    }
+
+    static now(): number {
+      return clock.now;
+    }
+  }
+
+  const timers = {
+    setTimeout: clock.setTimeout,
+    setInterval: clock.setInterval,
+    clearTimeout: clock.clearTimer,
+    clearInterval: clock.clearTimer,
+  };
+
+  return {
+    ...timers,
+    Date: ClockDate,
+    window: { ...timers },
+    Blob: FakeBlob,
+    MediaRecorder: class extends FakeMediaRecorder {
+      constructor(stream: FakeMediaStream, options?: { mimeType?: string }) {
+        super(env, stream, options);
+      }
+    },
+    AudioContext: class extends FakeAudioContext {
+      constructor() {
+        super(env);
+      }
+    },
+    fetch: async (url: string) => {
+      env.fetches.push(url);
+      return { ok: true, status: 200, json: async () => ({}) };
+    },
+  };
+}
+
+/**
+ * Owns the fake clock and every fake object the coordinator creates.
+ * install() swaps the globals in; uninstall() puts the real ones back.
+ */
+export class FakeBrowserEnvironment {
+  readonly clock: FakeClock;
+  readonly recorders: FakeMediaRecorder[] = [];
+  readonly chunks: ChunkToken[] = [];
+  readonly audioContexts: FakeAudioContext[] = [];
+  readonly fetches: string[] = [];
+  readonly logs: string[] = [];
+
+  private saved = new Map<string, unknown>();
+  private savedConsole: { log: typeof console.log; clear: typeof console.clear } | null = null;
+
+  constructor(start = RealDate.UTC(2025, 0, 15, 18, 0, 0)) {
+    this.clock = new FakeClock(start);
+  }
+
+  install(): void {
+    const g = globalThis as unknown as Record<string, unknown>;
+    for (const name of FAKE_GLOBALS) {
+      this.saved.set(name, g[name]);
+    }
+
+    Object.assign(g, browserGlobals(this));
+
+    // The coordinator logs heavily - keep it for failure reports instead of stdout
+    this.savedConsole = { log: console.log, clear: console.clear };
+    console.log = (...args: unknown[]) => {
+      const message = String(args[0] ?? "").replace(/^%c/, "");
+      this.logs.push(`[${this.clock.now}] ${message}`);
+    };
+    console.clear = () => {};
+  }
+
+  uninstall(): void {
+    const g = globalThis as unknown as Record<string, unknown>;
+    for (const [name, value] of this.saved) {
+      if (value === undefined) {
+        delete g[name];
+      } else {
+        g[name] = value;
+      }
+    }
+    this.saved.clear();
+
+    if (this.savedConsole) {
+      console.log = this.savedConsole.log;
+      console.clear = this.savedConsole.clear;
+      this.savedConsole = null;
+    }
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * BatchCoordinator Harness
+ * Drives a real BatchCoordinator through onAudioDetected/onSilence (and
+ * onRelayChange) on a fake clock and records everything it does: state transitions, hardware calls,
+ * playback and uploads
+ */
+
+import {
+  BatchCoordinator,
+  SystemState,
+  type AudioBatch,
+  type BatchCoordinatorConfig,
+  type LiveCallAnswer,
+} from "../../src/lib/batch-coordinator";
+import {
+  FakeBrowserEnvironment,
+  FakeMediaStream,
+  chunkKey,
+  parseChunks,
+  type ChunkToken,
+  type FakeBlob,
+  type PlaybackEntry,
+} from "./environment";
+
+export interface HarnessOptions {
+  config?: Partial<BatchCoordinatorConfig>;
+  tickMs?: number;               // Audio monitor cadence (default: 50ms)
+  relayPollMs?: number;          // Relay input poll cadence (default: 500ms)
+  hardwareLatencyMs?: number;    // Time each multicast switch takes (default: 1500ms)
+  uploadLatencyMs?: number;      // Time each upload takes (default: 200ms)
+  liveCallLatencyMs?: number;    // Time the server takes to answer a live call report (default: 0ms)
+  liveCallAnswer?: Partial<LiveCallAnswer>; // Devices the server says another call holds (default: none)
+}
+
+export interface RecordedTransition {
+  state: SystemState;
+  at: number;
+}
+
+export interface RecordedUpload {
+  contents: string;
+  mimeType: string;
+  timestamp: number;
+  isPlayback: boolean;
+  at: number;
+}
+
+export interface RecordedHardwareCall {
+  action: string;
+  at: number;
+}
+
+export interface RecordedDoorTrigger {
+  phase: "start" | "end";
+  callStartedAt: number;
+  at: number;
+}
+
+export interface RecordedLiveCallReport {
+  phase: "start" | "end";
+  hardwareCallsBefore: number; // Hardware calls already made when it was reported
+  at: number;
+  answeredAt?: number;         // When the server answered
+}
+
+export class BatchCoordinatorHarness {
+  readonly env = new FakeBrowserEnvironment();
+  readonly coordinator: BatchCoordinator;
+  readonly transitions: RecordedTransition[];
+  readonly uploads: RecordedUpload[] = [];
+  readonly hardwareCalls: RecordedHardwareCall[] = [];
+  readonly doorTriggers: RecordedDoorTrigger[] = [];
+  readonly liveCallReports: RecordedLiveCallReport[] = [];
+  readonly errors: Error[] = [];
+
+  private readonly tickMs: number;
+  private readonly relayPollMs: number;
+  private readonly hardwareLatencyMs: number;
+  private readonly uploadLatencyMs: number;
+  private readonly liveCallLatencyMs: number;
+  private readonly liveCallAnswer: LiveCallAnswer;
+  private readonly mic: FakeMediaStream;
+  private voiceIntervals: Array<{ start: number; end: number }> = [];
+
+  constructor(options: HarnessOptions = {}) {
+    this.tickMs = options.tickMs ?? 50;
+    this.relayPollMs = options.relayPollMs ?? 500;
+    this.hardwareLatencyMs = options.hardwareLatencyMs ?? 1500;
+    this.uploadLatencyMs = options.uploadLatencyMs ?? 200;
+    this.liveCallLatencyMs = options.liveCallLatencyMs ?? 0;
+    this.liveCallAnswer = { yieldDeviceIds: [], heldDeviceIds: [], ...options.liveCallAnswer };
+    this.transitions = [{ state: SystemState.IDLE, at: this.now }];
+    this.mic = new FakeMediaStream("mic", (from, to) => this.voicedBetween(from, to));
+
+    this.env.install();
+    this.coordinator = new BatchCoordinator({ ...this.defaultConfig(), ...options.config });
+  }
+
+  // ============ Lifecycle ============
+
+  /**
+   * Start monitoring - runs the clock through the 200ms silent pre-roll
+   */
+  async start(): Promise<void> {
+    const started = this.coordinator.start(this.mic as unknown as MediaStream);
+    await this.env.clock.advance(300);
+    await started;
+  }
+
+  async abort(): Promise<void> {
+    const aborted = this.coordinator.abort();
+    await this.env.clock.advance(this.tickMs);
+    await aborted;
+  }
+
+  dispose(): void {
+    this.env.uninstall();
+  }
+
+  get now(): number {
+    return this.env.clock.now;
+  }
+
+  // ============ Audio Input ============
+
+  /**
+   * Voice above threshold for `ms`, reported every tick like the monitor loop
+   */
+  async speak(ms: number, level = 0.6): Promise<void> {
+    const interval = { start: this.now, end: this.now };
+    this.voiceIntervals.push(interval);
+
+    for (let elapsed = 0; elapsed < ms; elapsed += this.tickMs) {
+      this.coordinator.onAudioDetected(level);
+      await this.env.clock.advance(this.tickMs);
+      interval.end = this.now;
+    }
+  }
+
+  /**
+   * Below threshold for `ms`, reported every tick
+   */
+  async silence(ms: number): Promise<void> {
+    for (let elapsed = 0; elapsed < ms; elapsed += this.tickMs) {
+      this.coordinator.onSilence();
+      await this.env.clock.advance(this.tickMs);
+    }
+  }
+
+  /**
+   * Mic below threshold for `ms` while the relay input reads `active`,
+   * re-reported every poll like useRelayTrigger
+   */
+  async relay(active: boolean, ms: number): Promise<void> {
+    for (let elapsed = 0; elapsed < ms; elapsed += this.tickMs) {
+      if (elapsed % this.relayPollMs === 0) {
+        this.coordinator.onRelayChange(active);
+      }
+      this.coordinator.onSilence();
+      await this.env.clock.advance(this.tickMs);
+    }
+  }
+
+  /**
+   * Stay silent until the coordinator reaches `state` (throws after maxMs)
+   */
+  async silenceUntil(state: SystemState, maxMs = 60000): Promise<void> {
+    const deadline = this.now + maxMs;
+    while (this.coordinator.getSystemState() !== state) {
+      if (this.now >= deadline) {
+        throw new Error(`Timed out waiting for ${state} (still ${this.coordinator.getSystemState()})`);
+      }
+      await this.silence(this.tickMs);
+    }
+  }
+
+  // ============ Observations ============
+
+  statePath(): SystemState[] {
+    return this.transitions.map((transition) => transition.state);
+  }
+
+  /**
+   * Time the coordinator entered `state` (nth occurrence, default first)
+   */
+  enteredAt(state: SystemState, occurrence = 0): number {
+    const matches = this.transitions.filter((transition) => transition.state === state);
+    if (!matches[occurrence]) {
+      throw new Error(`Never entered ${state} (occurrence ${occurrence}); path: ${this.statePath().join(" → ")}`);
+    }
+    return matches[occurrence].at;
+  }
+
+  inputUploads(): RecordedUpload[] {
+    return this.uploads.filter((upload) => !upload.isPlayback);
+  }
+
+  playbackUploads(): RecordedUpload[] {
+    return this.uploads.filter((upload) => upload.isPlayback);
+  }
+
+  batches(): AudioBatch[] {
+    return this.coordinator.getBatches();
+  }
+
+  batchChunks(batch: AudioBatch): ChunkToken[] {
+    return parseChunks((batch.blob as unknown as FakeBlob | null)?.contents() ?? "");
+  }
+
+  played(): PlaybackEntry[] {
+    return this.env.audioContexts.flatMap((context) => context.playbackLog);
+  }
+
+  /**
+   * The pre-roll recorder captures the init segment; the next mic recorder
+   * is the always-on capture recorder
+   */
+  initSegmentRecorderId(): number {
+    const recorder = this.env.recorders.find((r) => r.stream === this.mic);
+    if (!recorder) throw new Error("Pre-roll recorder never created");
+    return recorder.id;
+  }
+
+  captureRecorders() {
+    const preRollId = this.initSegmentRecorderId();
+    return this.env.recorders.filter((r) => r.stream === this.mic && r.id !== preRollId);
+  }
+
+  /**
+   * Voiced mic chunks the capture recorder produced that never reached an
+   * input upload - any entry here is a lost syllable
+   */
+  lostSyllables(): ChunkToken[] {
+    const uploaded = new Set(this.inputUploads().flatMap((upload) => parseChunks(upload.contents)).map(chunkKey));
+    const captureIds = new Set(this.captureRecorders().map((r) => r.id));
+
+    return this.env.chunks.filter(
+      (chunk) => captureIds.has(chunk.recorderId) && chunk.voiced && !uploaded.has(chunkKey(chunk))
+    );
+  }
+
+  /**
+   * Print the coordinator log tail (for failure reports)
+   */
+  logTail(lines = 40): string {
+    return this.env.logs.slice(-lines).join("\n");
+  }
+
+  // ============ Internals ============
+
+  private voicedBetween(from: number, to: number): boolean {
+    return this.voiceIntervals.some((interval) => interval.start < to && interval.end > from);
+  }
+
+  private defaultConfig(): BatchCoordinatorConfig {
+    const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    return {
+      audioThreshold: 0.05,
+      sustainDuration: 500,
+      batchDuration: 5000,
+      minBatchDuration: 1000,
+      maxBatchDuration: 10000,
+      playbackEnabled: true,
+      playbackDelay: 1000,
+      disableDelay: 8000,
+      tailGuardDuration: 3000,
+      postPlaybackGraceDuration: 750,
+      pagingDevice: {
+        id: "paging-1",
+        name: "Sim Paging 8301",
+        ipAddress: "127.0.0.1:8301",
+      },
+      setPagingMulticastIP: async (active: boolean, skipDeviceIds: string[] = []) => {
+        const skip = skipDeviceIds.length > 0 ? `:skip=${skipDeviceIds.join(",")}` : "";
+        this.hardwareCalls.push({ action: `${active ? "multicast:active" : "multicast:idle"}${skip}`, at: this.now });
+        await delay(this.hardwareLatencyMs);
+      },
+      linkedSpeakers: [{ id: "speaker-1", name: "Sim Bay Speaker", ipAddress: "127.0.0.1:8181", volume: 100 }],
+      setSpeakerVolume: async (speakerId: string, volume: number) => {
+        this.hardwareCalls.push({ action: `volume:${speakerId}:${volume}`, at: this.now });
+      },
+      rampEnabled: false,
+      dayNightMode: false,
+      nightRampDuration: 0,
+      targetVolume: 50,
+      poeDevices: [{ id: "poe-1", name: "Sim Bay Lights", mode: "auto", linkedPagingDevices: ["paging-1"] }],
+      controlPoEDevices: async (deviceIds: string[], action: "on" | "off") => {
+        this.hardwareCalls.push({ action: `poe:${action}:${deviceIds.join(",")}`, at: this.now });
+      },
+      strobeDevices: [{ id: "strobe-1", name: "Sim Bay Strobe" }],
+      controlStrobes: async (deviceIds: string[], action: "on" | "off") => {
+        this.hardwareCalls.push({ action: `strobe:${action}:${deviceIds.join(",")}`, at: this.now });
+      },
+      triggerDoorActions: async (phase: "start" | "end", callStartedAt: number) => {
+        this.hardwareCalls.push({ action: `door:${phase}`, at: this.now });
+        this.doorTriggers.push({ phase, callStartedAt, at: this.now });
+      },
+      reportLiveCall: async (phase: "start" | "end") => {
+        const report: RecordedLiveCallReport = { phase, hardwareCallsBefore: this.hardwareCalls.length, at: this.now };
+        this.liveCallReports.push(report);
+        if (this.liveCallLatencyMs > 0) {
+          await delay(this.liveCallLatencyMs);
+        }
+        report.answeredAt = this.now;
+        return this.liveCallAnswer;
+      },
+      onLog: () => {},
+      onUpload: async (blob: Blob, mimeType: string, timestamp: number, isPlayback?: boolean) => {
+        this.uploads.push({
+          contents: (blob as unknown as FakeBlob).contents(),
+          mimeType,
+          timestamp,
+          isPlayback: isPlayback ?? false,
+          at: this.now,
+        });
+        const url = `sim://recordings/${this.uploads.length}`;
+        await delay(this.uploadLatencyMs);
+        return url;
+      },
+      onError: (error: Error) => {
+        this.errors.push(error);
+      },
+      onStateChange: (state: string) => {
+        this.transitions.push({ state: state as SystemState, at: this.now });
+      },
+    };
+  }
+}
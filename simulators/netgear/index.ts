@@ -0,0 +1,61 @@
+/**
+ * Netgear PoE Switch Simulator
+ * Starts every switch listed in a switches file, each on its own port
+ *
+ * Usage: npm run sim:poe -- [path/to/switches.json]
+ */
+
+import fs from "fs";
+import path from "path";
+import { NetgearSwitchSimulator, type SimulatedSwitchConfig } from "./switch";
+
+interface SwitchesFile {
+  switches: SimulatedSwitchConfig[];
+}
+
+function loadSwitches(filePath: string): SwitchesFile {
+  const file = JSON.parse(fs.readFileSync(filePath, "utf8")) as SwitchesFile;
+
+  if (!Array.isArray(file.switches) || file.switches.length === 0) {
+    throw new Error(`No switches defined in ${filePath}`);
+  }
+
+  for (const sw of file.switches) {
+    if (!sw.name || !sw.port || !sw.password) {
+      throw new Error(`Each switch needs name, port and password: ${JSON.stringify(sw)}`);
+    }
+  }
+
+  return file;
+}
+
+async function main() {
+  const filePath = process.argv[2]
+    ? path.resolve(process.argv[2])
+    : path.join(__dirname, "switches.example.json");
+
+  const { switches } = loadSwitches(filePath);
+  const simulators = switches.map((sw) => new NetgearSwitchSimulator(sw));
+
+  await Promise.all(simulators.map((sim) => sim.start()));
+
+  console.log(`\n[PoESim] ${simulators.length} switch(es) running from ${filePath}`);
+  console.log("[PoESim] Add them in the PoE Devices page with IP address host:port, e.g.:");
+  for (const sim of simulators) {
+    console.log(`  - ${sim.address}`);
+  }
+
+  const shutdown = async () => {
+    console.log("\n[PoESim] Shutting down...");
+    await Promise.all(simulators.map((sim) => sim.stop()));
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("[PoESim] Fatal error:", error);
+  process.exit(1);
+});
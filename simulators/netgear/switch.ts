@@ -0,0 +1,355 @@
+/**
+ * Simulated Netgear GS308EP PoE Switch
+ * Serves the login and PoE port pages NetgearGS308EPController scrapes,
+ * keeps per-port power state, and can inject auth/session/timeout faults
+ */
+
+import http from "http";
+import crypto from "crypto";
+
+export interface SimulatedSwitchConfig {
+  name: string;
+  port: number;
+  host?: string;                 // Bind address (default: 127.0.0.1)
+  password: string;
+  portCount?: number;            // Default: 8
+  initialPortPower?: boolean[];  // Default: all ports on
+  latencyMs?: number;            // Added to every response
+  sessionTtlMs?: number;         // Session expiry (0 = never)
+  maxSessions?: number;          // Concurrent sessions before login is refused (0 = unlimited)
+  hang?: boolean;                // Accept connections but never answer (client timeout)
+  hangPaths?: string[];          // Only hang on these paths
+  offline?: boolean;             // Drop every connection
+}
+
+type RuntimeConfig = Pick<
+  SimulatedSwitchConfig,
+  "password" | "latencyMs" | "sessionTtlMs" | "maxSessions" | "hang" | "hangPaths" | "offline"
+>;
+
+interface Session {
+  sid: string;
+  hash: string;
+  createdAt: number;
+}
+
+/**
+ * Interleave two strings character by character (the switch's login.js merge)
+ */
+function merge(str1: string, str2: string): string {
+  let result = "";
+  const length = Math.max(str1.length, str2.length);
+  for (let i = 0; i < length; i++) {
+    if (i < str1.length) result += str1[i];
+    if (i < str2.length) result += str2[i];
+  }
+  return result;
+}
+
+function md5(data: string): string {
+  return crypto.createHash("md5").update(data).digest("hex");
+}
+
+export class NetgearSwitchSimulator {
+  private config: SimulatedSwitchConfig;
+  private server: http.Server | null = null;
+  private portPower: boolean[];
+  private sessions = new Map<string, Session>();
+  private rand = "";
+  private toggleCount = 0;
+
+  constructor(config: SimulatedSwitchConfig) {
+    this.config = {
+      host: "127.0.0.1",
+      portCount: 8,
+      latencyMs: 0,
+      sessionTtlMs: 0,
+      maxSessions: 0,
+      hang: false,
+      hangPaths: [],
+      offline: false,
+      ...config,
+    };
+    const count = this.config.portCount!;
+    this.portPower = Array.from({ length: count }, (_, i) => config.initialPortPower?.[i] ?? true);
+    this.rotateRand();
+  }
+
+  // ============ Lifecycle ============
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.log(`Handler error: ${error}`);
+        if (!res.headersSent) {
+          res.writeHead(500);
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.config.port, this.config.host, () => resolve());
+    });
+
+    this.log(`Listening on http://${this.config.host}:${this.config.port} (${this.config.portCount} PoE ports)`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  get address(): string {
+    return `${this.config.host}:${this.config.port}`;
+  }
+
+  // ============ Request Handling ============
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readBody(req);
+    const method = req.method || "GET";
+    const path = (req.url || "/").split("?")[0];
+
+    if (path.startsWith("/__sim/")) {
+      this.handleControl(method, path, body, res);
+      return;
+    }
+
+    if (this.config.offline) {
+      req.socket.destroy();
+      return;
+    }
+
+    // Hang: leave the request open so the controller hits its own timeout
+    if (this.config.hang || this.config.hangPaths?.includes(path)) {
+      this.log(`Hanging ${method} ${path}`);
+      return;
+    }
+
+    if (this.config.latencyMs) {
+      await new Promise((resolve) => setTimeout(resolve, this.config.latencyMs));
+    }
+
+    this.expireSessions();
+
+    if (path === "/login.cgi" && method === "GET") {
+      this.sendHtml(res, this.renderLoginPage());
+      return;
+    }
+
+    if (path === "/login.cgi" && method === "POST") {
+      this.handleLogin(body, res);
+      return;
+    }
+
+    if (path === "/PoEPortConfig.cgi") {
+      const session = this.getSession(req);
+      if (!session) {
+        // Real firmware serves the login page instead of an error status
+        this.log(`${method} ${path} - no valid session, serving login page`);
+        this.sendHtml(res, this.renderLoginPage());
+        return;
+      }
+
+      if (method === "GET") {
+        this.sendHtml(res, this.renderPoEPage(session));
+        return;
+      }
+
+      if (method === "POST") {
+        this.handlePortApply(session, body, res);
+        return;
+      }
+    }
+
+    res.writeHead(404, { "Content-Type": "text/html" });
+    res.end("<html><body>404 Not Found</body></html>");
+  }
+
+  private handleLogin(body: string, res: http.ServerResponse): void {
+    const params = new URLSearchParams(body);
+    const submitted = params.get("password") || "";
+    const expected = md5(merge(this.config.password, this.rand));
+
+    // A new rand is issued for every login attempt, like the real switch
+    this.rotateRand();
+
+    if (submitted !== expected) {
+      this.log("Login rejected - bad password");
+      this.sendHtml(res, this.renderLoginPage("The password is invalid."));
+      return;
+    }
+
+    if (this.config.maxSessions && this.sessions.size >= this.config.maxSessions) {
+      this.log(`Login rejected - ${this.sessions.size} sessions already open`);
+      this.sendHtml(res, this.renderLoginPage("The maximum number of attempts has been reached."));
+      return;
+    }
+
+    const session: Session = {
+      sid: crypto.randomBytes(24).toString("hex"),
+      hash: crypto.randomBytes(16).toString("hex"),
+      createdAt: Date.now(),
+    };
+    this.sessions.set(session.sid, session);
+    this.log(`Login OK (${this.sessions.size} open session(s))`);
+
+    res.writeHead(200, {
+      "Content-Type": "text/html",
+      "Set-Cookie": `SID=${session.sid}; PATH=/; HttpOnly`,
+    });
+    res.end("<html><head><script>top.location.href='/index.htm';</script></head></html>");
+  }
+
+  private handlePortApply(session: Session, body: string, res: http.ServerResponse): void {
+    const params = new URLSearchParams(body);
+
+    if (params.get("hash") !== session.hash) {
+      this.log("Apply rejected - stale hash token");
+      this.sendText(res, "ERROR: invalid hash");
+      return;
+    }
+
+    const portID = parseInt(params.get("portID") || "", 10);
+    if (Number.isNaN(portID) || portID < 0 || portID >= this.portPower.length) {
+      this.sendText(res, "ERROR: invalid port");
+      return;
+    }
+
+    const enabled = params.get("ADMIN_MODE") === "1";
+    this.portPower[portID] = enabled;
+    this.toggleCount++;
+    this.log(`Port ${portID + 1} power ${enabled ? "ON" : "OFF"}`);
+    this.sendText(res, "SUCCESS");
+  }
+
+  // ============ Simulator Control ============
+
+  private handleControl(method: string, path: string, body: string, res: http.ServerResponse): void {
+    if (method === "GET" && path === "/__sim/state") {
+      this.sendJson(res, 200, this.snapshot());
+      return;
+    }
+
+    if (method === "POST" && path === "/__sim/config") {
+      let update: RuntimeConfig;
+      try {
+        update = JSON.parse(body || "{}");
+      } catch {
+        this.sendJson(res, 400, { error: "Invalid JSON body" });
+        return;
+      }
+      Object.assign(this.config, update);
+      this.log(`Runtime config updated: ${JSON.stringify(update)}`);
+      this.sendJson(res, 200, this.snapshot());
+      return;
+    }
+
+    if (method === "POST" && path === "/__sim/expire-sessions") {
+      const count = this.sessions.size;
+      this.sessions.clear();
+      this.log(`Expired ${count} session(s)`);
+      this.sendJson(res, 200, this.snapshot());
+      return;
+    }
+
+    this.sendJson(res, 404, { error: "Unknown simulator endpoint" });
+  }
+
+  private snapshot() {
+    return {
+      name: this.config.name,
+      address: this.address,
+      offline: this.config.offline,
+      hang: this.config.hang,
+      openSessions: this.sessions.size,
+      toggleCount: this.toggleCount,
+      ports: this.portPower.map((enabled, i) => ({ port: i + 1, enabled })),
+    };
+  }
+
+  // ============ Session Helpers ============
+
+  private rotateRand(): void {
+    this.rand = String(crypto.randomInt(100000000, 999999999));
+  }
+
+  private expireSessions(): void {
+    if (!this.config.sessionTtlMs) return;
+    const now = Date.now();
+    for (const [sid, session] of this.sessions) {
+      if (now - session.createdAt > this.config.sessionTtlMs) {
+        this.sessions.delete(sid);
+      }
+    }
+  }
+
+  private getSession(req: http.IncomingMessage): Session | null {
+    const match = (req.headers.cookie || "").match(/SID=([^;]+)/);
+    if (!match) return null;
+    return this.sessions.get(match[1]) || null;
+  }
+
+  // ============ Page Rendering ============
+
+  private renderLoginPage(error?: string): string {
+    return `<html><head><title>NETGEAR GS308EP</title></head><body>
+<form method="post" action="/login.cgi">
+<input type=hidden id='rand' value='${this.rand}' disabled>
+<input type="password" name="password" id="password">
+${error ? `<div id="pwdErr" class="pwdErrStyle">${error}</div>` : ""}
+</form></body></html>`;
+  }
+
+  private renderPoEPage(session: Session): string {
+    const items = this.portPower.map((enabled, i) => `<li class="poe_port_list_item poe_port_status">
+  <span class="port_num">${i + 1}</span>
+  <input type="hidden" class="port" value="${i + 1}">
+  <input type="hidden" class="hidPortPwr" id="hidPortPwr" value="${enabled ? 1 : 0}">
+  <span class="pwr_mode_state">${enabled ? "Enable" : "Disable"}</span>
+</li>`).join("\n");
+
+    return `<html><head><title>NETGEAR GS308EP - PoE Port Configuration</title></head><body>
+<form id="poeForm" method="post" action="/PoEPortConfig.cgi">
+<input type=hidden name='hash' id='hash' value="${session.hash}">
+<ul class="poe_port_list">
+${items}
+</ul></form></body></html>`;
+  }
+
+  // ============ Transport Helpers ============
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = "";
+      req.on("data", (chunk) => {
+        data += chunk;
+      });
+      req.on("end", () => resolve(data));
+      req.on("error", reject);
+    });
+  }
+
+  private sendHtml(res: http.ServerResponse, html: string): void {
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(html);
+  }
+
+  private sendText(res: http.ServerResponse, text: string): void {
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end(text);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private log(message: string): void {
+    console.log(`[PoESim:${this.config.name}] ${message}`);
+  }
+}
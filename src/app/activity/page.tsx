@@ -13,6 +13,8 @@ import { useRealtimeSync } from "@/contexts/realtime-sync-context";
 import { ref as dbRef, get, remove } from "firebase/database";
 import { realtimeDb } from "@/lib/firebase/config";
 import type { AudioLogEntry } from "@/contexts/audio-monitoring-context";
+import { useSettings } from "@/contexts/settings-context";
+import { getStationClock, getTimeZoneLabel } from "@/lib/algo/station-time";
 
 export default function ActivityPage() {
   const { user } = useAuth();
@@ -22,27 +24,16 @@ export default function ActivityPage() {
   const [selectedDate, setSelectedDate] = useState<string>("");
   const [copied, setCopied] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const { settings } = useSettings();
+  const timeZone = settings.timezone;
 
-  // Get PST date for initial load and default date picker value
-  const getPSTDate = () => {
-    const now = new Date();
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: 'America/Los_Angeles',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-    });
-    const parts = formatter.formatToParts(now);
-    const year = parts.find(p => p.type === 'year')?.value || '';
-    const month = parts.find(p => p.type === 'month')?.value || '';
-    const day = parts.find(p => p.type === 'day')?.value || '';
-    return `${year}-${month}-${day}`;
-  };
+  // Get station date for initial load and default date picker value
+  const getStationDate = () => getStationClock(new Date(), timeZone).date;
 
-  // Set default date to today (PST) on mount
+  // Set default date to today (station time) once the station timezone is known
   useEffect(() => {
-    setSelectedDate(getPSTDate());
-  }, []);
+    setSelectedDate(getStationClock(new Date(), timeZone).date);
+  }, [timeZone]);
 
   // Load logs when date or user changes
   useEffect(() => {
@@ -104,7 +95,7 @@ export default function ActivityPage() {
   const exportLogs = () => {
     const header = "Timestamp,Type,Audio Level,Threshold,Speakers,Volume,Message,Recording URL\n";
     const rows = logs.map(log => {
-      // log.timestamp is already a PST time string (HH:MM:SS), use it directly
+      // log.timestamp is already a station time string, use it directly
       const timestamp = log.timestamp;
       return `"${timestamp}","${log.type}","${log.audioLevel ?? ''}","${log.audioThreshold ?? ''}","${log.speakersEnabled ?? ''}","${log.volume ?? ''}","${log.message}","${log.recordingUrl ?? ''}"`;
     }).join("\n");
@@ -193,7 +184,7 @@ export default function ActivityPage() {
                     {logs.length} entries on {selectedDate}
                   </CardTitle>
                   <p className="text-sm text-[var(--text-secondary)] mt-1">
-                    All times in PST (Pacific Standard Time)
+                    All times in station time ({timeZone}, {getTimeZoneLabel(new Date(), timeZone)})
                   </p>
                 </div>
               </div>
@@ -211,7 +202,7 @@ export default function ActivityPage() {
                       type="date"
                       value={selectedDate}
                       onChange={(e) => setSelectedDate(e.target.value)}
-                      max={getPSTDate()}
+                      max={getStationDate()}
                       className="w-auto pl-8 [&::-webkit-calendar-picker-indicator]:opacity-0 [&::-webkit-calendar-picker-indicator]:absolute [&::-webkit-calendar-picker-indicator]:right-0 [&::-webkit-calendar-picker-indicator]:w-full [&::-webkit-calendar-picker-indicator]:h-full [&::-webkit-calendar-picker-indicator]:cursor-pointer"
                     />
                   </div>
@@ -289,7 +280,7 @@ export default function ActivityPage() {
                 <table className="w-full text-sm">
                   <thead className="sticky top-0 bg-[var(--bg-secondary)] border-b border-[var(--border-color)] z-10">
                     <tr>
-                      <th className="px-4 py-3 text-left font-semibold text-[var(--text-secondary)]">Time (PST)</th>
+                      <th className="px-4 py-3 text-left font-semibold text-[var(--text-secondary)]">Time</th>
                       <th className="px-4 py-3 text-left font-semibold text-[var(--text-secondary)]">Type</th>
                       <th className="px-4 py-3 text-left font-semibold text-[var(--text-secondary)]">Level</th>
                       <th className="px-4 py-3 text-left font-semibold text-[var(--text-secondary)]">Message</th>
@@ -303,7 +294,7 @@ export default function ActivityPage() {
                         className="border-b border-[var(--border-color)] hover:bg-[var(--bg-tertiary)]/50 transition-colors"
                       >
                         <td className="px-4 py-3 text-[var(--text-muted)] whitespace-nowrap font-mono text-xs">
-                          {log.timestamp /* Already PST formatted HH:MM:SS */}
+                          {log.timestamp /* Already station time */}
                         </td>
                         <td className="px-4 py-3">
                           <Badge variant={getTypeColor(log.type)} className="text-xs">
@@ -0,0 +1,546 @@
+"use client";
+
+import { useEffect, useState, useMemo } from "react";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Megaphone, Play, Plus, Trash2, Save, RefreshCw, AlertTriangle, Moon, Radio } from "lucide-react";
+import {
+  getAnnouncementLog,
+  getAnnouncementPlan,
+  getAudioFiles,
+  getDevices,
+  getZones,
+  setAnnouncementPlan,
+} from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import {
+  MAX_ANNOUNCEMENT_LOOP_SECONDS,
+  describeBlackout,
+  newAnnouncementBlackout,
+  newScheduledAnnouncement,
+  validateScheduledAnnouncement,
+} from "@/lib/algo/announcements";
+import { DEFAULT_TONES, getLibraryFiles } from "@/lib/algo/announcement-library";
+import { describePagingClaim, isLivePagingSource, type PagingClaim } from "@/lib/algo/paging-priority";
+import { WEEKDAY_LABELS, describeWallClockSchedule } from "@/lib/algo/station-time";
+import type { AlgoDevice, AnnouncementBlackout, DistributionLog, ScheduledAnnouncement, Zone } from "@/lib/algo/types";
+import { formatDate } from "@/lib/utils";
+import { useAuth } from "@/contexts/auth-context";
+import { useSettings } from "@/contexts/settings-context";
+
+const LOG_BADGES: Record<DistributionLog["status"], "success" | "warning" | "destructive" | "secondary"> = {
+  success: "success",
+  partial: "warning",
+  failed: "destructive",
+  preempted: "warning",
+  skipped: "secondary",
+};
+
+export default function AnnouncementsPage() {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [libraryTones, setLibraryTones] = useState<string[]>([]);
+  const [announcements, setAnnouncements] = useState<ScheduledAnnouncement[]>([]);
+  const [log, setLog] = useState<DistributionLog[]>([]);
+  const [claims, setClaims] = useState<PagingClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user?.email) {
+      loadData();
+      refreshStatus();
+    }
+    // Only re-run if email changes (more stable)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.email]);
+
+  const pagingDevices = useMemo(() => devices.filter((d) => d.type === "8301"), [devices]);
+  const tones = useMemo(() => [...DEFAULT_TONES, ...libraryTones], [libraryTones]);
+
+  const loadData = async () => {
+    if (!user?.email) return;
+    try {
+      setLoading(true);
+      const [deviceData, zoneData, audioFiles, plan, logData] = await Promise.all([
+        getDevices(user.email),
+        getZones(user.email),
+        getAudioFiles(user.email),
+        getAnnouncementPlan(user.email),
+        getAnnouncementLog(user.email, 50),
+      ]);
+      setDevices(deviceData);
+      setZones(zoneData);
+      setLibraryTones(getLibraryFiles(audioFiles).map((file) => file.filename));
+      setAnnouncements(plan?.announcements ?? []);
+      setLog(logData);
+    } catch (error) {
+      console.error("Failed to load announcements:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshStatus = async () => {
+    if (!user?.email) return;
+    try {
+      const response = await fetch("/api/announcements/status", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ownerEmail: user.email }),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setClaims(data.claims);
+      }
+    } catch (error) {
+      console.error("Failed to read announcement status:", error);
+    }
+  };
+
+  const refreshLog = async () => {
+    if (!user?.email) return;
+    try {
+      setLog(await getAnnouncementLog(user.email, 50));
+    } catch (error) {
+      console.error("Failed to load announcement log:", error);
+    }
+    await refreshStatus();
+  };
+
+  const announcementErrors = useMemo(
+    () => new Map(announcements.map((a) => [a.id, validateScheduledAnnouncement(a, devices, zones)])),
+    [announcements, devices, zones]
+  );
+  const hasErrors = Array.from(announcementErrors.values()).some((errors) => errors.length > 0);
+
+  const addAnnouncement = () => {
+    if (pagingDevices.length === 0) return;
+    setAnnouncements((prev) => [...prev, newScheduledAnnouncement(pagingDevices[0].id)]);
+    setStatus(null);
+  };
+
+  const updateAnnouncement = (id: string, changes: Partial<ScheduledAnnouncement>) => {
+    setAnnouncements((prev) => prev.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+    setStatus(null);
+  };
+
+  const removeAnnouncement = (id: string) => {
+    setAnnouncements((prev) => prev.filter((a) => a.id !== id));
+    setStatus(null);
+  };
+
+  const toggleDay = (announcement: ScheduledAnnouncement, day: number) => {
+    const days = announcement.days ?? [];
+    updateAnnouncement(announcement.id, { days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort() });
+  };
+
+  const toggleZone = (announcement: ScheduledAnnouncement, zoneId: string) => {
+    const zoneIds = announcement.zoneIds.includes(zoneId)
+      ? announcement.zoneIds.filter((id) => id !== zoneId)
+      : [...announcement.zoneIds, zoneId];
+    updateAnnouncement(announcement.id, { zoneIds });
+  };
+
+  const updateBlackout = (announcement: ScheduledAnnouncement, index: number, changes: Partial<AnnouncementBlackout>) => {
+    updateAnnouncement(announcement.id, {
+      blackouts: announcement.blackouts.map((b, i) => (i === index ? { ...b, ...changes } : b)),
+    });
+  };
+
+  const toggleBlackoutDay = (announcement: ScheduledAnnouncement, index: number, day: number) => {
+    const days = announcement.blackouts[index].days;
+    updateBlackout(announcement, index, { days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort() });
+  };
+
+  const handleSave = async () => {
+    if (!user?.email || hasErrors) return;
+    setSaving(true);
+    try {
+      await setAnnouncementPlan({ ownerEmail: user.email, announcements });
+      setStatus("Scheduled announcements saved");
+    } catch (error) {
+      console.error("Failed to save scheduled announcements:", error);
+      setStatus(error instanceof Error ? error.message : "Failed to save scheduled announcements");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePlayNow = async (announcement: ScheduledAnnouncement) => {
+    if (!user?.email) return;
+    setRunning(announcement.id);
+    setStatus(`Playing ${announcement.name}...`);
+    try {
+      const response = await fetch("/api/announcements/run", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ownerEmail: user.email, announcementId: announcement.id, triggeredBy: user.email }),
+      });
+      const data = await response.json();
+      setStatus(
+        data.result
+          ? `${announcement.name}: ${data.result.status}${data.result.note ? ` (${data.result.note})` : ""}`
+          : data.error || `HTTP ${response.status}`
+      );
+      await refreshLog();
+    } catch (error) {
+      console.error("Failed to play announcement:", error);
+      setStatus("Failed to reach the server");
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-[var(--text-primary)]">Announcements</h1>
+            <p className="text-[var(--text-secondary)] text-sm">
+              Scheduled tones and announcements through a paging adapter - live calls always take over
+            </p>
+          </div>
+          <Button variant="outline" onClick={refreshLog}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+
+        {claims.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 p-3 rounded-xl border border-[var(--border-color)] text-sm">
+            <Radio className="h-4 w-4 text-[var(--accent-orange)]" />
+            {claims.map((claim) => (
+              <Badge key={claim.id} variant={claim.source === "scheduled" ? "success" : "warning"}>
+                {claim.source === "scheduled"
+                  ? `Playing ${claim.label}`
+                  : isLivePagingSource(claim.source)
+                    ? `${describePagingClaim(claim)} - announcements held back`
+                    : describePagingClaim(claim)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {/* Scheduled Announcements */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+                  <Megaphone className="h-5 w-5 text-[var(--accent-blue)]" />
+                </div>
+                <div>
+                  <CardTitle>Scheduled Announcements</CardTitle>
+                  <CardDescription>Played by the server at station time ({settings.timezone})</CardDescription>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={addAnnouncement} disabled={loading || pagingDevices.length === 0}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Announcement
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={saving || hasErrors}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">Loading...</p>
+            ) : pagingDevices.length === 0 && announcements.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">Add an 8301 paging adapter to schedule announcements</p>
+            ) : announcements.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">No scheduled announcements</p>
+            ) : (
+              announcements.map((announcement) => {
+                const errors = announcementErrors.get(announcement.id) ?? [];
+                return (
+                  <div key={announcement.id} className="p-4 rounded-xl border border-[var(--border-color)] space-y-3">
+                    <div className="flex items-center gap-3">
+                      <Switch
+                        checked={announcement.enabled}
+                        onCheckedChange={(enabled) => updateAnnouncement(announcement.id, { enabled })}
+                      />
+                      <Input
+                        value={announcement.name}
+                        onChange={(e) => updateAnnouncement(announcement.id, { name: e.target.value })}
+                        placeholder="Announcement name"
+                        className="flex-1"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handlePlayNow(announcement)}
+                        isLoading={running === announcement.id}
+                        disabled={running !== null || errors.length > 0}
+                        title="Plays the saved version now, ignoring blackouts"
+                      >
+                        <Play className="mr-2 h-4 w-4" />
+                        Play now
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => removeAnnouncement(announcement.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                      <div className="space-y-1 md:col-span-2">
+                        <Label className="text-xs">Paging device</Label>
+                        <Select
+                          value={announcement.pagingDeviceId}
+                          onChange={(e) => updateAnnouncement(announcement.id, { pagingDeviceId: e.target.value })}
+                        >
+                          {!pagingDevices.some((d) => d.id === announcement.pagingDeviceId) && (
+                            <option value={announcement.pagingDeviceId}>Deleted device</option>
+                          )}
+                          {pagingDevices.map((device) => (
+                            <option key={device.id} value={device.id}>
+                              {device.name} ({device.ipAddress})
+                            </option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div className="space-y-1 md:col-span-2">
+                        <Label className="text-xs">Tone</Label>
+                        <Select value={announcement.tone} onChange={(e) => updateAnnouncement(announcement.id, { tone: e.target.value })}>
+                          {!tones.includes(announcement.tone) && <option value={announcement.tone}>{announcement.tone} (not in library)</option>}
+                          {tones.map((tone) => (
+                            <option key={tone} value={tone}>
+                              {tone}
+                            </option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Volume (%)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={announcement.volume}
+                          onChange={(e) => updateAnnouncement(announcement.id, { volume: parseInt(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Loop for (s)</Label>
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            checked={announcement.loop}
+                            onCheckedChange={(loop) =>
+                              updateAnnouncement(announcement.id, {
+                                loop,
+                                maxDurationSeconds: loop ? announcement.maxDurationSeconds ?? 30 : undefined,
+                              })
+                            }
+                          />
+                          <Input
+                            type="number"
+                            min={1}
+                            max={MAX_ANNOUNCEMENT_LOOP_SECONDS}
+                            value={announcement.maxDurationSeconds ?? ""}
+                            disabled={!announcement.loop}
+                            onChange={(e) =>
+                              updateAnnouncement(announcement.id, {
+                                maxDurationSeconds: e.target.value ? parseInt(e.target.value) : undefined,
+                              })
+                            }
+                          />
+                        </div>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Repeat</Label>
+                        <Select
+                          value={announcement.repeat}
+                          onChange={(e) => {
+                            const repeat = e.target.value as ScheduledAnnouncement["repeat"];
+                            updateAnnouncement(announcement.id, repeat === "once"
+                              ? { repeat, date: announcement.date ?? new Date().toISOString().slice(0, 10) }
+                              : { repeat, days: announcement.days?.length ? announcement.days : [0, 1, 2, 3, 4, 5, 6] });
+                          }}
+                        >
+                          <option value="weekly">Weekly</option>
+                          <option value="once">Once</option>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Time</Label>
+                        <Input type="time" value={announcement.time} onChange={(e) => updateAnnouncement(announcement.id, { time: e.target.value })} />
+                      </div>
+                      <div className="space-y-1 md:col-span-4">
+                        <Label className="text-xs">{announcement.repeat === "once" ? "Date" : "Days"}</Label>
+                        {announcement.repeat === "once" ? (
+                          <Input
+                            type="date"
+                            value={announcement.date ?? ""}
+                            onChange={(e) => updateAnnouncement(announcement.id, { date: e.target.value })}
+                            className="w-44"
+                          />
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {WEEKDAY_LABELS.map((label, day) => (
+                              <Button
+                                key={label}
+                                variant={(announcement.days ?? []).includes(day) ? "default" : "outline"}
+                                size="sm"
+                                onClick={() => toggleDay(announcement, day)}
+                              >
+                                {label}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Zones</Label>
+                      {zones.length === 0 ? (
+                        <p className="text-xs text-[var(--text-muted)]">No zones yet - create them on Station Zones</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {zones.map((zone) => (
+                            <Button
+                              key={zone.id}
+                              variant={announcement.zoneIds.includes(zone.id) ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => toggleZone(announcement, zone.id)}
+                            >
+                              {zone.name}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-xs">Blackout windows</Label>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateAnnouncement(announcement.id, { blackouts: [...announcement.blackouts, newAnnouncementBlackout()] })}
+                        >
+                          <Moon className="mr-2 h-4 w-4" />
+                          Add Blackout
+                        </Button>
+                      </div>
+                      {announcement.blackouts.map((blackout, index) => (
+                        <div key={index} className="flex flex-wrap items-center gap-2">
+                          <Input
+                            type="time"
+                            value={blackout.start}
+                            onChange={(e) => updateBlackout(announcement, index, { start: e.target.value })}
+                            className="w-32"
+                          />
+                          <span className="text-xs text-[var(--text-muted)]">to</span>
+                          <Input
+                            type="time"
+                            value={blackout.end}
+                            onChange={(e) => updateBlackout(announcement, index, { end: e.target.value })}
+                            className="w-32"
+                          />
+                          <div className="flex flex-wrap gap-1">
+                            {WEEKDAY_LABELS.map((label, day) => (
+                              <Button
+                                key={label}
+                                variant={blackout.days.includes(day) ? "default" : "outline"}
+                                size="sm"
+                                onClick={() => toggleBlackoutDay(announcement, index, day)}
+                              >
+                                {label}
+                              </Button>
+                            ))}
+                          </div>
+                          <span className="text-xs text-[var(--text-muted)]">{describeBlackout(blackout)}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateAnnouncement(announcement.id, { blackouts: announcement.blackouts.filter((_, i) => i !== index) })
+                            }
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    {errors.length > 0 ? (
+                      <div className="space-y-1">
+                        {errors.map((error) => (
+                          <div key={error} className="flex items-center gap-2 text-xs">
+                            <Badge variant="destructive">error</Badge>
+                            <span className="text-[var(--text-secondary)]">{error}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-[var(--text-muted)]">
+                        {describeWallClockSchedule(announcement)} · {announcement.tone} at {announcement.volume}%
+                        {announcement.loop && ` for ${announcement.maxDurationSeconds}s`}
+                        {announcement.blackouts.length > 0 && ` · quiet ${announcement.blackouts.map(describeBlackout).join("; ")}`}
+                      </p>
+                    )}
+                  </div>
+                );
+              })
+            )}
+
+            {status && (
+              <div className="flex items-start gap-2 text-xs text-[var(--text-secondary)]">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {status}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Announcement Log */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Announcement Log</CardTitle>
+            <CardDescription>Every scheduled play, skip and interruption, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {log.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">No announcements played yet</p>
+            ) : (
+              <div className="space-y-2">
+                {log.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-3 p-3 rounded-xl border border-[var(--border-color)] text-sm">
+                    <Badge variant={LOG_BADGES[entry.status]}>{entry.status}</Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-[var(--text-primary)] truncate">
+                        {entry.audioFileName} · {entry.audioFileId}
+                      </p>
+                      <p className="text-xs text-[var(--text-muted)] truncate">
+                        {entry.triggeredBy === "scheduler" ? "Scheduled" : `Manual by ${entry.triggeredBy}`}
+                        {entry.note && ` · ${entry.note}`}
+                        {entry.results.some((r) => !r.success) &&
+                          ` · failed: ${entry.results.filter((r) => !r.success).map((r) => r.deviceName).join(", ")}`}
+                      </p>
+                    </div>
+                    <span className="text-xs text-[var(--text-muted)] whitespace-nowrap">{formatDate(entry.createdAt)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
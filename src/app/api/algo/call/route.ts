@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, getServerDevice, verifyCaller } from "@/lib/firebase/admin";
+import { runSipCall } from "@/lib/sip/calls";
+import { validateSipCallDuration, validateSipCallInterval, validateSipExtension } from "@/lib/algo/sip";
+import type { SipCallAction } from "@/lib/algo/types";
+
+interface SipCallRequest {
+  ownerEmail: string;
+  deviceId: string;
+  action: SipCallAction;
+  extension?: string;          // start only
+  tone?: string;               // Tone file on the device, played before connecting
+  intervalSeconds?: number;    // Tone repeat interval
+  maxDurationSeconds?: number; // Device hangs up after this long
+  triggeredBy?: string;        // User email, for the call log
+}
+
+/**
+ * Place or hang up a SIP call from a paging adapter (logged to sipCallLog)
+ * POST /api/algo/call (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to place calls" }, { status: 401 });
+    }
+
+    const body: SipCallRequest = await request.json();
+    const { ownerEmail, deviceId, action, extension, tone, intervalSeconds, maxDurationSeconds, triggeredBy } = body;
+
+    if (!ownerEmail || !deviceId) {
+      return NextResponse.json({ error: "ownerEmail and deviceId are required" }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+    if (action !== "start" && action !== "stop") {
+      return NextResponse.json({ error: 'action must be "start" or "stop"' }, { status: 400 });
+    }
+    if (action === "start") {
+      const error = validateSipExtension(extension)
+        ?? validateSipCallDuration(maxDurationSeconds)
+        ?? validateSipCallInterval(intervalSeconds);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+    }
+
+    // The run itself resolves the device without an owner check
+    const device = await getServerDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    if (device.ownerEmail !== ownerEmail) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+
+    const result = await runSipCall(
+      {
+        scheduleId: null,
+        name: action === "start" ? `Manual call to ${extension}` : "Manual hang up",
+        deviceId,
+        action,
+        extension,
+        tone,
+        intervalSeconds,
+        maxDurationSeconds,
+        trigger: "manual",
+        triggeredBy,
+      },
+      ownerEmail
+    );
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 500 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("SIP call error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to place call" },
+      { status: 500 }
+    );
+  }
+}
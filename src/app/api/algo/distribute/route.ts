@@ -1,43 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod, AlgoDeviceType } from "@/lib/algo/types";
+import { runAlgoCommand, setAlgoSettings } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice, resolveAlgoDevices, type ResolvedAlgoDevice } from "@/lib/vault/credentials";
+import { percentToPageVolume } from "@/lib/algo/volume";
+import { ensureLibraryFile } from "@/lib/library/sync";
+import { describePagingClaim } from "@/lib/algo/paging-priority";
+import { pagingArbiter } from "@/lib/paging/arbiter";
+import { restoreSpeakers, snapshotSpeakers, type SpeakerSnapshot } from "@/lib/paging/speaker-state";
 
 interface DistributeRequest {
-  device: {
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-    type?: AlgoDeviceType;
-  };
-  speakers?: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  deviceId: string;
+  speakerIds?: string[];
   audioUrl?: string;
   filename?: string;
   loop: boolean;
-  volume: number;
+  volume: number; // 0-100, on the same scale as speaker volumes
 }
 
 // Helper to control speaker multicast mode
 async function setSpeakersMcast(
-  speakers: DistributeRequest["speakers"],
+  speakers: ResolvedAlgoDevice[],
   enable: boolean
 ): Promise<void> {
-  if (!speakers || speakers.length === 0) return;
+  if (speakers.length === 0) return;
 
   const mcastMode = enable ? "2" : "0";
 
   await Promise.all(
     speakers.map(async (speaker) => {
       try {
-        const client = new AlgoClient({
-          ipAddress: speaker.ipAddress,
-          password: speaker.password,
-          authMethod: speaker.authMethod || "basic",
-        });
-        await client.setSetting({ "mcast.mode": mcastMode });
+        await setAlgoSettings(speaker, { "mcast.mode": mcastMode });
       } catch (error) {
         console.error(`Failed to set mcast for ${speaker.ipAddress}:`, error);
       }
@@ -47,15 +39,18 @@ async function setSpeakersMcast(
 
 // Helper to wait for playback to complete
 async function waitForPlaybackComplete(
-  client: AlgoClient,
+  device: ResolvedAlgoDevice,
+  signal: AbortSignal,
   maxWaitMs: number = 30000
 ): Promise<void> {
   const startTime = Date.now();
   const pollInterval = 500;
 
-  while (Date.now() - startTime < maxWaitMs) {
+  while (!signal.aborted && Date.now() - startTime < maxWaitMs) {
     try {
-      const status = await client.getStatus();
+      const status = await runAlgoCommand(device, "get status", (client) => client.getStatus(), {
+        retry: { attempts: 1 },
+      });
       const currentAction = status["Current Action"];
 
       if (!currentAction || currentAction === "None") {
@@ -73,53 +68,116 @@ async function waitForPlaybackComplete(
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to distribute audio" }, { status: 401 });
+    }
+
     const body: DistributeRequest = await request.json();
-    const { device, speakers, filename, loop, volume } = body;
+    const { deviceId, speakerIds, filename, loop, volume } = body;
 
-    if (!device?.ipAddress || !device?.password) {
+    if (!deviceId) {
       return NextResponse.json(
         { error: "Device information is required" },
         { status: 400 }
       );
     }
 
-    const client = new AlgoClient({
-      ipAddress: device.ipAddress,
-      password: device.password,
-      authMethod: device.authMethod || "standard",
-    });
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    const { devices: speakers } = await resolveAlgoDevices(speakerIds || []);
 
-    // Step 1: Enable speakers (if this is a paging device with linked speakers)
-    if (device.type === "8301" && speakers && speakers.length > 0) {
-      console.log("Enabling speakers...");
-      await setSpeakersMcast(speakers, true);
-      await new Promise((resolve) => setTimeout(resolve, 300));
+    if (!(await canActFor(caller, device.ownerEmail, ...speakers.map((speaker) => speaker.ownerEmail)))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
     }
 
-    // Step 2: Set volume if different from default
-    if (volume !== undefined) {
-      const volumeDb = Math.round((volume / 100) * 42 - 42);
-      try {
-        await client.setSetting({ "audio.page.vol": `${volumeDb}dB` });
-      } catch (e) {
-        console.warn("Failed to set volume:", e);
+    // Claim the device (and a paging device's speakers) as a manual test -
+    // anything higher (a live call, a scheduled announcement) refuses or stops it
+    const isPaging = device.type === "8301";
+    let snapshots: SpeakerSnapshot[] = [];
+    let setup: Promise<unknown> = Promise.resolve();
+    const claim = await pagingArbiter.acquire(
+      {
+        id: `distribute:${device.id}`,
+        ownerEmail: device.ownerEmail,
+        source: "manualTest",
+        label: filename || "chime.wav",
+        pagingDeviceIds: isPaging ? [device.id] : [],
+        speakerIds: isPaging ? speakers.map((s) => s.id) : [device.id],
+      },
+      {
+        toneDevice: device,
+        restore: async (isHeld) => {
+          await setup.catch(() => {});
+          await restoreSpeakers(snapshots, { "mcast.mode": "0" }, isHeld);
+        },
       }
+    );
+    if (!claim.granted) {
+      return NextResponse.json(
+        { error: `${describePagingClaim(claim.blockedBy!)} is on the air - try again when it ends` },
+        { status: 409 }
+      );
     }
+    const signal = claim.signal!;
 
-    // Step 3: Play tone
-    const tonePath = filename || "chime.wav";
-    await client.playTone({
-      path: tonePath,
-      loop,
-      mcast: true,
-    });
+    // A looped file keeps its claim until the stop endpoint releases it
+    let keepClaim = false;
+    try {
+      // Push the file from the announcement library if this unit doesn't have it yet
+      const tonePath = filename || "chime.wav";
+      await ensureLibraryFile(device, tonePath);
+
+      // Step 1: Enable speakers (if this is a paging device with linked speakers)
+      if (isPaging && speakers.length > 0) {
+        console.log("Enabling speakers...");
+        setup = (async () => {
+          snapshots = await snapshotSpeakers(speakers, ["mcast.mode"]);
+          if (!signal.aborted) {
+            await setSpeakersMcast(speakers, true);
+          }
+        })();
+        await setup;
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+
+      // Step 2: Set volume if different from default
+      if (volume !== undefined && !signal.aborted) {
+        const { dbString } = percentToPageVolume(volume, device);
+        try {
+          await setAlgoSettings(device, { "audio.page.vol": dbString });
+        } catch (e) {
+          console.warn("Failed to set volume:", e);
+        }
+      }
+
+      // Step 3: Play tone
+      if (!signal.aborted) {
+        await runAlgoCommand(device, `play ${tonePath}`, (client) =>
+          client.playTone({
+            path: tonePath,
+            loop,
+            mcast: true,
+          })
+        );
+      }
+
+      // Step 4: If not looping and has speakers, wait (speakers are restored on release)
+      if (!loop && isPaging && speakers.length > 0) {
+        await waitForPlaybackComplete(device, signal);
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+      keepClaim = loop && !signal.aborted;
+    } finally {
+      if (!keepClaim) {
+        await claim.release!();
+      }
+    }
 
-    // Step 4: If not looping and has speakers, wait and disable
-    if (!loop && device.type === "8301" && speakers && speakers.length > 0) {
-      await waitForPlaybackComplete(client);
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      console.log("Disabling speakers...");
-      await setSpeakersMcast(speakers, false);
+    if (signal.aborted) {
+      return NextResponse.json({ error: `Stopped for ${signal.reason}` }, { status: 409 });
     }
 
     return NextResponse.json({
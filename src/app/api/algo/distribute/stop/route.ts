@@ -1,36 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod, AlgoDeviceType } from "@/lib/algo/types";
+import { runAlgoCommand, setAlgoSettings } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice, resolveAlgoDevices, type ResolvedAlgoDevice } from "@/lib/vault/credentials";
+import { getClaimDeviceIds } from "@/lib/algo/paging-priority";
+import { pagingArbiter } from "@/lib/paging/arbiter";
 
 interface StopRequest {
-  device: {
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-    type?: AlgoDeviceType;
-  };
-  speakers?: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  deviceId: string;
+  speakerIds?: string[];
 }
 
 // Helper to disable speakers
 async function disableSpeakers(
-  speakers: StopRequest["speakers"]
+  speakers: ResolvedAlgoDevice[]
 ): Promise<void> {
-  if (!speakers || speakers.length === 0) return;
+  if (speakers.length === 0) return;
 
   await Promise.all(
     speakers.map(async (speaker) => {
       try {
-        const client = new AlgoClient({
-          ipAddress: speaker.ipAddress,
-          password: speaker.password,
-          authMethod: speaker.authMethod || "basic",
-        });
-        await client.setSetting({ "mcast.mode": "0" });
+        await setAlgoSettings(speaker, { "mcast.mode": "0" });
       } catch (error) {
         console.error(`Failed to disable speaker ${speaker.ipAddress}:`, error);
       }
@@ -40,29 +29,45 @@ async function disableSpeakers(
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to stop distribution" }, { status: 401 });
+    }
+
     const body: StopRequest = await request.json();
-    const { device, speakers } = body;
+    const { deviceId, speakerIds } = body;
 
-    if (!device?.ipAddress || !device?.password) {
+    if (!deviceId) {
       return NextResponse.json(
         { error: "Device information is required" },
         { status: 400 }
       );
     }
 
-    const client = new AlgoClient({
-      ipAddress: device.ipAddress,
-      password: device.password,
-      authMethod: device.authMethod || "standard",
-    });
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    const { devices: speakers } = await resolveAlgoDevices(speakerIds || []);
+
+    if (!(await canActFor(caller, device.ownerEmail, ...speakers.map((speaker) => speaker.ownerEmail)))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
+    }
 
     // Stop the tone
-    await client.stopTone();
+    await runAlgoCommand(device, "stop tone", (client) => client.stopTone());
+
+    // A looped file started here gives its claim back, which restores the
+    // speakers it switched on
+    const { released } = await pagingArbiter.release(device.ownerEmail, `distribute:${device.id}`);
 
-    // Disable speakers if this is a paging device with linked speakers
-    if (device.type === "8301" && speakers && speakers.length > 0) {
+    // Otherwise disable speakers if this is a paging device with linked
+    // speakers - except those another source is using right now
+    const held = new Set(pagingArbiter.getClaims(device.ownerEmail).flatMap(getClaimDeviceIds));
+    const idleSpeakers = speakers.filter((speaker) => !held.has(speaker.id));
+    if (!released && device.type === "8301" && idleSpeakers.length > 0) {
       console.log("Disabling speakers...");
-      await disableSpeakers(speakers);
+      await disableSpeakers(idleSpeakers);
     }
 
     return NextResponse.json({ success: true });
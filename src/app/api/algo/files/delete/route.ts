@@ -1,37 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
-
-// Default tones that shouldn't be deleted
-const DEFAULT_TONES = [
-  "bell-na.wav",
-  "bell-uk.wav",
-  "buzzer.wav",
-  "chime.wav",
-  "dogs.wav",
-  "gong.wav",
-  "page-notif.wav",
-  "speech-test.wav",
-  "tone-1kHz-max.wav",
-  "warble1-low.wav",
-  "warble2-med.wav",
-  "warble3-high.wav",
-  "warble4-trill.wav",
-];
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
+import { DEFAULT_TONES } from "@/lib/algo/announcement-library";
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to manage device files" }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { ipAddress, password, authMethod, filename } = body as {
-      ipAddress: string;
-      password: string;
-      authMethod: AlgoAuthMethod;
+    const { deviceId, filename } = body as {
+      deviceId: string;
       filename: string;
     };
 
-    if (!ipAddress || !password || !filename) {
+    if (!deviceId || !filename) {
       return NextResponse.json(
-        { error: "IP address, password, and filename are required" },
+        { error: "Device ID and filename are required" },
         { status: 400 }
       );
     }
@@ -44,13 +32,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "basic",
-    });
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
 
-    await client.deleteFile(`/tones/${filename}`);
+    await runAlgoCommand(device, `delete tones/${filename}`, (client) =>
+      client.deleteFile(`/tones/${filename}`)
+    );
 
     return NextResponse.json({ success: true });
   } catch (error) {
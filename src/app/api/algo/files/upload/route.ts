@@ -1,44 +1,63 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
+import { LIBRARY_FOLDER } from "@/lib/algo/announcement-library";
+import { toToneFilename, validateAudioUpload } from "@/lib/algo/audio-format";
+import { transcodeTone } from "@/lib/audio/transcode";
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to manage device files" }, { status: 401 });
+    }
+
     const formData = await request.formData();
     const file = formData.get("file") as File;
-    const ipAddress = formData.get("ipAddress") as string;
-    const password = formData.get("password") as string;
-    const authMethod = formData.get("authMethod") as AlgoAuthMethod;
+    const deviceId = formData.get("deviceId") as string;
 
-    if (!file || !ipAddress || !password) {
+    if (!file || !deviceId) {
       return NextResponse.json(
-        { error: "File, IP address, and password are required" },
+        { error: "File and device ID are required" },
         { status: 400 }
       );
     }
 
-    // Validate file type
-    if (!file.name.toLowerCase().endsWith(".wav")) {
-      return NextResponse.json(
-        { error: "Only WAV files are supported" },
-        { status: 400 }
-      );
+    // Validate the bytes, not the name - any audio format is converted to a WAV
+    const data = new Uint8Array(await file.arrayBuffer());
+    const invalid = validateAudioUpload(data);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "basic",
-    });
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
 
-    // Convert File to Buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    let tone;
+    try {
+      tone = await transcodeTone(data);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Couldn't convert the file" },
+        { status: 422 }
+      );
+    }
 
     // Upload to device
-    await client.uploadFile("tones", file.name, buffer);
+    const filename = toToneFilename(file.name);
+    await runAlgoCommand(device, `upload ${LIBRARY_FOLDER}/${filename}`, (client) =>
+      client.uploadFile(LIBRARY_FOLDER, filename, tone.audio)
+    );
 
-    return NextResponse.json({ success: true, filename: file.name });
+    const { audio, ...report } = tone;
+    return NextResponse.json({ success: true, filename, fileSize: audio.length, ...report });
   } catch (error) {
     console.error("Upload error:", error);
     return NextResponse.json(
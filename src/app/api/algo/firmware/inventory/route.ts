@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { canActFor, getServerDevice, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
+import type { FirmwareInventoryEntry } from "@/lib/algo/firmware";
+
+interface FirmwareInventoryRequest {
+  deviceIds: string[];
+  checkAvailable?: boolean; // Also ask each device for the latest firmware (default: true)
+}
+
+/**
+ * Firmware version (and available update) for each device
+ * POST /api/algo/firmware/inventory (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to read firmware versions" }, { status: 401 });
+    }
+
+    const body: FirmwareInventoryRequest = await request.json();
+    const { deviceIds, checkAvailable = true } = body;
+
+    if (!deviceIds || !Array.isArray(deviceIds)) {
+      return NextResponse.json(
+        { error: "Invalid deviceIds array" },
+        { status: 400 }
+      );
+    }
+
+    const storedDevices = await Promise.all(deviceIds.map(getServerDevice));
+    if (!(await canActFor(caller, ...storedDevices.flatMap((device) => (device ? [device.ownerEmail] : []))))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
+    }
+
+    const devices = await Promise.all(
+      deviceIds.map(async (id, index): Promise<FirmwareInventoryEntry | null> => {
+        const stored = storedDevices[index];
+        if (!stored) return null;
+
+        const entry: FirmwareInventoryEntry = {
+          deviceId: id,
+          deviceName: stored.name,
+          type: stored.type,
+          ipAddress: stored.ipAddress,
+        };
+
+        try {
+          const device = await resolveAlgoDevice(id);
+          if (!device) return null;
+
+          const about = await runAlgoCommand(device, "get about", (client) => client.getAbout(), {
+            retry: { attempts: 1 },
+          });
+          entry.productName = about["Product Name"];
+          entry.firmwareVersion = about["Firmware Version"];
+          entry.macAddress = about["MAC Address"];
+
+          if (checkAvailable) {
+            const available = await runAlgoCommand(device, "check firmware", (client) => client.checkFirmware(), {
+              retry: { attempts: 1 },
+            });
+            entry.availableVersion = available.version;
+          }
+        } catch (error) {
+          entry.error = error instanceof Error ? error.message : "Failed to read firmware";
+        }
+        return entry;
+      })
+    );
+
+    const inventory = devices.filter((entry): entry is FirmwareInventoryEntry => entry !== null);
+
+    return NextResponse.json({
+      success: true,
+      checkedAt: new Date().toISOString(),
+      devices: inventory,
+    });
+  } catch (error) {
+    console.error("Firmware inventory error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read firmware inventory" },
+      { status: 500 }
+    );
+  }
+}
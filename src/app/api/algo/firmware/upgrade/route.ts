@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
+
+interface FirmwareUpgradeRequest {
+  deviceId: string;
+}
+
+/**
+ * Start a firmware upgrade on one device (the device reboots)
+ * POST /api/algo/firmware/upgrade (Authorization: Bearer <ID token>)
+ *
+ * Staging, health verification and the rollback report live in
+ * runStagedUpgrade (src/lib/algo/firmware.ts) - this only kicks one unit off.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to upgrade firmware" }, { status: 401 });
+    }
+
+    const body: FirmwareUpgradeRequest = await request.json();
+    const { deviceId } = body;
+
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: "deviceId is required" },
+        { status: 400 }
+      );
+    }
+
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+
+    // Never retried - a second upgrade request mid-flash is the last thing we want
+    await runAlgoCommand(device, "firmware upgrade", (client) => client.startFirmwareUpgrade(), {
+      retry: { attempts: 1 },
+    });
+
+    console.log(`[Firmware] Upgrade started on ${device.name} (${device.ipAddress})`);
+
+    return NextResponse.json({
+      success: true,
+      deviceId,
+      message: `Upgrade started on ${device.name}`,
+    });
+  } catch (error) {
+    console.error("Firmware upgrade error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to start firmware upgrade" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { canActFor, getServerDevice, verifyCaller } from "@/lib/firebase/admin";
+import { checkDeviceHealth } from "@/lib/health/probes";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
 
 interface HealthCheckRequest {
-  devices: Array<{
-    id: string;
-    ipAddress: string;
-    apiPassword: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  deviceIds: string[];
   timeout?: number;
 }
 
@@ -22,121 +18,54 @@ interface DeviceHealth {
   error?: string;
 }
 
-// Check if a single device is reachable and if auth is valid
-async function checkDeviceHealth(
-  ipAddress: string,
-  password: string,
-  authMethod: AlgoAuthMethod,
-  timeout: number = 3000
-): Promise<{
-  isOnline: boolean;
-  authValid?: boolean;
-  responseTime?: number;
-  error?: string;
-}> {
-  const startTime = Date.now();
-
+export async function POST(request: NextRequest) {
   try {
-    // First, check if device is reachable (basic connectivity)
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    const pingResponse = await fetch(`http://${ipAddress}`, {
-      signal: controller.signal,
-      method: "HEAD",
-      headers: {
-        "User-Agent": "AlgoSound-Health/1.0",
-      },
-    });
-
-    clearTimeout(timeoutId);
-    const responseTime = Date.now() - startTime;
-
-    // Device is not reachable
-    if (!pingResponse.ok && pingResponse.status !== 401) {
-      return {
-        isOnline: false,
-        error: `HTTP ${pingResponse.status}`,
-        responseTime,
-      };
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to check device health" }, { status: 401 });
     }
 
-    // Device is reachable, now test authentication
-    try {
-      const client = new AlgoClient({
-        ipAddress,
-        password,
-        authMethod,
-      });
-
-      // Try to get a simple setting (like device info)
-      // This will fail if auth is wrong
-      await client.getSetting("info.product");
-
-      // Auth is valid!
-      return {
-        isOnline: true,
-        authValid: true,
-        responseTime,
-      };
-    } catch (authError) {
-      // Device is online but auth failed
-      return {
-        isOnline: true,
-        authValid: false,
-        responseTime,
-        error: "Invalid credentials",
-      };
-    }
-  } catch (error) {
-    const responseTime = Date.now() - startTime;
-
-    if (error instanceof Error) {
-      if (error.name === "AbortError") {
-        return {
-          isOnline: false,
-          responseTime,
-          error: "Timeout",
-        };
-      }
-      return {
-        isOnline: false,
-        error: error.message,
-        responseTime,
-      };
-    }
-
-    return {
-      isOnline: false,
-      error: "Unknown error",
-      responseTime,
-    };
-  }
-}
-
-export async function POST(request: NextRequest) {
-  try {
     const body: HealthCheckRequest = await request.json();
-    const { devices, timeout = 3000 } = body;
+    const { deviceIds, timeout = 3000 } = body;
 
-    if (!devices || !Array.isArray(devices)) {
+    if (!deviceIds || !Array.isArray(deviceIds)) {
       return NextResponse.json(
-        { error: "Invalid devices array" },
+        { error: "Invalid deviceIds array" },
         { status: 400 }
       );
     }
 
-    console.log(`[Health Check] Checking ${devices.length} devices...`);
+    console.log(`[Health Check] Checking ${deviceIds.length} devices...`);
+
+    // Missing devices are reported per entry below, not refused here
+    const storedDevices = await Promise.all(deviceIds.map(getServerDevice));
+    if (!(await canActFor(caller, ...storedDevices.flatMap((device) => (device ? [device.ownerEmail] : []))))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
+    }
 
     // Check all devices in parallel
     const healthChecks = await Promise.all(
-      devices.map(async (device): Promise<DeviceHealth> => {
-        const health = await checkDeviceHealth(
-          device.ipAddress,
-          device.apiPassword,
-          device.authMethod,
-          timeout
-        );
+      deviceIds.map(async (id): Promise<DeviceHealth> => {
+        let device;
+        try {
+          device = await resolveAlgoDevice(id);
+        } catch (error) {
+          // Missing credentials - report it instead of failing the whole sweep
+          device = null;
+          console.error(`[Health Check] ${id}:`, error);
+        }
+
+        if (!device) {
+          return {
+            id,
+            ipAddress: "",
+            isOnline: false,
+            lastChecked: new Date().toISOString(),
+            error: "Device not found or credentials missing",
+          };
+        }
+
+        const health = await checkDeviceHealth(device, timeout);
 
         return {
           id: device.id,
@@ -163,7 +92,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       checkedAt: new Date().toISOString(),
-      totalDevices: devices.length,
+      totalDevices: deviceIds.length,
       onlineCount,
       offlineCount,
       authIssuesCount,
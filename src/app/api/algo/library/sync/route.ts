@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, getServerDevice, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
+import { getLibrary, syncDeviceLibrary, type LibraryAudioCache } from "@/lib/library/sync";
+import type { LibraryDeviceReport } from "@/lib/algo/announcement-library";
+
+interface LibrarySyncRequest {
+  ownerEmail: string;
+  deviceIds: string[];
+  apply?: boolean;         // Push missing / mismatched files (default: false = check only)
+  verifySizes?: boolean;   // Compare file sizes, not just names (default: false)
+  removeOrphans?: boolean; // Also delete files not in the library (default: false)
+}
+
+/**
+ * Compare (and optionally sync) each device's tones with the announcement library
+ * POST /api/algo/library/sync (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to sync the announcement library" }, { status: 401 });
+    }
+
+    const body: LibrarySyncRequest = await request.json();
+    const { ownerEmail, deviceIds, apply = false, verifySizes = false, removeOrphans = false } = body;
+
+    if (!ownerEmail) {
+      return NextResponse.json({ error: "Owner email is required" }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+    if (!deviceIds || !Array.isArray(deviceIds)) {
+      return NextResponse.json(
+        { error: "Invalid deviceIds array" },
+        { status: 400 }
+      );
+    }
+
+    const library = await getLibrary(ownerEmail);
+    const cache: LibraryAudioCache = new Map();
+
+    const devices = await Promise.all(
+      deviceIds.map(async (id): Promise<LibraryDeviceReport | null> => {
+        const stored = await getServerDevice(id);
+        if (!stored || stored.ownerEmail !== ownerEmail) return null;
+
+        try {
+          const device = await resolveAlgoDevice(id);
+          if (!device) return null;
+          return await syncDeviceLibrary(device, library, { apply, verifySizes, removeOrphans }, cache);
+        } catch (error) {
+          return {
+            deviceId: id,
+            deviceName: stored.name,
+            type: stored.type,
+            ipAddress: stored.ipAddress,
+            present: [],
+            missing: [],
+            sizeMismatch: [],
+            orphans: [],
+            pushed: [],
+            removed: [],
+            failed: [],
+            inSync: false,
+            error: error instanceof Error ? error.message : "Failed to resolve device",
+          };
+        }
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      checkedAt: new Date().toISOString(),
+      library: library.map((file) => ({ id: file.id, name: file.name, filename: file.filename, fileSize: file.fileSize })),
+      devices: devices.filter((entry): entry is LibraryDeviceReport => entry !== null),
+    });
+  } catch (error) {
+    console.error("Library sync error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to sync announcement library" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { toToneFilename, validateAudioUpload } from "@/lib/algo/audio-format";
+import { transcodeTone } from "@/lib/audio/transcode";
+
+/**
+ * Convert a file for the announcement library. The browser stores the WAV
+ * this returns, with the duration from its headers.
+ * POST /api/algo/library/transcode (multipart: file)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    if (!file) {
+      return NextResponse.json({ error: "File is required" }, { status: 400 });
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const invalid = validateAudioUpload(data);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    let tone;
+    try {
+      tone = await transcodeTone(data);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Couldn't convert the file" },
+        { status: 422 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(tone.audio), {
+      headers: {
+        "Content-Type": "audio/wav",
+        "Content-Length": String(tone.audio.length),
+        "X-Tone-Filename": toToneFilename(file.name),
+        "X-Tone-Format": tone.format,
+        "X-Tone-Duration": String(tone.duration),
+        "X-Tone-Loudness": String(tone.loudness),
+        "X-Tone-Gain": String(tone.gainDb),
+        "X-Tone-Peak-Limited": String(tone.peakLimited),
+        "X-Tone-Trimmed": String(tone.trimmedSeconds),
+      },
+    });
+  } catch (error) {
+    console.error("Library transcode error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to convert file" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,25 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { runAlgoCommand, setAlgoSettings } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice, resolveAlgoDevices, type ResolvedAlgoDevice } from "@/lib/vault/credentials";
+import { ensureLibraryFile } from "@/lib/library/sync";
+import { describePagingClaim } from "@/lib/algo/paging-priority";
+import { pagingArbiter } from "@/lib/paging/arbiter";
+import { restoreSpeakers, snapshotSpeakers, type SpeakerSnapshot } from "@/lib/paging/speaker-state";
 
 interface PlayRequest {
-  paging: {
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  };
-  speakers: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  pagingId: string;
+  speakerIds: string[];
   tone: string;
   loop?: boolean;
 }
 
 // Helper to control speaker multicast mode
 async function setSpeakersMcast(
-  speakers: PlayRequest["speakers"],
+  speakers: ResolvedAlgoDevice[],
   enable: boolean
 ): Promise<void> {
   const mcastMode = enable ? "2" : "0";
@@ -27,12 +24,7 @@ async function setSpeakersMcast(
   await Promise.all(
     speakers.map(async (speaker) => {
       try {
-        const client = new AlgoClient({
-          ipAddress: speaker.ipAddress,
-          password: speaker.password,
-          authMethod: speaker.authMethod || "basic",
-        });
-        await client.setSetting({ "mcast.mode": mcastMode });
+        await setAlgoSettings(speaker, { "mcast.mode": mcastMode });
       } catch (error) {
         console.error(`Failed to set mcast for ${speaker.ipAddress}:`, error);
       }
@@ -42,15 +34,18 @@ async function setSpeakersMcast(
 
 // Helper to wait for paging device to finish playing
 async function waitForPlaybackComplete(
-  client: AlgoClient,
+  device: ResolvedAlgoDevice,
+  signal: AbortSignal,
   maxWaitMs: number = 30000
 ): Promise<void> {
   const startTime = Date.now();
   const pollInterval = 500; // Check every 500ms
 
-  while (Date.now() - startTime < maxWaitMs) {
+  while (!signal.aborted && Date.now() - startTime < maxWaitMs) {
     try {
-      const status = await client.getStatus();
+      const status = await runAlgoCommand(device, "get status", (client) => client.getStatus(), {
+        retry: { attempts: 1 },
+      });
       const currentAction = status["Current Action"];
 
       // If no action or action is "None", playback is complete
@@ -71,10 +66,15 @@ async function waitForPlaybackComplete(
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to play tones" }, { status: 401 });
+    }
+
     const body: PlayRequest = await request.json();
-    const { paging, speakers, tone, loop = false } = body;
+    const { pagingId, speakerIds, tone, loop = false } = body;
 
-    if (!paging?.ipAddress || !paging?.password) {
+    if (!pagingId) {
       return NextResponse.json(
         { error: "Paging device info is required" },
         { status: 400 }
@@ -88,37 +88,92 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const pagingClient = new AlgoClient({
-      ipAddress: paging.ipAddress,
-      password: paging.password,
-      authMethod: paging.authMethod || "basic",
-    });
+    const paging = await resolveAlgoDevice(pagingId);
+    if (!paging) {
+      return NextResponse.json({ error: "Paging device not found" }, { status: 404 });
+    }
+    const { devices: speakers } = await resolveAlgoDevices(speakerIds || []);
 
-    // Step 1: Enable speakers (if any)
-    if (speakers && speakers.length > 0) {
-      await setSpeakersMcast(speakers, true);
-      // Small delay to ensure speakers are ready
-      await new Promise((resolve) => setTimeout(resolve, 300));
+    if (!(await canActFor(caller, paging.ownerEmail, ...speakers.map((speaker) => speaker.ownerEmail)))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
     }
 
-    // Step 2: Play the tone
-    await pagingClient.playTone({
-      path: tone,
-      loop,
-      mcast: true,
-    });
+    // Claim the paging device and speakers as a manual test - anything
+    // higher (a live call, a scheduled announcement) refuses or stops it
+    let snapshots: SpeakerSnapshot[] = [];
+    let setup: Promise<unknown> = Promise.resolve();
+    const claim = await pagingArbiter.acquire(
+      {
+        id: `play:${paging.id}`,
+        ownerEmail: paging.ownerEmail,
+        source: "manualTest",
+        label: tone,
+        pagingDeviceIds: [paging.id],
+        speakerIds: speakers.map((s) => s.id),
+      },
+      {
+        toneDevice: paging,
+        restore: async (isHeld) => {
+          await setup.catch(() => {});
+          await restoreSpeakers(snapshots, { "mcast.mode": "0" }, isHeld);
+        },
+      }
+    );
+    if (!claim.granted) {
+      return NextResponse.json(
+        { error: `${describePagingClaim(claim.blockedBy!)} is on the air - try again when it ends` },
+        { status: 409 }
+      );
+    }
+    const signal = claim.signal!;
 
-    // Step 3: If not looping, wait for completion then disable speakers
-    if (!loop && speakers && speakers.length > 0) {
-      // Wait for playback to complete (polls status)
-      await waitForPlaybackComplete(pagingClient);
+    // A looped tone keeps its claim until the stop endpoint releases it
+    let keepClaim = false;
+    try {
+      // Push the tone from the announcement library if this unit doesn't have it yet
+      await ensureLibraryFile(paging, tone);
+
+      // Step 1: Enable speakers (if any) - the stop restores what they had
+      if (speakers.length > 0) {
+        setup = (async () => {
+          snapshots = await snapshotSpeakers(speakers, ["mcast.mode"]);
+          if (!signal.aborted) {
+            await setSpeakersMcast(speakers, true);
+          }
+        })();
+        await setup;
+        // Small delay to ensure speakers are ready
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+
+      // Step 2: Play the tone
+      if (!signal.aborted) {
+        await runAlgoCommand(paging, `play ${tone}`, (client) =>
+          client.playTone({
+            path: tone,
+            loop,
+            mcast: true,
+          })
+        );
+      }
 
-      // Small buffer after playback ends
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      // Step 3: If not looping, wait for completion (speakers are restored on release)
+      if (!loop && speakers.length > 0) {
+        // Wait for playback to complete (polls status)
+        await waitForPlaybackComplete(paging, signal);
+
+        // Small buffer after playback ends
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+      keepClaim = loop && !signal.aborted;
+    } finally {
+      if (!keepClaim) {
+        await claim.release!();
+      }
+    }
 
-      // Disable speakers
-      console.log("Disabling speakers...");
-      await setSpeakersMcast(speakers, false);
+    if (signal.aborted) {
+      return NextResponse.json({ error: `Stopped for ${signal.reason}` }, { status: 409 });
     }
 
     return NextResponse.json({
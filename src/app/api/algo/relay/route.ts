@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, getServerDevices, verifyCaller } from "@/lib/firebase/admin";
+import { readRelayInput } from "@/lib/doors/actions";
+import { hasRelayInput } from "@/lib/algo/door-actions";
+import { resolveAlgoDevices } from "@/lib/vault/credentials";
+import type { RelayInputReading } from "@/lib/algo/types";
+
+interface RelayRequest {
+  ownerEmail?: string;  // Every relay-capable device this user owns
+  deviceIds?: string[]; // Or just these
+}
+
+/**
+ * Read relay input state (contact closures)
+ * POST /api/algo/relay (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to read relay inputs" }, { status: 401 });
+    }
+
+    const body: RelayRequest = await request.json();
+    if (body.ownerEmail && !(await canActFor(caller, body.ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+
+    let deviceIds = body.deviceIds;
+    if (!deviceIds && body.ownerEmail) {
+      deviceIds = (await getServerDevices(body.ownerEmail)).filter(hasRelayInput).map((d) => d.id);
+    }
+    if (!deviceIds) {
+      return NextResponse.json({ error: "ownerEmail or deviceIds is required" }, { status: 400 });
+    }
+
+    const { devices } = await resolveAlgoDevices(deviceIds);
+    if (!(await canActFor(caller, ...devices.map((device) => device.ownerEmail)))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
+    }
+    const readings: RelayInputReading[] = await Promise.all(
+      devices.map(async (device) => {
+        try {
+          const { state, raw } = await readRelayInput(device);
+          return { deviceId: device.id, deviceName: device.name, state, raw };
+        } catch (error) {
+          return {
+            deviceId: device.id,
+            deviceName: device.name,
+            state: "unknown" as const,
+            error: error instanceof Error ? error.message : "Failed to read relay input",
+          };
+        }
+      })
+    );
+
+    return NextResponse.json({ readings, readAt: Date.now() });
+  } catch (error) {
+    console.error("Relay read error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read relay inputs" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,32 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
 
 interface ReloadRequest {
-  ipAddress: string;
-  password: string;
-  authMethod?: AlgoAuthMethod;
+  deviceId: string;
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to reload devices" }, { status: 401 });
+    }
+
     const body: ReloadRequest = await request.json();
-    const { ipAddress, password, authMethod } = body;
+    const { deviceId } = body;
 
-    if (!ipAddress || !password) {
+    if (!deviceId) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "standard",
-    });
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
 
-    await client.reload();
+    await runAlgoCommand(device, "reload", (client) => client.reload());
 
     return NextResponse.json({ success: true });
   } catch (error) {
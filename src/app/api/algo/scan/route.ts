@@ -1,89 +1,123 @@
 import { NextRequest, NextResponse } from "next/server";
 import { networkInterfaces } from "os";
-
-interface DiscoveredDevice {
-  ipAddress: string;
-  model: string;
-  type: "8301" | "8180" | "8188" | "unknown";
-  name?: string;
-  reachable: boolean;
-}
+import { AlgoClient } from "@/lib/algo/client";
+import {
+  deviceTypeFromProductName,
+  matchStoredDevice,
+  normalizeMac,
+  parseScanRange,
+  rangeAddresses,
+  type DiscoveredDevice,
+  type ParsedRange,
+  type ScanEvent,
+} from "@/lib/algo/discovery";
+import { getServerDevices, updateServerDevice, verifyCaller } from "@/lib/firebase/admin";
+import { getDeviceCredential } from "@/lib/vault/credentials";
+import type { AlgoAuthMethod, AlgoDevice } from "@/lib/algo/types";
 
 interface ScanRequest {
-  networkRange?: string; // e.g., "192.168.68"
-  timeout?: number; // milliseconds per IP
+  range?: string;        // CIDR, e.g. "10.0.4.0/22" (default: the server's own subnet)
+  networkRange?: string; // Old form, e.g. "192.168.68" - scanned as a /24
+  ownerEmail?: string;   // Match results against this user's stored devices, and try their passwords (needs their ID token)
+  password?: string;     // Tried first on every host (default: "algo", the factory password)
+  authMethod?: AlgoAuthMethod; // Default: standard, then basic
+  timeout?: number;      // Milliseconds per host (default: 2000)
+  concurrency?: number;  // Hosts probed at once (default: 32, max: 64)
 }
 
-// Detect Algo device by fetching its web interface
-async function detectAlgoDevice(
-  ipAddress: string,
-  timeout: number = 2000
-): Promise<DiscoveredDevice | null> {
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    const response = await fetch(`http://${ipAddress}`, {
-      signal: controller.signal,
-      headers: {
-        "User-Agent": "AlgoSound-Scanner/1.0",
-      },
-    });
+const MAX_CONCURRENCY = 64;
 
-    clearTimeout(timeoutId);
+// How often progress is streamed (every N hosts)
+const PROGRESS_EVERY = 16;
 
-    if (!response.ok) {
-      return null;
-    }
+const isUnauthorized = (error: unknown): boolean =>
+  error instanceof Error && /\b401\b/.test(error.message);
 
-    const html = await response.text();
+// A password to try, how to send it, and the stored device it came from (none for the scan password)
+interface ScanCredential {
+  password: string;
+  authMethods: AlgoAuthMethod[];
+  deviceId?: string;
+}
 
-    // Check for Algo device signatures
-    const isAlgo =
-      html.includes("Algo") ||
-      html.includes("8301") ||
-      html.includes("8180") ||
-      html.includes("8188") ||
-      html.includes("IP Paging") ||
-      html.includes("IP Speaker");
+/**
+ * The vault passwords of the owner's stored devices, by the address each
+ * device is stored at - devices without one are left out
+ */
+async function getStoredCredentials(stored: AlgoDevice[]): Promise<Map<string, ScanCredential[]>> {
+  const byAddress = new Map<string, ScanCredential[]>();
+
+  for (const device of stored) {
+    const password = await getDeviceCredential(device.id).catch(() => null);
+    if (password === null) continue;
+    // Standard auth only - it never puts the password on the wire, so an
+    // unknown host sitting on a stored address learns nothing from the attempt
+    const credential: ScanCredential = { password, authMethods: ["standard"], deviceId: device.id };
+    byAddress.set(device.ipAddress, [...(byAddress.get(device.ipAddress) ?? []), credential]);
+  }
+  return byAddress;
+}
 
-    if (!isAlgo) {
-      return null;
-    }
+/**
+ * Passwords for one host: the scan password, then the password of a device
+ * stored at that address. A device's password is never tried anywhere else.
+ */
+function credentialsFor(
+  ipAddress: string,
+  scanPassword: string,
+  authMethods: AlgoAuthMethod[],
+  stored: Map<string, ScanCredential[]>
+): ScanCredential[] {
+  const here = (stored.get(ipAddress) ?? []).filter((credential) => credential.password !== scanPassword);
+  return [{ password: scanPassword, authMethods }, ...here];
+}
 
-    // Detect model type
-    let type: "8301" | "8180" | "8188" | "unknown" = "unknown";
-    let model = "Unknown Algo Device";
-
-    if (html.includes("8301") || html.includes("IP Paging Adapter")) {
-      type = "8301";
-      model = "Algo 8301 IP Paging Adapter";
-    } else if (html.includes("8180") || html.includes("IP Speaker")) {
-      type = "8180";
-      model = "Algo 8180 IP Speaker";
-    } else if (html.includes("8188")) {
-      type = "8188";
-      model = "Algo 8188 IP Speaker";
+/**
+ * Identify a host from /api/info/about, trying each password until one
+ * isn't refused
+ * Not a stored device yet, so this talks to AlgoClient directly instead of
+ * going through the command dispatcher.
+ */
+async function identifyHost(
+  ipAddress: string,
+  credentials: ScanCredential[],
+  timeout: number
+): Promise<DiscoveredDevice | null> {
+  let unauthorized = false;
+
+  for (const { password, authMethods, deviceId } of credentials) {
+    for (const authMethod of authMethods) {
+      try {
+        const client = new AlgoClient({ ipAddress, password, authMethod, timeoutMs: timeout });
+        const about = await client.getAbout();
+        if (!about?.["Product Name"]) {
+          return null; // Answers JSON, but not an Algo
+        }
+        return {
+          ipAddress,
+          type: deviceTypeFromProductName(about["Product Name"]),
+          productName: about["Product Name"],
+          firmwareVersion: about["Firmware Version"],
+          macAddress: normalizeMac(about["MAC Address"]),
+          authMethod,
+          ...(deviceId ? { passwordFromDeviceId: deviceId } : {}),
+        };
+      } catch (error) {
+        if (!isUnauthorized(error)) {
+          return null; // Nothing there, not an Algo, or timed out
+        }
+        unauthorized = true;
+      }
     }
-
-    // Try to extract device name from title
-    const titleMatch = html.match(/<title>(.*?)<\/title>/i);
-    const name = titleMatch ? titleMatch[1].trim() : undefined;
-
-    return {
-      ipAddress,
-      model,
-      type,
-      name,
-      reachable: true,
-    };
-  } catch (error) {
-    // Timeout, network error, or not reachable
-    return null;
   }
+
+  // Has the Algo API but rejected every password - list it so it can be added by hand
+  return unauthorized ? { ipAddress, type: "other", authRequired: true } : null;
 }
 
-// Get the local network range from network interfaces
+/**
+ * The server's own subnet (as CIDR), capped to a /24 around its address
+ */
 function getLocalNetworkRange(): string {
   const nets = networkInterfaces();
 
@@ -94,76 +128,128 @@ function getLocalNetworkRange(): string {
     for (const net of netInfo) {
       // Skip internal and non-IPv4 addresses
       if (net.family === "IPv4" && !net.internal) {
-        // Extract network prefix (e.g., "192.168.68" from "192.168.68.100")
-        const parts = net.address.split(".");
-        return `${parts[0]}.${parts[1]}.${parts[2]}`;
+        const prefix = Number(net.cidr?.split("/")[1] ?? 24);
+        return prefix >= 24 && net.cidr ? net.cidr : `${net.address}/24`;
       }
     }
   }
 
   // Default fallback
-  return "192.168.1";
+  return "192.168.1.0/24";
 }
 
-// Scan a range of IPs in parallel (with concurrency limit)
-async function scanNetwork(
-  networkRange: string,
-  timeout: number
-): Promise<DiscoveredDevice[]> {
-  const devices: DiscoveredDevice[] = [];
-  const CONCURRENCY = 20; // Scan 20 IPs at a time
-
-  // Generate all IPs to scan (1-254)
-  const ipsToScan: string[] = [];
-  for (let i = 1; i <= 254; i++) {
-    ipsToScan.push(`${networkRange}.${i}`);
-  }
-
-  // Scan in chunks to avoid overwhelming the network
-  for (let i = 0; i < ipsToScan.length; i += CONCURRENCY) {
-    const chunk = ipsToScan.slice(i, i + CONCURRENCY);
-    const results = await Promise.all(
-      chunk.map((ip) => detectAlgoDevice(ip, timeout))
-    );
-
-    // Add found devices
-    results.forEach((device) => {
-      if (device) {
-        devices.push(device);
-      }
+/**
+ * Match a result against the stored devices; a known MAC on a new IP moves
+ * the existing record instead of leaving a duplicate to be added
+ */
+async function reconcile(found: DiscoveredDevice, stored: AlgoDevice[]): Promise<boolean> {
+  const existing = matchStoredDevice(found, stored);
+  if (!existing) return false;
+
+  found.existingDeviceId = existing.id;
+  const moved = existing.ipAddress !== found.ipAddress;
+
+  if (moved || (found.macAddress && !existing.macAddress)) {
+    await updateServerDevice(existing.id, {
+      ipAddress: found.ipAddress,
+      ...(found.macAddress ? { macAddress: found.macAddress } : {}),
     });
   }
-
-  return devices;
+  if (moved) {
+    found.previousIpAddress = existing.ipAddress;
+    console.log(`[Scan] ${found.macAddress} moved ${existing.ipAddress} → ${found.ipAddress}, updated device ${existing.id}`);
+  }
+  return moved;
 }
 
 export async function POST(request: NextRequest) {
+  let body: ScanRequest;
+  let range: ParsedRange;
   try {
-    const body: ScanRequest = await request.json().catch(() => ({}));
-
-    const networkRange = body.networkRange || getLocalNetworkRange();
-    const timeout = body.timeout || 2000;
-
-    console.log(`[Scan] Scanning network: ${networkRange}.0/24`);
-
-    const devices = await scanNetwork(networkRange, timeout);
-
-    console.log(`[Scan] Found ${devices.length} Algo devices`);
-
-    return NextResponse.json({
-      success: true,
-      networkRange: `${networkRange}.0/24`,
-      devicesFound: devices.length,
-      devices,
-    });
+    body = await request.json().catch(() => ({}));
+    range = parseScanRange(body.range || body.networkRange || getLocalNetworkRange());
   } catch (error) {
-    console.error("Network scan error:", error);
     return NextResponse.json(
-      {
-        error:
-          error instanceof Error ? error.message : "Failed to scan network",
-      },
-      { status: 500 }
+      { error: error instanceof Error ? error.message : "Invalid range" },
+      { status: 400 }
     );
   }
+
+  // Stored devices and their passwords are only used for their own owner
+  if (body.ownerEmail) {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to match your stored devices" }, { status: 401 });
+    }
+    if (caller.email !== body.ownerEmail) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+  }
+
+  const password = body.password || "algo";
+  const authMethods: AlgoAuthMethod[] = body.authMethod ? [body.authMethod] : ["standard", "basic"];
+  const timeout = body.timeout || 2000;
+  const concurrency = Math.min(Math.max(1, Math.floor(body.concurrency || 32)), MAX_CONCURRENCY);
+  const encoder = new TextEncoder();
+
+  console.log(`[Scan] Scanning ${range.cidr} (${range.count} hosts, ${concurrency} at a time)`);
+
+  // Newline-delimited JSON, one ScanEvent per line
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScanEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        const stored = body.ownerEmail ? await getServerDevices(body.ownerEmail) : [];
+        const storedCredentials = await getStoredCredentials(stored);
+        const addresses = rangeAddresses(range);
+        let scanned = 0;
+        let found = 0;
+        let updated = 0;
+
+        send({ type: "start", range: range.cidr, total: range.count });
+
+        // Every worker pulls from the same generator until it runs dry
+        const worker = async () => {
+          for (const ipAddress of addresses) {
+            if (cancelled || request.signal.aborted) return; // Client closed the scanner
+            const credentials = credentialsFor(ipAddress, password, authMethods, storedCredentials);
+            const device = await identifyHost(ipAddress, credentials, timeout);
+            scanned++;
+
+            if (device) {
+              found++;
+              if (await reconcile(device, stored)) updated++;
+              send({ type: "device", device });
+            }
+            if (scanned % PROGRESS_EVERY === 0 || scanned === range.count) {
+              send({ type: "progress", scanned, total: range.count });
+            }
+          }
+        };
+        await Promise.all(Array.from({ length: concurrency }, worker));
+
+        console.log(`[Scan] Found ${found} Algo devices (${updated} moved) in ${range.cidr}`);
+        send({ type: "done", scanned, found, updated });
+      } catch (error) {
+        console.error("Network scan error:", error);
+        send({ type: "error", error: error instanceof Error ? error.message : "Failed to scan network" });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  });
 }
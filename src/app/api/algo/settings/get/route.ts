@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { getAlgoSetting } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
 
 interface GetSettingRequest {
-  ipAddress: string;
-  password: string;
-  authMethod: AlgoAuthMethod;
+  deviceId: string;
   setting: string; // e.g. "mcast.mode"
 }
 
@@ -13,24 +12,32 @@ export async function POST(request: NextRequest) {
   let requestBody: GetSettingRequest | null = null;
 
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to read device settings" }, { status: 401 });
+    }
+
     const body: GetSettingRequest = await request.json();
     requestBody = body;
-    const { ipAddress, password, authMethod, setting } = body;
+    const { deviceId, setting } = body;
 
-    if (!ipAddress || !password || !setting) {
+    if (!deviceId || !setting) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "basic",
-    });
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
 
-    const result = await client.getSetting(setting);
+    const result = await getAlgoSetting(device, setting);
 
     return NextResponse.json({
       success: true,
@@ -40,7 +47,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("[GetSetting API] Error:", error);
     if (requestBody) {
-      console.error("[GetSetting API] Device:", requestBody.ipAddress);
+      console.error("[GetSetting API] Device:", requestBody.deviceId);
       console.error("[GetSetting API] Setting:", requestBody.setting);
     }
     console.error("[GetSetting API] Full error:", error instanceof Error ? error.stack : error);
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { setAlgoSettings } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
 
 interface SettingsRequest {
-  ipAddress: string;
-  password: string;
-  authMethod: AlgoAuthMethod;
+  deviceId: string;
   settings: Record<string, string>;
 }
 
@@ -13,24 +12,32 @@ export async function POST(request: NextRequest) {
   let ipAddress = "unknown";
 
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to change device settings" }, { status: 401 });
+    }
+
     const body: SettingsRequest = await request.json();
-    ipAddress = body.ipAddress;
-    const { password, authMethod, settings } = body;
+    const { deviceId, settings } = body;
 
-    if (!ipAddress || !password || !settings) {
+    if (!deviceId || !settings) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "standard",
-    });
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+    ipAddress = device.ipAddress;
 
-    await client.setSetting(settings);
+    await setAlgoSettings(device, settings);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, getServerDevices, verifyCaller } from "@/lib/firebase/admin";
+import { readSipStatus } from "@/lib/sip/calls";
+import { canPlaceSipCall } from "@/lib/algo/sip";
+import { resolveAlgoDevices } from "@/lib/vault/credentials";
+
+interface SipStatusRequest {
+  ownerEmail?: string;  // Every SIP-capable device this user owns
+  deviceIds?: string[]; // Or just these
+}
+
+/**
+ * Read SIP registration and call status
+ * POST /api/algo/sip (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to read SIP status" }, { status: 401 });
+    }
+
+    const body: SipStatusRequest = await request.json();
+    if (body.ownerEmail && !(await canActFor(caller, body.ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+
+    let deviceIds = body.deviceIds;
+    if (!deviceIds && body.ownerEmail) {
+      deviceIds = (await getServerDevices(body.ownerEmail)).filter(canPlaceSipCall).map((d) => d.id);
+    }
+    if (!deviceIds) {
+      return NextResponse.json({ error: "ownerEmail or deviceIds is required" }, { status: 400 });
+    }
+
+    const { devices } = await resolveAlgoDevices(deviceIds);
+    if (!(await canActFor(caller, ...devices.map((device) => device.ownerEmail)))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
+    }
+    const readings = await Promise.all(devices.map(readSipStatus));
+
+    return NextResponse.json({ readings, readAt: Date.now() });
+  } catch (error) {
+    console.error("SIP status error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read SIP status" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,29 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { setAlgoSettings } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevices } from "@/lib/vault/credentials";
 
 interface SpeakerMcastRequest {
-  speakers: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  speakerIds: string[];
   enable?: boolean; // true = receiver mode (2), false = none (0) - DEPRECATED
   mode?: number; // Direct mode: 0=disabled, 1=transmitter, 2=receiver
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to control speakers" }, { status: 401 });
+    }
+
     const body: SpeakerMcastRequest = await request.json();
-    const { speakers, enable, mode } = body;
+    const { speakerIds, enable, mode } = body;
 
-    if (!speakers || speakers.length === 0) {
+    if (!speakerIds || speakerIds.length === 0) {
       return NextResponse.json(
         { error: "At least one speaker is required" },
         { status: 400 }
       );
     }
 
+    const { devices: speakers, missing } = await resolveAlgoDevices(speakerIds);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Speakers not found: ${missing.join(", ")}` },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canActFor(caller, ...speakers.map((speaker) => speaker.ownerEmail)))) {
+      return NextResponse.json({ error: "Those speakers belong to another account" }, { status: 403 });
+    }
+
     // Support both new 'mode' parameter and legacy 'enable' parameter
     let mcastMode: string;
     if (mode !== undefined) {
@@ -40,16 +54,8 @@ export async function POST(request: NextRequest) {
     await Promise.all(
       speakers.map(async (speaker) => {
         try {
-          const client = new AlgoClient({
-            ipAddress: speaker.ipAddress,
-            password: speaker.password,
-            authMethod: speaker.authMethod || "basic",
-          });
-
-          await client.setSetting({ "mcast.mode": mcastMode });
-
           // CRITICAL: Reload device to apply config changes
-          await client.reload();
+          await setAlgoSettings(speaker, { "mcast.mode": mcastMode }, { reload: true });
 
           results.push({ ip: speaker.ipAddress, success: true });
         } catch (error) {
@@ -1,29 +1,37 @@
 import { NextResponse } from "next/server";
-import { getIdleVolumeString } from "@/lib/settings";
-
-interface SpeakerInfo {
-  ipAddress: string;
-  password: string;
-  authMethod?: "standard" | "digest";
-}
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { canActFor, getServerAppSettings, getServerVolumeProfilePlan, getServerZones, verifyCaller } from "@/lib/firebase/admin";
+import { resolveSpeakerVolume } from "@/lib/algo/volume";
+import { VOLUME_PROFILE_CHANNEL_LABELS, getProfileVolume } from "@/lib/algo/volume-profiles";
+import type { VolumeProfileChannel } from "@/lib/algo/types";
+import { commandDispatcher } from "@/lib/commands/device-commands";
+import { resolveAlgoDevices } from "@/lib/vault/credentials";
 
 interface RequestBody {
-  speakers: SpeakerInfo[];
-  volume: number; // 0-100
+  speakerIds: string[];
+  volume: number; // 0-100 of each speaker's operating volume
+  ownerEmail?: string; // Whose idle volume and zones apply (default -45dB, no zone caps)
+  channel?: VolumeProfileChannel; // Call type - applies the owner's zone volume profiles
+  night?: boolean; // Use the profiles' night volumes
 }
 
 /**
  * Set volume for multiple speakers
- * POST /api/algo/speakers/volume
+ * POST /api/algo/speakers/volume (Authorization: Bearer <ID token>)
  */
 export async function POST(request: Request) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to set speaker volume" }, { status: 401 });
+    }
+
     const body: RequestBody = await request.json();
-    const { speakers, volume } = body;
+    const { speakerIds, volume, ownerEmail, channel, night } = body;
 
-    if (!speakers || !Array.isArray(speakers) || speakers.length === 0) {
+    if (!speakerIds || !Array.isArray(speakerIds) || speakerIds.length === 0) {
       return NextResponse.json(
-        { error: "speakers array is required" },
+        { error: "speakerIds array is required" },
         { status: 400 }
       );
     }
@@ -35,48 +43,76 @@ export async function POST(request: Request) {
       );
     }
 
-    // Convert 0-100% to dB
-    // SPECIAL CASE: 0% = idle volume (configurable, default -45dB)
-    // Normal range: Algo expects 1=-27dB, 2=-24dB, ... 10=0dB
-    // Formula: dB = (level - 10) * 3
-    let volumeDbString: string;
-    if (volume === 0) {
-      volumeDbString = getIdleVolumeString(); // Get configurable idle volume
-    } else {
-      const volumeScale = Math.round((volume / 100) * 10);
-      const volumeDb = (volumeScale - 10) * 3;
-      volumeDbString = volumeDb === 0 ? "0dB" : `${volumeDb}dB`;
+    if (channel !== undefined && !(channel in VOLUME_PROFILE_CHANNEL_LABELS)) {
+      return NextResponse.json(
+        { error: `Unknown channel: ${channel}` },
+        { status: 400 }
+      );
+    }
+
+    const { devices: speakers, missing } = await resolveAlgoDevices(speakerIds);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Speakers not found: ${missing.join(", ")}` },
+        { status: 404 }
+      );
     }
 
+    const owners = speakers.map((speaker) => speaker.ownerEmail);
+    if (!(await canActFor(caller, ...owners, ...(ownerEmail ? [ownerEmail] : [])))) {
+      return NextResponse.json({ error: "Those speakers belong to another account" }, { status: 403 });
+    }
+
+    // 0% = the owner's idle volume; otherwise each speaker's share of its
+    // operating volume, calibrated (see src/lib/algo/volume.ts)
+    const [settings, zones, volumeProfilePlan] = ownerEmail
+      ? await Promise.all([
+          getServerAppSettings(ownerEmail),
+          getServerZones(ownerEmail),
+          channel ? getServerVolumeProfilePlan(ownerEmail) : null,
+        ])
+      : [null, [], null];
+    const idleVolumeDb = (settings ?? DEFAULT_SETTINGS).idleVolumeDb;
+    const profiles = volumeProfilePlan?.profiles ?? [];
+
     // Set volume for each speaker
     const results = await Promise.allSettled(
       speakers.map(async (speaker) => {
-        const authMethod = speaker.authMethod || "standard";
-        const authHeader =
-          authMethod === "digest"
-            ? `Digest username=admin password=${speaker.password}`
-            : `Basic ${Buffer.from(`admin:${speaker.password}`).toString("base64")}`;
+        // A matching zone profile scales the volume (e.g. dorms at 40% at night)
+        const profileVolume = channel ? getProfileVolume(profiles, speaker.zone, channel, night ?? false) : null;
+        const percent = volume * (profileVolume ?? 100) / 100;
+        const { dbString: volumeDbString } = resolveSpeakerVolume(percent, speaker, { idleVolumeDb, zones });
+        const authHeader = `Basic ${Buffer.from(`admin:${speaker.password}`).toString("base64")}`;
 
-        const response = await fetch(
-          `http://${speaker.ipAddress}/cgi-bin/api.cgi`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/x-www-form-urlencoded",
-              Authorization: authHeader,
-            },
-            body: new URLSearchParams({
-              action: "set",
-              "audio.page.vol": volumeDbString,
-            }),
-          }
-        );
+        // Same coalesce key as a settings write of audio.page.vol - only the
+        // latest pending volume reaches the speaker
+        await commandDispatcher.dispatch({
+          deviceId: speaker.id,
+          label: `audio.page.vol=${volumeDbString}`,
+          coalesceKey: "settings:audio.page.vol",
+          run: async () => {
+            const response = await fetch(
+              `http://${speaker.ipAddress}/cgi-bin/api.cgi`,
+              {
+                method: "POST",
+                headers: {
+                  "Content-Type": "application/x-www-form-urlencoded",
+                  Authorization: authHeader,
+                },
+                body: new URLSearchParams({
+                  action: "set",
+                  "audio.page.vol": volumeDbString,
+                }),
+              }
+            );
 
-        if (!response.ok) {
-          throw new Error(`Failed to set volume for ${speaker.ipAddress}: ${response.statusText}`);
-        }
+            if (!response.ok) {
+              throw new Error(`Failed to set volume for ${speaker.ipAddress}: ${response.status} ${response.statusText}`);
+            }
+          },
+        });
 
-        return { ipAddress: speaker.ipAddress, success: true };
+        return { ipAddress: speaker.ipAddress, success: true, volume: volumeDbString };
       })
     );
 
@@ -88,7 +124,6 @@ export async function POST(request: Request) {
 
     return NextResponse.json({
       success: true,
-      volume: volumeDbString,
       results: results.map((r) =>
         r.status === "fulfilled" ? r.value : { error: (r.reason as Error).message }
       ),
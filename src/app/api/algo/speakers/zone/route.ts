@@ -1,45 +1,79 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { setAlgoSettings } from "@/lib/commands/device-commands";
+import { canActFor, getServerMulticastPlan, getServerZone, verifyCaller } from "@/lib/firebase/admin";
+import { getZoneAssignment, senderSettings } from "@/lib/algo/multicast-plan";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
 
 interface PagingZoneRequest {
-  ipAddress: string;
-  password: string;
-  authMethod?: AlgoAuthMethod;
-  zone: number; // 1-50
+  deviceId: string;
+  zoneId?: string; // Station zone - looked up in the owner's multicast plan
+  zone?: number;   // Raw Algo multicast zone 1-50 (when there is no plan)
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to change paging zones" }, { status: 401 });
+    }
+
     const body: PagingZoneRequest = await request.json();
-    const { ipAddress, password, authMethod, zone } = body;
+    const { deviceId, zoneId } = body;
+    let { zone } = body;
 
-    if (!ipAddress || !password || zone === undefined) {
+    if (!deviceId || (zone === undefined && !zoneId)) {
       return NextResponse.json(
-        { error: "ipAddress, password, and zone are required" },
+        { error: "deviceId and zoneId (or zone) are required" },
         { status: 400 }
       );
     }
 
-    if (zone < 1 || zone > 50) {
+    let settings: Record<string, string> | null = null;
+
+    if (zoneId) {
+      const zoneDoc = await getServerZone(zoneId);
+      if (!zoneDoc) {
+        return NextResponse.json({ error: "Zone not found" }, { status: 404 });
+      }
+
+      if (!(await canActFor(caller, zoneDoc.ownerEmail))) {
+        return NextResponse.json({ error: "That zone belongs to another account" }, { status: 403 });
+      }
+
+      const plan = await getServerMulticastPlan(zoneDoc.ownerEmail);
+      const assignment = getZoneAssignment(plan, zoneId);
+      if (!plan || !assignment) {
+        return NextResponse.json(
+          { error: `Zone "${zoneDoc.name}" is not in the multicast plan` },
+          { status: 400 }
+        );
+      }
+
+      // Write the planned groups along with tx.fixed so the sender and the
+      // zone's receivers can't drift apart
+      zone = assignment.zoneNumber;
+      settings = senderSettings(plan, zone);
+    }
+
+    if (zone === undefined || zone < 1 || zone > 50) {
       return NextResponse.json(
         { error: "Zone must be between 1 and 50" },
         { status: 400 }
       );
     }
 
-    // Use AlgoClient to set the zone - simple!
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "basic",
-    });
-
-    await client.setSetting({ "mcast.tx.fixed": String(zone) });
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+    const { ipAddress } = device;
 
     // CRITICAL: Reload device to apply the zone change
     // Without this, device gets stuck in desync state
-    await client.reload();
+    await setAlgoSettings(device, settings ?? { "mcast.tx.fixed": String(zone) }, { reload: true });
 
     console.log(`[Zone API] ✓ Changed paging zone to ${zone} for ${ipAddress}`);
 
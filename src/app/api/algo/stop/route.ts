@@ -1,35 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { runAlgoCommand, setAlgoSettings } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice, resolveAlgoDevices, type ResolvedAlgoDevice } from "@/lib/vault/credentials";
+import { getClaimDeviceIds } from "@/lib/algo/paging-priority";
+import { pagingArbiter } from "@/lib/paging/arbiter";
 
 interface StopRequest {
-  paging: {
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  };
-  speakers?: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  pagingId: string;
+  speakerIds?: string[];
 }
 
 // Helper to disable speaker multicast mode
 async function disableSpeakersMcast(
-  speakers: StopRequest["speakers"]
+  speakers: ResolvedAlgoDevice[]
 ): Promise<void> {
-  if (!speakers || speakers.length === 0) return;
+  if (speakers.length === 0) return;
 
   await Promise.all(
     speakers.map(async (speaker) => {
       try {
-        const client = new AlgoClient({
-          ipAddress: speaker.ipAddress,
-          password: speaker.password,
-          authMethod: speaker.authMethod || "basic",
-        });
-        await client.setSetting({ "mcast.mode": "0" });
+        await setAlgoSettings(speaker, { "mcast.mode": "0" });
       } catch (error) {
         console.error(`Failed to disable mcast for ${speaker.ipAddress}:`, error);
       }
@@ -39,33 +29,49 @@ async function disableSpeakersMcast(
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to stop playback" }, { status: 401 });
+    }
+
     const body: StopRequest = await request.json();
-    const { paging, speakers } = body;
+    const { pagingId, speakerIds } = body;
 
-    if (!paging?.ipAddress || !paging?.password) {
+    if (!pagingId) {
       return NextResponse.json(
         { error: "Paging device info is required" },
         { status: 400 }
       );
     }
 
-    const pagingClient = new AlgoClient({
-      ipAddress: paging.ipAddress,
-      password: paging.password,
-      authMethod: paging.authMethod || "basic",
-    });
+    const paging = await resolveAlgoDevice(pagingId);
+    if (!paging) {
+      return NextResponse.json({ error: "Paging device not found" }, { status: 404 });
+    }
+    const { devices: speakers } = await resolveAlgoDevices(speakerIds || []);
+
+    if (!(await canActFor(caller, paging.ownerEmail, ...speakers.map((speaker) => speaker.ownerEmail)))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
+    }
 
     // Step 1: Stop playback on paging device
     console.log("Stopping playback...");
-    await pagingClient.stopTone();
+    await runAlgoCommand(paging, "stop tone", (client) => client.stopTone());
+
+    // Step 2: A looped test started here gives its claim back, which
+    // restores the speakers it switched on
+    const { released } = await pagingArbiter.release(paging.ownerEmail, `play:${paging.id}`);
 
-    // Step 2: Disable speakers (if any)
-    if (speakers && speakers.length > 0) {
+    // Step 3: Otherwise disable speakers (if any) - except those another
+    // source (a live call, an announcement) is using right now
+    const held = new Set(pagingArbiter.getClaims(paging.ownerEmail).flatMap(getClaimDeviceIds));
+    const idleSpeakers = speakers.filter((speaker) => !held.has(speaker.id));
+    if (!released && idleSpeakers.length > 0) {
       // Small delay to ensure audio fully stops
       await new Promise((resolve) => setTimeout(resolve, 300));
 
       console.log("Disabling speakers...");
-      await disableSpeakersMcast(speakers);
+      await disableSpeakersMcast(idleSpeakers);
     }
 
     return NextResponse.json({
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevices } from "@/lib/vault/credentials";
+import { DEFAULT_STROBE_PATTERNS, isStrobeDevice, validateStrobePattern } from "@/lib/algo/strobe";
+import type { AlgoStrobeStartRequest } from "@/lib/algo/types";
+
+interface StrobeRequest {
+  deviceIds: string[];
+  action: "start" | "stop";
+  pattern?: AlgoStrobeStartRequest; // Default: amber, pattern 1, full brightness
+}
+
+/**
+ * Start or stop the strobe on 8128/8138 visual alerters
+ * POST /api/algo/strobe (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to control strobes" }, { status: 401 });
+    }
+
+    const body: StrobeRequest = await request.json();
+    const { deviceIds, action } = body;
+
+    if (!deviceIds || !Array.isArray(deviceIds) || deviceIds.length === 0) {
+      return NextResponse.json({ error: "deviceIds array is required" }, { status: 400 });
+    }
+
+    if (action !== "start" && action !== "stop") {
+      return NextResponse.json({ error: 'action must be "start" or "stop"' }, { status: 400 });
+    }
+
+    const pattern = body.pattern ?? DEFAULT_STROBE_PATTERNS.default;
+    const patternError = action === "start" ? validateStrobePattern(pattern) : null;
+    if (patternError) {
+      return NextResponse.json({ error: patternError }, { status: 400 });
+    }
+
+    const { devices, missing } = await resolveAlgoDevices(deviceIds);
+    if (missing.length > 0) {
+      return NextResponse.json({ error: `Devices not found: ${missing.join(", ")}` }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, ...devices.map((device) => device.ownerEmail)))) {
+      return NextResponse.json({ error: "Those devices belong to another account" }, { status: 403 });
+    }
+
+    const notStrobes = devices.filter((d) => !isStrobeDevice(d));
+    if (notStrobes.length > 0) {
+      return NextResponse.json(
+        { error: `Not a strobe (8128/8138): ${notStrobes.map((d) => d.name).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Strobe] ${action === "start" ? `Starting ${pattern.color1} pattern ${pattern.pattern}` : "Stopping"} on ${devices.length} device(s)`);
+
+    // Same coalesce key for start and stop - a stop queued behind a pending
+    // start replaces it, so a short call can't leave a strobe flashing
+    const results = await Promise.allSettled(
+      devices.map(async (device) => {
+        await runAlgoCommand(
+          device,
+          action === "start" ? `strobe start ${pattern.color1}` : "strobe stop",
+          (client) => (action === "start" ? client.startStrobe(pattern) : client.stopStrobe()),
+          { coalesceKey: "strobe" }
+        );
+        return { deviceId: device.id, success: true };
+      })
+    );
+
+    const failures = results.filter((r) => r.status === "rejected");
+    if (failures.length > 0) {
+      console.error(`[Strobe] ${failures.length} device(s) failed to ${action}:`, failures);
+    }
+
+    return NextResponse.json({
+      success: failures.length === 0,
+      action,
+      results: results.map((r, i) =>
+        r.status === "fulfilled"
+          ? r.value
+          : { deviceId: devices[i].id, success: false, error: (r.reason as Error).message }
+      ),
+    });
+  } catch (error) {
+    console.error("Strobe error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to control strobes" },
+      { status: 500 }
+    );
+  }
+}
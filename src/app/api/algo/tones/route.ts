@@ -1,30 +1,37 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
 
 export async function POST(request: NextRequest) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to list device tones" }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { ipAddress, password, authMethod } = body as {
-      ipAddress: string;
-      password: string;
-      authMethod: AlgoAuthMethod;
+    const { deviceId } = body as {
+      deviceId: string;
     };
 
-    if (!ipAddress || !password) {
+    if (!deviceId) {
       return NextResponse.json(
-        { error: "IP address and password are required" },
+        { error: "Device ID is required" },
         { status: 400 }
       );
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "basic",
-    });
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
 
-    const toneList = await client.getToneList();
+    const toneList = await runAlgoCommand(device, "get tonelist", (client) => client.getToneList());
 
     return NextResponse.json({
       success: true,
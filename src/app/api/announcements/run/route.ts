@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, getServerAnnouncementPlan, verifyCaller } from "@/lib/firebase/admin";
+import { announcementPlayer } from "@/lib/announcements/player";
+
+interface RunRequest {
+  ownerEmail: string;
+  announcementId: string;
+  triggeredBy?: string; // User email
+}
+
+/**
+ * Play a scheduled announcement now (ignores its blackout windows, still
+ * yields to a live call)
+ * POST /api/announcements/run (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to play announcements" }, { status: 401 });
+    }
+
+    const body: RunRequest = await request.json();
+    const { ownerEmail, announcementId, triggeredBy } = body;
+
+    if (!ownerEmail || !announcementId) {
+      return NextResponse.json({ error: "ownerEmail and announcementId are required" }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+
+    const plan = await getServerAnnouncementPlan(ownerEmail);
+    const announcement = plan?.announcements.find((a) => a.id === announcementId);
+    if (!announcement) {
+      return NextResponse.json({ error: "Announcement not found - save the plan first" }, { status: 404 });
+    }
+
+    const result = await announcementPlayer.play(announcement, ownerEmail, triggeredBy ?? ownerEmail);
+    return NextResponse.json(
+      { success: result.status === "success", result },
+      { status: result.status === "failed" ? 500 : 200 }
+    );
+  } catch (error) {
+    console.error("Announcement run error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to play announcement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { pagingArbiter } from "@/lib/paging/arbiter";
+import { announcementScheduler } from "@/lib/announcements/scheduler";
+
+/**
+ * Who holds the paging devices (live calls, announcements) and the scheduler
+ * POST /api/announcements/status (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to view announcement status" }, { status: 401 });
+    }
+
+    const { ownerEmail } = (await request.json()) as { ownerEmail: string };
+
+    if (!ownerEmail) {
+      return NextResponse.json({ error: "ownerEmail is required" }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      claims: pagingArbiter.getClaims(ownerEmail),
+      scheduler: announcementScheduler.getStatus(),
+    });
+  } catch (error) {
+    console.error("Announcement status error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read announcement status" },
+      { status: 500 }
+    );
+  }
+}
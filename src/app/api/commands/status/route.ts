@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { commandDispatcher } from "@/lib/commands/device-commands";
+import { canActFor, isAdminCaller, verifyCaller } from "@/lib/firebase/admin";
+import { getCredentialOwner } from "@/lib/vault/credentials";
+
+interface CommandStatusRequest {
+  deviceId?: string;   // Limit history to one device/switch
+  limit?: number;      // Most recent outcomes to return (default: 50)
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to view command status" }, { status: 401 });
+    }
+
+    const body: CommandStatusRequest = await request.json().catch(() => ({}));
+    const limit = body.limit ?? 50;
+
+    if (typeof limit !== "number" || limit < 0) {
+      return NextResponse.json(
+        { error: "limit must be a non-negative number" },
+        { status: 400 }
+      );
+    }
+
+    // One device's queue for its owner; every queue only for an admin
+    if (body.deviceId) {
+      const owner = await getCredentialOwner(body.deviceId);
+      if (owner === null) {
+        return NextResponse.json({ error: "Device not found" }, { status: 404 });
+      }
+      if (!(await canActFor(caller, owner))) {
+        return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+      }
+    } else if (!(await isAdminCaller(caller))) {
+      return NextResponse.json({ error: "Only an admin can view every device's queue" }, { status: 403 });
+    }
+
+    const history = commandDispatcher.getHistory(body.deviceId);
+
+    return NextResponse.json({
+      devices: body.deviceId
+        ? [commandDispatcher.getHealth(body.deviceId)].filter(Boolean)
+        : commandDispatcher.getAllHealth(),
+      stuck: commandDispatcher
+        .getStuckDevices()
+        .filter((health) => !body.deviceId || health.deviceId === body.deviceId),
+      history: history.slice(Math.max(0, history.length - limit)).reverse(),
+    });
+  } catch (error) {
+    console.error("Command status error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get command status" },
+      { status: 500 }
+    );
+  }
+}
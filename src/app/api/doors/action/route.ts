@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDoorAction } from "@/lib/doors/actions";
+import { DOOR_ACTION_LABELS, MAX_MOMENTARY_UNLOCK_SECONDS } from "@/lib/algo/door-actions";
+import type { AlgoDoorId, DoorActionType } from "@/lib/algo/types";
+import { canActFor, getServerDevice, verifyCaller } from "@/lib/firebase/admin";
+
+interface DoorActionRequest {
+  ownerEmail: string;
+  deviceId: string;
+  doorId: AlgoDoorId;
+  action: DoorActionType;
+  durationSeconds?: number; // momentary_unlock only (default: 10)
+  triggeredBy?: string;     // User email, for the audit log
+}
+
+/**
+ * Manual door action (audit-logged like the call-triggered ones)
+ * POST /api/doors/action (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to run door actions" }, { status: 401 });
+    }
+
+    const body: DoorActionRequest = await request.json();
+    const { ownerEmail, deviceId, doorId, action, triggeredBy } = body;
+    const durationSeconds = body.durationSeconds ?? 10;
+
+    if (!ownerEmail || !deviceId) {
+      return NextResponse.json({ error: "ownerEmail and deviceId are required" }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+    if (doorId !== "local" && doorId !== "netdc1") {
+      return NextResponse.json({ error: 'doorId must be "local" or "netdc1"' }, { status: 400 });
+    }
+    if (!(action in DOOR_ACTION_LABELS)) {
+      return NextResponse.json({ error: "action must be momentary_unlock, unlock or lock" }, { status: 400 });
+    }
+    if (
+      action === "momentary_unlock" &&
+      (!Number.isInteger(durationSeconds) || durationSeconds < 1 || durationSeconds > MAX_MOMENTARY_UNLOCK_SECONDS)
+    ) {
+      return NextResponse.json(
+        { error: `durationSeconds must be 1-${MAX_MOMENTARY_UNLOCK_SECONDS}` },
+        { status: 400 }
+      );
+    }
+
+    // The run itself resolves the device without an owner check
+    const device = await getServerDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    if (device.ownerEmail !== ownerEmail) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+
+    const result = await runDoorAction(
+      {
+        ruleId: null,
+        name: `Manual ${DOOR_ACTION_LABELS[action].toLowerCase()}`,
+        deviceId,
+        doorId,
+        action,
+        durationSeconds,
+        trigger: "manual",
+      },
+      { ownerEmail, callStartedAt: null, triggeredBy }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 500 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Door action error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to run door action" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDoorRules } from "@/lib/doors/actions";
+import type { DoorActionPhase, DoorActionTrigger } from "@/lib/algo/types";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+
+interface TriggerRequest {
+  ownerEmail: string;
+  trigger: DoorActionTrigger;  // Call type - "anyCall" for single-input monitoring
+  phase: DoorActionPhase;
+  callStartedAt?: number;      // First audio of the call (ms) - recorded in the audit log
+}
+
+const TRIGGERS: DoorActionTrigger[] = ["fire", "medical", "allCall", "anyCall"];
+
+/**
+ * Run the owner's door rules for a call starting or ending
+ * POST /api/doors/trigger (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to run door rules" }, { status: 401 });
+    }
+
+    const body: TriggerRequest = await request.json();
+    const { ownerEmail, trigger, phase, callStartedAt } = body;
+
+    if (!ownerEmail) {
+      return NextResponse.json({ error: "ownerEmail is required" }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+    if (!TRIGGERS.includes(trigger)) {
+      return NextResponse.json({ error: `trigger must be one of ${TRIGGERS.join(", ")}` }, { status: 400 });
+    }
+    if (phase !== "start" && phase !== "end") {
+      return NextResponse.json({ error: 'phase must be "start" or "end"' }, { status: 400 });
+    }
+
+    const results = await runDoorRules(trigger, phase, {
+      ownerEmail,
+      callStartedAt: callStartedAt ? new Date(callStartedAt) : null,
+    });
+
+    return NextResponse.json({
+      success: results.every((r) => r.success),
+      results,
+    });
+  } catch (error) {
+    console.error("Door trigger error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to run door actions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCaller } from "@/lib/firebase/admin";
+import { healthMonitor } from "@/lib/health/monitor";
+
+/**
+ * Sweep now instead of waiting for the next interval (joins a sweep that's
+ * already running)
+ * POST /api/health-monitor/run (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to run a health sweep" }, { status: 401 });
+    }
+
+    const summary = await healthMonitor.sweep();
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error("Health monitor sweep error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to run health sweep" },
+      { status: 500 }
+    );
+  }
+}
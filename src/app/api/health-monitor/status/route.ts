@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, isAdminCaller, verifyCaller } from "@/lib/firebase/admin";
+import { healthMonitor } from "@/lib/health/monitor";
+
+interface MonitorStatusRequest {
+  ownerEmail?: string; // Only this station's devices and switches
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to view device health" }, { status: 401 });
+    }
+
+    const body: MonitorStatusRequest = await request.json().catch(() => ({}));
+
+    // Every station's devices only for an admin
+    const allowed = body.ownerEmail ? await canActFor(caller, body.ownerEmail) : await isAdminCaller(caller);
+    if (!allowed) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+
+    return NextResponse.json(healthMonitor.getStatus(body.ownerEmail));
+  } catch (error) {
+    console.error("Health monitor status error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get health monitor status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  canActFor,
+  getServerDevices,
+  getServerMulticastPlan,
+  getServerMulticastPlans,
+  getServerZones,
+  verifyCaller,
+} from "@/lib/firebase/admin";
+import { getPagingAssignment, receiverSettings, senderSettings, validateMulticastPlan } from "@/lib/algo/multicast-plan";
+import { setAlgoSettings } from "@/lib/commands/device-commands";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
+import type { AlgoDevice } from "@/lib/algo/types";
+
+interface ApplyMulticastPlanRequest {
+  ownerEmail: string;
+}
+
+interface ApplyResult {
+  deviceId: string;
+  deviceName: string;
+  role: "sender" | "receiver";
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Push an owner's multicast plan to their devices
+ * POST /api/multicast/apply (Authorization: Bearer <ID token>)
+ *
+ * Speakers get their zone's group on the idle port (the audio context moves
+ * them to the active port when a call starts); each 8301 gets every group and
+ * transmits on its own zone.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to apply the multicast plan" }, { status: 401 });
+    }
+
+    const body: ApplyMulticastPlanRequest = await request.json();
+    const { ownerEmail } = body;
+
+    if (!ownerEmail) {
+      return NextResponse.json(
+        { error: "ownerEmail is required" },
+        { status: 400 }
+      );
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+
+    const [plan, allPlans, zones, devices] = await Promise.all([
+      getServerMulticastPlan(ownerEmail),
+      getServerMulticastPlans(),
+      getServerZones(ownerEmail),
+      getServerDevices(ownerEmail),
+    ]);
+
+    if (!plan) {
+      return NextResponse.json({ error: "No multicast plan saved" }, { status: 404 });
+    }
+
+    const issues = validateMulticastPlan(plan, allPlans, zones);
+    if (issues.some((issue) => issue.severity === "error")) {
+      return NextResponse.json(
+        { error: "Multicast plan has errors", issues },
+        { status: 400 }
+      );
+    }
+
+    const apply = async (
+      device: AlgoDevice,
+      role: ApplyResult["role"],
+      settings: Record<string, string> | null
+    ): Promise<ApplyResult> => {
+      const result = { deviceId: device.id, deviceName: device.name, role };
+      if (!settings) {
+        return { ...result, success: false, error: "Not in a planned zone (and no linked speaker is)" };
+      }
+      try {
+        const resolved = await resolveAlgoDevice(device.id);
+        if (!resolved) {
+          return { ...result, success: false, error: "Device not found" };
+        }
+        await setAlgoSettings(resolved, settings, { reload: true });
+        return { ...result, success: true };
+      } catch (error) {
+        return { ...result, success: false, error: error instanceof Error ? error.message : "Failed" };
+      }
+    };
+
+    const results = await Promise.all(
+      devices.map((device) => {
+        if (device.type === "8301") {
+          const assignment = getPagingAssignment(plan, device, devices);
+          return apply(device, "sender", assignment ? senderSettings(plan, assignment.zoneNumber) : null);
+        }
+        const assignment = plan.assignments.find((a) => a.zoneId === device.zone);
+        // Unplanned speakers are left on whatever they have (legacy zone 1)
+        return assignment ? apply(device, "receiver", receiverSettings(assignment, false)) : null;
+      })
+    );
+    const applied = results.filter((result): result is ApplyResult => result !== null);
+
+    const failed = applied.filter((result) => !result.success).length;
+    console.log(`[Multicast Plan] Applied plan for ${ownerEmail}: ${applied.length - failed}/${applied.length} devices updated`);
+
+    return NextResponse.json({
+      success: failed === 0,
+      results: applied,
+      issues,
+    });
+  } catch (error) {
+    console.error("Multicast plan apply error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to apply multicast plan" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isLivePagingSource, isPagingSource, type PagingSource } from "@/lib/algo/paging-priority";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { pagingArbiter } from "@/lib/paging/arbiter";
+
+interface ClaimRequest {
+  ownerEmail: string;
+  claimId: string;            // Which live path, e.g. "monitoring" or "input:fire"
+  source: PagingSource;       // fire, medical or allCall
+  label?: string;
+  pagingDeviceIds?: string[];
+  speakerIds?: string[];
+  phase: "start" | "end";
+}
+
+/**
+ * A live call started or ended on some devices. Tone plays on those devices
+ * stop first; the answer lists devices the caller must leave alone.
+ * POST /api/paging/claim (Authorization: Bearer <ID token>)
+ * Only for the caller's own station, unless the caller is an admin
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to report live calls" }, { status: 401 });
+    }
+
+    const body: ClaimRequest = await request.json();
+    const { ownerEmail, claimId, source, label, pagingDeviceIds = [], speakerIds = [], phase } = body;
+
+    if (!ownerEmail || !claimId) {
+      return NextResponse.json({ error: "ownerEmail and claimId are required" }, { status: 400 });
+    }
+    if (phase !== "start" && phase !== "end") {
+      return NextResponse.json({ error: 'phase must be "start" or "end"' }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+
+    if (phase === "end") {
+      // Tone plays are released by the route or player that started them
+      const claim = pagingArbiter.getClaims(ownerEmail).find((c) => c.id === claimId);
+      if (!claim || !isLivePagingSource(claim.source)) {
+        return NextResponse.json({ success: true, heldDeviceIds: [] });
+      }
+      const { heldDeviceIds } = await pagingArbiter.release(ownerEmail, claimId);
+      return NextResponse.json({ success: true, heldDeviceIds });
+    }
+
+    if (!isPagingSource(source) || !isLivePagingSource(source)) {
+      return NextResponse.json({ error: "source must be fire, medical or allCall" }, { status: 400 });
+    }
+
+    const result = await pagingArbiter.acquire({
+      id: claimId,
+      ownerEmail,
+      source,
+      label: label || claimId,
+      pagingDeviceIds,
+      speakerIds,
+    });
+    return NextResponse.json({
+      success: true,
+      preempted: result.preempted,
+      yieldDeviceIds: result.yieldDeviceIds,
+    });
+  } catch (error) {
+    console.error("Paging claim error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to report live call" },
+      { status: 500 }
+    );
+  }
+}
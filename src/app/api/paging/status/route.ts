@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { pagingArbiter } from "@/lib/paging/arbiter";
+
+/**
+ * Every source currently holding a paging adapter or speaker
+ * POST /api/paging/status (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to view paging status" }, { status: 401 });
+    }
+
+    const { ownerEmail } = (await request.json()) as { ownerEmail: string };
+
+    if (!ownerEmail) {
+      return NextResponse.json({ error: "ownerEmail is required" }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+
+    return NextResponse.json({ success: true, claims: pagingArbiter.getClaims(ownerEmail), readAt: Date.now() });
+  } catch (error) {
+    console.error("Paging status error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read paging status" },
+      { status: 500 }
+    );
+  }
+}
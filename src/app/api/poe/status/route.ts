@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server";
-import { getPoESwitch, getPoEDevices, updatePoEDevice, updatePoESwitch } from "@/lib/firebase/firestore";
-import { createPoEController } from "@/lib/poe/controller";
+import { canActFor, getServerPoEDevices, updateServerPoEDevice, updateServerPoESwitch, verifyCaller } from "@/lib/firebase/admin";
+import { runPoECommand } from "@/lib/commands/device-commands";
+import { resolvePoESwitch } from "@/lib/vault/credentials";
 
 export async function POST(request: Request) {
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to read PoE status" }, { status: 401 });
+    }
+
     const body = await request.json();
     const { switchId } = body;
 
@@ -15,7 +21,7 @@ export async function POST(request: Request) {
     }
 
     // Get PoE switch
-    const poeSwitch = await getPoESwitch(switchId);
+    const poeSwitch = await resolvePoESwitch(switchId);
     if (!poeSwitch) {
       return NextResponse.json(
         { error: "PoE switch not found" },
@@ -23,22 +29,26 @@ export async function POST(request: Request) {
       );
     }
 
-    // Create controller and get all port statuses
-    const controller = createPoEController(poeSwitch.type, {
-      ipAddress: poeSwitch.ipAddress,
-      password: poeSwitch.password,
-    });
+    if (!(await canActFor(caller, poeSwitch.ownerEmail))) {
+      return NextResponse.json({ error: "That switch belongs to another account" }, { status: 403 });
+    }
 
-    const portStatuses = await controller.getPortStatuses();
+    // Read all port statuses (single attempt - the dashboard polls again)
+    const portStatuses = await runPoECommand(
+      poeSwitch,
+      "get port statuses",
+      (controller) => controller.getPortStatuses(),
+      { retry: { attempts: 1 } }
+    );
 
     // Update switch online status
-    await updatePoESwitch(switchId, {
+    await updateServerPoESwitch(switchId, {
       isOnline: true,
       lastSeen: new Date(),
     });
 
     // Get all devices for this switch
-    const allDevices = await getPoEDevices();
+    const allDevices = await getServerPoEDevices(poeSwitch.ownerEmail);
     const switchDevices = allDevices.filter(d => d.switchId === switchId);
 
     // Update device states in Firestore based on actual port status
@@ -46,7 +56,7 @@ export async function POST(request: Request) {
       const portStatus = portStatuses.find(p => p.port === device.portNumber);
       if (portStatus && portStatus.enabled !== device.isEnabled) {
         // Port status differs from stored state - update it
-        await updatePoEDevice(device.id, {
+        await updateServerPoEDevice(device.id, {
           isEnabled: portStatus.enabled,
           isOnline: true,
         });
@@ -71,7 +81,7 @@ export async function POST(request: Request) {
       try {
         const { switchId: id } = await request.json();
         if (id) {
-          await updatePoESwitch(id, {
+          await updateServerPoESwitch(id, {
             isOnline: false,
           });
         }
@@ -1,44 +1,53 @@
 import { NextResponse } from "next/server";
-import { createPoEController } from "@/lib/poe/controller";
+import { runPoECommand } from "@/lib/commands/device-commands";
+import { canActFor, updateServerPoESwitch, verifyCaller } from "@/lib/firebase/admin";
+import { resolvePoESwitch } from "@/lib/vault/credentials";
 
 export async function POST(request: Request) {
   let switchId: string | undefined;
 
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to test PoE switches" }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { ipAddress, password, type = "netgear_gs308ep", switchId: extractedSwitchId } = body;
-    switchId = extractedSwitchId;
+    switchId = body.switchId;
 
-    if (!ipAddress) {
+    if (!switchId) {
       return NextResponse.json(
-        { error: "IP address is required" },
+        { error: "Switch ID is required" },
         { status: 400 }
       );
     }
 
-    if (!password) {
+    const poeSwitch = await resolvePoESwitch(switchId);
+    if (!poeSwitch) {
       return NextResponse.json(
-        { error: "Password is required" },
-        { status: 400 }
+        { error: "PoE switch not found" },
+        { status: 404 }
       );
     }
 
-    // Create controller and test connection
-    const controller = createPoEController(type, {
-      ipAddress,
-      password,
-    });
+    if (!(await canActFor(caller, poeSwitch.ownerEmail))) {
+      return NextResponse.json({ error: "That switch belongs to another account" }, { status: 403 });
+    }
+    const { ipAddress } = poeSwitch;
 
-    const isOnline = await controller.testConnection();
+    // Test connection
+    const isOnline = await runPoECommand(
+      poeSwitch,
+      "test connection",
+      (controller) => controller.testConnection(),
+      { retry: { attempts: 1 } }
+    );
 
-    // Update switch status if switchId provided (both online and offline)
-    if (switchId) {
-      const { updatePoESwitch } = await import("@/lib/firebase/firestore");
-      await updatePoESwitch(switchId, {
-        isOnline: isOnline,
-        lastSeen: isOnline ? new Date() : null,
-      });
-    }
+    // Update switch status (both online and offline)
+    await updateServerPoESwitch(switchId, {
+      isOnline: isOnline,
+      lastSeen: isOnline ? new Date() : null,
+    });
 
     return NextResponse.json({
       success: true,
@@ -53,8 +62,7 @@ export async function POST(request: Request) {
     // Mark switch as offline if test failed
     if (switchId) {
       try {
-        const { updatePoESwitch } = await import("@/lib/firebase/firestore");
-        await updatePoESwitch(switchId, {
+        await updateServerPoESwitch(switchId, {
           isOnline: false,
           lastSeen: null,
         });
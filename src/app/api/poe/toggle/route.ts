@@ -1,34 +1,17 @@
 import { NextResponse } from "next/server";
-import { getPoESwitch, getPoEDevice, updatePoEDevice, updatePoESwitch } from "@/lib/firebase/firestore";
-import { createPoEController } from "@/lib/poe/controller";
-
-// Queue to prevent concurrent toggles to the same device
-const toggleQueues = new Map<string, Promise<void>>();
-
-async function queueToggle(deviceId: string, fn: () => Promise<void>): Promise<void> {
-  // Get existing queue for this device
-  const existingQueue = toggleQueues.get(deviceId) || Promise.resolve();
-
-  // Chain this toggle after the existing queue
-  const newQueue = existingQueue.then(fn).catch((error) => {
-    console.error(`[Queue] Toggle failed for device ${deviceId}:`, error);
-    throw error;
-  });
-
-  toggleQueues.set(deviceId, newQueue);
-
-  // Clean up completed queue after execution
-  await newQueue.finally(() => {
-    if (toggleQueues.get(deviceId) === newQueue) {
-      toggleQueues.delete(deviceId);
-    }
-  });
-}
+import { canActFor, getServerPoEDevice, updateServerPoEDevice, updateServerPoESwitch, verifyCaller } from "@/lib/firebase/admin";
+import { runPoECommand } from "@/lib/commands/device-commands";
+import { resolvePoESwitch } from "@/lib/vault/credentials";
 
 export async function POST(request: Request) {
   let deviceId: string | undefined;
 
   try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to toggle PoE ports" }, { status: 401 });
+    }
+
     const body = await request.json();
     deviceId = body.deviceId;
     const { enabled } = body;
@@ -48,7 +31,7 @@ export async function POST(request: Request) {
     }
 
     // Get PoE device
-    const poeDevice = await getPoEDevice(deviceId);
+    const poeDevice = await getServerPoEDevice(deviceId);
     if (!poeDevice) {
       return NextResponse.json(
         { error: "PoE device not found" },
@@ -56,8 +39,12 @@ export async function POST(request: Request) {
       );
     }
 
+    if (!(await canActFor(caller, poeDevice.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+
     // Get PoE switch
-    const poeSwitch = await getPoESwitch(poeDevice.switchId);
+    const poeSwitch = await resolvePoESwitch(poeDevice.switchId);
     if (!poeSwitch) {
       return NextResponse.json(
         { error: "PoE switch not found" },
@@ -65,36 +52,32 @@ export async function POST(request: Request) {
       );
     }
 
-    // Queue the toggle to prevent concurrent requests to the same device
-    console.log(`[PoE Queue] Queuing ${enabled ? 'ON' : 'OFF'} for device "${poeDevice.name}"`);
-
-    // Capture deviceId in a const for use in the callback
-    const capturedDeviceId = deviceId;
-
-    await queueToggle(deviceId, async () => {
-      console.log(`[PoE Queue] Executing ${enabled ? 'ON' : 'OFF'} for device "${poeDevice.name}"`);
+    if (!(await canActFor(caller, poeSwitch.ownerEmail))) {
+      return NextResponse.json({ error: "That switch belongs to another account" }, { status: 403 });
+    }
 
-      // Create controller and toggle port
-      const controller = createPoEController(poeSwitch.type, {
-        ipAddress: poeSwitch.ipAddress,
-        password: poeSwitch.password,
-      });
+    // Commands for the same switch run one at a time (not coalesced - each
+    // caller writes its own state to Firestore below)
+    console.log(`[PoE] Queuing ${enabled ? 'ON' : 'OFF'} for device "${poeDevice.name}"`);
 
-      await controller.togglePort(poeDevice.portNumber, enabled);
-      console.log(`[PoE Queue] Completed ${enabled ? 'ON' : 'OFF'} for device "${poeDevice.name}"`);
+    await runPoECommand(
+      poeSwitch,
+      `port ${poeDevice.portNumber} ${enabled ? "on" : "off"}`,
+      (controller) => controller.togglePort(poeDevice.portNumber, enabled)
+    );
+    console.log(`[PoE] Completed ${enabled ? 'ON' : 'OFF'} for device "${poeDevice.name}"`);
 
-      // Update device state in Firestore
-      await updatePoEDevice(capturedDeviceId, {
-        isEnabled: enabled,
-        lastToggled: new Date(),
-        isOnline: true,
-      });
+    // Update device state in Firestore
+    await updateServerPoEDevice(deviceId, {
+      isEnabled: enabled,
+      lastToggled: new Date(),
+      isOnline: true,
+    });
 
-      // Update switch online status
-      await updatePoESwitch(poeDevice.switchId, {
-        isOnline: true,
-        lastSeen: new Date(),
-      });
+    // Update switch online status
+    await updateServerPoESwitch(poeDevice.switchId, {
+      isOnline: true,
+      lastSeen: new Date(),
     });
 
     return NextResponse.json({
@@ -111,9 +94,9 @@ export async function POST(request: Request) {
     const errorMessage = error instanceof Error ? error.message : "Failed to toggle PoE device";
     if (deviceId && (errorMessage.includes("timeout") || errorMessage.includes("ETIMEDOUT") || errorMessage.includes("ECONNREFUSED"))) {
       try {
-        const poeDevice = await getPoEDevice(deviceId);
+        const poeDevice = await getServerPoEDevice(deviceId);
         if (poeDevice) {
-          await updatePoESwitch(poeDevice.switchId, {
+          await updateServerPoESwitch(poeDevice.switchId, {
             isOnline: false,
           });
         }
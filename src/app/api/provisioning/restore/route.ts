@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { getServerSnapshot, restoreSnapshot } from "@/lib/provisioning/snapshots";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
+
+interface RestoreSnapshotRequest {
+  snapshotId: string;
+  deviceId: string;             // Target - the original device or its replacement
+  allowModelMismatch?: boolean; // Restore onto a different model anyway
+}
+
+/**
+ * Re-apply a snapshot to a device (e.g. a replacement unit after a hardware swap)
+ * POST /api/provisioning/restore (Authorization: Bearer <ID token>)
+ * Only onto a device of the station the snapshot was taken for, and only by
+ * that station or an admin
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to restore snapshots" }, { status: 401 });
+    }
+
+    const body: RestoreSnapshotRequest = await request.json();
+    const { snapshotId, deviceId, allowModelMismatch } = body;
+
+    if (!snapshotId || !deviceId) {
+      return NextResponse.json(
+        { error: "snapshotId and deviceId are required" },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await getServerSnapshot(snapshotId);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+
+    const target = await resolveAlgoDevice(deviceId);
+    if (!target) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    // A snapshot carries its station's SIP credentials - never onto another station's device
+    if (target.ownerEmail !== snapshot.ownerEmail) {
+      return NextResponse.json({ error: "Snapshot and device belong to different accounts" }, { status: 403 });
+    }
+    if (!(await canActFor(caller, target.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+
+    if (target.type !== snapshot.deviceType && !allowModelMismatch) {
+      return NextResponse.json(
+        { error: `Snapshot is from a ${snapshot.deviceType}, target is a ${target.type}` },
+        { status: 400 }
+      );
+    }
+
+    const restoredKeys = await restoreSnapshot(snapshot, target);
+
+    return NextResponse.json({
+      success: true,
+      deviceId,
+      snapshotId,
+      version: snapshot.version,
+      restoredKeys,
+      message: `Restored ${restoredKeys.length} settings to ${target.name}`,
+    });
+  } catch (error) {
+    console.error("Provisioning restore error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to restore snapshot" },
+      { status: 500 }
+    );
+  }
+}
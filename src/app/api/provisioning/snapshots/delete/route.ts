@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { deleteSnapshot, getServerSnapshot } from "@/lib/provisioning/snapshots";
+
+/**
+ * Delete a snapshot and its encrypted secrets
+ * POST /api/provisioning/snapshots/delete (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to delete snapshots" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { snapshotId } = body as { snapshotId?: string };
+
+    if (!snapshotId) {
+      return NextResponse.json(
+        { error: "snapshotId is required" },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await getServerSnapshot(snapshotId);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, snapshot.ownerEmail))) {
+      return NextResponse.json({ error: "That snapshot belongs to another account" }, { status: 403 });
+    }
+
+    await deleteSnapshot(snapshotId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Provisioning snapshot delete error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete snapshot" },
+      { status: 500 }
+    );
+  }
+}
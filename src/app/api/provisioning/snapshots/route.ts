@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { captureSnapshot } from "@/lib/provisioning/snapshots";
+import { resolveAlgoDevice } from "@/lib/vault/credentials";
+
+interface CaptureSnapshotRequest {
+  deviceId: string;
+  label?: string;
+  createdBy?: string;
+  extraKeys?: string[]; // Settings to read on top of the catalog
+}
+
+/**
+ * Capture a device's configuration as a new snapshot version
+ * POST /api/provisioning/snapshots (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to capture snapshots" }, { status: 401 });
+    }
+
+    const body: CaptureSnapshotRequest = await request.json();
+    const { deviceId, label, createdBy, extraKeys } = body;
+
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: "deviceId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (extraKeys !== undefined && (!Array.isArray(extraKeys) || extraKeys.some((key) => typeof key !== "string"))) {
+      return NextResponse.json(
+        { error: "extraKeys must be an array of setting names" },
+        { status: 400 }
+      );
+    }
+
+    const device = await resolveAlgoDevice(deviceId);
+    if (!device) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    if (!(await canActFor(caller, device.ownerEmail))) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+
+    const snapshot = await captureSnapshot(device, { label, createdBy, extraKeys });
+
+    return NextResponse.json({ success: true, snapshot });
+  } catch (error) {
+    console.error("Provisioning snapshot error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to capture snapshot" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateRecordingExport, type RecordingExportRequest } from "@/lib/algo/recording-export";
+import type { Recording } from "@/lib/algo/types";
+import { exportRecordings } from "@/lib/audio/recording-export";
+import { getServerRecording, isAdminCaller, verifyCaller } from "@/lib/firebase/admin";
+
+/**
+ * Export one recording, or several joined into one file, as MP3, WAV or
+ * Ogg/Opus with station, channel and first-detected tags
+ * POST /api/recordings/export (Authorization: Bearer <ID token>)
+ * Only the station's own recordings, unless the caller is an admin
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to export recordings" }, { status: 401 });
+    }
+
+    const body: Partial<RecordingExportRequest> = await request.json();
+    const invalid = validateRecordingExport(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const { recordingIds, format, timeZone } = body as RecordingExportRequest;
+
+    const recordings: Recording[] = [];
+    let isAdmin: boolean | null = null; // Only looked up for another station's recording
+    for (const id of recordingIds) {
+      const recording = await getServerRecording(id);
+      if (!recording) {
+        return NextResponse.json({ error: `Recording ${id} not found` }, { status: 404 });
+      }
+      if (recording.userEmail !== caller.email && !(isAdmin ??= await isAdminCaller(caller))) {
+        return NextResponse.json({ error: `Recording ${id} belongs to another station` }, { status: 403 });
+      }
+      recordings.push(recording);
+    }
+
+    const { audio, filename, mimeType } = await exportRecordings(recordings, format, timeZone);
+    return new NextResponse(new Uint8Array(audio), {
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Length": String(audio.length),
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "X-Export-Filename": filename,
+      },
+    });
+  } catch (error) {
+    console.error("Recording export error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to export recordings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateSpeechText } from "@/lib/algo/speech";
+import { renderSpeech } from "@/lib/tts/engine";
+
+interface RenderRequest {
+  text: string; // Template already filled in
+}
+
+/**
+ * Render text to a speaker-format WAV - for previews and the live path
+ * POST /api/speech/render
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: RenderRequest = await request.json();
+    const text = body.text ?? "";
+
+    const invalid = validateSpeechText(text);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { audio, filename, duration } = await renderSpeech(text);
+    return new NextResponse(new Uint8Array(audio), {
+      headers: {
+        "Content-Type": "audio/wav",
+        "Content-Length": String(audio.length),
+        "X-Speech-Filename": filename,
+        "X-Speech-Duration": String(duration),
+      },
+    });
+  } catch (error) {
+    console.error("Speech render error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to render speech" },
+      { status: 500 }
+    );
+  }
+}
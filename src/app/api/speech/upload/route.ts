@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { canActFor, verifyCaller } from "@/lib/firebase/admin";
+import { resolveAlgoDevices } from "@/lib/vault/credentials";
+import { LIBRARY_FOLDER } from "@/lib/algo/announcement-library";
+import { validateSpeechText } from "@/lib/algo/speech";
+import { renderSpeech } from "@/lib/tts/engine";
+
+interface UploadRequest {
+  ownerEmail: string;
+  text: string;        // Template already filled in
+  deviceIds: string[]; // Devices that will play it
+}
+
+interface DeviceUploadResult {
+  deviceId: string;
+  deviceName: string;
+  uploaded: boolean; // false = the device already had this rendering
+  error?: string;
+}
+
+/**
+ * Render text and put it in each device's tones folder, ready for
+ * /api/algo/distribute to play by filename
+ * POST /api/speech/upload (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to upload speech" }, { status: 401 });
+    }
+
+    const body: UploadRequest = await request.json();
+    const { ownerEmail, text = "", deviceIds } = body;
+
+    if (!ownerEmail) {
+      return NextResponse.json({ error: "Owner email is required" }, { status: 400 });
+    }
+    if (!(await canActFor(caller, ownerEmail))) {
+      return NextResponse.json({ error: "ownerEmail must be your own account" }, { status: 403 });
+    }
+    if (!Array.isArray(deviceIds) || deviceIds.length === 0) {
+      return NextResponse.json({ error: "Pick at least one device" }, { status: 400 });
+    }
+    const invalid = validateSpeechText(text);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { audio, filename, duration } = await renderSpeech(text);
+    const { devices } = await resolveAlgoDevices(deviceIds);
+
+    const results = await Promise.all(
+      devices
+        .filter((device) => device.ownerEmail === ownerEmail)
+        .map(async (device): Promise<DeviceUploadResult> => {
+          try {
+            const { filelist } = await runAlgoCommand(
+              device,
+              `list ${LIBRARY_FOLDER}`,
+              (client) => client.getFileList(LIBRARY_FOLDER),
+              { retry: { attempts: 1 } }
+            );
+            if (filelist?.includes(filename)) {
+              return { deviceId: device.id, deviceName: device.name, uploaded: false };
+            }
+
+            await runAlgoCommand(
+              device,
+              `upload ${LIBRARY_FOLDER}/${filename}`,
+              (client) => client.uploadFile(LIBRARY_FOLDER, filename, audio),
+              { coalesceKey: `upload:${LIBRARY_FOLDER}/${filename}` }
+            );
+            return { deviceId: device.id, deviceName: device.name, uploaded: true };
+          } catch (error) {
+            return {
+              deviceId: device.id,
+              deviceName: device.name,
+              uploaded: false,
+              error: error instanceof Error ? error.message : "Upload failed",
+            };
+          }
+        })
+    );
+
+    return NextResponse.json({ success: true, filename, duration, devices: results });
+  } catch (error) {
+    console.error("Speech upload error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to upload speech" },
+      { status: 500 }
+    );
+  }
+}
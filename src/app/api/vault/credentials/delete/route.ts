@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCaller } from "@/lib/firebase/admin";
+import { deleteDeviceCredential, getCredentialOwner } from "@/lib/vault/credentials";
+
+/**
+ * Remove a device/switch password from the vault
+ * POST /api/vault/credentials/delete (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to change device passwords" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { deviceId } = body as { deviceId: string };
+
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: "Device ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const owner = await getCredentialOwner(deviceId);
+    if (owner === null) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    if (owner !== caller.email) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+
+    await deleteDeviceCredential(deviceId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Vault API] Delete credential error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete credentials" },
+      { status: 500 }
+    );
+  }
+}
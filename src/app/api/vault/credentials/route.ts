@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCaller } from "@/lib/firebase/admin";
+import {
+  getCredentialOwner,
+  getDeviceCredential,
+  setDeviceCredential,
+  type CredentialKind,
+} from "@/lib/vault/credentials";
+
+interface SetCredentialRequest {
+  deviceId: string; // Algo device or PoE switch ID
+  kind: CredentialKind;
+  password?: string;
+  copyFromDeviceId?: string; // Instead of password: reuse this device's (e.g. the one a scan answered to)
+}
+
+/**
+ * Store a device/switch password in the vault
+ * POST /api/vault/credentials (Authorization: Bearer <ID token>)
+ * Write-only: there is deliberately no route that returns a password
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to change device passwords" }, { status: 401 });
+    }
+
+    const body: SetCredentialRequest = await request.json();
+    const { deviceId, kind, copyFromDeviceId } = body;
+
+    if (!deviceId || (typeof body.password !== "string" && !copyFromDeviceId)) {
+      return NextResponse.json(
+        { error: "deviceId and password (or copyFromDeviceId) are required" },
+        { status: 400 }
+      );
+    }
+
+    if (kind !== "algo" && kind !== "poe_switch") {
+      return NextResponse.json(
+        { error: "kind must be \"algo\" or \"poe_switch\"" },
+        { status: 400 }
+      );
+    }
+
+    const owner = await getCredentialOwner(deviceId, kind);
+    if (owner === null) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+    if (owner !== caller.email) {
+      return NextResponse.json({ error: "That device belongs to another account" }, { status: 403 });
+    }
+
+    let password = body.password;
+    if (typeof password !== "string") {
+      // Only from the caller's own devices
+      const ownsSource = (await getCredentialOwner(copyFromDeviceId!)) === caller.email;
+      const copied = ownsSource ? await getDeviceCredential(copyFromDeviceId!) : null;
+      if (copied === null) {
+        return NextResponse.json({ error: "No password stored for copyFromDeviceId" }, { status: 404 });
+      }
+      password = copied;
+    }
+
+    await setDeviceCredential(deviceId, kind, password);
+
+    return NextResponse.json({ success: true, deviceId });
+  } catch (error) {
+    console.error("[Vault API] Store credential error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to store credentials" },
+      { status: 500 }
+    );
+  }
+}
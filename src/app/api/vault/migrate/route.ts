@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCaller } from "@/lib/firebase/admin";
+import { migrateLegacyCredentials } from "@/lib/vault/credentials";
+
+/**
+ * Move plaintext passwords left on the caller's device/switch documents into
+ * the vault
+ * POST /api/vault/migrate (Authorization: Bearer <ID token>)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyCaller(request);
+    if (!caller) {
+      return NextResponse.json({ error: "Sign in to migrate device passwords" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { ownerEmail } = body as { ownerEmail?: string };
+    if (ownerEmail && ownerEmail !== caller.email) {
+      return NextResponse.json({ error: "Only your own devices can be migrated" }, { status: 403 });
+    }
+
+    const migrated = await migrateLegacyCredentials(caller.email);
+
+    return NextResponse.json({ success: true, migrated });
+  } catch (error) {
+    console.error("[Vault API] Migration error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to migrate credentials" },
+      { status: 500 }
+    );
+  }
+}
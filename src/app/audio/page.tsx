@@ -8,28 +8,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Upload, Trash2, RefreshCw, Music, X, Speaker, Radio } from "lucide-react";
 import { getDevices } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
 import type { AlgoDevice } from "@/lib/algo/types";
 import { formatBytes } from "@/lib/utils";
 import { Select } from "@/components/ui/select";
-
-// Default tones that come pre-installed on Algo devices
-const DEFAULT_TONES = [
-  "bell-na.wav",
-  "bell-uk.wav",
-  "buzzer.wav",
-  "chime.wav",
-  "dogs.wav",
-  "gong.wav",
-  "page-notif.wav",
-  "speech-test.wav",
-  "tone-1kHz-max.wav",
-  "warble1-low.wav",
-  "warble2-med.wav",
-  "warble3-high.wav",
-  "warble4-trill.wav",
-];
+import { AnnouncementLibraryCard } from "@/components/audio/announcement-library-card";
+import { useAuth } from "@/contexts/auth-context";
+import { DEFAULT_TONES } from "@/lib/algo/announcement-library";
+import { AUDIO_UPLOAD_ACCEPT, MAX_AUDIO_UPLOAD_BYTES, toToneFilename } from "@/lib/algo/audio-format";
 
 export default function AudioPage() {
+  const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [showUpload, setShowUpload] = useState(false);
@@ -79,11 +68,9 @@ export default function AudioPage() {
     try {
       const response = await fetch("/api/algo/tones", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          ipAddress: device.ipAddress,
-          password: device.apiPassword,
-          authMethod: device.authMethod,
+          deviceId: device.id,
         }),
       });
 
@@ -114,18 +101,10 @@ export default function AudioPage() {
     try {
       const response = await fetch("/api/algo/play", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          paging: {
-            ipAddress: device.ipAddress,
-            password: device.apiPassword,
-            authMethod: device.authMethod,
-          },
-          speakers: linkedSpeakers.map(s => ({
-            ipAddress: s.ipAddress,
-            password: s.apiPassword,
-            authMethod: s.authMethod,
-          })),
+          pagingId: device.id,
+          speakerIds: linkedSpeakers.map(s => s.id),
           tone: toneName,
           loop: false,
         }),
@@ -145,9 +124,9 @@ export default function AudioPage() {
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      // Validate file type
-      if (!file.name.toLowerCase().endsWith(".wav")) {
-        alert("Please select a WAV file. Algo devices require WAV format.");
+      // Any audio format - the server converts it to a WAV the device plays
+      if (file.size > MAX_AUDIO_UPLOAD_BYTES) {
+        alert(`Please select a file under ${MAX_AUDIO_UPLOAD_BYTES / 1024 / 1024} MB.`);
         return;
       }
       setSelectedFile(file);
@@ -162,12 +141,15 @@ export default function AudioPage() {
     try {
       const formData = new FormData();
       formData.append("file", selectedFile);
-      formData.append("ipAddress", device.ipAddress);
-      formData.append("password", device.apiPassword);
-      formData.append("authMethod", device.authMethod);
+      formData.append("deviceId", device.id);
+
+      // The browser sets the multipart Content-Type (with its boundary)
+      const headers = await getAuthHeaders();
+      delete headers["Content-Type"];
 
       const response = await fetch("/api/algo/files/upload", {
         method: "POST",
+        headers,
         body: formData,
       });
 
@@ -206,11 +188,9 @@ export default function AudioPage() {
     try {
       const response = await fetch("/api/algo/files/delete", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          ipAddress: device.ipAddress,
-          password: device.apiPassword,
-          authMethod: device.authMethod,
+          deviceId: device.id,
           filename: toneName,
         }),
       });
@@ -279,28 +259,30 @@ export default function AudioPage() {
                   </button>
                 </div>
                 <CardDescription>
-                  Upload a WAV file directly to your Algo paging device
+                  Upload an audio file directly to your Algo paging device
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="file">Audio File (WAV only)</Label>
+                  <Label htmlFor="file">Audio File (WAV, MP3, Ogg, FLAC...)</Label>
                   <Input
                     ref={fileInputRef}
                     id="file"
                     type="file"
-                    accept=".wav"
+                    accept={AUDIO_UPLOAD_ACCEPT}
                     onChange={handleFileSelect}
                   />
                   {selectedFile && (
                     <p className="text-sm text-[var(--text-muted)]">
                       {selectedFile.name} ({formatBytes(selectedFile.size)})
+                      {toToneFilename(selectedFile.name) !== selectedFile.name &&
+                        ` - stored as ${toToneFilename(selectedFile.name)}`}
                     </p>
                   )}
                 </div>
 
                 <div className="rounded-xl bg-[var(--accent-blue)]/10 border border-[var(--accent-blue)]/30 p-3 text-sm text-[var(--accent-blue)]">
-                  The file will be uploaded directly to the selected device and will be available immediately for playback.
+                  The file is converted to a 16 kHz mono WAV at the library loudness, then uploaded directly to the selected device and available immediately for playback.
                 </div>
 
                 <div className="flex justify-end gap-2 pt-4">
@@ -458,6 +440,15 @@ export default function AudioPage() {
           </Card>
         )}
 
+        {user?.email && (
+          <AnnouncementLibraryCard
+            devices={devices.filter(d => d.ownerEmail === user.email)}
+            ownerEmail={user.email}
+            userId={user.uid}
+            onSynced={() => selectedDevice && fetchDeviceTones()}
+          />
+        )}
+
         {/* No device selected message */}
         {!selectedDevice && !loading && (
           <Card>
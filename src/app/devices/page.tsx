@@ -10,11 +10,22 @@ import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
-import { Plus, Pencil, Trash2, Play, RefreshCw, X, Volume2, Link2, Search, Activity, Speaker } from "lucide-react";
+import { Plus, Pencil, Trash2, Play, RefreshCw, X, Volume2, Link2, Search, Activity, Speaker, History } from "lucide-react";
 import { getDevices, addDevice, updateDevice, deleteDevice } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
 import type { AlgoDevice, AlgoDeviceType, AlgoAuthMethod } from "@/lib/algo/types";
+import type { DiscoveredDevice, ScanEvent } from "@/lib/algo/discovery";
 import { formatDate, isValidIpAddress } from "@/lib/utils";
 import { useAuth } from "@/contexts/auth-context";
+import { ProvisioningModal } from "@/components/devices/provisioning-modal";
+import { MAX_CALIBRATION_OFFSET_DB, getPageVolumeScale } from "@/lib/algo/volume";
+
+// -12dB to +12dB in the page volume's 3dB steps
+const CALIBRATION_STEP_DB = getPageVolumeScale("8180g2").stepDb;
+const CALIBRATION_OFFSETS = Array.from(
+  { length: (MAX_CALIBRATION_OFFSET_DB * 2) / CALIBRATION_STEP_DB + 1 },
+  (_, i) => i * CALIBRATION_STEP_DB - MAX_CALIBRATION_OFFSET_DB
+);
 
 export default function DevicesPage() {
   const { user } = useAuth();
@@ -31,6 +42,7 @@ export default function DevicesPage() {
     zone: "",
     volume: 50,
     maxVolume: 100, // Per-speaker max volume (0-100)
+    volumeOffsetDb: 0, // Calibration (see src/lib/algo/volume.ts)
     linkedSpeakerIds: [] as string[],
   });
   const [formError, setFormError] = useState("");
@@ -38,11 +50,15 @@ export default function DevicesPage() {
   const [testingDevice, setTestingDevice] = useState<string | null>(null);
   const [showScanModal, setShowScanModal] = useState(false);
   const [scanning, setScanning] = useState(false);
-  const [discoveredDevices, setDiscoveredDevices] = useState<any[]>([]);
+  const [discoveredDevices, setDiscoveredDevices] = useState<DiscoveredDevice[]>([]);
   const [selectedDiscoveredDevices, setSelectedDiscoveredDevices] = useState<Set<string>>(new Set());
   const [checkingStatus, setCheckingStatus] = useState(false);
   const [lastStatusCheck, setLastStatusCheck] = useState<Date | null>(null);
   const [networkRange, setNetworkRange] = useState("");
+  const [scanPassword, setScanPassword] = useState("");
+  const [scanProgress, setScanProgress] = useState<{ scanned: number; total: number } | null>(null);
+  const [scanSummary, setScanSummary] = useState<string | null>(null);
+  const [snapshotDevice, setSnapshotDevice] = useState<AlgoDevice | null>(null);
 
   useEffect(() => {
     if (user?.email) {
@@ -70,7 +86,19 @@ export default function DevicesPage() {
 
     try {
       const userEmail = user.email || "";
-      const data = await getDevices(userEmail);
+      let data = await getDevices(userEmail);
+
+      // Devices saved before the credential vault still carry a plaintext
+      // apiPassword - move those into the vault and reload without them
+      if (data.some((d) => "apiPassword" in d)) {
+        await fetch("/api/vault/migrate", {
+          method: "POST",
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({ ownerEmail: userEmail }),
+        });
+        data = await getDevices(userEmail);
+      }
+
       setDevices(data);
     } catch (error) {
       console.error("Failed to load devices:", error);
@@ -79,6 +107,19 @@ export default function DevicesPage() {
     }
   };
 
+  // Either a new password, or the ID of a stored device whose password to reuse
+  const storeDeviceCredential = async (deviceId: string, password: string | { copyFromDeviceId: string }) => {
+    const response = await fetch("/api/vault/credentials", {
+      method: "POST",
+      headers: await getAuthHeaders(),
+      body: JSON.stringify({ deviceId, kind: "algo", ...(typeof password === "string" ? { password } : password) }),
+    });
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || "Failed to store device password");
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       name: "",
@@ -89,6 +130,7 @@ export default function DevicesPage() {
       zone: "",
       volume: 50,
       maxVolume: 100,
+      volumeOffsetDb: 0,
       linkedSpeakerIds: [],
     });
     setFormError("");
@@ -106,10 +148,11 @@ export default function DevicesPage() {
       type: device.type,
       ipAddress: device.ipAddress,
       authMethod: device.authMethod,
-      apiPassword: device.apiPassword,
+      apiPassword: "", // Stored in the vault - blank keeps the current password
       zone: device.zone || "",
       volume: device.volume,
       maxVolume: device.maxVolume ?? 100, // Default to 100 if not set
+      volumeOffsetDb: device.volumeOffsetDb ?? 0,
       linkedSpeakerIds: device.linkedSpeakerIds || [],
     });
     setEditingDevice(device);
@@ -131,16 +174,24 @@ export default function DevicesPage() {
 
     setSaving(true);
     try {
+      const { apiPassword, ...deviceData } = formData;
+      let deviceId: string;
       if (editingDevice) {
-        await updateDevice(editingDevice.id, formData);
+        await updateDevice(editingDevice.id, deviceData);
+        deviceId = editingDevice.id;
       } else {
-        await addDevice({
-          ...formData,
+        deviceId = await addDevice({
+          ...deviceData,
           ownerEmail: user?.email || "",
           isOnline: false,
           lastSeen: null,
         });
       }
+
+      // The password never goes to Firestore directly - the server encrypts it
+      if (!editingDevice || apiPassword) {
+        await storeDeviceCredential(deviceId, apiPassword);
+      }
       await loadDevices();
       setShowForm(false);
       resetForm();
@@ -155,6 +206,12 @@ export default function DevicesPage() {
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this device?")) return;
     try {
+      // Credential first - the vault checks ownership against the device
+      await fetch("/api/vault/credentials/delete", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ deviceId: id }),
+      });
       await deleteDevice(id);
       await loadDevices();
     } catch (error) {
@@ -167,12 +224,8 @@ export default function DevicesPage() {
     try {
       const response = await fetch("/api/algo/devices/test", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          ipAddress: device.ipAddress,
-          password: device.apiPassword,
-          authMethod: device.authMethod,
-        }),
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ deviceId: device.id }),
       });
       if (!response.ok) {
         const data = await response.json();
@@ -192,46 +245,93 @@ export default function DevicesPage() {
     setDiscoveredDevices([]);
     setSelectedDiscoveredDevices(new Set());
     setNetworkRange(""); // Will be auto-detected or manually entered
+    setScanProgress(null);
+    setScanSummary(null);
   };
 
   const startNetworkScan = async () => {
     setScanning(true);
     setDiscoveredDevices([]);
     setSelectedDiscoveredDevices(new Set());
+    setScanProgress(null);
+    setScanSummary(null);
 
     try {
       const response = await fetch("/api/algo/scan", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          networkRange: networkRange || undefined, // Use custom or auto-detect
+          range: networkRange || undefined, // Use custom or auto-detect
+          ownerEmail: user?.email,
+          password: scanPassword || undefined,
         }),
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to scan network");
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to scan network");
       }
 
-      const data = await response.json();
+      // One ScanEvent per line, streamed as hosts are probed
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let matched = 0;
+      let moved = 0;
 
-      // Show what network range was actually scanned
-      if (data.networkRange) {
-        setNetworkRange(data.networkRange.replace('.0/24', ''));
-      }
+      const handleEvent = (event: ScanEvent) => {
+        switch (event.type) {
+          case "start":
+            // Show what network range was actually scanned
+            setNetworkRange(event.range);
+            setScanProgress({ scanned: 0, total: event.total });
+            break;
+          case "progress":
+            setScanProgress({ scanned: event.scanned, total: event.total });
+            break;
+          case "device":
+            // Already stored (matched by MAC or IP) - the server moved it if its IP changed
+            if (event.device.existingDeviceId) {
+              matched++;
+              if (event.device.previousIpAddress) moved++;
+            } else {
+              setDiscoveredDevices((prev) => [...prev, event.device]);
+            }
+            break;
+          case "done":
+            setScanSummary(
+              `Scanned ${event.scanned} addresses, found ${event.found} Algo device${event.found !== 1 ? "s" : ""}` +
+              (matched > 0 ? ` (${matched} already added${moved > 0 ? `, ${moved} moved to a new IP and updated` : ""})` : "")
+            );
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
+      };
 
-      // Filter out devices that are already added
-      const existingIPs = new Set(devices.map(d => d.ipAddress));
-      const newDevices = data.devices.filter((d: any) => !existingIPs.has(d.ipAddress));
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.filter((line) => line.trim()).forEach((line) => handleEvent(JSON.parse(line)));
+      }
 
-      setDiscoveredDevices(newDevices);
+      if (moved > 0) {
+        await loadDevices();
+      }
     } catch (error) {
       console.error("Network scan error:", error);
-      alert("Failed to scan network. Please try again.");
+      alert(error instanceof Error ? error.message : "Failed to scan network. Please try again.");
     } finally {
       setScanning(false);
     }
   };
 
+  // Units that rejected the password can't be identified, so can't be added from here
+  const addableDevices = discoveredDevices.filter((d) => !d.authRequired);
+
   const handleToggleDiscoveredDevice = (ipAddress: string) => {
     const newSelected = new Set(selectedDiscoveredDevices);
     if (newSelected.has(ipAddress)) {
@@ -255,20 +355,20 @@ export default function DevicesPage() {
       );
 
       for (const discovered of devicesToAdd) {
-        // Generate unique name: use detected name + last octet of IP
-        // Example: "Algo 8180 IP Speaker - .101" or "8180 Speaker (.101)"
+        // Generate unique name: use product name + last octet of IP
+        // Example: "8180G2 IP Audio Alerter (.101)"
         const ipLastOctet = discovered.ipAddress.split('.').pop();
-        let deviceName = discovered.name || discovered.model;
+        let deviceName = discovered.productName || "Algo Device";
 
         // Make name unique by appending IP last octet
         deviceName = `${deviceName} (.${ipLastOctet})`;
 
-        await addDevice({
+        const deviceId = await addDevice({
           name: deviceName,
-          type: discovered.type === "8301" ? "8301" : "8180g2",
+          type: discovered.type,
           ipAddress: discovered.ipAddress,
-          authMethod: "basic",
-          apiPassword: "algo",
+          ...(discovered.macAddress ? { macAddress: discovered.macAddress } : {}),
+          authMethod: discovered.authMethod ?? "basic",
           ownerEmail: user?.email || "",
           zone: "",
           volume: 50,
@@ -276,6 +376,11 @@ export default function DevicesPage() {
           isOnline: true,
           lastSeen: new Date(),
         });
+        // The password it answered to - one of the stored devices' if not the scan password
+        await storeDeviceCredential(
+          deviceId,
+          discovered.passwordFromDeviceId ? { copyFromDeviceId: discovered.passwordFromDeviceId } : scanPassword || "algo"
+        );
       }
 
       await loadDevices();
@@ -298,14 +403,9 @@ export default function DevicesPage() {
     try {
       const response = await fetch("/api/algo/health", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          devices: devices.map(d => ({
-            id: d.id,
-            ipAddress: d.ipAddress,
-            apiPassword: d.apiPassword,
-            authMethod: d.authMethod,
-          })),
+          deviceIds: devices.map(d => d.id),
           timeout: 3000,
         }),
       });
@@ -492,7 +592,7 @@ export default function DevicesPage() {
                       <Label htmlFor="apiPassword">API Password</Label>
                       <PasswordInput
                         id="apiPassword"
-                        placeholder="algo"
+                        placeholder={editingDevice ? "Leave blank to keep current" : "algo"}
                         value={formData.apiPassword}
                         onChange={(e) =>
                           setFormData({ ...formData, apiPassword: e.target.value })
@@ -556,6 +656,32 @@ export default function DevicesPage() {
                     </div>
                   )}
 
+                  {/* Calibration - only for speakers, not paging devices */}
+                  {formData.type !== "8301" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="volumeOffsetDb">Calibration</Label>
+                      <Select
+                        id="volumeOffsetDb"
+                        value={formData.volumeOffsetDb}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            volumeOffsetDb: parseInt(e.target.value),
+                          })
+                        }
+                      >
+                        {CALIBRATION_OFFSETS.map((offset) => (
+                          <option key={offset} value={offset}>
+                            {offset > 0 ? `+${offset}` : offset} dB{offset === 0 ? " (none)" : ""}
+                          </option>
+                        ))}
+                      </Select>
+                      <p className="text-xs text-[var(--text-muted)]">
+                        Added to this speaker&apos;s page volume so it matches the other speakers in its zone. Not applied at idle volume.
+                      </p>
+                    </div>
+                  )}
+
                   {/* Speaker Linking (only for 8301 paging devices) */}
                   {formData.type === "8301" && (
                     <div className="space-y-2">
@@ -685,7 +811,7 @@ export default function DevicesPage() {
                 </div>
               </CardHeader>
               <CardContent className="flex-1 overflow-hidden flex flex-col">
-                {!scanning && discoveredDevices.length === 0 ? (
+                {!scanning && discoveredDevices.length === 0 && !scanSummary ? (
                   <div className="flex flex-col items-center justify-center py-12 space-y-4">
                     <div className="mb-4 rounded-full bg-[var(--accent-blue)]/15 p-4">
                       <Search className="h-8 w-8 text-[var(--accent-blue)]" />
@@ -698,14 +824,23 @@ export default function DevicesPage() {
                         <Label htmlFor="networkRange">Network Range (optional)</Label>
                         <Input
                           id="networkRange"
-                          placeholder="e.g., 10.211.37 or leave blank for auto-detect"
+                          placeholder="e.g., 10.211.36.0/22 or leave blank for auto-detect"
                           value={networkRange}
                           onChange={(e) => setNetworkRange(e.target.value)}
                         />
                         <p className="text-xs text-[var(--text-muted)]">
-                          Enter first 3 octets (e.g., "10.211.37") or leave blank to auto-detect
+                          Any CIDR range up to a /20, or leave blank to scan this computer&apos;s subnet
                         </p>
                       </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="scanPassword">Device Password (optional)</Label>
+                        <PasswordInput
+                          id="scanPassword"
+                          placeholder="Leave blank for the factory default"
+                          value={scanPassword}
+                          onChange={(e) => setScanPassword(e.target.value)}
+                        />
+                      </div>
                       <Button onClick={startNetworkScan} className="w-full">
                         <Search className="mr-2 h-4 w-4" />
                         Start Scanning
@@ -717,9 +852,21 @@ export default function DevicesPage() {
                     <div className="h-12 w-12 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent mb-4" />
                     <p className="text-[var(--text-secondary)]">Scanning network for Algo devices...</p>
                     <p className="text-sm text-[var(--text-muted)] mt-2">
-                      Scanning {networkRange || 'auto-detected network'}.0/24
+                      Scanning {networkRange || 'auto-detected network'}
                     </p>
-                    <p className="text-sm text-[var(--text-muted)]">This may take 10-30 seconds</p>
+                    {scanProgress && (
+                      <div className="w-full max-w-md mt-4 space-y-1">
+                        <div className="h-2 rounded-full bg-[var(--bg-tertiary)] overflow-hidden">
+                          <div
+                            className="h-full bg-[var(--accent-blue)] transition-all"
+                            style={{ width: `${(scanProgress.scanned / scanProgress.total) * 100}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-[var(--text-muted)] text-center">
+                          {scanProgress.scanned}/{scanProgress.total} addresses · {discoveredDevices.length} new device{discoveredDevices.length !== 1 ? 's' : ''}
+                        </p>
+                      </div>
+                    )}
                   </div>
                 ) : discoveredDevices.length === 0 ? (
                   <div className="flex flex-col items-center justify-center py-12">
@@ -732,6 +879,9 @@ export default function DevicesPage() {
                     <p className="text-center text-[var(--text-muted)] mb-4">
                       All Algo devices on your network are already added, or no devices were detected.
                     </p>
+                    {scanSummary && (
+                      <p className="text-center text-sm text-[var(--text-muted)] mb-4">{scanSummary}</p>
+                    )}
                     <Button onClick={startNetworkScan} variant="outline">
                       <RefreshCw className="mr-2 h-4 w-4" />
                       Scan Again
@@ -741,30 +891,49 @@ export default function DevicesPage() {
                   <>
                     <div className="mb-4">
                       <p className="text-sm text-[var(--text-secondary)]">
-                        Found {discoveredDevices.length} device{discoveredDevices.length !== 1 ? 's' : ''}.
+                        Found {discoveredDevices.length} new device{discoveredDevices.length !== 1 ? 's' : ''}.
                         Select the devices you want to add:
                       </p>
+                      {scanSummary && (
+                        <p className="text-xs text-[var(--text-muted)] mt-1">{scanSummary}</p>
+                      )}
                     </div>
                     <div className="flex-1 overflow-y-auto border border-[var(--border-color)] rounded-lg divide-y divide-[var(--border-color)]">
                       {discoveredDevices.map((device) => (
                         <label
                           key={device.ipAddress}
-                          className="flex items-start gap-3 p-4 cursor-pointer hover:bg-[var(--bg-tertiary)] transition-colors"
+                          className={`flex items-start gap-3 p-4 transition-colors ${
+                            device.authRequired ? "opacity-60" : "cursor-pointer hover:bg-[var(--bg-tertiary)]"
+                          }`}
                         >
                           <input
                             type="checkbox"
                             checked={selectedDiscoveredDevices.has(device.ipAddress)}
                             onChange={() => handleToggleDiscoveredDevice(device.ipAddress)}
+                            disabled={device.authRequired}
                             className="mt-1 rounded border-[var(--border-color)] bg-[var(--bg-tertiary)]"
                           />
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-1">
                               <span className="font-medium text-[var(--text-primary)]">
-                                {device.name || device.model}
+                                {device.productName || "Algo device"}
                               </span>
-                              <Badge variant="outline">{device.type.toUpperCase()}</Badge>
+                              {device.authRequired ? (
+                                <Badge variant="warning">Password required</Badge>
+                              ) : (
+                                <Badge variant="outline">{device.type.toUpperCase()}</Badge>
+                              )}
                             </div>
-                            <p className="text-sm text-[var(--text-muted)]">{device.ipAddress}</p>
+                            <p className="text-sm text-[var(--text-muted)]">
+                              {device.ipAddress}
+                              {device.macAddress ? ` · ${device.macAddress}` : ""}
+                              {device.firmwareVersion ? ` · fw ${device.firmwareVersion}` : ""}
+                            </p>
+                            {device.authRequired && (
+                              <p className="text-xs text-[var(--text-muted)] mt-1">
+                                Scan again with its password to identify it
+                              </p>
+                            )}
                           </div>
                         </label>
                       ))}
@@ -778,16 +947,16 @@ export default function DevicesPage() {
                         <Button
                           variant="outline"
                           onClick={() => {
-                            const allIPs = new Set(discoveredDevices.map(d => d.ipAddress));
+                            const allIPs = new Set(addableDevices.map(d => d.ipAddress));
                             setSelectedDiscoveredDevices(
-                              selectedDiscoveredDevices.size === discoveredDevices.length
+                              selectedDiscoveredDevices.size === addableDevices.length
                                 ? new Set()
                                 : allIPs
                             );
                           }}
                           disabled={saving}
                         >
-                          {selectedDiscoveredDevices.size === discoveredDevices.length ? 'Deselect All' : 'Select All'}
+                          {selectedDiscoveredDevices.size === addableDevices.length ? 'Deselect All' : 'Select All'}
                         </Button>
                         <Button
                           onClick={handleAddDiscoveredDevices}
@@ -950,6 +1119,14 @@ export default function DevicesPage() {
                             <Pencil className="mr-1 h-3 w-3" />
                             Edit
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setSnapshotDevice(device)}
+                          >
+                            <History className="mr-1 h-3 w-3" />
+                            Snapshots
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -1014,6 +1191,9 @@ export default function DevicesPage() {
                           <span>
                             Volume: {device.volume}%
                             <span className="text-[var(--accent-orange)]"> (max: {device.maxVolume ?? 100}%)</span>
+                            {!!device.volumeOffsetDb && (
+                              <span> · {device.volumeOffsetDb > 0 ? "+" : ""}{device.volumeOffsetDb} dB cal</span>
+                            )}
                           </span>
                         </div>
                         <p className="text-xs text-[var(--text-muted)]">
@@ -1037,6 +1217,14 @@ export default function DevicesPage() {
                             <Pencil className="mr-1 h-3 w-3" />
                             Edit
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setSnapshotDevice(device)}
+                          >
+                            <History className="mr-1 h-3 w-3" />
+                            Snapshots
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -1055,6 +1243,15 @@ export default function DevicesPage() {
           </div>
         )}
       </div>
+
+      {/* Provisioning Snapshots */}
+      <ProvisioningModal
+        open={snapshotDevice !== null}
+        onOpenChange={(open) => !open && setSnapshotDevice(null)}
+        device={snapshotDevice}
+        devices={devices}
+        userEmail={user?.email || undefined}
+      />
     </AppLayout>
   );
 }
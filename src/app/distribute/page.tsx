@@ -10,9 +10,11 @@ import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
-import { Play, Square, Volume2, Radio, CheckCircle, XCircle, Loader2, Music, Speaker } from "lucide-react";
+import { Play, Square, Volume2, Radio, CheckCircle, XCircle, Loader2, Music, Speaker, MessageSquareText } from "lucide-react";
 import { getDevices, getAudioFiles, addDistributionLog } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
 import { useAuth } from "@/contexts/auth-context";
+import { SpeechAnnouncementCard } from "@/components/audio/speech-announcement-card";
 import type { AlgoDevice, AudioFile } from "@/lib/algo/types";
 import Link from "next/link";
 
@@ -32,7 +34,9 @@ export default function DistributePage() {
   const [stopping, setStopping] = useState(false);
 
   // Distribution settings
+  const [audioSource, setAudioSource] = useState<"file" | "speech">("file");
   const [selectedAudio, setSelectedAudio] = useState("");
+  const [spokenText, setSpokenText] = useState(""); // Filled-in message, "" while incomplete
   const [selectedDevices, setSelectedDevices] = useState<string[]>([]);
   const [volume, setVolume] = useState(50);
   const [loop, setLoop] = useState(false);
@@ -91,9 +95,13 @@ export default function DistributePage() {
     }
   };
 
+  const hasAudio = audioSource === "speech" ? !!spokenText : !!selectedAudio;
+
   const handleDistribute = async () => {
-    if (!selectedAudio || selectedDevices.length === 0) {
-      alert("Please select an audio file and at least one device");
+    if (!hasAudio || selectedDevices.length === 0) {
+      alert(audioSource === "speech"
+        ? "Please type an announcement and select at least one device"
+        : "Please select an audio file and at least one device");
       return;
     }
 
@@ -101,13 +109,50 @@ export default function DistributePage() {
     setResults([]);
     setShowResults(true);
 
-    const audioFile = audioFiles.find((a) => a.id === selectedAudio);
+    const audioFile = audioSource === "file" ? audioFiles.find((a) => a.id === selectedAudio) : undefined;
     const distributionResults: DistributionResult[] = [];
 
+    // Spoken announcements are rendered once and put on each device first
+    let filename = audioFile?.filename;
+    const uploadErrors: Record<string, string> = {};
+    if (audioSource === "speech") {
+      try {
+        const response = await fetch("/api/speech/upload", {
+          method: "POST",
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({ ownerEmail: user?.email, text: spokenText, deviceIds: selectedDevices }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error);
+        }
+        filename = data.filename;
+        for (const result of data.devices as { deviceId: string; error?: string }[]) {
+          if (result.error) uploadErrors[result.deviceId] = `Upload failed: ${result.error}`;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to render announcement";
+        setResults(selectedDevices.map((deviceId) => ({
+          deviceId,
+          deviceName: devices.find((d) => d.id === deviceId)?.name ?? deviceId,
+          success: false,
+          error: message,
+        })));
+        setDistributing(false);
+        return;
+      }
+    }
+
     for (const deviceId of selectedDevices) {
       const device = devices.find((d) => d.id === deviceId);
       if (!device) continue;
 
+      if (uploadErrors[deviceId]) {
+        distributionResults.push({ deviceId, deviceName: device.name, success: false, error: uploadErrors[deviceId] });
+        setResults([...distributionResults]);
+        continue;
+      }
+
       // Get linked speakers if this is a paging device
       const linkedSpeakers = device.type === "8301" && device.linkedSpeakerIds
         ? devices.filter(d => device.linkedSpeakerIds?.includes(d.id))
@@ -116,21 +161,12 @@ export default function DistributePage() {
       try {
         const response = await fetch("/api/algo/distribute", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            device: {
-              ipAddress: device.ipAddress,
-              password: device.apiPassword,
-              authMethod: device.authMethod,
-              type: device.type,
-            },
-            speakers: linkedSpeakers.map(s => ({
-              ipAddress: s.ipAddress,
-              password: s.apiPassword,
-              authMethod: s.authMethod,
-            })),
+            deviceId: device.id,
+            speakerIds: linkedSpeakers.map(s => s.id),
             audioUrl: audioFile?.storageUrl,
-            filename: audioFile?.filename,
+            filename,
             loop,
             volume,
           }),
@@ -157,11 +193,11 @@ export default function DistributePage() {
     }
 
     // Log the distribution
-    if (audioFile) {
+    if (filename) {
       const successCount = distributionResults.filter((r) => r.success).length;
       await addDistributionLog({
-        audioFileId: selectedAudio,
-        audioFileName: audioFile.name,
+        audioFileId: audioFile ? selectedAudio : filename,
+        audioFileName: audioFile ? audioFile.name : `Spoken: "${spokenText}"`,
         targetDevices: selectedDevices,
         targetZones: [...new Set(devices.filter((d) => selectedDevices.includes(d.id)).map((d) => d.zone).filter((zone): zone is string => zone !== null))],
         triggeredBy: user?.uid || "unknown",
@@ -188,19 +224,10 @@ export default function DistributePage() {
       try {
         await fetch("/api/algo/distribute/stop", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            device: {
-              ipAddress: device.ipAddress,
-              password: device.apiPassword,
-              authMethod: device.authMethod,
-              type: device.type,
-            },
-            speakers: linkedSpeakers.map(s => ({
-              ipAddress: s.ipAddress,
-              password: s.apiPassword,
-              authMethod: s.authMethod,
-            })),
+            deviceId: device.id,
+            speakerIds: linkedSpeakers.map(s => s.id),
           }),
         });
       } catch (error) {
@@ -241,45 +268,69 @@ export default function DistributePage() {
         <div className="grid gap-6 lg:grid-cols-3">
           {/* Left Column - Controls */}
           <div className="space-y-6 lg:col-span-2">
+            {/* Audio Source */}
+            <div className="flex gap-2">
+              <Button
+                variant={audioSource === "file" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setAudioSource("file")}
+              >
+                <Music className="mr-2 h-4 w-4" />
+                Audio File
+              </Button>
+              <Button
+                variant={audioSource === "speech" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setAudioSource("speech")}
+              >
+                <MessageSquareText className="mr-2 h-4 w-4" />
+                Text to Speech
+              </Button>
+            </div>
+
             {/* Audio Selection */}
-            <Card>
-              <CardHeader>
-                <div className="flex items-center gap-3">
-                  <div className="p-2 rounded-lg bg-[var(--accent-purple)]/15">
-                    <Music className="h-5 w-5 text-[var(--accent-purple)]" />
-                  </div>
-                  <div>
-                    <CardTitle className="text-lg">Select Audio</CardTitle>
-                    <CardDescription>
-                      Choose an audio file from your library
-                    </CardDescription>
+            {audioSource === "speech" && user?.email ? (
+              <SpeechAnnouncementCard ownerEmail={user.email} onSpokenTextChange={setSpokenText} />
+            ) : (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-[var(--accent-purple)]/15">
+                      <Music className="h-5 w-5 text-[var(--accent-purple)]" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-lg">Select Audio</CardTitle>
+                      <CardDescription>
+                        Choose an audio file from your library
+                      </CardDescription>
+                    </div>
                   </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                {audioFiles.length === 0 ? (
-                  <p className="text-sm text-[var(--text-muted)]">
-                    No audio files available.{" "}
-                    <Link href="/audio" className="text-[var(--accent-blue)] hover:underline">
-                      Upload some first
-                    </Link>
-                    .
-                  </p>
-                ) : (
-                  <Select
-                    value={selectedAudio}
-                    onChange={(e) => setSelectedAudio(e.target.value)}
-                  >
-                    <option value="">Select an audio file...</option>
-                    {audioFiles.map((audio) => (
-                      <option key={audio.id} value={audio.id}>
-                        {audio.name}
-                      </option>
-                    ))}
-                  </Select>
-                )}
-              </CardContent>
-            </Card>
+                </CardHeader>
+                <CardContent>
+                  {audioFiles.length === 0 ? (
+                    <p className="text-sm text-[var(--text-muted)]">
+                      No audio files available.{" "}
+                      <Link href="/audio" className="text-[var(--accent-blue)] hover:underline">
+                        Upload some first
+                      </Link>
+                      .
+                    </p>
+                  ) : (
+                    <Select
+                      value={selectedAudio}
+                      onChange={(e) => setSelectedAudio(e.target.value)}
+                    >
+                      <option value="">Select an audio file...</option>
+                      {audioFiles.map((audio) => (
+                        <option key={audio.id} value={audio.id}>
+                          {audio.name}
+                        </option>
+                      ))}
+                    </Select>
+                  )}
+                </CardContent>
+              </Card>
+            )}
 
             {/* Device Selection */}
             <Card>
@@ -415,7 +466,7 @@ export default function DistributePage() {
                 <Button
                   className="w-full"
                   onClick={handleDistribute}
-                  disabled={!selectedAudio || selectedDevices.length === 0 || distributing}
+                  disabled={!hasAudio || selectedDevices.length === 0 || distributing}
                   isLoading={distributing}
                 >
                   <Play className="mr-2 h-4 w-4" />
@@ -488,9 +539,11 @@ export default function DistributePage() {
                       {selectedDevices.length !== 1 ? "s" : ""} selected
                     </p>
                     <p className="text-[var(--text-muted)]">
-                      {selectedAudio
-                        ? audioFiles.find((a) => a.id === selectedAudio)?.name
-                        : "No audio selected"}
+                      {audioSource === "speech"
+                        ? spokenText ? `"${spokenText}"` : "No announcement typed"
+                        : selectedAudio
+                          ? audioFiles.find((a) => a.id === selectedAudio)?.name
+                          : "No audio selected"}
                     </p>
                   </div>
                 </div>
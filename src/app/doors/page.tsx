@@ -0,0 +1,547 @@
+"use client";
+
+import { useEffect, useState, useMemo } from "react";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { DoorOpen, Plus, Trash2, Save, Lock, Unlock, Timer, RefreshCw, AlertTriangle, ToggleRight } from "lucide-react";
+import { getDevices, getDoorActionPlan, getDoorAuditLog, setDoorActionPlan } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import {
+  DOOR_ACTION_LABELS,
+  DOOR_PHASE_LABELS,
+  DOOR_TRIGGER_LABELS,
+  MAX_MOMENTARY_UNLOCK_SECONDS,
+  describeDoorRule,
+  newDoorActionRule,
+  validateDoorActionRule,
+} from "@/lib/algo/door-actions";
+import {
+  MAX_RELAY_POLL_INTERVAL_MS,
+  MIN_RELAY_POLL_INTERVAL_MS,
+  TRIGGER_MODE_LABELS,
+  TRIGGER_MODES,
+  isRelayTriggerDevice,
+  usesRelayTrigger,
+  validateRelayTriggerSettings,
+  type RelayTriggerSettings,
+  type TriggerMode,
+} from "@/lib/algo/relay-trigger";
+import { useSettings } from "@/contexts/settings-context";
+import type {
+  AlgoDevice,
+  AlgoDoorId,
+  DoorActionPhase,
+  DoorActionRule,
+  DoorActionTrigger,
+  DoorActionType,
+  DoorAuditEntry,
+} from "@/lib/algo/types";
+import { formatDate } from "@/lib/utils";
+import { useAuth } from "@/contexts/auth-context";
+
+const DOOR_LABELS: Record<AlgoDoorId, string> = {
+  local: "Local relay",
+  netdc1: "Network door controller",
+};
+
+export default function DoorsPage() {
+  const { user } = useAuth();
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [rules, setRules] = useState<DoorActionRule[]>([]);
+  const [auditLog, setAuditLog] = useState<DoorAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Manual control
+  const [manualDeviceId, setManualDeviceId] = useState("");
+  const [manualDoorId, setManualDoorId] = useState<AlgoDoorId>("local");
+  const [manualDuration, setManualDuration] = useState(10);
+  const [manualRunning, setManualRunning] = useState<DoorActionType | null>(null);
+  const [manualStatus, setManualStatus] = useState<string | null>(null);
+
+  // Call trigger (relay input) - unsaved edits over the owner's settings
+  const { settings, saveSettings } = useSettings();
+  const [relayTriggerDraft, setRelayTriggerDraft] = useState<RelayTriggerSettings | null>(null);
+  const [relayTriggerStatus, setRelayTriggerStatus] = useState<string | null>(null);
+  const [savingRelayTrigger, setSavingRelayTrigger] = useState(false);
+  const relayTrigger = relayTriggerDraft ?? settings.relayTrigger;
+
+  useEffect(() => {
+    if (user?.email) {
+      loadData();
+    }
+    // Only re-run if email changes (more stable)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.email]);
+
+  const loadData = async () => {
+    if (!user?.email) return;
+    try {
+      setLoading(true);
+      const [deviceData, plan, auditData] = await Promise.all([
+        getDevices(user.email),
+        getDoorActionPlan(user.email),
+        getDoorAuditLog(user.email, 50),
+      ]);
+      setDevices(deviceData);
+      setRules(plan?.rules ?? []);
+      setAuditLog(auditData);
+      if (!manualDeviceId && deviceData.length > 0) {
+        setManualDeviceId(deviceData[0].id);
+      }
+    } catch (error) {
+      console.error("Failed to load door rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshAuditLog = async () => {
+    if (!user?.email) return;
+    try {
+      setAuditLog(await getDoorAuditLog(user.email, 50));
+    } catch (error) {
+      console.error("Failed to load door audit log:", error);
+    }
+  };
+
+  const ruleErrors = useMemo(
+    () => new Map(rules.map((rule) => [rule.id, validateDoorActionRule(rule, devices)])),
+    [rules, devices]
+  );
+  const hasErrors = Array.from(ruleErrors.values()).some((errors) => errors.length > 0);
+
+  const relayInputDevices = useMemo(() => devices.filter(isRelayTriggerDevice), [devices]);
+  const relayTriggerErrors = useMemo(
+    () => validateRelayTriggerSettings(relayTrigger, devices),
+    [relayTrigger, devices]
+  );
+
+  const addRule = () => {
+    if (devices.length === 0) return;
+    setRules((prev) => [...prev, newDoorActionRule(devices[0].id)]);
+    setStatus(null);
+  };
+
+  const updateRule = (id: string, changes: Partial<DoorActionRule>) => {
+    setRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+    setStatus(null);
+  };
+
+  const removeRule = (id: string) => {
+    setRules((prev) => prev.filter((rule) => rule.id !== id));
+    setStatus(null);
+  };
+
+  const handleSave = async () => {
+    if (!user?.email || hasErrors) return;
+    setSaving(true);
+    try {
+      await setDoorActionPlan({ ownerEmail: user.email, rules });
+      setStatus("Door rules saved - they run from the next call");
+    } catch (error) {
+      console.error("Failed to save door rules:", error);
+      setStatus(error instanceof Error ? error.message : "Failed to save door rules");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRelayTrigger = (changes: Partial<RelayTriggerSettings>) => {
+    setRelayTriggerDraft({ ...relayTrigger, ...changes });
+    setRelayTriggerStatus(null);
+  };
+
+  const toggleRelayTriggerDevice = (deviceId: string, selected: boolean) => {
+    updateRelayTrigger({
+      deviceIds: selected
+        ? [...relayTrigger.deviceIds, deviceId]
+        : relayTrigger.deviceIds.filter((id) => id !== deviceId),
+    });
+  };
+
+  const handleSaveRelayTrigger = async () => {
+    if (relayTriggerErrors.length > 0) return;
+    setSavingRelayTrigger(true);
+    try {
+      await saveSettings({ relayTrigger });
+      setRelayTriggerDraft(null);
+      setRelayTriggerStatus("Call trigger saved - used the next time monitoring starts");
+    } catch (error) {
+      console.error("Failed to save call trigger:", error);
+      setRelayTriggerStatus(error instanceof Error ? error.message : "Failed to save call trigger");
+    } finally {
+      setSavingRelayTrigger(false);
+    }
+  };
+
+  const handleManualAction = async (action: DoorActionType) => {
+    if (!user?.email || !manualDeviceId) return;
+    setManualRunning(action);
+    setManualStatus(null);
+    try {
+      const response = await fetch("/api/doors/action", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          ownerEmail: user.email,
+          deviceId: manualDeviceId,
+          doorId: manualDoorId,
+          action,
+          durationSeconds: manualDuration,
+          triggeredBy: user.email,
+        }),
+      });
+      const data = await response.json();
+      setManualStatus(response.ok ? `${DOOR_ACTION_LABELS[action]} sent to ${data.deviceName}` : data.error || `HTTP ${response.status}`);
+      await refreshAuditLog();
+    } catch (error) {
+      console.error("Failed to run door action:", error);
+      setManualStatus(error instanceof Error ? error.message : "Failed to run door action");
+    } finally {
+      setManualRunning(null);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--text-primary)]">Doors & Relays</h1>
+          <p className="text-[var(--text-secondary)] text-sm">
+            Unlock or lock door controllers when a call starts or ends, and start calls from a relay input
+          </p>
+        </div>
+
+        {/* Rules */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-[var(--accent-orange)]/15">
+                  <DoorOpen className="h-5 w-5 text-[var(--accent-orange)]" />
+                </div>
+                <div>
+                  <CardTitle>Call Rules</CardTitle>
+                  <CardDescription>Door actions per call type</CardDescription>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={addRule} disabled={loading || devices.length === 0}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Rule
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={saving || hasErrors}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">Loading...</p>
+            ) : rules.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">
+                No door rules - calls don&apos;t touch any doors
+              </p>
+            ) : (
+              rules.map((rule) => {
+                const errors = ruleErrors.get(rule.id) ?? [];
+                return (
+                  <div key={rule.id} className="p-4 rounded-xl border border-[var(--border-color)] space-y-3">
+                    <div className="flex items-center gap-3">
+                      <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(rule.id, { enabled })} />
+                      <Input
+                        value={rule.name}
+                        onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                        placeholder="Rule name"
+                        className="flex-1"
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                      <div className="space-y-1 md:col-span-2">
+                        <Label className="text-xs">Door controller</Label>
+                        <Select value={rule.deviceId} onChange={(e) => updateRule(rule.id, { deviceId: e.target.value })}>
+                          {!devices.some((d) => d.id === rule.deviceId) && <option value={rule.deviceId}>Deleted device</option>}
+                          {devices.map((device) => (
+                            <option key={device.id} value={device.id}>
+                              {device.name} ({device.ipAddress})
+                            </option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Door</Label>
+                        <Select value={rule.doorId} onChange={(e) => updateRule(rule.id, { doorId: e.target.value as AlgoDoorId })}>
+                          {(Object.keys(DOOR_LABELS) as AlgoDoorId[]).map((doorId) => (
+                            <option key={doorId} value={doorId}>{DOOR_LABELS[doorId]}</option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Action</Label>
+                        <Select value={rule.action} onChange={(e) => updateRule(rule.id, { action: e.target.value as DoorActionType })}>
+                          {(Object.keys(DOOR_ACTION_LABELS) as DoorActionType[]).map((action) => (
+                            <option key={action} value={action}>{DOOR_ACTION_LABELS[action]}</option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Trigger</Label>
+                        <Select value={rule.trigger} onChange={(e) => updateRule(rule.id, { trigger: e.target.value as DoorActionTrigger })}>
+                          {(Object.keys(DOOR_TRIGGER_LABELS) as DoorActionTrigger[]).map((trigger) => (
+                            <option key={trigger} value={trigger}>{DOOR_TRIGGER_LABELS[trigger]}</option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">When the call</Label>
+                        <Select value={rule.phase} onChange={(e) => updateRule(rule.id, { phase: e.target.value as DoorActionPhase })}>
+                          {(Object.keys(DOOR_PHASE_LABELS) as DoorActionPhase[]).map((phase) => (
+                            <option key={phase} value={phase}>{DOOR_PHASE_LABELS[phase]}</option>
+                          ))}
+                        </Select>
+                      </div>
+                    </div>
+                    {rule.action === "momentary_unlock" && (
+                      <div className="flex items-center gap-3">
+                        <Label className="text-xs">Unlock for (seconds)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_MOMENTARY_UNLOCK_SECONDS}
+                          value={rule.durationSeconds ?? 10}
+                          onChange={(e) => updateRule(rule.id, { durationSeconds: parseInt(e.target.value) })}
+                          className="w-24"
+                        />
+                      </div>
+                    )}
+                    {errors.length > 0 ? (
+                      <div className="space-y-1">
+                        {errors.map((error) => (
+                          <div key={error} className="flex items-center gap-2 text-xs">
+                            <Badge variant="destructive">error</Badge>
+                            <span className="text-[var(--text-secondary)]">{error}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-[var(--text-muted)]">{describeDoorRule(rule)}</p>
+                    )}
+                  </div>
+                );
+              })
+            )}
+
+            {status && (
+              <div className="flex items-start gap-2 text-xs text-[var(--text-secondary)]">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {status}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Call Trigger */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+                  <ToggleRight className="h-5 w-5 text-[var(--accent-blue)]" />
+                </div>
+                <div>
+                  <CardTitle>Call Trigger</CardTitle>
+                  <CardDescription>Start calls from the dispatch contact on an 8301/8180 relay input</CardDescription>
+                </div>
+              </div>
+              <Button size="sm" onClick={handleSaveRelayTrigger} disabled={savingRelayTrigger || relayTriggerErrors.length > 0}>
+                <Save className="mr-2 h-4 w-4" />
+                {savingRelayTrigger ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1 md:col-span-2">
+                <Label className="text-xs">Start calls on</Label>
+                <Select value={relayTrigger.mode} onChange={(e) => updateRelayTrigger({ mode: e.target.value as TriggerMode })}>
+                  {TRIGGER_MODES.map((mode) => (
+                    <option key={mode} value={mode}>{TRIGGER_MODE_LABELS[mode]}</option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Poll every (ms)</Label>
+                <Input
+                  type="number"
+                  min={MIN_RELAY_POLL_INTERVAL_MS}
+                  max={MAX_RELAY_POLL_INTERVAL_MS}
+                  step={250}
+                  value={relayTrigger.pollIntervalMs}
+                  onChange={(e) => updateRelayTrigger({ pollIntervalMs: parseInt(e.target.value) })}
+                  disabled={!usesRelayTrigger(relayTrigger.mode)}
+                />
+              </div>
+            </div>
+
+            {usesRelayTrigger(relayTrigger.mode) && (
+              <div className="space-y-2">
+                <Label className="text-xs">Relay inputs</Label>
+                {relayInputDevices.length === 0 ? (
+                  <p className="text-sm text-[var(--text-muted)]">No 8301 or 8180 devices</p>
+                ) : (
+                  relayInputDevices.map((device) => (
+                    <div key={device.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id={`relay-trigger-${device.id}`}
+                        checked={relayTrigger.deviceIds.includes(device.id)}
+                        onChange={(e) => toggleRelayTriggerDevice(device.id, e.target.checked)}
+                        className="h-4 w-4 rounded border-[var(--border-color)] bg-[var(--bg-tertiary)]"
+                      />
+                      <Label htmlFor={`relay-trigger-${device.id}`}>
+                        {device.name} ({device.ipAddress})
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            <p className="text-xs text-[var(--text-muted)]">
+              A closed contact starts the call and arms the speakers straight away, without waiting for voice. The call
+              lasts while any selected contact is closed, then ends after the usual silence timeout.
+            </p>
+
+            {relayTriggerErrors.map((error) => (
+              <div key={error} className="flex items-center gap-2 text-xs">
+                <Badge variant="destructive">error</Badge>
+                <span className="text-[var(--text-secondary)]">{error}</span>
+              </div>
+            ))}
+            {relayTriggerStatus && (
+              <div className="flex items-start gap-2 text-xs text-[var(--text-secondary)]">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {relayTriggerStatus}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Manual Control */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Manual Control</CardTitle>
+            <CardDescription>Recorded in the audit log with your email</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Door controller</Label>
+                <Select value={manualDeviceId} onChange={(e) => setManualDeviceId(e.target.value)}>
+                  {devices.map((device) => (
+                    <option key={device.id} value={device.id}>
+                      {device.name} ({device.ipAddress})
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Door</Label>
+                <Select value={manualDoorId} onChange={(e) => setManualDoorId(e.target.value as AlgoDoorId)}>
+                  {(Object.keys(DOOR_LABELS) as AlgoDoorId[]).map((doorId) => (
+                    <option key={doorId} value={doorId}>{DOOR_LABELS[doorId]}</option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Momentary unlock (seconds)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_MOMENTARY_UNLOCK_SECONDS}
+                  value={manualDuration}
+                  onChange={(e) => setManualDuration(parseInt(e.target.value))}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={() => handleManualAction("momentary_unlock")} isLoading={manualRunning === "momentary_unlock"} disabled={!manualDeviceId || manualRunning !== null}>
+                <Timer className="mr-2 h-4 w-4" />
+                Unlock for {manualDuration}s
+              </Button>
+              <Button variant="outline" onClick={() => handleManualAction("unlock")} isLoading={manualRunning === "unlock"} disabled={!manualDeviceId || manualRunning !== null}>
+                <Unlock className="mr-2 h-4 w-4" />
+                Unlock
+              </Button>
+              <Button variant="outline" onClick={() => handleManualAction("lock")} isLoading={manualRunning === "lock"} disabled={!manualDeviceId || manualRunning !== null}>
+                <Lock className="mr-2 h-4 w-4" />
+                Lock
+              </Button>
+              {manualStatus && <span className="text-sm text-[var(--text-secondary)]">{manualStatus}</span>}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Audit Log */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Audit Log</CardTitle>
+                <CardDescription>Every door action, newest first</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={refreshAuditLog}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Refresh
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {auditLog.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">No door actions yet</p>
+            ) : (
+              <div className="space-y-2">
+                {auditLog.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-3 p-3 rounded-xl border border-[var(--border-color)] text-sm">
+                    <Badge variant={entry.success ? "success" : "destructive"}>
+                      {entry.success ? "OK" : "Failed"}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-[var(--text-primary)] truncate">
+                        {entry.ruleName} · {DOOR_ACTION_LABELS[entry.action]}
+                        {entry.action === "momentary_unlock" && entry.durationSeconds ? ` ${entry.durationSeconds}s` : ""}
+                        {" "}· {entry.deviceName} ({DOOR_LABELS[entry.doorId]})
+                      </p>
+                      <p className="text-xs text-[var(--text-muted)] truncate">
+                        {entry.trigger === "manual"
+                          ? `Manual${entry.triggeredBy ? ` by ${entry.triggeredBy}` : ""}`
+                          : `${DOOR_TRIGGER_LABELS[entry.trigger]} ${entry.phase ? DOOR_PHASE_LABELS[entry.phase] : ""}`}
+                        {entry.callStartedAt && ` · call at ${formatDate(entry.callStartedAt)}`}
+                        {entry.error && ` · ${entry.error}`}
+                      </p>
+                    </div>
+                    <span className="text-xs text-[var(--text-muted)] whitespace-nowrap">{formatDate(entry.createdAt)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
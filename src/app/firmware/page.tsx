@@ -0,0 +1,406 @@
+"use client";
+
+import { useEffect, useState, useRef, useMemo } from "react";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Cpu, RefreshCw, Rocket, Square, AlertTriangle, CheckCircle } from "lucide-react";
+import { getDevices, addFirmwareRollout, getFirmwareRollouts, type FirmwareRollout } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import {
+  groupInventory,
+  hasUpdate,
+  runStagedUpgrade,
+  type FirmwareInventoryEntry,
+  type StagedUpgradeReport,
+  type UpgradeStatus,
+} from "@/lib/algo/firmware";
+import type { AlgoDevice, AlgoDeviceType } from "@/lib/algo/types";
+import { formatDate } from "@/lib/utils";
+import { useAuth } from "@/contexts/auth-context";
+
+const STATUS_BADGES: Record<UpgradeStatus, { label: string; variant: "success" | "warning" | "destructive" }> = {
+  upgraded: { label: "Upgraded", variant: "success" },
+  unchanged: { label: "Same version", variant: "warning" },
+  failed_to_start: { label: "Failed to start", variant: "destructive" },
+  did_not_return: { label: "Did not come back", variant: "destructive" },
+};
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: await getAuthHeaders(),
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+async function fetchInventory(deviceIds: string[], checkAvailable = true): Promise<FirmwareInventoryEntry[]> {
+  const data = await postJson<{ devices: FirmwareInventoryEntry[] }>("/api/algo/firmware/inventory", {
+    deviceIds,
+    checkAvailable,
+  });
+  return data.devices;
+}
+
+export default function FirmwarePage() {
+  const { user } = useAuth();
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [inventory, setInventory] = useState<FirmwareInventoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Staged upgrade
+  const [model, setModel] = useState<AlgoDeviceType | "">("");
+  const [canaryId, setCanaryId] = useState("");
+  const [batchSize, setBatchSize] = useState(3);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<string[]>([]);
+  const [report, setReport] = useState<StagedUpgradeReport | FirmwareRollout | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (user?.email) {
+      loadData();
+    }
+    // Only re-run if email changes (more stable)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.email]);
+
+  const loadData = async () => {
+    if (!user?.email) return;
+    try {
+      setLoading(true);
+      const [devicesData, rollouts] = await Promise.all([
+        getDevices(user.email),
+        getFirmwareRollouts(user.email).catch(() => [] as FirmwareRollout[]),
+      ]);
+      setDevices(devicesData);
+      setReport(rollouts[0] ?? null);
+      await refreshInventory(devicesData);
+    } catch (error) {
+      console.error("Failed to load firmware data:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshInventory = async (list: AlgoDevice[] = devices) => {
+    if (list.length === 0) return;
+    setRefreshing(true);
+    try {
+      setInventory(await fetchInventory(list.map((d) => d.id)));
+    } catch (error) {
+      console.error("Failed to read firmware inventory:", error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const groups = useMemo(() => groupInventory(inventory), [inventory]);
+
+  // Upgradable units of the chosen model
+  const candidates = useMemo(
+    () => inventory.filter((entry) => entry.type === model && hasUpdate(entry)),
+    [inventory, model]
+  );
+  const upgradableModels = Array.from(new Set(inventory.filter(hasUpdate).map((entry) => entry.type)));
+
+  useEffect(() => {
+    if (!candidates.some((c) => c.deviceId === canaryId)) {
+      setCanaryId(candidates[0]?.deviceId ?? "");
+    }
+  }, [candidates, canaryId]);
+
+  const nameOf = (deviceId: string) =>
+    inventory.find((e) => e.deviceId === deviceId)?.deviceName ?? devices.find((d) => d.id === deviceId)?.name ?? deviceId;
+
+  const handleStart = async () => {
+    if (!user?.email || !model || !canaryId || candidates.length === 0) return;
+    const targetVersion = candidates[0].availableVersion;
+    if (!confirm(
+      `Upgrade ${candidates.length} ${model} unit(s) to ${targetVersion}? ` +
+      `${nameOf(canaryId)} goes first; the rest follow in batches of ${batchSize} once it passes its health check.`
+    )) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setProgress([]);
+    setReport(null);
+
+    const log = (message: string) =>
+      setProgress((prev) => [...prev, `${new Date().toLocaleTimeString()} ${message}`]);
+
+    try {
+      const result = await runStagedUpgrade(
+        candidates.map((c) => ({ id: c.deviceId, name: c.deviceName, firmwareVersion: c.firmwareVersion })),
+        canaryId,
+        {
+          startUpgrade: async (deviceId) => {
+            await postJson("/api/algo/firmware/upgrade", { deviceId });
+          },
+          checkHealth: async (deviceIds) => {
+            const data = await postJson<{ devices: Array<{ id: string; isOnline: boolean; authValid?: boolean }> }>(
+              "/api/algo/health",
+              { deviceIds, timeout: 5000 }
+            );
+            return Object.fromEntries(data.devices.map((d) => [d.id, d.isOnline && d.authValid !== false]));
+          },
+          getVersions: async (deviceIds) => {
+            const entries = await fetchInventory(deviceIds, false);
+            return Object.fromEntries(entries.map((e) => [e.deviceId, e.firmwareVersion]));
+          },
+        },
+        { batchSize, signal: controller.signal, onProgress: log }
+      );
+
+      setReport(result);
+      log(result.halted ? `Stopped: ${result.haltReason}` : "Rollout complete");
+
+      await addFirmwareRollout({
+        ...result,
+        ownerEmail: user.email,
+        model,
+        ...(targetVersion ? { targetVersion } : {}),
+      });
+    } catch (error) {
+      console.error("Staged upgrade failed:", error);
+      log(`Error: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+      refreshInventory();
+    }
+  };
+
+  if (loading) {
+    return (
+      <AppLayout>
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-[var(--text-primary)]">Firmware</h1>
+            <p className="text-[var(--text-secondary)] text-sm">
+              Fleet firmware inventory and staged upgrades
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => refreshInventory()} isLoading={refreshing} disabled={running}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Inventory */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+                <Cpu className="h-5 w-5 text-[var(--accent-blue)]" />
+              </div>
+              <div>
+                <CardTitle>Inventory</CardTitle>
+                <CardDescription>{inventory.length} device(s) by model and version</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {groups.length === 0 ? (
+              <p className="py-6 text-center text-sm text-[var(--text-muted)]">No devices</p>
+            ) : (
+              groups.map((group) => {
+                const updates = group.devices.filter(hasUpdate);
+                return (
+                  <div
+                    key={`${group.type}-${group.firmwareVersion}`}
+                    className="p-3 rounded-xl bg-[var(--bg-secondary)] border border-[var(--border-color)]"
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <Badge variant="outline">{group.type.toUpperCase()}</Badge>
+                      <span className="text-sm font-medium text-[var(--text-primary)]">{group.firmwareVersion}</span>
+                      <span className="text-xs text-[var(--text-muted)]">{group.devices.length} unit(s)</span>
+                      {updates.length > 0 && (
+                        <Badge variant="warning">{updates[0].availableVersion} available</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {group.devices.map((entry) => (
+                        <span
+                          key={entry.deviceId}
+                          className="text-xs text-[var(--text-secondary)]"
+                          title={entry.error ?? entry.macAddress}
+                        >
+                          {entry.deviceName} ({entry.ipAddress}){entry.error ? " ⚠️" : ""}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Staged Upgrade */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-[var(--accent-orange)]/15">
+                <Rocket className="h-5 w-5 text-[var(--accent-orange)]" />
+              </div>
+              <div>
+                <CardTitle>Staged Upgrade</CardTitle>
+                <CardDescription>One canary first, then batches - stops at the first unit that doesn&apos;t come back</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {upgradableModels.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)]">Every reachable device is on the latest firmware</p>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="fw-model">Model</Label>
+                  <Select
+                    id="fw-model"
+                    value={model}
+                    onChange={(e) => setModel(e.target.value as AlgoDeviceType | "")}
+                    disabled={running}
+                  >
+                    <option value="">Select model...</option>
+                    {upgradableModels.map((type) => (
+                      <option key={type} value={type}>{type.toUpperCase()}</option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fw-canary">Canary</Label>
+                  <Select
+                    id="fw-canary"
+                    value={canaryId}
+                    onChange={(e) => setCanaryId(e.target.value)}
+                    disabled={running || candidates.length === 0}
+                  >
+                    {candidates.map((c) => (
+                      <option key={c.deviceId} value={c.deviceId}>{c.deviceName}</option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fw-batch">Batch size</Label>
+                  <Input
+                    id="fw-batch"
+                    type="number"
+                    min={1}
+                    value={batchSize}
+                    onChange={(e) => setBatchSize(Math.max(1, Number(e.target.value) || 1))}
+                    disabled={running}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleStart} disabled={running || !canaryId} isLoading={running}>
+                <Rocket className="mr-2 h-4 w-4" />
+                Start ({candidates.length} unit{candidates.length !== 1 ? "s" : ""})
+              </Button>
+              {running && (
+                <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                  <Square className="mr-2 h-4 w-4" />
+                  Stop after this stage
+                </Button>
+              )}
+            </div>
+
+            {progress.length > 0 && (
+              <div className="max-h-[200px] overflow-y-auto rounded-lg bg-[var(--bg-secondary)] p-3 font-mono text-xs text-[var(--text-secondary)] space-y-1">
+                {progress.map((line, index) => (
+                  <div key={index}>{line}</div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Rollback Report */}
+        {report && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className={`p-2 rounded-lg ${report.needsAttention.length > 0 ? "bg-[var(--accent-red)]/15" : "bg-[var(--accent-green)]/15"}`}>
+                  {report.needsAttention.length > 0 ? (
+                    <AlertTriangle className="h-5 w-5 text-[var(--accent-red)]" />
+                  ) : (
+                    <CheckCircle className="h-5 w-5 text-[var(--accent-green)]" />
+                  )}
+                </div>
+                <div>
+                  <CardTitle>Rollout Report</CardTitle>
+                  <CardDescription>
+                    {formatDate(report.startedAt)} · {report.halted ? report.haltReason : "completed"}
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {report.needsAttention.length > 0 && (
+                <div className="p-3 rounded-xl border border-[var(--accent-red)]/40 bg-[var(--accent-red)]/10">
+                  <p className="text-sm font-medium text-[var(--accent-red)] mb-1">
+                    Failed to come back - check these units (power-cycle or reflash the previous image)
+                  </p>
+                  <p className="text-sm text-[var(--text-secondary)]">
+                    {report.needsAttention.map(nameOf).join(", ")}
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {report.results.map((result) => (
+                  <div key={result.deviceId} className="flex items-center gap-3 text-sm">
+                    <span className="w-20 text-xs text-[var(--text-muted)]">
+                      {result.stage === 0 ? "Canary" : `Batch ${result.stage}`}
+                    </span>
+                    <span className="flex-1 text-[var(--text-primary)]">{result.deviceName}</span>
+                    <span className="text-xs text-[var(--text-muted)]">
+                      {result.versionBefore ?? "?"} → {result.versionAfter ?? "?"}
+                    </span>
+                    <Badge variant={STATUS_BADGES[result.status].variant} title={result.error}>
+                      {STATUS_BADGES[result.status].label}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+
+              {report.notAttempted.length > 0 && (
+                <p className="text-xs text-[var(--text-muted)]">
+                  Not attempted: {report.notAttempted.map(nameOf).join(", ")}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -13,11 +13,17 @@ import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
 import { useAuth } from "@/contexts/auth-context";
 import { useRealtimeSync } from "@/contexts/realtime-sync-context";
 import { updateDevice } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
 import { storage } from "@/lib/firebase/config";
 import { ref as storageRef, uploadBytes, getDownloadURL } from "firebase/storage";
 import type { AlgoDevice, InputChannelType } from "@/lib/algo/types";
 import { Play, Square, Radio, Mic, Volume2, AlertCircle, CheckCircle2, Film, AlertTriangle } from "lucide-react";
-import { getAlwaysKeepPagingOn } from "@/lib/settings";
+import { getAlwaysKeepPagingOn, getStrobePatterns, isStationNight } from "@/lib/settings";
+import { getChannelStrobes, isStrobeDevice } from "@/lib/algo/strobe";
+import { PAGING_SOURCE_LABELS, describePagingClaim, type PagingClaim } from "@/lib/algo/paging-priority";
+
+// Longest a call waits for the server to answer its device claim
+const LIVE_CLAIM_TIMEOUT_MS = 3000;
 
 interface InputChannel {
   type: InputChannelType;
@@ -146,9 +152,104 @@ export default function InputRoutingPage() {
 
   // Get speakers for each input type
   const getSpeakersForInput = useCallback((inputType: InputChannelType): AlgoDevice[] => {
-    return devices.filter((d) => d.type !== "8301" && d.inputAssignment === inputType);
+    return devices.filter((d) => d.type !== "8301" && !isStrobeDevice(d) && d.inputAssignment === inputType);
+  }, [devices]);
+
+  // Get strobes (8128/8138) for each input type
+  const getStrobesForInput = useCallback((inputType: InputChannelType): AlgoDevice[] => {
+    return getChannelStrobes(devices, inputType);
   }, [devices]);
 
+  // Start/stop a channel's strobes in that channel's pattern (red for fire, blue for medical...)
+  const setStrobesForChannel = useCallback(async (channelType: InputChannelType, action: "start" | "stop") => {
+    const strobes = getStrobesForInput(channelType);
+    if (strobes.length === 0) return;
+
+    try {
+      const response = await fetch("/api/algo/strobe", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          deviceIds: strobes.map((s) => s.id),
+          action,
+          pattern: action === "start" ? getStrobePatterns()[channelType] : undefined,
+        }),
+      });
+      if (!response.ok) {
+        console.error(`[InputRouting] Failed to ${action} ${channelType} strobes: HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.error(`[InputRouting] Failed to ${action} ${channelType} strobes:`, error);
+    }
+  }, [getStrobesForInput]);
+
+  // When each channel's current call started - door audit entries point at it
+  const callStartedAtRef = useRef<Partial<Record<InputChannelType, number>>>({});
+
+  // Run the door rules for a channel's call starting or ending
+  const triggerDoorActionsForChannel = useCallback(async (channelType: InputChannelType, phase: "start" | "end") => {
+    if (!user?.email) return;
+    if (phase === "start") {
+      callStartedAtRef.current[channelType] = Date.now();
+    }
+    const callStartedAt = callStartedAtRef.current[channelType];
+
+    try {
+      const response = await fetch("/api/doors/trigger", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ownerEmail: user.email, trigger: channelType, phase, callStartedAt }),
+      });
+      const data = await response.json();
+      for (const result of (data.results ?? []) as Array<{ ruleName: string; success: boolean; error?: string }>) {
+        addLog({
+          channel: channelType,
+          type: "system",
+          message: result.success ? `Door: ${result.ruleName}` : `Door ${result.ruleName} failed: ${result.error}`,
+        });
+      }
+    } catch (error) {
+      console.error(`[InputRouting] Failed to run ${channelType} door rules:`, error);
+    }
+  }, [user?.email, addLog]);
+
+  // Claim the channel's speakers and the paging devices. Tone plays on them
+  // (announcements, tests) stop first; devices a higher channel holds are
+  // returned so this one leaves them alone
+  const claimDevicesForChannel = useCallback(async (
+    channelType: InputChannelType,
+    phase: "start" | "end"
+  ): Promise<{ yieldDeviceIds: string[]; heldDeviceIds: string[] }> => {
+    const answer = { yieldDeviceIds: [] as string[], heldDeviceIds: [] as string[] };
+    if (!user?.email) return answer;
+
+    try {
+      const response = await fetch("/api/paging/claim", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          ownerEmail: user.email,
+          claimId: `input:${channelType}`,
+          source: channelType,
+          label: `${PAGING_SOURCE_LABELS[channelType]} input`,
+          pagingDeviceIds: devices.filter((d) => d.type === "8301").map((d) => d.id),
+          speakerIds: getSpeakersForInput(channelType).map((s) => s.id),
+          phase,
+        }),
+        // Never hold a live call up waiting on the server
+        signal: AbortSignal.timeout(LIVE_CLAIM_TIMEOUT_MS),
+      });
+      const data = await response.json();
+      for (const claim of (data.preempted ?? []) as PagingClaim[]) {
+        addLog({ channel: channelType, type: "system", message: `${describePagingClaim(claim)} stopped for this call` });
+      }
+      return { yieldDeviceIds: data.yieldDeviceIds ?? [], heldDeviceIds: data.heldDeviceIds ?? [] };
+    } catch (error) {
+      console.error(`[InputRouting] Failed to report ${channelType} call ${phase}:`, error);
+      return answer;
+    }
+  }, [user?.email, devices, getSpeakersForInput, addLog]);
+
   // Update channel device selection
   const updateChannelDevice = useCallback((channelType: InputChannelType, deviceId: string) => {
     setChannels((prev) =>
@@ -308,7 +409,15 @@ export default function InputRoutingPage() {
   const activateSpeakersForChannel = useCallback(async (channelType: InputChannelType) => {
     console.log(`[InputRouting] 🔥 ${channelType.toUpperCase()} AUDIO DETECTED - Activating speakers`);
 
-    const speakers = getSpeakersForInput(channelType);
+    // Claim, strobes and doors first - the speakers wait for the claim, so a
+    // stopped announcement has handed them back
+    const claim = claimDevicesForChannel(channelType, "start");
+    await setStrobesForChannel(channelType, "start");
+    triggerDoorActionsForChannel(channelType, "start");
+
+    // A higher channel on the same devices keeps them
+    const { yieldDeviceIds } = await claim;
+    const speakers = getSpeakersForInput(channelType).filter((s) => !yieldDeviceIds.includes(s.id));
 
     if (speakers.length === 0) {
       console.log(`[InputRouting] No speakers assigned to ${channelType}`);
@@ -328,18 +437,14 @@ export default function InputRoutingPage() {
 
     // Enable paging device (only if not always on)
     const alwaysKeepPagingOn = getAlwaysKeepPagingOn();
-    const pagingDevices = devices.filter((d) => d.type === "8301");
+    const pagingDevices = devices.filter((d) => d.type === "8301" && !yieldDeviceIds.includes(d.id));
     if (pagingDevices.length > 0 && !alwaysKeepPagingOn) {
       // Only toggle paging if not always on
       await fetch("/api/algo/speakers/mcast", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          speakers: pagingDevices.map((p) => ({
-            ipAddress: p.ipAddress,
-            password: p.apiPassword,
-            authMethod: p.authMethod,
-          })),
+          speakerIds: pagingDevices.map((p) => p.id),
           mode: 1, // Transmitter mode
         }),
       });
@@ -348,42 +453,40 @@ export default function InputRoutingPage() {
     // Set speakers to receiver mode and ramp volume
     await fetch("/api/algo/speakers/mcast", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: await getAuthHeaders(),
       body: JSON.stringify({
-        speakers: speakers.map((s) => ({
-          ipAddress: s.ipAddress,
-          password: s.apiPassword,
-          authMethod: s.authMethod,
-        })),
+        speakerIds: speakers.map((s) => s.id),
         mode: 2, // Receiver mode
       }),
     });
 
-    // Ramp volume (use individual speaker max volumes)
-    for (const speaker of speakers) {
-      const vol = speaker.maxVolume || 100;
-      await fetch("/api/algo/speakers/volume", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          speakers: [{
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod,
-          }],
-          volume: vol,
-        }),
-      });
-    }
+    // Full volume - each speaker goes to its zone's profile for this channel
+    // (day or night), or its own operating volume if it has none
+    await fetch("/api/algo/speakers/volume", {
+      method: "POST",
+      headers: await getAuthHeaders(),
+      body: JSON.stringify({
+        speakerIds: speakers.map((s) => s.id),
+        volume: 100,
+        ownerEmail: user?.email,
+        channel: channelType,
+        night: isStationNight(),
+      }),
+    });
 
     console.log(`[InputRouting] ✅ Activated ${speakers.length} speakers for ${channelType}`);
-  }, [devices, getSpeakersForInput, addLog]);
+  }, [devices, getSpeakersForInput, setStrobesForChannel, triggerDoorActionsForChannel, claimDevicesForChannel, addLog, user?.email]);
 
   // Deactivate speakers for a specific channel
   const deactivateSpeakersForChannel = useCallback(async (channelType: InputChannelType) => {
     console.log(`[InputRouting] 🛑 ${channelType.toUpperCase()} AUDIO ENDED - Deactivating speakers`);
 
-    const speakers = getSpeakersForInput(channelType);
+    await setStrobesForChannel(channelType, "stop");
+    triggerDoorActionsForChannel(channelType, "end");
+
+    // Devices another channel is still using stay as they are
+    const { heldDeviceIds } = await claimDevicesForChannel(channelType, "end");
+    const speakers = getSpeakersForInput(channelType).filter((s) => !heldDeviceIds.includes(s.id));
 
     addLog({
       channel: channelType,
@@ -391,41 +494,34 @@ export default function InputRoutingPage() {
       message: `Deactivating ${speakers.length} speaker(s) for ${channelType}`,
     });
 
-    // Mute speakers to -45dB
+    // Mute speakers to the idle volume
     await fetch("/api/algo/speakers/volume", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: await getAuthHeaders(),
       body: JSON.stringify({
-        speakers: speakers.map((s) => ({
-          ipAddress: s.ipAddress,
-          password: s.apiPassword,
-          authMethod: s.authMethod,
-        })),
-        volume: 0, // -45dB
+        speakerIds: speakers.map((s) => s.id),
+        volume: 0, // Idle volume
+        ownerEmail: user?.email,
       }),
     });
 
     // Disable paging device (only if not always on)
     const alwaysKeepPagingOn = getAlwaysKeepPagingOn();
-    const pagingDevices = devices.filter((d) => d.type === "8301");
+    const pagingDevices = devices.filter((d) => d.type === "8301" && !heldDeviceIds.includes(d.id));
     if (pagingDevices.length > 0 && !alwaysKeepPagingOn) {
       // Only toggle paging if not always on
       await fetch("/api/algo/speakers/mcast", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          speakers: pagingDevices.map((p) => ({
-            ipAddress: p.ipAddress,
-            password: p.apiPassword,
-            authMethod: p.authMethod,
-          })),
+          speakerIds: pagingDevices.map((p) => p.id),
           mode: 0, // Disabled
         }),
       });
     }
 
     console.log(`[InputRouting] ✅ Deactivated ${speakers.length} speakers for ${channelType}`);
-  }, [devices, getSpeakersForInput, addLog]);
+  }, [devices, getSpeakersForInput, setStrobesForChannel, triggerDoorActionsForChannel, claimDevicesForChannel, addLog, user?.email]);
 
   // Start monitoring all 3 channels
   const startMonitoring = useCallback(async () => {
@@ -821,7 +917,8 @@ export default function InputRoutingPage() {
       {/* Input Channels */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {channels.map((channel) => {
-          const assignedSpeakers = getSpeakersForInput(channel.type);
+          const assignedSpeakers = [...getSpeakersForInput(channel.type), ...getStrobesForInput(channel.type)];
+          const strobeCount = assignedSpeakers.filter(isStrobeDevice).length;
 
           return (
             <Card
@@ -849,7 +946,8 @@ export default function InputRoutingPage() {
                   </div>
                 </CardTitle>
                 <CardDescription>
-                  {assignedSpeakers.length} speaker(s) assigned
+                  {assignedSpeakers.length - strobeCount} speaker(s)
+                  {strobeCount > 0 && `, ${strobeCount} strobe(s)`} assigned
                   {channel.isRecording && recordingEnabled && (
                     <span className="ml-2 text-red-600">• Recording in progress</span>
                   )}
@@ -909,7 +1007,12 @@ export default function InputRoutingPage() {
                           key={speaker.id}
                           className="flex items-center justify-between p-2 bg-gray-100 dark:bg-gray-800 rounded"
                         >
-                          <span className="text-sm">{speaker.name}</span>
+                          <span className="text-sm">
+                            {speaker.name}
+                            {isStrobeDevice(speaker) && (
+                              <Badge variant="outline" className="ml-2">Strobe</Badge>
+                            )}
+                          </span>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -948,7 +1051,12 @@ export default function InputRoutingPage() {
                   key={speaker.id}
                   className="p-3 bg-gray-100 dark:bg-gray-800 rounded-lg space-y-2"
                 >
-                  <p className="font-medium">{speaker.name}</p>
+                  <p className="font-medium">
+                    {speaker.name}
+                    {isStrobeDevice(speaker) && (
+                      <Badge variant="outline" className="ml-2">Strobe</Badge>
+                    )}
+                  </p>
                   <div className="flex gap-2">
                     <Button
                       variant="outline"
@@ -26,6 +26,7 @@ import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { storage } from "@/lib/firebase/config";
 import { useAudioCapture } from "@/hooks/useAudioCapture";
 import { getDevices, getAudioFiles, addAudioFile } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
 import { useAuth } from "@/contexts/auth-context";
 import type { AlgoDevice, AudioFile } from "@/lib/algo/types";
 import { formatDuration } from "@/lib/utils";
@@ -351,11 +352,9 @@ export default function LiveBroadcastPage() {
       try {
         await fetch("/api/algo/settings", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod,
+            deviceId: speaker.id,
             settings: {
               "audio.page.vol": `${volumeScale}`,
             },
@@ -429,13 +428,9 @@ export default function LiveBroadcastPage() {
 
           const response = await fetch("/api/algo/speakers/mcast", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await getAuthHeaders(),
             body: JSON.stringify({
-              speakers: linkedSpeakers.map(s => ({
-                ipAddress: s.ipAddress,
-                password: s.apiPassword,
-                authMethod: s.authMethod,
-              })),
+              speakerIds: linkedSpeakers.map((s) => s.id),
               enable,
             }),
           });
@@ -533,19 +528,10 @@ export default function LiveBroadcastPage() {
           try {
             await fetch("/api/algo/distribute", {
               method: "POST",
-              headers: { "Content-Type": "application/json" },
+              headers: await getAuthHeaders(),
               body: JSON.stringify({
-                device: {
-                  ipAddress: device.ipAddress,
-                  password: device.apiPassword,
-                  authMethod: device.authMethod,
-                  type: device.type,
-                },
-                speakers: linkedSpeakers.map(s => ({
-                  ipAddress: s.ipAddress,
-                  password: s.apiPassword,
-                  authMethod: s.authMethod,
-                })),
+                deviceId: device.id,
+                speakerIds: linkedSpeakers.map(s => s.id),
                 filename: "chime.wav", // Use built-in tone for pre-tone
                 loop: false,
                 volume,
@@ -582,19 +568,10 @@ export default function LiveBroadcastPage() {
       try {
         await fetch("/api/algo/distribute/stop", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            device: {
-              ipAddress: device.ipAddress,
-              password: device.apiPassword,
-              authMethod: device.authMethod,
-              type: device.type,
-            },
-            speakers: linkedSpeakers.map(s => ({
-              ipAddress: s.ipAddress,
-              password: s.apiPassword,
-              authMethod: s.authMethod,
-            })),
+            deviceId: device.id,
+            speakerIds: linkedSpeakers.map(s => s.id),
           }),
         });
       } catch (error) {
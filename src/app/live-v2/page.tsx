@@ -32,8 +32,9 @@ import {
 import { useAudioCapture } from "@/hooks/useAudioCapture";
 import { useSimpleMonitoring } from "@/contexts/simple-monitoring-context";
 import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
-import { getDevices, getZones, getPoEDevices } from "@/lib/firebase/firestore";
+import { getDevices, getZones, getPoEDevices, getVolumeProfilePlan } from "@/lib/firebase/firestore";
 import { useAuth } from "@/contexts/auth-context";
+import { getStationPeriod } from "@/lib/settings";
 import type { Zone } from "@/lib/algo/types";
 
 function LiveV2Content() {
@@ -57,8 +58,6 @@ function LiveV2Content() {
     rampEnabled,
     rampDuration,
     dayNightMode,
-    dayStartHour,
-    dayEndHour,
     nightRampDuration,
     sustainDuration,
     disableDelay,
@@ -72,8 +71,6 @@ function LiveV2Content() {
     setRampEnabled,
     setRampDuration,
     setDayNightMode,
-    setDayStartHour,
-    setDayEndHour,
     setNightRampDuration,
     setSustainDuration,
     setDisableDelay,
@@ -102,13 +99,11 @@ function LiveV2Content() {
     setPlaybackSessionRampDuration,
     playbackRampScheduleEnabled,
     setPlaybackRampScheduleEnabled,
-    playbackRampStartHour,
-    setPlaybackRampStartHour,
-    playbackRampEndHour,
-    setPlaybackRampEndHour,
     devices: contextDevices,
     setDevices: setContextDevices,
     setPoeDevices,
+    setZones: setContextZones,
+    setVolumeProfiles,
     emergencyKillAll,
     emergencyEnableAll,
     controlSingleSpeaker,
@@ -155,13 +150,16 @@ function LiveV2Content() {
     try {
       const userEmail = user.email || "";
 
-      const [devicesData, zonesData, poeDevicesData] = await Promise.all([
+      const [devicesData, zonesData, poeDevicesData, volumeProfilePlan] = await Promise.all([
         getDevices(userEmail),
         getZones(userEmail),
         getPoEDevices(userEmail),
+        getVolumeProfilePlan(userEmail),
       ]);
       setContextDevices(devicesData);
       setZones(zonesData);
+      setContextZones(zonesData);
+      setVolumeProfiles(volumeProfilePlan?.profiles ?? []);
       setPoeDevices(poeDevicesData);
     } catch (error) {
       console.error("Failed to load data:", error);
@@ -245,13 +243,6 @@ function LiveV2Content() {
     }
   };
 
-  // Determine if currently in day or night mode
-  const now = new Date();
-  const currentHour = now.getHours();
-  const currentMinute = now.getMinutes();
-  const currentTime = currentHour + (currentMinute >= 30 ? 0.5 : 0);
-  const isDaytime = currentTime >= dayStartHour && currentTime < dayEndHour;
-
   if (loading) {
     return (
       <AppLayout>
@@ -461,7 +452,7 @@ function LiveV2Content() {
                             <div className="flex items-center justify-between mb-3">
                               <div>
                                 <Label className="text-xs">Schedule Ramping</Label>
-                                <p className="text-xs text-[var(--text-muted)]">Only ramp during specific hours</p>
+                                <p className="text-xs text-[var(--text-muted)]">Only ramp at night</p>
                               </div>
                               <Switch
                                 checked={playbackRampScheduleEnabled}
@@ -470,51 +461,13 @@ function LiveV2Content() {
                             </div>
 
                             {playbackRampScheduleEnabled && (
-                              <div className="space-y-3">
-                                {/* Start Time */}
-                                <div>
-                                  <Label className="text-xs">Start Time (Ramp Enabled)</Label>
-                                  <select
-                                    className="w-full mt-1 px-3 py-2 rounded-lg bg-[var(--bg-primary)] border border-[var(--border-color)] text-sm"
-                                    value={playbackRampStartHour}
-                                    onChange={(e) => setPlaybackRampStartHour(parseFloat(e.target.value))}
-                                  >
-                                    {Array.from({ length: 48 }, (_, i) => i * 0.5).map(hour => {
-                                      const h = Math.floor(hour);
-                                      const m = (hour % 1) * 60;
-                                      const ampm = h >= 12 ? 'PM' : 'AM';
-                                      const displayHour = h % 12 || 12;
-                                      const time = `${displayHour}:${m === 0 ? '00' : '30'} ${ampm}`;
-                                      return <option key={hour} value={hour}>{time}</option>;
-                                    })}
-                                  </select>
-                                </div>
-
-                                {/* End Time */}
-                                <div>
-                                  <Label className="text-xs">End Time (Ramp Disabled)</Label>
-                                  <select
-                                    className="w-full mt-1 px-3 py-2 rounded-lg bg-[var(--bg-primary)] border border-[var(--border-color)] text-sm"
-                                    value={playbackRampEndHour}
-                                    onChange={(e) => setPlaybackRampEndHour(parseFloat(e.target.value))}
-                                  >
-                                    {Array.from({ length: 48 }, (_, i) => i * 0.5).map(hour => {
-                                      const h = Math.floor(hour);
-                                      const m = (hour % 1) * 60;
-                                      const ampm = h >= 12 ? 'PM' : 'AM';
-                                      const displayHour = h % 12 || 12;
-                                      const time = `${displayHour}:${m === 0 ? '00' : '30'} ${ampm}`;
-                                      return <option key={hour} value={hour}>{time}</option>;
-                                    })}
-                                  </select>
-                                </div>
-
-                                <div className="flex items-start gap-2 p-2 rounded bg-[var(--accent-purple)]/10">
-                                  <span className="text-xs">🕐</span>
-                                  <p className="text-xs text-[var(--text-secondary)]">
-                                    <strong>Example:</strong> 6:00 PM - 7:30 AM = ramp enabled at night, static volume during day
-                                  </p>
-                                </div>
+                              <div className="flex items-start gap-2 p-2 rounded bg-[var(--accent-purple)]/10">
+                                <span className="text-xs">🕐</span>
+                                <p className="text-xs text-[var(--text-secondary)]">
+                                  Ramps only at night, static volume during day. Day and night hours come from the
+                                  station schedule in <Link href="/settings" className="underline">Settings</Link>
+                                  {" "}- now: <strong>{getStationPeriod().label}</strong>
+                                </p>
                               </div>
                             )}
                           </div>
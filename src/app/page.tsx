@@ -22,6 +22,8 @@ import {
 import Link from "next/link";
 import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
 import { useAuth } from "@/contexts/auth-context";
+import { DeviceHealthCard } from "@/components/devices/device-health-card";
+import { RelayStatusCard } from "@/components/devices/relay-status-card";
 import { getDevices, getAudioFiles, getZones } from "@/lib/firebase/firestore";
 import type { AlgoDevice, AudioFile, Zone } from "@/lib/algo/types";
 
@@ -94,7 +96,7 @@ export default function DashboardPage() {
                     {loading ? "-" : devices.length}
                   </p>
                   <p className="text-xs text-[var(--accent-green)] mt-1">
-                    {devices.length} online
+                    {devices.filter((d) => d.isOnline).length} online
                   </p>
                 </div>
                 <div className="p-3 rounded-xl bg-[var(--accent-blue)]/15">
@@ -161,6 +163,12 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {/* Alerts from the background health monitor */}
+        {user?.email && <DeviceHealthCard ownerEmail={user.email} />}
+
+        {/* Relay inputs and the latest door actions */}
+        {user?.email && <RelayStatusCard ownerEmail={user.email} />}
+
         {/* Main Content Grid */}
         <div className="grid gap-6 lg:grid-cols-3">
           {/* Test Alerts */}
@@ -11,6 +11,7 @@ import { Select } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Plus, Pencil, Trash2, RefreshCw, X, Lightbulb, Power, Network, Link2, Activity } from "lucide-react";
 import { getPoESwitches, getPoEDevices, addPoESwitch, updatePoESwitch, deletePoESwitch, addPoEDevice, updatePoEDevice, deletePoEDevice, getDevices } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
 import type { PoESwitch, PoEDevice, PoEDeviceMode, PoESwitchType, AlgoDevice } from "@/lib/algo/types";
 import { formatDate, isValidIpAddress } from "@/lib/utils";
 import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
@@ -65,11 +66,28 @@ export default function PoEDevicesPage() {
 
     try {
       const userEmail = user.email || "";
-      const [switchesData, devicesData, algoDevicesData] = await Promise.all([
+      const [storedSwitches, devicesData, storedAlgoDevices] = await Promise.all([
         getPoESwitches(userEmail),
         getPoEDevices(userEmail),
         getDevices(userEmail),
       ]);
+      let switchesData = storedSwitches;
+      let algoDevicesData = storedAlgoDevices;
+
+      // Switches saved before the credential vault still carry a plaintext
+      // password - move those into the vault and reload without them
+      if (switchesData.some((s) => "password" in s) || algoDevicesData.some((d) => "apiPassword" in d)) {
+        await fetch("/api/vault/migrate", {
+          method: "POST",
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({ ownerEmail: userEmail }),
+        });
+        [switchesData, algoDevicesData] = await Promise.all([
+          getPoESwitches(userEmail),
+          getDevices(userEmail),
+        ]);
+      }
+
       setSwitches(switchesData);
       setDevices(devicesData);
       setAlgoDevices(algoDevicesData);
@@ -114,7 +132,7 @@ export default function PoEDevicesPage() {
       name: poeSwitch.name,
       type: poeSwitch.type,
       ipAddress: poeSwitch.ipAddress,
-      password: poeSwitch.password,
+      password: "", // Stored in the vault - blank keeps the current password
     });
     setEditingSwitch(poeSwitch);
     setShowSwitchForm(true);
@@ -150,23 +168,39 @@ export default function PoEDevicesPage() {
       setFormError("Invalid IP address format");
       return;
     }
-    if (!switchFormData.password.trim()) {
+    if (!editingSwitch && !switchFormData.password.trim()) {
       setFormError("Password is required");
       return;
     }
 
     setSaving(true);
     try {
+      const { password, ...switchData } = switchFormData;
+      let switchId: string;
       if (editingSwitch) {
-        await updatePoESwitch(editingSwitch.id, switchFormData);
+        await updatePoESwitch(editingSwitch.id, switchData);
+        switchId = editingSwitch.id;
       } else {
-        await addPoESwitch({
-          ...switchFormData,
+        switchId = await addPoESwitch({
+          ...switchData,
           ownerEmail: user?.email || "",
           isOnline: false,
           lastSeen: null,
         });
       }
+
+      // The password never goes to Firestore directly - the server encrypts it
+      if (password) {
+        const response = await fetch("/api/vault/credentials", {
+          method: "POST",
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({ deviceId: switchId, kind: "poe_switch", password }),
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to store switch password");
+        }
+      }
       await loadData();
       setShowSwitchForm(false);
       resetSwitchForm();
@@ -227,6 +261,12 @@ export default function PoEDevicesPage() {
       const switchDevices = devices.filter(d => d.switchId === id);
       await Promise.all(switchDevices.map(d => deletePoEDevice(d.id)));
 
+      // Credential first - the vault checks ownership against the switch
+      await fetch("/api/vault/credentials/delete", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ deviceId: id }),
+      });
       await deletePoESwitch(id);
       await loadData();
     } catch (error) {
@@ -249,13 +289,8 @@ export default function PoEDevicesPage() {
     try {
       const response = await fetch("/api/poe/test", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          ipAddress: poeSwitch.ipAddress,
-          password: poeSwitch.password,
-          type: poeSwitch.type,
-          switchId: poeSwitch.id,
-        }),
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ switchId: poeSwitch.id }),
       });
       const data = await response.json();
       if (!response.ok) {
@@ -276,7 +311,7 @@ export default function PoEDevicesPage() {
     try {
       const response = await fetch("/api/poe/toggle", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
           deviceId: device.id,
           enabled: !device.isEnabled,
@@ -301,7 +336,7 @@ export default function PoEDevicesPage() {
     try {
       const response = await fetch("/api/poe/status", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
           switchId: poeSwitch.id,
         }),
@@ -420,7 +455,7 @@ export default function PoEDevicesPage() {
                     <Label htmlFor="switch-password">Password</Label>
                     <PasswordInput
                       id="switch-password"
-                      placeholder="Switch password"
+                      placeholder={editingSwitch ? "Leave blank to keep current" : "Switch password"}
                       value={switchFormData.password}
                       onChange={(e) =>
                         setSwitchFormData({ ...switchFormData, password: e.target.value })
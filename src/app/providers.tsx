@@ -1,6 +1,7 @@
 "use client";
 
 import { AuthProvider } from "@/contexts/auth-context";
+import { SettingsProvider } from "@/contexts/settings-context";
 import { AudioMonitoringProvider } from "@/contexts/audio-monitoring-context";
 import { SimpleMonitoringProvider } from "@/contexts/simple-monitoring-context";
 import { RealtimeSyncProvider } from "@/contexts/realtime-sync-context";
@@ -10,15 +11,17 @@ import { type ReactNode } from "react";
 export function Providers({ children }: { children: ReactNode }) {
   return (
     <AuthProvider>
-      <SessionManagerProvider>
-        <RealtimeSyncProvider>
-          <AudioMonitoringProvider>
-            <SimpleMonitoringProvider>
-              {children}
-            </SimpleMonitoringProvider>
-          </AudioMonitoringProvider>
-        </RealtimeSyncProvider>
-      </SessionManagerProvider>
+      <SettingsProvider>
+        <SessionManagerProvider>
+          <RealtimeSyncProvider>
+            <AudioMonitoringProvider>
+              <SimpleMonitoringProvider>
+                {children}
+              </SimpleMonitoringProvider>
+            </AudioMonitoringProvider>
+          </RealtimeSyncProvider>
+        </SessionManagerProvider>
+      </SettingsProvider>
     </AuthProvider>
   );
 }
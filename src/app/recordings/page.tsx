@@ -8,8 +8,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
 import { useAuth } from "@/contexts/auth-context";
+import { useSettings } from "@/contexts/settings-context";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
 import { getRecordings, deleteRecording } from "@/lib/firebase/firestore";
 import type { Recording } from "@/lib/algo/types";
+import {
+  MAX_EXPORT_RECORDINGS,
+  RECORDING_EXPORT_FORMATS,
+  getRecordingChannel,
+  sortRecordingsByTime,
+  type RecordingExportFormat,
+} from "@/lib/algo/recording-export";
 import {
   Folder,
   File,
@@ -26,11 +35,16 @@ import {
   ChevronRight,
   ChevronDown,
   Filter,
+  FileDown,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+// How long an exported file's object URL stays valid after its download starts
+const OBJECT_URL_LIFETIME_MS = 60_000;
+
 export default function RecordingsPage() {
   const { user } = useAuth();
+  const { settings } = useSettings();
   const isAdmin = (user as any)?.role === "admin";
 
   const [recordings, setRecordings] = useState<Recording[]>([]);
@@ -55,6 +69,13 @@ export default function RecordingsPage() {
   // Folder expansion state
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
 
+  // Export state (selection is kept across pages and filters)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [exportFormat, setExportFormat] = useState<RecordingExportFormat>("mp3");
+  const [joinSessions, setJoinSessions] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+
   // Admin access check
   useEffect(() => {
     if (user && !isAdmin) {
@@ -213,6 +234,65 @@ export default function RecordingsPage() {
     link.click();
   };
 
+  // Toggle a recording in the export selection
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  // Convert on the server, then save the result
+  const exportOne = async (ids: string[]) => {
+    const response = await fetch("/api/recordings/export", {
+      method: "POST",
+      headers: await getAuthHeaders(),
+      body: JSON.stringify({ recordingIds: ids, format: exportFormat, timeZone: settings.timezone }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error ?? `Export failed (${response.status})`);
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = response.headers.get("X-Export-Filename") ?? `recording.${RECORDING_EXPORT_FORMATS[exportFormat].extension}`;
+    link.click();
+    // Revoked right after the click, some browsers cancel the download
+    setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+  };
+
+  // Export the selection - one joined file, or one file per recording
+  const handleExport = async () => {
+    const selected = sortRecordingsByTime(recordings.filter((r) => selectedIds.has(r.id)));
+    if (selected.length === 0) return;
+
+    setExporting(true);
+    try {
+      if (joinSessions) {
+        setExportStatus(`Joining ${selected.length} recordings...`);
+        await exportOne(selected.map((r) => r.id));
+      } else {
+        for (const [i, recording] of selected.entries()) {
+          setExportStatus(`Exporting ${i + 1} of ${selected.length}...`);
+          await exportOne([recording.id]);
+        }
+      }
+      setExportStatus(`Exported ${selected.length} recording${selected.length === 1 ? "" : "s"} as ${RECORDING_EXPORT_FORMATS[exportFormat].label}`);
+    } catch (err) {
+      console.error("Failed to export recordings:", err);
+      setExportStatus(err instanceof Error ? err.message : "Failed to export recordings");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   // Delete recording
   const handleDeleteRecording = async (recording: Recording) => {
     if (!confirm(`Are you sure you want to delete ${recording.filename}?`)) {
@@ -222,6 +302,7 @@ export default function RecordingsPage() {
     try {
       await deleteRecording(recording.id);
       setRecordings((prev) => prev.filter((r) => r.id !== recording.id));
+      toggleSelected(recording.id, false);
     } catch (err) {
       console.error("Failed to delete recording:", err);
       alert("Failed to delete recording. Please try again.");
@@ -238,13 +319,14 @@ export default function RecordingsPage() {
   // Format timestamp
   const formatTimestamp = (date: Date): string => {
     return new Date(date).toLocaleString("en-US", {
-      timeZone: "America/Los_Angeles",
+      timeZone: settings.timezone,
       year: "numeric",
       month: "short",
       day: "numeric",
       hour: "2-digit",
       minute: "2-digit",
       second: "2-digit",
+      timeZoneName: "short",
     });
   };
 
@@ -418,6 +500,70 @@ export default function RecordingsPage() {
           </CardContent>
         </Card>
 
+        {/* Export Card */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileDown className="h-5 w-5" />
+              Export
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-[var(--text-secondary)]">
+              Tick recordings below to export them, converted on the server and tagged with the station, channel and
+              first-detected time. Joined recordings play in time order with a second of silence between them.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label>Format</Label>
+                <Select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as RecordingExportFormat)}
+                  className="mt-1"
+                >
+                  {(Object.keys(RECORDING_EXPORT_FORMATS) as RecordingExportFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {RECORDING_EXPORT_FORMATS[format].label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <input
+                  type="checkbox"
+                  id="join-sessions"
+                  checked={joinSessions}
+                  onChange={(e) => setJoinSessions(e.target.checked)}
+                  className="h-4 w-4 rounded border-[var(--border-color)] bg-[var(--bg-tertiary)]"
+                />
+                <Label htmlFor="join-sessions">Join into one file</Label>
+              </div>
+              <div className="flex gap-2 md:justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => setSelectedIds(new Set([...selectedIds, ...paginatedRecordings.map((r) => r.id)]))}
+                >
+                  Select Page
+                </Button>
+                <Button variant="outline" onClick={() => setSelectedIds(new Set())} disabled={selectedIds.size === 0}>
+                  Clear
+                </Button>
+                <Button
+                  onClick={handleExport}
+                  isLoading={exporting}
+                  disabled={selectedIds.size === 0 || (joinSessions && selectedIds.size > MAX_EXPORT_RECORDINGS)}
+                >
+                  Export {selectedIds.size}
+                </Button>
+              </div>
+            </div>
+            {joinSessions && selectedIds.size > MAX_EXPORT_RECORDINGS && (
+              <p className="text-sm text-red-500">Join at most {MAX_EXPORT_RECORDINGS} recordings into one file.</p>
+            )}
+            {exportStatus && <p className="text-sm text-[var(--text-secondary)]">{exportStatus}</p>}
+          </CardContent>
+        </Card>
+
         {/* Recordings Tree */}
         {loading ? (
           <Card>
@@ -532,6 +678,13 @@ export default function RecordingsPage() {
                                           key={recording.id}
                                           className="flex items-center gap-3 p-4 pl-6 hover:bg-[var(--bg-secondary)] transition-colors border-l border-[var(--border-color)]"
                                         >
+                                          <input
+                                            type="checkbox"
+                                            checked={selectedIds.has(recording.id)}
+                                            onChange={(e) => toggleSelected(recording.id, e.target.checked)}
+                                            title="Select for export"
+                                            className="h-4 w-4 rounded border-[var(--border-color)] bg-[var(--bg-tertiary)]"
+                                          />
                                           <File className="h-4 w-4 text-[var(--text-muted)]" />
                                           <div className="flex-1 min-w-0">
                                             <div className="font-medium text-[var(--text-primary)] truncate">
@@ -543,6 +696,7 @@ export default function RecordingsPage() {
                                                 {formatTimestamp(recording.timestamp)}
                                               </span>
                                               <span>{formatFileSize(recording.size)}</span>
+                                              <span>{getRecordingChannel(recording)}</span>
                                             </div>
                                           </div>
                                           <div className="flex items-center gap-2">
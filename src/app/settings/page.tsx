@@ -6,33 +6,82 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useAuth } from "@/contexts/auth-context";
-import { Settings2, User, Info, VolumeX, CheckCircle2 } from "lucide-react";
+import { Settings2, User, Info, VolumeX, CheckCircle2, Siren, Radio } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useSimpleMonitoring } from "@/contexts/simple-monitoring-context";
+import { useSettings } from "@/contexts/settings-context";
+import { StationScheduleCard } from "@/components/settings/station-schedule-card";
+import { dbToLevel, formatDb, levelToDb } from "@/lib/algo/volume";
+import {
+  STROBE_COLORS,
+  STROBE_PATTERN_MAX,
+  validateStrobePattern,
+  type StrobeColor,
+  type StrobePatternKey,
+  type StrobePatterns,
+} from "@/lib/algo/strobe";
+
+// Level -5 (-45dB) to Level 10 (0dB)
+const IDLE_VOLUME_LEVELS = Array.from({ length: 16 }, (_, i) => i - 5);
+
+const STROBE_PATTERN_LABELS: Record<StrobePatternKey, string> = {
+  fire: "🔥 Fire",
+  medical: "🏥 Medical",
+  allCall: "📢 All Call",
+  default: "Single input (unassigned strobes)",
+};
 
 export default function SettingsPage() {
   const { user } = useAuth();
   const { loggingEnabled, setLoggingEnabled, recordingEnabled, setRecordingEnabled } = useSimpleMonitoring();
 
-  const [idleVolume, setIdleVolume] = useState<number>(-45);
+  const { settings, loading: settingsLoading, saveSettings } = useSettings();
+
+  // Unsaved edits over the owner's settings
+  const [idleVolumeDraft, setIdleVolumeDraft] = useState<number | null>(null);
+  const [alwaysKeepPagingOnDraft, setAlwaysKeepPagingOnDraft] = useState<boolean | null>(null);
+  const [strobeDraft, setStrobeDraft] = useState<StrobePatterns | null>(null);
   const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [strobeMessage, setStrobeMessage] = useState<string | null>(null);
+
+  const idleVolume = idleVolumeDraft ?? settings.idleVolumeDb;
+  const alwaysKeepPagingOn = alwaysKeepPagingOnDraft ?? settings.alwaysKeepPagingOn;
+  const strobePatterns = strobeDraft ?? settings.strobePatterns;
+
+  const updateStrobePattern = (key: StrobePatternKey, changes: Partial<StrobePatterns[StrobePatternKey]>) => {
+    setStrobeDraft({ ...strobePatterns, [key]: { ...strobePatterns[key], ...changes } });
+  };
 
-  // Load settings from localStorage
-  useEffect(() => {
-    const savedIdleVolume = localStorage.getItem("algoapp-idle-volume");
-    if (savedIdleVolume) {
-      setIdleVolume(parseInt(savedIdleVolume));
+  const handleSaveStrobePatterns = async () => {
+    const invalid = (Object.keys(strobePatterns) as StrobePatternKey[])
+      .map((key) => ({ key, error: validateStrobePattern(strobePatterns[key]) }))
+      .find((result) => result.error);
+    if (invalid) {
+      setStrobeMessage(`Error: ${STROBE_PATTERN_LABELS[invalid.key]} - ${invalid.error}`);
+      setTimeout(() => setStrobeMessage(null), 5000);
+      return;
     }
-  }, []);
 
-  const handleSaveSettings = () => {
     try {
-      localStorage.setItem("algoapp-idle-volume", idleVolume.toString());
-      setSavedMessage("Settings saved! Restart monitoring for changes to take effect.");
+      await saveSettings({ strobePatterns });
+      setStrobeDraft(null);
+      setStrobeMessage("Strobe patterns saved! Used from the next call.");
+    } catch (error) {
+      setStrobeMessage(`Error: ${error instanceof Error ? error.message : "Failed to save strobe patterns"}`);
+    }
+    setTimeout(() => setStrobeMessage(null), 5000);
+  };
+
+  const handleSaveSettings = async () => {
+    try {
+      await saveSettings({ idleVolumeDb: idleVolume, alwaysKeepPagingOn });
+      setIdleVolumeDraft(null);
+      setAlwaysKeepPagingOnDraft(null);
+      setSavedMessage("Settings saved to your account! Restart monitoring for changes to take effect.");
       setTimeout(() => setSavedMessage(null), 5000);
     } catch (error) {
-      setSavedMessage("Error: Failed to save settings");
+      setSavedMessage(`Error: ${error instanceof Error ? error.message : "Failed to save settings"}`);
       setTimeout(() => setSavedMessage(null), 5000);
     }
   };
@@ -96,34 +145,35 @@ export default function SettingsPage() {
                 <select
                   id="idleVolume"
                   value={idleVolume}
-                  onChange={(e) => setIdleVolume(parseInt(e.target.value))}
+                  onChange={(e) => setIdleVolumeDraft(parseInt(e.target.value))}
                   className="px-3 py-2 rounded-md border border-[var(--border-color)] bg-[var(--bg-secondary)] text-[var(--text-primary)]"
                 >
-                  <option value={-45}>Level -5 (-45dB) - Default</option>
-                  <option value={-42}>Level -4 (-42dB)</option>
-                  <option value={-39}>Level -3 (-39dB)</option>
-                  <option value={-36}>Level -2 (-36dB)</option>
-                  <option value={-33}>Level -1 (-33dB)</option>
-                  <option value={-30}>Level 0 (-30dB)</option>
-                  <option value={-27}>Level 1 (-27dB)</option>
-                  <option value={-24}>Level 2 (-24dB)</option>
-                  <option value={-21}>Level 3 (-21dB)</option>
-                  <option value={-18}>Level 4 (-18dB)</option>
-                  <option value={-15}>Level 5 (-15dB)</option>
-                  <option value={-12}>Level 6 (-12dB)</option>
-                  <option value={-9}>Level 7 (-9dB)</option>
-                  <option value={-6}>Level 8 (-6dB)</option>
-                  <option value={-3}>Level 9 (-3dB)</option>
-                  <option value={0}>Level 10 (0dB) - Max</option>
+                  {IDLE_VOLUME_LEVELS.map((level) => (
+                    <option key={level} value={levelToDb(level)}>
+                      Level {level} ({formatDb(levelToDb(level))}){level === IDLE_VOLUME_LEVELS[0] ? " - Default" : level === 10 ? " - Max" : ""}
+                    </option>
+                  ))}
                 </select>
                 <span className="text-sm text-[var(--text-muted)] font-mono">
-                  Current: Level {(idleVolume + 45) / 3 - 5}
+                  Current: Level {dbToLevel(idleVolume)}
                 </span>
               </div>
               <p className="text-sm text-[var(--text-muted)]">
                 Volume level for speakers when idle/off (Level -5 to Level 10). Default: Level -5 (-45dB). Restart monitoring for changes to take effect.
               </p>
             </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="!text-[var(--text-primary)] flex items-center gap-2">
+                  <Radio className="h-4 w-4 text-[var(--text-muted)]" />
+                  Keep Paging Adapter On
+                </Label>
+                <p className="text-xs text-[var(--text-muted)]">
+                  Leave the 8301 transmitting between calls instead of switching it off when audio ends
+                </p>
+              </div>
+              <Switch checked={alwaysKeepPagingOn} onCheckedChange={setAlwaysKeepPagingOnDraft} />
+            </div>
             <div className="flex items-center justify-between">
               <div>
                 <Label className="!text-[var(--text-primary)]">Activity Logging</Label>
@@ -141,9 +191,9 @@ export default function SettingsPage() {
               <Switch checked={recordingEnabled} onCheckedChange={setRecordingEnabled} />
             </div>
             <div className="flex items-center gap-3">
-              <Button onClick={handleSaveSettings}>Save Settings</Button>
+              <Button onClick={handleSaveSettings} disabled={settingsLoading}>Save Settings</Button>
               {savedMessage && (
-                <div className="flex items-center gap-2 text-sm text-[var(--accent-green)]">
+                <div className={`flex items-center gap-2 text-sm ${savedMessage.startsWith("Error") ? "text-[var(--accent-red)]" : "text-[var(--accent-green)]"}`}>
                   <CheckCircle2 className="h-4 w-4" />
                   <span>{savedMessage}</span>
                 </div>
@@ -152,6 +202,97 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Day / Night Schedule */}
+        <StationScheduleCard />
+
+        {/* Strobe Patterns */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-[var(--accent-red)]/15">
+                <Siren className="h-5 w-5 text-[var(--accent-red)]" />
+              </div>
+              <div>
+                <CardTitle>Strobe Alerts</CardTitle>
+                <CardDescription>
+                  Flash pattern for 8128/8138 strobes, by input channel
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {(Object.keys(STROBE_PATTERN_LABELS) as StrobePatternKey[]).map((key) => {
+              const pattern = strobePatterns[key];
+              return (
+                <div key={key} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+                  <Label className="md:col-span-1 !text-[var(--text-primary)]">{STROBE_PATTERN_LABELS[key]}</Label>
+                  <div className="space-y-1">
+                    <Label htmlFor={`strobe-${key}-pattern`} className="text-xs">Pattern (0-{STROBE_PATTERN_MAX})</Label>
+                    <Input
+                      id={`strobe-${key}-pattern`}
+                      type="number"
+                      min={0}
+                      max={STROBE_PATTERN_MAX}
+                      value={pattern.pattern}
+                      onChange={(e) => updateStrobePattern(key, { pattern: parseInt(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`strobe-${key}-color1`} className="text-xs">Color</Label>
+                    <select
+                      id={`strobe-${key}-color1`}
+                      value={pattern.color1}
+                      onChange={(e) => updateStrobePattern(key, { color1: e.target.value as StrobeColor })}
+                      className="w-full px-3 py-2 rounded-md border border-[var(--border-color)] bg-[var(--bg-secondary)] text-[var(--text-primary)]"
+                    >
+                      {STROBE_COLORS.map((color) => (
+                        <option key={color} value={color}>{color}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`strobe-${key}-color2`} className="text-xs">Alternate color</Label>
+                    <select
+                      id={`strobe-${key}-color2`}
+                      value={pattern.color2 ?? ""}
+                      onChange={(e) => updateStrobePattern(key, { color2: (e.target.value || undefined) as StrobeColor | undefined })}
+                      className="w-full px-3 py-2 rounded-md border border-[var(--border-color)] bg-[var(--bg-secondary)] text-[var(--text-primary)]"
+                    >
+                      <option value="">None</option>
+                      {STROBE_COLORS.map((color) => (
+                        <option key={color} value={color}>{color}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`strobe-${key}-ledlvl`} className="text-xs">LED level (0-255)</Label>
+                    <Input
+                      id={`strobe-${key}-ledlvl`}
+                      type="number"
+                      min={0}
+                      max={255}
+                      value={pattern.ledlvl}
+                      onChange={(e) => updateStrobePattern(key, { ledlvl: e.target.value })}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-sm text-[var(--text-muted)]">
+              Strobes assigned to an input channel flash that channel&apos;s pattern. Strobes linked to the paging device without a channel use the single-input pattern.
+            </p>
+            <div className="flex items-center gap-3">
+              <Button onClick={handleSaveStrobePatterns} disabled={settingsLoading}>Save Strobe Patterns</Button>
+              {strobeMessage && (
+                <div className={`flex items-center gap-2 text-sm ${strobeMessage.startsWith("Error") ? "text-[var(--accent-red)]" : "text-[var(--accent-green)]"}`}>
+                  <CheckCircle2 className="h-4 w-4" />
+                  <span>{strobeMessage}</span>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* About */}
         <Card>
           <CardHeader>
@@ -0,0 +1,517 @@
+"use client";
+
+import { useEffect, useState, useMemo } from "react";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { PhoneCall, PhoneOff, Plus, Trash2, Save, RefreshCw, AlertTriangle, CalendarClock } from "lucide-react";
+import { getDevices, getSipCallLog, getSipCallPlan, setSipCallPlan } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import {
+  MAX_SIP_CALL_SECONDS,
+  SIP_REGISTRATION_LABELS,
+  canPlaceSipCall,
+  describeSipSchedule,
+  newScheduledSipCall,
+  validateScheduledSipCall,
+  validateSipCallDuration,
+  validateSipExtension,
+} from "@/lib/algo/sip";
+import { WEEKDAY_LABELS } from "@/lib/algo/station-time";
+import type {
+  AlgoDevice,
+  ScheduledSipCall,
+  SipCallAction,
+  SipCallLogEntry,
+  SipCallRepeat,
+  SipRegistrationState,
+  SipStatusReading,
+} from "@/lib/algo/types";
+import { formatDate } from "@/lib/utils";
+import { useAuth } from "@/contexts/auth-context";
+import { useSettings } from "@/contexts/settings-context";
+
+const REGISTRATION_BADGES: Record<SipRegistrationState, "success" | "destructive" | "secondary" | "outline"> = {
+  registered: "success",
+  failed: "destructive",
+  disabled: "secondary",
+  unknown: "outline",
+};
+
+export default function SipCallsPage() {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [calls, setCalls] = useState<ScheduledSipCall[]>([]);
+  const [callLog, setCallLog] = useState<SipCallLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Registration health
+  const [readings, setReadings] = useState<SipStatusReading[]>([]);
+  const [readAt, setReadAt] = useState<number | null>(null);
+  const [reading, setReading] = useState(false);
+
+  // Manual call
+  const [manualDeviceId, setManualDeviceId] = useState("");
+  const [manualExtension, setManualExtension] = useState("");
+  const [manualTone, setManualTone] = useState("");
+  const [manualMaxDuration, setManualMaxDuration] = useState(60);
+  const [manualRunning, setManualRunning] = useState<SipCallAction | null>(null);
+  const [manualStatus, setManualStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user?.email) {
+      loadData();
+      refreshRegistration();
+    }
+    // Only re-run if email changes (more stable)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.email]);
+
+  const sipDevices = useMemo(() => devices.filter(canPlaceSipCall), [devices]);
+
+  const loadData = async () => {
+    if (!user?.email) return;
+    try {
+      setLoading(true);
+      const [deviceData, plan, logData] = await Promise.all([
+        getDevices(user.email),
+        getSipCallPlan(user.email),
+        getSipCallLog(user.email, 50),
+      ]);
+      setDevices(deviceData);
+      setCalls(plan?.calls ?? []);
+      setCallLog(logData);
+      const firstSipDevice = deviceData.find(canPlaceSipCall);
+      if (!manualDeviceId && firstSipDevice) {
+        setManualDeviceId(firstSipDevice.id);
+      }
+    } catch (error) {
+      console.error("Failed to load SIP calls:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshRegistration = async () => {
+    if (!user?.email) return;
+    setReading(true);
+    try {
+      const response = await fetch("/api/algo/sip", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ownerEmail: user.email }),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setReadings(data.readings);
+        setReadAt(data.readAt);
+      }
+    } catch (error) {
+      console.error("Failed to read SIP status:", error);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const refreshCallLog = async () => {
+    if (!user?.email) return;
+    try {
+      setCallLog(await getSipCallLog(user.email, 50));
+    } catch (error) {
+      console.error("Failed to load SIP call log:", error);
+    }
+  };
+
+  const callErrors = useMemo(
+    () => new Map(calls.map((call) => [call.id, validateScheduledSipCall(call, devices)])),
+    [calls, devices]
+  );
+  const hasErrors = Array.from(callErrors.values()).some((errors) => errors.length > 0);
+
+  const addCall = () => {
+    if (sipDevices.length === 0) return;
+    setCalls((prev) => [...prev, newScheduledSipCall(sipDevices[0].id)]);
+    setStatus(null);
+  };
+
+  const updateCall = (id: string, changes: Partial<ScheduledSipCall>) => {
+    setCalls((prev) => prev.map((call) => (call.id === id ? { ...call, ...changes } : call)));
+    setStatus(null);
+  };
+
+  const removeCall = (id: string) => {
+    setCalls((prev) => prev.filter((call) => call.id !== id));
+    setStatus(null);
+  };
+
+  const toggleDay = (call: ScheduledSipCall, day: number) => {
+    const days = call.days ?? [];
+    updateCall(call.id, { days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort() });
+  };
+
+  const handleSave = async () => {
+    if (!user?.email || hasErrors) return;
+    setSaving(true);
+    try {
+      await setSipCallPlan({ ownerEmail: user.email, calls });
+      setStatus("Scheduled calls saved");
+    } catch (error) {
+      console.error("Failed to save scheduled calls:", error);
+      setStatus(error instanceof Error ? error.message : "Failed to save scheduled calls");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const manualError = validateSipExtension(manualExtension) ?? validateSipCallDuration(manualMaxDuration);
+
+  const handleManualCall = async (action: SipCallAction) => {
+    if (!user?.email || !manualDeviceId) return;
+    setManualRunning(action);
+    setManualStatus(null);
+    try {
+      const response = await fetch("/api/algo/call", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          ownerEmail: user.email,
+          deviceId: manualDeviceId,
+          action,
+          extension: manualExtension.trim(),
+          tone: manualTone.trim() || undefined,
+          maxDurationSeconds: manualMaxDuration,
+          triggeredBy: user.email,
+        }),
+      });
+      const data = await response.json();
+      setManualStatus(
+        response.ok
+          ? action === "start" ? `Calling ${manualExtension} from ${data.deviceName}` : `${data.deviceName} hung up`
+          : data.error || `HTTP ${response.status}`
+      );
+      await refreshCallLog();
+    } catch (error) {
+      console.error("Failed to run SIP call:", error);
+      setManualStatus(error instanceof Error ? error.message : "Failed to run SIP call");
+    } finally {
+      setManualRunning(null);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--text-primary)]">SIP Calls</h1>
+          <p className="text-[var(--text-secondary)] text-sm">
+            Page over SIP when multicast is down - place calls by hand or on a schedule
+          </p>
+        </div>
+
+        {/* Registration */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>SIP Registration</CardTitle>
+                <CardDescription>
+                  {readAt ? `Read ${new Date(readAt).toLocaleTimeString()}` : "Reading devices..."}
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={refreshRegistration} isLoading={reading}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Refresh
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {readings.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">
+                {reading ? "Reading..." : "No 8301 or 8180 devices"}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {readings.map((entry) => (
+                  <div key={entry.deviceId} className="flex items-center gap-3 p-3 rounded-xl border border-[var(--border-color)] text-sm">
+                    <Badge variant={REGISTRATION_BADGES[entry.registration]}>
+                      {SIP_REGISTRATION_LABELS[entry.registration]}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-[var(--text-primary)] truncate">{entry.deviceName}</p>
+                      <p className="text-xs text-[var(--text-muted)] truncate">
+                        {entry.error ?? `${entry.registrationRaw ?? "-"} · call: ${entry.callStatus ?? "-"}`}
+                      </p>
+                    </div>
+                    {entry.callActive && <Badge variant="warning">On a call</Badge>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Manual Call */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Place a Call</CardTitle>
+            <CardDescription>Recorded in the call log with your email</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Calling device</Label>
+                <Select value={manualDeviceId} onChange={(e) => setManualDeviceId(e.target.value)}>
+                  {sipDevices.map((device) => (
+                    <option key={device.id} value={device.id}>
+                      {device.name} ({device.ipAddress})
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Extension</Label>
+                <Input value={manualExtension} onChange={(e) => setManualExtension(e.target.value)} placeholder="e.g. 1001" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Tone (optional)</Label>
+                <Input value={manualTone} onChange={(e) => setManualTone(e.target.value)} placeholder="e.g. page-notif.wav" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Hang up after (seconds)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_SIP_CALL_SECONDS}
+                  value={manualMaxDuration}
+                  onChange={(e) => setManualMaxDuration(parseInt(e.target.value))}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={() => handleManualCall("start")} isLoading={manualRunning === "start"} disabled={!manualDeviceId || !!manualError || manualRunning !== null}>
+                <PhoneCall className="mr-2 h-4 w-4" />
+                Call
+              </Button>
+              <Button variant="outline" onClick={() => handleManualCall("stop")} isLoading={manualRunning === "stop"} disabled={!manualDeviceId || manualRunning !== null}>
+                <PhoneOff className="mr-2 h-4 w-4" />
+                Hang up
+              </Button>
+              {(manualStatus || (manualExtension && manualError)) && (
+                <span className="text-sm text-[var(--text-secondary)]">{manualStatus ?? manualError}</span>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Scheduled Calls */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+                  <CalendarClock className="h-5 w-5 text-[var(--accent-blue)]" />
+                </div>
+                <div>
+                  <CardTitle>Scheduled Calls</CardTitle>
+                  <CardDescription>Placed by the server at station time ({settings.timezone})</CardDescription>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={addCall} disabled={loading || sipDevices.length === 0}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Call
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={saving || hasErrors}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">Loading...</p>
+            ) : calls.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">No scheduled calls</p>
+            ) : (
+              calls.map((call) => {
+                const errors = callErrors.get(call.id) ?? [];
+                return (
+                  <div key={call.id} className="p-4 rounded-xl border border-[var(--border-color)] space-y-3">
+                    <div className="flex items-center gap-3">
+                      <Switch checked={call.enabled} onCheckedChange={(enabled) => updateCall(call.id, { enabled })} />
+                      <Input
+                        value={call.name}
+                        onChange={(e) => updateCall(call.id, { name: e.target.value })}
+                        placeholder="Call name"
+                        className="flex-1"
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => removeCall(call.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-8 gap-3">
+                      <div className="space-y-1 md:col-span-2">
+                        <Label className="text-xs">Calling device</Label>
+                        <Select value={call.deviceId} onChange={(e) => updateCall(call.id, { deviceId: e.target.value })}>
+                          {!sipDevices.some((d) => d.id === call.deviceId) && <option value={call.deviceId}>Deleted device</option>}
+                          {sipDevices.map((device) => (
+                            <option key={device.id} value={device.id}>
+                              {device.name} ({device.ipAddress})
+                            </option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Extension</Label>
+                        <Input value={call.extension} onChange={(e) => updateCall(call.id, { extension: e.target.value })} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Tone</Label>
+                        <Input
+                          value={call.tone ?? ""}
+                          onChange={(e) => updateCall(call.id, { tone: e.target.value.trim() || undefined })}
+                          placeholder="None"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Tone every (s)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={MAX_SIP_CALL_SECONDS}
+                          value={call.intervalSeconds ?? ""}
+                          onChange={(e) => updateCall(call.id, { intervalSeconds: e.target.value ? parseInt(e.target.value) : undefined })}
+                          disabled={!call.tone}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Hang up after (s)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_SIP_CALL_SECONDS}
+                          value={call.maxDurationSeconds ?? ""}
+                          onChange={(e) => updateCall(call.id, { maxDurationSeconds: e.target.value ? parseInt(e.target.value) : undefined })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Repeat</Label>
+                        <Select
+                          value={call.repeat}
+                          onChange={(e) => {
+                            const repeat = e.target.value as SipCallRepeat;
+                            updateCall(call.id, repeat === "once"
+                              ? { repeat, date: call.date ?? new Date().toISOString().slice(0, 10) }
+                              : { repeat, days: call.days?.length ? call.days : [1, 2, 3, 4, 5] });
+                          }}
+                        >
+                          <option value="weekly">Weekly</option>
+                          <option value="once">Once</option>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Time</Label>
+                        <Input type="time" value={call.time} onChange={(e) => updateCall(call.id, { time: e.target.value })} />
+                      </div>
+                    </div>
+                    {call.repeat === "once" ? (
+                      <div className="flex items-center gap-3">
+                        <Label className="text-xs">Date</Label>
+                        <Input type="date" value={call.date ?? ""} onChange={(e) => updateCall(call.id, { date: e.target.value })} className="w-44" />
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <Button
+                            key={label}
+                            variant={(call.days ?? []).includes(day) ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => toggleDay(call, day)}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    {errors.length > 0 ? (
+                      <div className="space-y-1">
+                        {errors.map((error) => (
+                          <div key={error} className="flex items-center gap-2 text-xs">
+                            <Badge variant="destructive">error</Badge>
+                            <span className="text-[var(--text-secondary)]">{error}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-[var(--text-muted)]">
+                        {describeSipSchedule(call)} · call {call.extension}
+                      </p>
+                    )}
+                  </div>
+                );
+              })
+            )}
+
+            {status && (
+              <div className="flex items-start gap-2 text-xs text-[var(--text-secondary)]">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {status}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Call Log */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Call Log</CardTitle>
+                <CardDescription>Every call placed or hung up, newest first</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={refreshCallLog}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Refresh
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {callLog.length === 0 ? (
+              <p className="text-sm text-[var(--text-muted)] text-center py-4">No SIP calls yet</p>
+            ) : (
+              <div className="space-y-2">
+                {callLog.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-3 p-3 rounded-xl border border-[var(--border-color)] text-sm">
+                    <Badge variant={entry.success ? "success" : "destructive"}>
+                      {entry.success ? "OK" : "Failed"}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-[var(--text-primary)] truncate">
+                        {entry.name} · {entry.action === "start" ? `call ${entry.extension}` : "hang up"} · {entry.deviceName}
+                      </p>
+                      <p className="text-xs text-[var(--text-muted)] truncate">
+                        {entry.trigger === "manual" ? `Manual${entry.triggeredBy ? ` by ${entry.triggeredBy}` : ""}` : "Scheduled"}
+                        {entry.error && ` · ${entry.error}`}
+                      </p>
+                    </div>
+                    <span className="text-xs text-[var(--text-muted)] whitespace-nowrap">{formatDate(entry.createdAt)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
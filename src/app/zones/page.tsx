@@ -24,6 +24,9 @@ import { useAuth } from "@/contexts/auth-context";
 import type { AlgoDevice, Zone, ZoneRouting } from "@/lib/algo/types";
 import { ZoneModal } from "@/components/zones/zone-modal";
 import { AssignDeviceModal } from "@/components/zones/assign-device-modal";
+import { MulticastPlanCard } from "@/components/zones/multicast-plan-card";
+import { VolumeProfilesCard } from "@/components/zones/volume-profiles-card";
+import { ZoneOwnershipCard } from "@/components/zones/zone-ownership-card";
 
 export default function ZonesPage() {
   const [devices, setDevices] = useState<AlgoDevice[]>([]);
@@ -99,6 +102,7 @@ export default function ZonesPage() {
         await updateZone(zoneId, {
           name: data.zone.name,
           color: data.zone.color,
+          defaultVolume: data.zone.defaultVolume ?? 100,
           deviceIds: data.zone.deviceIds,
         });
       } else {
@@ -106,6 +110,7 @@ export default function ZonesPage() {
         zoneId = await addZone({
           name: data.zone.name,
           color: data.zone.color,
+          defaultVolume: data.zone.defaultVolume ?? 100,
           deviceIds: [],
           ownerEmail: user?.email || "unknown",
         });
@@ -496,6 +501,21 @@ export default function ZonesPage() {
             )}
           </div>
         )}
+
+        {/* Zone Ownership */}
+        {zones.length > 0 && user?.email && (
+          <ZoneOwnershipCard zones={zones} ownerEmail={user.email} />
+        )}
+
+        {/* Multicast Plan */}
+        {zones.length > 0 && user?.email && (
+          <MulticastPlanCard zones={zones} ownerEmail={user.email} />
+        )}
+
+        {/* Volume Profiles */}
+        {zones.length > 0 && user?.email && (
+          <VolumeProfilesCard zones={zones} ownerEmail={user.email} />
+        )}
       </div>
 
       {/* Zone Modal */}
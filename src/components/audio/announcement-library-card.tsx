@@ -0,0 +1,325 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Library, RefreshCw, Trash2, Upload } from "lucide-react";
+import { storage } from "@/lib/firebase/config";
+import { addAudioFile, deleteAudioFile, getAudioFiles } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import {
+  DEFAULT_TONES,
+  getLibraryFiles,
+  isValidLibraryFilename,
+  type LibraryDeviceReport,
+} from "@/lib/algo/announcement-library";
+import { AUDIO_UPLOAD_ACCEPT, MAX_AUDIO_UPLOAD_BYTES, toToneFilename } from "@/lib/algo/audio-format";
+import type { AlgoDevice, AudioFile } from "@/lib/algo/types";
+import { formatBytes } from "@/lib/utils";
+
+interface AnnouncementLibraryCardProps {
+  devices: AlgoDevice[];
+  ownerEmail: string;
+  userId: string;
+  onSynced?: () => void; // e.g. reload the selected device's tones
+}
+
+// A file converted by /api/algo/library/transcode
+interface TranscodedFile {
+  wav: Blob;
+  filename: string;
+  duration: number;
+  summary: string; // e.g. "3.2s, -16 LUFS, +4.5 dB, 0.4s silence trimmed"
+}
+
+async function transcodeForLibrary(file: File): Promise<TranscodedFile> {
+  const formData = new FormData();
+  formData.append("file", file);
+  const response = await fetch("/api/algo/library/transcode", { method: "POST", body: formData });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? `Conversion failed (${response.status})`);
+  }
+
+  const header = (name: string) => response.headers.get(`X-Tone-${name}`) ?? "";
+  const duration = Number(header("Duration"));
+  const gain = Number(header("Gain"));
+  const trimmed = Number(header("Trimmed"));
+  const summary = [
+    `${duration}s`,
+    `${header("Loudness")} LUFS${header("Peak-Limited") === "true" ? " (peak-limited)" : ""}`,
+    `${gain >= 0 ? "+" : ""}${gain} dB`,
+    ...(trimmed > 0 ? [`${trimmed}s silence trimmed`] : []),
+  ].join(", ");
+
+  return { wav: await response.blob(), filename: header("Filename"), duration, summary };
+}
+
+function DeviceSyncStatus({ report }: { report: LibraryDeviceReport }) {
+  if (report.error) {
+    return <Badge variant="destructive">{report.error}</Badge>;
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {report.inSync ? <Badge variant="success">In sync</Badge> : <Badge variant="warning">Out of sync</Badge>}
+      {report.missing.length > 0 && <Badge variant="secondary">{report.missing.length} missing</Badge>}
+      {report.sizeMismatch.length > 0 && <Badge variant="secondary">{report.sizeMismatch.length} wrong size</Badge>}
+      {report.orphans.length > 0 && <Badge variant="outline">{report.orphans.length} not in library</Badge>}
+      {report.pushed.length > 0 && <Badge variant="success">{report.pushed.length} pushed</Badge>}
+      {report.removed.length > 0 && <Badge variant="success">{report.removed.length} removed</Badge>}
+      {report.failed.length > 0 && (
+        <Badge variant="destructive" title={report.failed.map((f) => `${f.filename}: ${f.error}`).join("\n")}>
+          {report.failed.length} failed
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+export function AnnouncementLibraryCard({ devices, ownerEmail, userId, onSynced }: AnnouncementLibraryCardProps) {
+  const [library, setLibrary] = useState<AudioFile[]>([]);
+  const [reports, setReports] = useState<LibraryDeviceReport[]>([]);
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState<"check" | "sync" | null>(null);
+  const [verifySizes, setVerifySizes] = useState(false);
+  const [removeOrphans, setRemoveOrphans] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadLibrary = useCallback(async () => {
+    try {
+      setLibrary(getLibraryFiles(await getAudioFiles(ownerEmail)));
+    } catch (error) {
+      console.error("Failed to load announcement library:", error);
+    }
+  }, [ownerEmail]);
+
+  useEffect(() => {
+    loadLibrary();
+  }, [loadLibrary]);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    setSelectedFile(file);
+    const filename = file ? toToneFilename(file.name) : "";
+    if (!file) {
+      setStatus(null);
+    } else if (file.size > MAX_AUDIO_UPLOAD_BYTES) {
+      setStatus(`Files must be under ${MAX_AUDIO_UPLOAD_BYTES / 1024 / 1024} MB`);
+    } else if (DEFAULT_TONES.includes(filename) || library.some((f) => f.filename === filename)) {
+      setStatus(`"${filename}" is already a tone - rename the file first`);
+    } else {
+      setStatus(filename !== file.name ? `Will be stored as ${filename}` : null);
+    }
+  };
+
+  const selectedFilename = selectedFile ? toToneFilename(selectedFile.name) : "";
+  const canAdd =
+    !!selectedFile &&
+    selectedFile.size <= MAX_AUDIO_UPLOAD_BYTES &&
+    isValidLibraryFilename(selectedFilename) &&
+    !DEFAULT_TONES.includes(selectedFilename) &&
+    !library.some((f) => f.filename === selectedFilename);
+
+  const handleAdd = async () => {
+    if (!selectedFile || !canAdd) return;
+    setUploading(true);
+    try {
+      // Converted on the server, so every library file plays at the same level
+      const { wav, filename, duration, summary } = await transcodeForLibrary(selectedFile);
+      const fileRef = storageRef(storage, `audio-files/${userId}/${filename}`);
+      await uploadBytes(fileRef, wav, { contentType: "audio/wav" });
+      const storageUrl = await getDownloadURL(fileRef);
+
+      await addAudioFile({
+        name: filename.replace(/\.wav$/i, ""),
+        filename,
+        storageUrl,
+        duration,
+        fileSize: wav.size,
+        uploadedBy: userId,
+        ownerEmail,
+      });
+
+      setSelectedFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      setStatus(`Added ${filename} (${summary}) - sync to push it to your devices`);
+      await loadLibrary();
+    } catch (error) {
+      console.error("Library upload failed:", error);
+      setStatus(`Error: ${error instanceof Error ? error.message : "Failed to add file"}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemove = async (file: AudioFile) => {
+    if (!confirm(`Remove "${file.name}" from the library? Devices keep their copy until a sync removes orphans.`)) return;
+    setRemoving(file.id);
+    try {
+      await deleteAudioFile(file.id);
+      try {
+        await deleteObject(storageRef(storage, file.storageUrl));
+      } catch (error) {
+        console.warn("Library file already gone from storage:", error);
+      }
+      await loadLibrary();
+    } catch (error) {
+      console.error("Failed to remove library file:", error);
+      setStatus("Error: Failed to remove file");
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  const runSync = async (apply: boolean) => {
+    setSyncing(apply ? "sync" : "check");
+    setStatus(null);
+    try {
+      const response = await fetch("/api/algo/library/sync", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({
+          ownerEmail,
+          deviceIds: devices.map((d) => d.id),
+          apply,
+          verifySizes,
+          removeOrphans: apply && removeOrphans,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setStatus(`Error: ${data.error}`);
+        return;
+      }
+      setReports(data.devices);
+      setCheckedAt(data.checkedAt);
+      if (apply) {
+        onSynced?.();
+      }
+    } catch (error) {
+      console.error("Library sync failed:", error);
+      setStatus("Error: Failed to reach the server");
+    } finally {
+      setSyncing(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+            <Library className="h-5 w-5 text-[var(--accent-blue)]" />
+          </div>
+          <div>
+            <CardTitle>Announcement Library</CardTitle>
+            <CardDescription>
+              Tones kept on every device at one loudness. Plays push a missing file first, sync keeps the fleet ready.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="library-file">Add to library (WAV, MP3, Ogg, FLAC...)</Label>
+          <div className="flex gap-2">
+            <Input ref={fileInputRef} id="library-file" type="file" accept={AUDIO_UPLOAD_ACCEPT} onChange={handleFileSelect} />
+            <Button onClick={handleAdd} disabled={!canAdd} isLoading={uploading}>
+              <Upload className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {library.length === 0 ? (
+          <p className="text-sm text-[var(--text-muted)]">No announcements yet - devices only have their default tones</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {library.map((file) => (
+              <div
+                key={file.id}
+                className="flex items-center justify-between gap-2 rounded-xl border border-[var(--border-color)] p-2 bg-[var(--bg-secondary)]"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-[var(--text-primary)]">{file.filename}</p>
+                  <p className="text-xs text-[var(--text-muted)]">
+                    {formatBytes(file.fileSize)} · {file.duration}s
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(file)}
+                  disabled={removing === file.id}
+                  className="text-[var(--accent-red)] hover:text-[var(--accent-red)] hover:bg-[var(--accent-red)]/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 pt-4 border-t border-[var(--border-color)]">
+          <div className="flex flex-wrap items-center gap-6 text-sm">
+            <label className="flex items-center gap-2">
+              <Switch checked={verifySizes} onCheckedChange={setVerifySizes} />
+              <span className="text-[var(--text-secondary)]">Verify sizes (downloads each file)</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <Switch checked={removeOrphans} onCheckedChange={setRemoveOrphans} />
+              <span className="text-[var(--text-secondary)]">Remove files not in the library</span>
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => runSync(false)} isLoading={syncing === "check"} disabled={syncing !== null || devices.length === 0}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Check Devices
+            </Button>
+            <Button onClick={() => runSync(true)} isLoading={syncing === "sync"} disabled={syncing !== null || devices.length === 0}>
+              <Upload className="mr-2 h-4 w-4" />
+              Sync All Devices
+            </Button>
+            {checkedAt && (
+              <span className="text-xs text-[var(--text-muted)]">Checked {new Date(checkedAt).toLocaleTimeString()}</span>
+            )}
+          </div>
+
+          {reports.length > 0 && (
+            <div className="space-y-2">
+              {reports.map((report) => (
+                <div
+                  key={report.deviceId}
+                  className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 rounded-xl border border-[var(--border-color)] p-3"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-[var(--text-primary)]">{report.deviceName}</p>
+                    <p className="text-xs text-[var(--text-muted)]">{report.ipAddress}</p>
+                  </div>
+                  <DeviceSyncStatus report={report} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {status && (
+          <p className={`text-sm ${status.startsWith("Error") ? "text-[var(--accent-red)]" : "text-[var(--text-secondary)]"}`}>
+            {status}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
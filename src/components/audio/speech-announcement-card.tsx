@@ -0,0 +1,255 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { MessageSquareText, Play, Radio, Save, Trash2 } from "lucide-react";
+import { getSpeechTemplatePlan, setSpeechTemplatePlan } from "@/lib/firebase/firestore";
+import {
+  MAX_SPEECH_LENGTH,
+  fillTemplate,
+  getTemplateFields,
+  newSpeechTemplate,
+  validateSpeechTemplate,
+  validateSpeechText,
+} from "@/lib/algo/speech";
+import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
+import type { SpeechTemplate } from "@/lib/algo/types";
+
+interface SpeechAnnouncementCardProps {
+  ownerEmail: string;
+  onSpokenTextChange: (text: string) => void; // Template filled in - what devices will say
+}
+
+async function renderSpeech(text: string): Promise<{ audio: ArrayBuffer; duration: number }> {
+  const response = await fetch("/api/speech/render", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? `Rendering failed (${response.status})`);
+  }
+  return {
+    audio: await response.arrayBuffer(),
+    duration: Number(response.headers.get("X-Speech-Duration")) || 0,
+  };
+}
+
+export function SpeechAnnouncementCard({ ownerEmail, onSpokenTextChange }: SpeechAnnouncementCardProps) {
+  const { isCapturing, playLiveAnnouncement } = useAudioMonitoring();
+  const [templates, setTemplates] = useState<SpeechTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [text, setText] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<"preview" | "live" | "save" | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates((await getSpeechTemplatePlan(ownerEmail))?.templates ?? []);
+    } catch (error) {
+      console.error("Failed to load speech templates:", error);
+    }
+  }, [ownerEmail]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const fields = useMemo(() => getTemplateFields(text), [text]);
+  const spokenText = useMemo(() => fillTemplate(text, values).trim(), [text, values]);
+  const invalid = validateSpeechText(spokenText);
+
+  useEffect(() => {
+    onSpokenTextChange(invalid ? "" : spokenText);
+  }, [spokenText, invalid, onSpokenTextChange]);
+
+  const pickTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    setTemplateName(template?.name ?? "");
+    setText(template?.text ?? "");
+    setValues({});
+    setStatus(null);
+  };
+
+  const saveTemplates = async (next: SpeechTemplate[], message: string) => {
+    setBusy("save");
+    try {
+      await setSpeechTemplatePlan({ ownerEmail, templates: next });
+      setTemplates(next);
+      setStatus(message);
+    } catch (error) {
+      console.error("Failed to save speech templates:", error);
+      setStatus("Error: Failed to save templates");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    const existing = templates.find((t) => t.id === templateId);
+    const template: SpeechTemplate = { ...(existing ?? newSpeechTemplate()), name: templateName.trim(), text: text.trim() };
+    const errors = validateSpeechTemplate(template);
+    if (errors.length > 0) {
+      setStatus(`Error: ${errors.join("; ")}`);
+      return;
+    }
+    setTemplateId(template.id);
+    saveTemplates(
+      existing ? templates.map((t) => (t.id === template.id ? template : t)) : [...templates, template],
+      `Saved template "${template.name}"`
+    );
+  };
+
+  const handleDeleteTemplate = () => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template || !confirm(`Delete template "${template.name}"?`)) return;
+    setTemplateId("");
+    saveTemplates(templates.filter((t) => t.id !== template.id), `Deleted template "${template.name}"`);
+  };
+
+  const handlePreview = async () => {
+    setBusy("preview");
+    setStatus(null);
+    try {
+      const { audio, duration } = await renderSpeech(spokenText);
+      const url = URL.createObjectURL(new Blob([audio], { type: "audio/wav" }));
+      const player = new Audio(url);
+      player.onended = () => URL.revokeObjectURL(url);
+      await player.play();
+      setStatus(`Previewing on this computer (${duration}s)`);
+    } catch (error) {
+      setStatus(`Error: ${error instanceof Error ? error.message : "Preview failed"}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePlayLive = async () => {
+    setBusy("live");
+    setStatus("Rendering...");
+    try {
+      const { audio } = await renderSpeech(spokenText);
+      setStatus("Paging through live monitoring...");
+      await playLiveAnnouncement(audio, spokenText);
+      setStatus("Live announcement finished - speakers switch off after the silence timeout");
+    } catch (error) {
+      setStatus(`Error: ${error instanceof Error ? error.message : "Live announcement failed"}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-[var(--accent-purple)]/15">
+            <MessageSquareText className="h-5 w-5 text-[var(--accent-purple)]" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Type an Announcement</CardTitle>
+            <CardDescription>
+              Spoken by the station&apos;s offline voice. Use {"{field}"} placeholders for details filled in each time.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onChange={(e) => pickTemplate(e.target.value)}>
+              <option value="">New message</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Template name</Label>
+            <div className="flex gap-2">
+              <Input
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="e.g. Engine dispatch"
+              />
+              <Button variant="outline" size="sm" onClick={handleSaveTemplate} disabled={busy !== null} title="Save template">
+                <Save className="h-4 w-4" />
+              </Button>
+              {templateId && (
+                <Button variant="outline" size="sm" onClick={handleDeleteTemplate} disabled={busy !== null} title="Delete template">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="speech-text">Message</Label>
+          <textarea
+            id="speech-text"
+            value={text}
+            maxLength={MAX_SPEECH_LENGTH}
+            rows={3}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Engine {n} respond to {address}"
+            className="w-full rounded-lg border border-[var(--border-color)] bg-[var(--bg-tertiary)] px-3 py-2 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-muted)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--accent-blue)]"
+          />
+        </div>
+
+        {fields.length > 0 && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {fields.map((field) => (
+              <div key={field} className="space-y-2">
+                <Label>{field}</Label>
+                <Input
+                  value={values[field] ?? ""}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [field]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-sm text-[var(--text-muted)]">
+          {invalid ?? <>Will say: &ldquo;{spokenText}&rdquo;</>}
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handlePreview} disabled={!!invalid || busy !== null} isLoading={busy === "preview"}>
+            <Play className="mr-2 h-4 w-4" />
+            Preview
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handlePlayLive}
+            disabled={!!invalid || !isCapturing || busy !== null}
+            isLoading={busy === "live"}
+            title={isCapturing ? "Page it through live monitoring's paging devices" : "Start live monitoring first"}
+          >
+            <Radio className="mr-2 h-4 w-4" />
+            Play Live
+          </Button>
+        </div>
+
+        {status && (
+          <p className={`text-sm ${status.startsWith("Error") ? "text-[var(--accent-red)]" : "text-[var(--text-muted)]"}`}>
+            {status}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
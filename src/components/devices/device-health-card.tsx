@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { HeartPulse, RefreshCw, Check, WifiOff, KeyRound, Thermometer } from "lucide-react";
+import { acknowledgeDeviceAlert, getDeviceAlerts } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import { formatDate } from "@/lib/utils";
+import type { DeviceAlert, DeviceAlertType } from "@/lib/algo/types";
+
+interface DeviceHealthCardProps {
+  ownerEmail: string;
+}
+
+interface MonitorStatus {
+  running: boolean;
+  lastSweep: { finishedAt: number; checked: number; online: number } | null;
+}
+
+const ALERT_ICONS: Record<DeviceAlertType, typeof WifiOff> = {
+  offline: WifiOff,
+  auth_failed: KeyRound,
+  over_temperature: Thermometer,
+};
+
+const ALERT_LABELS: Record<DeviceAlertType, string> = {
+  offline: "Offline",
+  auth_failed: "Auth failed",
+  over_temperature: "Too hot",
+};
+
+// Alerts are written by the server-side monitor; re-read them this often
+const REFRESH_MS = 30_000;
+
+export function DeviceHealthCard({ ownerEmail }: DeviceHealthCardProps) {
+  const [alerts, setAlerts] = useState<DeviceAlert[]>([]);
+  const [status, setStatus] = useState<MonitorStatus | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [alertData, statusResponse] = await Promise.all([
+        getDeviceAlerts(ownerEmail, 20),
+        fetch("/api/health-monitor/status", {
+          method: "POST",
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({ ownerEmail }),
+        }),
+      ]);
+      setAlerts(alertData);
+      if (statusResponse.ok) {
+        setStatus(await statusResponse.json());
+      }
+    } catch (error) {
+      console.error("Failed to load device health:", error);
+    }
+  }, [ownerEmail]);
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const handleCheckNow = async () => {
+    setChecking(true);
+    try {
+      await fetch("/api/health-monitor/run", { method: "POST", headers: await getAuthHeaders() });
+      await load();
+    } catch (error) {
+      console.error("Failed to run health check:", error);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleAcknowledge = async (alert: DeviceAlert) => {
+    try {
+      await acknowledgeDeviceAlert(alert.id);
+      setAlerts((prev) => prev.map((a) => (a.id === alert.id ? { ...a, acknowledged: true } : a)));
+    } catch (error) {
+      console.error("Failed to acknowledge alert:", error);
+    }
+  };
+
+  const open = alerts.filter((a) => !a.resolved);
+  const recentlyResolved = alerts.filter((a) => a.resolved).slice(0, 5);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className={`p-2 rounded-lg ${open.length > 0 ? "bg-[var(--accent-red)]/15" : "bg-[var(--accent-green)]/15"}`}>
+              <HeartPulse className={`h-5 w-5 ${open.length > 0 ? "text-[var(--accent-red)]" : "text-[var(--accent-green)]"}`} />
+            </div>
+            <div>
+              <CardTitle>Device Health</CardTitle>
+              <CardDescription>
+                {!status?.running
+                  ? "Background monitor is not running"
+                  : status.lastSweep
+                    ? `${status.lastSweep.online}/${status.lastSweep.checked} online · checked ${new Date(status.lastSweep.finishedAt).toLocaleTimeString()}`
+                    : "Waiting for the first check"}
+              </CardDescription>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCheckNow} isLoading={checking}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Check Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {open.length === 0 ? (
+          <p className="text-sm text-[var(--text-muted)] text-center py-4">
+            No open alerts
+          </p>
+        ) : (
+          open.map((alert) => {
+            const Icon = ALERT_ICONS[alert.type];
+            return (
+              <div
+                key={alert.id}
+                className={`flex items-center gap-3 p-3 rounded-xl border ${
+                  alert.acknowledged
+                    ? "border-[var(--border-color)]"
+                    : "border-[var(--accent-red)]/50 bg-[var(--accent-red)]/5"
+                }`}
+              >
+                <Icon className="h-4 w-4 text-[var(--accent-red)] shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-[var(--text-primary)] truncate">{alert.message}</p>
+                  <p className="text-xs text-[var(--text-muted)]">Since {formatDate(alert.createdAt)}</p>
+                </div>
+                <Badge variant={alert.type === "over_temperature" ? "warning" : "destructive"}>
+                  {ALERT_LABELS[alert.type]}
+                </Badge>
+                {!alert.acknowledged && (
+                  <Button size="sm" variant="ghost" onClick={() => handleAcknowledge(alert)} title="Acknowledge">
+                    <Check className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        {recentlyResolved.length > 0 && (
+          <div className="space-y-1 pt-2 border-t border-[var(--border-color)]">
+            <p className="text-xs font-medium text-[var(--text-muted)]">Recently resolved</p>
+            {recentlyResolved.map((alert) => (
+              <p key={alert.id} className="text-xs text-[var(--text-secondary)] truncate">
+                {ALERT_LABELS[alert.type]} · {alert.deviceName} · {formatDate(alert.resolvedAt ?? alert.createdAt)}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
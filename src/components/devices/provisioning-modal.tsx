@@ -0,0 +1,279 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogBody,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Camera, RotateCcw, Trash2, GitCompare } from "lucide-react";
+import { getProvisioningSnapshots } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import { diffSnapshots } from "@/lib/algo/provisioning";
+import { formatDate } from "@/lib/utils";
+import type { AlgoDevice, ProvisioningSnapshot } from "@/lib/algo/types";
+
+interface ProvisioningModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  device: AlgoDevice | null;
+  devices: AlgoDevice[];
+  userEmail?: string;
+}
+
+export function ProvisioningModal({
+  open,
+  onOpenChange,
+  device,
+  devices,
+  userEmail,
+}: ProvisioningModalProps) {
+  const [snapshots, setSnapshots] = useState<ProvisioningSnapshot[]>([]);
+  const [label, setLabel] = useState("");
+  const [capturing, setCapturing] = useState(false);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [targetId, setTargetId] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    if (!device) return;
+    try {
+      setSnapshots(await getProvisioningSnapshots(device.id));
+    } catch (error) {
+      console.error("Failed to load snapshots:", error);
+    }
+  }, [device]);
+
+  useEffect(() => {
+    if (open && device) {
+      setLabel("");
+      setCompareIds([]);
+      setTargetId(device.id);
+      setMessage(null);
+      loadSnapshots();
+    }
+  }, [open, device, loadSnapshots]);
+
+  if (!device) return null;
+
+  // Replacement units are the same model; the original device is the default
+  const restoreTargets = devices.filter((d) => d.type === device.type);
+
+  const postJson = async (url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: await getAuthHeaders(),
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+    return data;
+  };
+
+  const handleCapture = async () => {
+    setCapturing(true);
+    setMessage(null);
+    try {
+      const data = await postJson("/api/provisioning/snapshots", {
+        deviceId: device.id,
+        label: label.trim() || undefined,
+        createdBy: userEmail,
+      });
+      setMessage(`Saved snapshot v${data.snapshot.version}`);
+      setLabel("");
+      await loadSnapshots();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to capture snapshot");
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: ProvisioningSnapshot) => {
+    const target = devices.find((d) => d.id === targetId);
+    if (!target) return;
+    if (!confirm(`Write snapshot v${snapshot.version} to ${target.name} (${target.ipAddress})? The device will reload.`)) {
+      return;
+    }
+
+    setRestoring(snapshot.id);
+    setMessage(null);
+    try {
+      const data = await postJson("/api/provisioning/restore", {
+        snapshotId: snapshot.id,
+        deviceId: target.id,
+      });
+      setMessage(data.message);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to restore snapshot");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const handleDelete = async (snapshot: ProvisioningSnapshot) => {
+    if (!confirm(`Delete snapshot v${snapshot.version}?`)) return;
+    try {
+      await postJson("/api/provisioning/snapshots/delete", { snapshotId: snapshot.id });
+      setCompareIds((prev) => prev.filter((id) => id !== snapshot.id));
+      await loadSnapshots();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Failed to delete snapshot");
+    }
+  };
+
+  const toggleCompare = (snapshotId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(snapshotId)
+        ? prev.filter((id) => id !== snapshotId)
+        : [...prev, snapshotId].slice(-2)
+    );
+  };
+
+  // Older snapshot on the left
+  const compared = snapshots
+    .filter((s) => compareIds.includes(s.id))
+    .sort((a, b) => a.version - b.version);
+  const diff = compared.length === 2 ? diffSnapshots(compared[0], compared[1]) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader onClose={() => onOpenChange(false)}>
+          <DialogTitle>Snapshots - {device.name}</DialogTitle>
+          <DialogDescription>
+            Save this device&apos;s configuration and put it back after a hardware swap
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {/* Capture */}
+            <div className="flex gap-2">
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label (optional), e.g. before firmware update"
+              />
+              <Button onClick={handleCapture} isLoading={capturing}>
+                <Camera className="mr-2 h-4 w-4" />
+                Snapshot
+              </Button>
+            </div>
+
+            {/* Restore target */}
+            <div className="space-y-2">
+              <Label htmlFor="restore-target">Restore to</Label>
+              <Select
+                id="restore-target"
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+              >
+                {restoreTargets.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.name} ({d.ipAddress}){d.id === device.id ? " - this device" : ""}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            {/* Snapshot list */}
+            <div className="space-y-2 max-h-[280px] overflow-y-auto">
+              {snapshots.length === 0 ? (
+                <p className="py-6 text-center text-sm text-[var(--text-muted)]">No snapshots yet</p>
+              ) : (
+                snapshots.map((snapshot) => (
+                  <div
+                    key={snapshot.id}
+                    className={`flex items-center gap-3 p-3 rounded-xl border ${
+                      compareIds.includes(snapshot.id)
+                        ? "border-[var(--accent-blue)] bg-[var(--accent-blue)]/10"
+                        : "border-[var(--border-color)]"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(snapshot.id)}
+                      onChange={() => toggleCompare(snapshot.id)}
+                      title="Compare"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-[var(--text-primary)] truncate">
+                        v{snapshot.version}{snapshot.label ? ` - ${snapshot.label}` : ""}
+                      </p>
+                      <p className="text-xs text-[var(--text-muted)]">
+                        {formatDate(snapshot.createdAt)} · {Object.keys(snapshot.settings).length + snapshot.secretKeys.length} settings
+                        {snapshot.firmwareVersion ? ` · fw ${snapshot.firmwareVersion}` : ""}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestore(snapshot)}
+                      isLoading={restoring === snapshot.id}
+                      disabled={!targetId}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(snapshot)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Diff */}
+            {diff && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <GitCompare className="h-4 w-4" />
+                  v{compared[0].version} → v{compared[1].version}
+                </Label>
+                {diff.length === 0 ? (
+                  <p className="text-sm text-[var(--text-muted)]">No differences</p>
+                ) : (
+                  <div className="space-y-1 max-h-[200px] overflow-y-auto text-xs font-mono">
+                    {diff.map((entry) => (
+                      <div key={entry.key} className="flex items-center gap-2">
+                        <Badge variant={entry.change === "changed" ? "warning" : entry.change === "added" ? "success" : "destructive"}>
+                          {entry.change}
+                        </Badge>
+                        <span className="text-[var(--text-primary)]">{entry.key}</span>
+                        <span className="text-[var(--text-muted)] truncate">
+                          {entry.before ?? ""}{entry.change === "changed" ? " → " : ""}{entry.after ?? ""}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {message && (
+              <p className="text-sm text-[var(--text-secondary)]">{message}</p>
+            )}
+          </div>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
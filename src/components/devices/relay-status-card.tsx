@@ -0,0 +1,121 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ToggleRight } from "lucide-react";
+import { getDoorAuditLog } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import { DOOR_ACTION_LABELS } from "@/lib/algo/door-actions";
+import { formatDate } from "@/lib/utils";
+import type { DoorAuditEntry, RelayInputReading, RelayInputState } from "@/lib/algo/types";
+
+interface RelayStatusCardProps {
+  ownerEmail: string;
+}
+
+const STATE_BADGES: Record<RelayInputState, { label: string; variant: "warning" | "secondary" | "outline" }> = {
+  active: { label: "Active", variant: "warning" },
+  idle: { label: "Idle", variant: "secondary" },
+  unknown: { label: "Unknown", variant: "outline" },
+};
+
+// Relay inputs are read live from the devices; re-read them this often
+const REFRESH_MS = 10_000;
+
+export function RelayStatusCard({ ownerEmail }: RelayStatusCardProps) {
+  const [readings, setReadings] = useState<RelayInputReading[]>([]);
+  const [doorEvents, setDoorEvents] = useState<DoorAuditEntry[]>([]);
+  const [readAt, setReadAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [relayResponse, auditData] = await Promise.all([
+          fetch("/api/algo/relay", {
+            method: "POST",
+            headers: await getAuthHeaders(),
+            body: JSON.stringify({ ownerEmail }),
+          }),
+          getDoorAuditLog(ownerEmail, 3),
+        ]);
+        const data = relayResponse.ok ? await relayResponse.json() : null;
+        if (cancelled) return;
+
+        setDoorEvents(auditData);
+        if (data) {
+          setReadings(data.readings);
+          setReadAt(data.readAt);
+        }
+      } catch (error) {
+        console.error("Failed to load relay status:", error);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [ownerEmail]);
+
+  const activeCount = readings.filter((r) => r.state === "active").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className={`p-2 rounded-lg ${activeCount > 0 ? "bg-[var(--accent-orange)]/15" : "bg-[var(--accent-blue)]/15"}`}>
+              <ToggleRight className={`h-5 w-5 ${activeCount > 0 ? "text-[var(--accent-orange)]" : "text-[var(--accent-blue)]"}`} />
+            </div>
+            <div>
+              <CardTitle>Relays & Doors</CardTitle>
+              <CardDescription>
+                {readAt ? `${activeCount} relay input(s) active · read ${new Date(readAt).toLocaleTimeString()}` : "Reading relay inputs..."}
+              </CardDescription>
+            </div>
+          </div>
+          <Link href="/doors" className="text-sm text-[var(--accent-blue)] hover:underline">
+            Door rules
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {readings.length === 0 ? (
+          <p className="text-sm text-[var(--text-muted)] text-center py-4">
+            No devices with a relay input
+          </p>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {readings.map((reading) => (
+              <div
+                key={reading.deviceId}
+                className="flex items-center justify-between p-3 rounded-xl border border-[var(--border-color)]"
+                title={reading.error}
+              >
+                <span className="text-sm font-medium text-[var(--text-primary)] truncate">{reading.deviceName}</span>
+                <Badge variant={STATE_BADGES[reading.state].variant}>{STATE_BADGES[reading.state].label}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {doorEvents.length > 0 && (
+          <div className="space-y-1 pt-2 border-t border-[var(--border-color)]">
+            <p className="text-xs font-medium text-[var(--text-muted)]">Recent door actions</p>
+            {doorEvents.map((entry) => (
+              <p key={entry.id} className="text-xs text-[var(--text-secondary)] truncate">
+                {entry.success ? "" : "⚠️ "}{DOOR_ACTION_LABELS[entry.action]} · {entry.ruleName} · {formatDate(entry.createdAt)}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,6 +15,10 @@ import {
   Network,
   Lightbulb,
   FileAudio,
+  Cpu,
+  DoorOpen,
+  PhoneCall,
+  Megaphone,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState, useMemo } from "react";
@@ -38,7 +42,11 @@ const baseNavItems: NavItem[] = [
   { title: "Multi-Input Routing", href: "/input-routing", icon: Network, section: "Audio" },
   { title: "Output & Speakers", href: "/devices", icon: Speaker, section: "Audio" },
   { title: "PoE Devices", href: "/poe-devices", icon: Lightbulb, section: "Audio" },
+  { title: "Doors & Relays", href: "/doors", icon: DoorOpen, section: "Audio" },
+  { title: "SIP Calls", href: "/sip", icon: PhoneCall, section: "Audio" },
+  { title: "Announcements", href: "/announcements", icon: Megaphone, section: "Audio" },
   { title: "Activity Log", href: "/activity", icon: Activity, section: "System" },
+  { title: "Firmware", href: "/firmware", icon: Cpu, section: "System" },
   { title: "Settings", href: "/settings", icon: Settings, section: "System" },
   { title: "Recordings", href: "/recordings", icon: FileAudio, section: "Admin", adminOnly: true },
 ];
@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Clock, Plus, Trash2, CheckCircle2 } from "lucide-react";
+import { useSettings } from "@/contexts/settings-context";
+import { getStationPeriod } from "@/lib/settings";
+import { WEEKDAY_LABELS, getStationClock, isValidTimeZone } from "@/lib/algo/station-time";
+import {
+  formatHour,
+  isOverrideActive,
+  newScheduleException,
+  validateSchedule,
+  type DayHours,
+  type ScheduleException,
+  type ScheduleOverrideMode,
+  type StationSchedule,
+} from "@/lib/algo/schedule";
+
+const HALF_HOURS = Array.from({ length: 48 }, (_, i) => i * 0.5);
+
+// Hours an override lasts before it lapses by itself (0 = until cleared)
+const OVERRIDE_DURATIONS = [0, 1, 2, 4, 8, 12, 24];
+
+function HoursSelect({ id, hours, onChange }: { id: string; hours: DayHours; onChange: (hours: DayHours) => void }) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <Select
+        id={`${id}-start`}
+        value={hours.dayStartHour}
+        onChange={(e) => onChange({ ...hours, dayStartHour: parseFloat(e.target.value) })}
+      >
+        {HALF_HOURS.map((hour) => (
+          <option key={hour} value={hour}>Day from {formatHour(hour)}</option>
+        ))}
+      </Select>
+      <Select
+        id={`${id}-end`}
+        value={hours.dayEndHour}
+        onChange={(e) => onChange({ ...hours, dayEndHour: parseFloat(e.target.value) })}
+      >
+        {HALF_HOURS.map((hour) => (
+          <option key={hour} value={hour}>Night from {formatHour(hour)}</option>
+        ))}
+      </Select>
+    </div>
+  );
+}
+
+export function StationScheduleCard() {
+  const { settings, loading, saveSettings } = useSettings();
+
+  // Unsaved edits over the owner's settings
+  const [timezoneDraft, setTimezoneDraft] = useState<string | null>(null);
+  const [scheduleDraft, setScheduleDraft] = useState<StationSchedule | null>(null);
+  const [overrideMode, setOverrideMode] = useState<ScheduleOverrideMode>("day");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [overrideHours, setOverrideHours] = useState(4);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const timezone = timezoneDraft ?? settings.timezone;
+  const schedule = scheduleDraft ?? settings.schedule;
+  const timezoneValid = isValidTimeZone(timezone);
+  const errors = [...(timezoneValid ? [] : [`Unknown timezone "${timezone}"`]), ...validateSchedule(schedule)];
+
+  const updateSchedule = (changes: Partial<StationSchedule>) => {
+    setScheduleDraft({ ...schedule, ...changes });
+  };
+
+  const updateException = (id: string, changes: Partial<ScheduleException>) => {
+    updateSchedule({ exceptions: schedule.exceptions.map((e) => (e.id === id ? { ...e, ...changes } : e)) });
+  };
+
+  const toggleWeekendDay = (day: number) => {
+    const weekendDays = schedule.weekendDays.includes(day)
+      ? schedule.weekendDays.filter((d) => d !== day)
+      : [...schedule.weekendDays, day].sort();
+    updateSchedule({ weekendDays });
+  };
+
+  const addException = () => {
+    const today = timezoneValid ? getStationClock(new Date(), timezone).date : new Date().toISOString().slice(0, 10);
+    updateSchedule({ exceptions: [...schedule.exceptions, newScheduleException(today, schedule.weekend)] });
+  };
+
+  const save = async (changes: { timezone: string; schedule: StationSchedule }, success: string) => {
+    try {
+      await saveSettings(changes);
+      setTimezoneDraft(null);
+      setScheduleDraft(null);
+      setMessage(success);
+    } catch (error) {
+      setMessage(`Error: ${error instanceof Error ? error.message : "Failed to save schedule"}`);
+    }
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  // Overrides take effect at once, so they save straight away (with any other edits)
+  const declareOverride = () => {
+    const now = new Date();
+    const override = {
+      mode: overrideMode,
+      reason: overrideReason.trim(),
+      startedAt: now.toISOString(),
+      until: overrideHours > 0 ? new Date(now.getTime() + overrideHours * 3600000).toISOString() : null,
+    };
+    save({ timezone, schedule: { ...schedule, override } }, `${overrideMode === "day" ? "Day" : "Night"} override declared`);
+    setOverrideReason("");
+  };
+
+  const clearOverride = () => {
+    save({ timezone, schedule: { ...schedule, override: null } }, "Override cleared - back to the schedule");
+  };
+
+  const period = getStationPeriod();
+  const override = settings.schedule.override;
+  const overrideActive = isOverrideActive(override, new Date());
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-[var(--accent-purple)]/15">
+            <Clock className="h-5 w-5 text-[var(--accent-purple)]" />
+          </div>
+          <div>
+            <CardTitle>Day / Night Schedule</CardTitle>
+            <CardDescription>
+              When quiet hours apply: night volume profiles, night ramping and day/night speaker mode
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-[var(--text-secondary)]">Now at the station:</span>
+          <Badge variant={period.night ? "secondary" : "success"}>{period.label}</Badge>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="station-timezone">Station timezone</Label>
+          <Input
+            id="station-timezone"
+            value={timezone}
+            onChange={(e) => setTimezoneDraft(e.target.value)}
+            placeholder="America/Los_Angeles"
+          />
+          <p className="text-xs text-[var(--text-muted)]">
+            IANA name, e.g. America/Denver. Used for these hours and scheduled calls.
+          </p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-weekday-start">Weekdays</Label>
+            <HoursSelect id="schedule-weekday" hours={schedule.weekday} onChange={(weekday) => updateSchedule({ weekday })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="schedule-weekend-start">Weekends</Label>
+            <HoursSelect id="schedule-weekend" hours={schedule.weekend} onChange={(weekend) => updateSchedule({ weekend })} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Weekend days</Label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <Button
+                key={label}
+                size="sm"
+                variant={schedule.weekendDays.includes(day) ? "default" : "outline"}
+                onClick={() => toggleWeekendDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Holidays and exceptions</Label>
+            <Button variant="outline" size="sm" onClick={addException}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Date
+            </Button>
+          </div>
+          {schedule.exceptions.length === 0 ? (
+            <p className="text-sm text-[var(--text-muted)]">No exceptions - every date follows its weekday or weekend hours</p>
+          ) : (
+            schedule.exceptions.map((exception) => (
+              <div key={exception.id} className="grid grid-cols-1 md:grid-cols-[150px_1fr_2fr_36px] gap-2 items-center">
+                <Input
+                  type="date"
+                  value={exception.date}
+                  onChange={(e) => updateException(exception.id, { date: e.target.value })}
+                />
+                <Input
+                  value={exception.name}
+                  onChange={(e) => updateException(exception.id, { name: e.target.value })}
+                  placeholder="Thanksgiving"
+                />
+                <HoursSelect
+                  id={`exception-${exception.id}`}
+                  hours={exception.hours}
+                  onChange={(hours) => updateException(exception.id, { hours })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateSchedule({ exceptions: schedule.exceptions.filter((e) => e.id !== exception.id) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+          <p className="text-xs text-[var(--text-muted)]">
+            Day from and night from at the same time keeps the whole date at night.
+          </p>
+        </div>
+
+        <div className="space-y-2 pt-4 border-t border-[var(--border-color)]">
+          <Label>Override</Label>
+          {overrideActive ? (
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <Badge variant="warning">{override.mode === "day" ? "Quiet hours off" : "Quiet hours on"}</Badge>
+              <span className="text-[var(--text-secondary)]">
+                {override.reason || "No reason given"} - {override.until ? `until ${new Date(override.until).toLocaleString()}` : "until cleared"}
+              </span>
+              <Button size="sm" variant="outline" onClick={clearOverride} disabled={loading}>
+                Clear Override
+              </Button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-[180px_1fr_150px_auto] gap-2 items-center">
+              <Select value={overrideMode} onChange={(e) => setOverrideMode(e.target.value as ScheduleOverrideMode)}>
+                <option value="day">Quiet hours off (day)</option>
+                <option value="night">Quiet hours on (night)</option>
+              </Select>
+              <Input
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                placeholder="Reason, e.g. Structure fire - all hands"
+              />
+              <Select value={overrideHours} onChange={(e) => setOverrideHours(parseInt(e.target.value))}>
+                {OVERRIDE_DURATIONS.map((hours) => (
+                  <option key={hours} value={hours}>{hours === 0 ? "Until cleared" : `For ${hours} h`}</option>
+                ))}
+              </Select>
+              <Button size="sm" onClick={declareOverride} disabled={loading || errors.length > 0}>
+                Declare
+              </Button>
+            </div>
+          )}
+          <p className="text-xs text-[var(--text-muted)]">
+            An override beats the hours and exceptions above from the next call. Other open screens pick it up when they reload.
+          </p>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="space-y-1">
+            {errors.map((error) => (
+              <div key={error} className="flex items-center gap-2 text-xs">
+                <Badge variant="destructive">error</Badge>
+                <span className="text-[var(--text-secondary)]">{error}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button
+            onClick={() => save({ timezone, schedule }, "Schedule saved! Used from the next call.")}
+            disabled={loading || errors.length > 0}
+          >
+            Save Schedule
+          </Button>
+          {message && (
+            <div className={`flex items-center gap-2 text-sm ${message.startsWith("Error") ? "text-[var(--accent-red)]" : "text-[var(--accent-green)]"}`}>
+              <CheckCircle2 className="h-4 w-4" />
+              <span>{message}</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Radio, Plus, Trash2, Save, Upload, AlertTriangle, CheckCircle } from "lucide-react";
+import { getMulticastPlan, getMulticastPlans, setMulticastPlan } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import { suggestAssignment, validateMulticastPlan } from "@/lib/algo/multicast-plan";
+import type { MulticastPlan, Zone, ZoneMulticastAssignment } from "@/lib/algo/types";
+
+interface MulticastPlanCardProps {
+  zones: Zone[];
+  ownerEmail: string;
+}
+
+export function MulticastPlanCard({ zones, ownerEmail }: MulticastPlanCardProps) {
+  const [assignments, setAssignments] = useState<ZoneMulticastAssignment[]>([]);
+  const [stationName, setStationName] = useState("");
+  const [otherPlans, setOtherPlans] = useState<MulticastPlan[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [plan, allPlans] = await Promise.all([getMulticastPlan(ownerEmail), getMulticastPlans()]);
+        setAssignments(plan?.assignments ?? []);
+        setStationName(plan?.stationName ?? "");
+        setOtherPlans(allPlans.filter((p) => p.ownerEmail !== ownerEmail));
+      } catch (error) {
+        console.error("Failed to load multicast plan:", error);
+      }
+    };
+    load();
+  }, [ownerEmail]);
+
+  const plan: MulticastPlan = useMemo(
+    () => ({ id: ownerEmail, ownerEmail, stationName: stationName || undefined, assignments }),
+    [ownerEmail, stationName, assignments]
+  );
+
+  const issues = useMemo(() => validateMulticastPlan(plan, otherPlans, zones), [plan, otherPlans, zones]);
+  const hasErrors = issues.some((issue) => issue.severity === "error");
+  const unplannedZones = zones.filter((zone) => !assignments.some((a) => a.zoneId === zone.id));
+
+  const addZone = (zoneId: string) => {
+    setAssignments((prev) => [...prev, suggestAssignment({ ...plan, assignments: prev }, zoneId, otherPlans)]);
+    setStatus(null);
+  };
+
+  const updateAssignment = (zoneId: string, changes: Partial<ZoneMulticastAssignment>) => {
+    setAssignments((prev) => prev.map((a) => (a.zoneId === zoneId ? { ...a, ...changes } : a)));
+    setStatus(null);
+  };
+
+  const removeAssignment = (zoneId: string) => {
+    setAssignments((prev) => prev.filter((a) => a.zoneId !== zoneId));
+    setStatus(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Re-check against the latest plans from other stations before saving
+      const latest = (await getMulticastPlans()).filter((p) => p.ownerEmail !== ownerEmail);
+      setOtherPlans(latest);
+      if (validateMulticastPlan(plan, latest, zones).some((issue) => issue.severity === "error")) {
+        setStatus("Not saved - fix the errors below first");
+        return;
+      }
+
+      await setMulticastPlan({
+        ownerEmail,
+        ...(stationName ? { stationName } : {}),
+        assignments,
+      });
+      setStatus("Plan saved - apply it to push the settings to your devices");
+    } catch (error) {
+      console.error("Failed to save multicast plan:", error);
+      setStatus(error instanceof Error ? error.message : "Failed to save plan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      const response = await fetch("/api/multicast/apply", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ownerEmail }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStatus(data.error || `HTTP ${response.status}`);
+        return;
+      }
+
+      const results = data.results as Array<{ deviceName: string; success: boolean; error?: string }>;
+      const failed = results.filter((r) => !r.success);
+      setStatus(
+        failed.length === 0
+          ? `Applied to ${results.length} device(s)`
+          : `Applied to ${results.length - failed.length}/${results.length} device(s) - failed: ${failed.map((r) => `${r.deviceName} (${r.error})`).join(", ")}`
+      );
+    } catch (error) {
+      console.error("Failed to apply multicast plan:", error);
+      setStatus(error instanceof Error ? error.message : "Failed to apply plan");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const zoneFor = (zoneId: string) => zones.find((z) => z.id === zoneId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+              <Radio className="h-5 w-5 text-[var(--accent-blue)]" />
+            </div>
+            <div>
+              <CardTitle>Multicast Plan</CardTitle>
+              <CardDescription>Multicast zone and group per station zone</CardDescription>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleSave} disabled={saving || hasErrors}>
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? "Saving..." : "Save"}
+            </Button>
+            <Button size="sm" onClick={handleApply} disabled={applying || hasErrors || assignments.length === 0}>
+              <Upload className="mr-2 h-4 w-4" />
+              {applying ? "Applying..." : "Apply to Devices"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          value={stationName}
+          onChange={(e) => setStationName(e.target.value)}
+          placeholder="Station name (shown to other stations on overlap)"
+        />
+
+        {assignments.length === 0 ? (
+          <p className="text-sm text-[var(--text-muted)] text-center py-4">
+            No zones planned - every speaker uses the legacy zone 1 group (224.0.2.60:50002)
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_80px_140px_90px_90px_36px] gap-2 px-1 text-xs text-[var(--text-muted)]">
+              <span>Zone</span>
+              <span>Mcast #</span>
+              <span>Group address</span>
+              <span>Active port</span>
+              <span>Idle port</span>
+              <span />
+            </div>
+            {assignments.map((assignment) => {
+              const zone = zoneFor(assignment.zoneId);
+              return (
+                <div
+                  key={assignment.zoneId}
+                  className="grid grid-cols-[1fr_80px_140px_90px_90px_36px] gap-2 items-center"
+                >
+                  <span className="text-sm font-medium truncate" style={{ color: zone?.color }}>
+                    {zone?.name ?? "Deleted zone"}
+                  </span>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={assignment.zoneNumber}
+                    onChange={(e) => updateAssignment(assignment.zoneId, { zoneNumber: Number(e.target.value) })}
+                  />
+                  <Input
+                    value={assignment.address}
+                    onChange={(e) => updateAssignment(assignment.zoneId, { address: e.target.value.trim() })}
+                  />
+                  <Input
+                    type="number"
+                    value={assignment.port}
+                    onChange={(e) => updateAssignment(assignment.zoneId, { port: Number(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    value={assignment.idlePort}
+                    onChange={(e) => updateAssignment(assignment.zoneId, { idlePort: Number(e.target.value) })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removeAssignment(assignment.zoneId)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {unplannedZones.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {unplannedZones.map((zone) => (
+              <Button key={zone.id} variant="outline" size="sm" onClick={() => addZone(zone.id)}>
+                <Plus className="mr-1 h-3 w-3" />
+                {zone.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {issues.length > 0 ? (
+          <div className="space-y-1">
+            {issues.map((issue, index) => (
+              <div key={index} className="flex items-start gap-2 text-xs">
+                <Badge variant={issue.severity === "error" ? "destructive" : "warning"}>
+                  {issue.severity}
+                </Badge>
+                <span className="text-[var(--text-secondary)]">{issue.message}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          assignments.length > 0 && (
+            <div className="flex items-center gap-2 text-xs text-[var(--accent-green)]">
+              <CheckCircle className="h-4 w-4" />
+              No overlapping groups
+            </div>
+          )
+        )}
+
+        {status && (
+          <div className="flex items-start gap-2 text-xs text-[var(--text-secondary)]">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {status}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Volume2, Plus, Trash2, Save, AlertTriangle } from "lucide-react";
+import { getVolumeProfilePlan, setVolumeProfilePlan } from "@/lib/firebase/firestore";
+import {
+  VOLUME_PROFILE_CHANNEL_LABELS,
+  newZoneVolumeProfile,
+  validateVolumeProfiles,
+} from "@/lib/algo/volume-profiles";
+import type { VolumeProfileChannel, Zone, ZoneVolumeProfile } from "@/lib/algo/types";
+
+const PROFILE_VOLUME_OPTIONS = [100, 90, 80, 70, 60, 50, 40, 30, 20, 10, 0];
+
+interface VolumeProfilesCardProps {
+  zones: Zone[];
+  ownerEmail: string;
+}
+
+export function VolumeProfilesCard({ zones, ownerEmail }: VolumeProfilesCardProps) {
+  const [profiles, setProfiles] = useState<ZoneVolumeProfile[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const plan = await getVolumeProfilePlan(ownerEmail);
+        setProfiles(plan?.profiles ?? []);
+      } catch (error) {
+        console.error("Failed to load volume profiles:", error);
+      }
+    };
+    load();
+  }, [ownerEmail]);
+
+  const errors = useMemo(() => validateVolumeProfiles(profiles, zones), [profiles, zones]);
+
+  const addProfile = () => {
+    if (zones.length === 0) return;
+    setProfiles((prev) => [...prev, newZoneVolumeProfile(zones[0].id)]);
+    setStatus(null);
+  };
+
+  const updateProfile = (id: string, changes: Partial<ZoneVolumeProfile>) => {
+    setProfiles((prev) => prev.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+    setStatus(null);
+  };
+
+  const removeProfile = (id: string) => {
+    setProfiles((prev) => prev.filter((p) => p.id !== id));
+    setStatus(null);
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) return;
+    setSaving(true);
+    try {
+      await setVolumeProfilePlan({ ownerEmail, profiles });
+      setStatus("Profiles saved - used the next time monitoring starts");
+    } catch (error) {
+      console.error("Failed to save volume profiles:", error);
+      setStatus(error instanceof Error ? error.message : "Failed to save profiles");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const volumeOptions = (value: number) => (
+    <>
+      {!PROFILE_VOLUME_OPTIONS.includes(value) && <option value={value}>{value}%</option>}
+      {PROFILE_VOLUME_OPTIONS.map((volume) => (
+        <option key={volume} value={volume}>{volume === 0 ? "Muted (idle volume)" : `${volume}%`}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-[var(--accent-purple)]/15">
+              <Volume2 className="h-5 w-5 text-[var(--accent-purple)]" />
+            </div>
+            <div>
+              <CardTitle>Volume Profiles</CardTitle>
+              <CardDescription>Day and night paging volume per zone and call type</CardDescription>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={addProfile}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Profile
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || errors.length > 0}>
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {profiles.length === 0 ? (
+          <p className="text-sm text-[var(--text-muted)] text-center py-4">
+            No profiles - every speaker pages at its operating volume
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[44px_1fr_1fr_110px_110px_36px] gap-2 px-1 text-xs text-[var(--text-muted)]">
+              <span />
+              <span>Zone</span>
+              <span>Call type</span>
+              <span>Day</span>
+              <span>Night</span>
+              <span />
+            </div>
+            {profiles.map((profile) => (
+              <div key={profile.id} className="grid grid-cols-[44px_1fr_1fr_110px_110px_36px] gap-2 items-center">
+                <Switch checked={profile.enabled} onCheckedChange={(enabled) => updateProfile(profile.id, { enabled })} />
+                <Select value={profile.zoneId} onChange={(e) => updateProfile(profile.id, { zoneId: e.target.value })}>
+                  {!zones.some((z) => z.id === profile.zoneId) && <option value={profile.zoneId}>Deleted zone</option>}
+                  {zones.map((zone) => (
+                    <option key={zone.id} value={zone.id}>{zone.name}</option>
+                  ))}
+                </Select>
+                <Select
+                  value={profile.channel}
+                  onChange={(e) => updateProfile(profile.id, { channel: e.target.value as VolumeProfileChannel })}
+                >
+                  {(Object.keys(VOLUME_PROFILE_CHANNEL_LABELS) as VolumeProfileChannel[]).map((channel) => (
+                    <option key={channel} value={channel}>{VOLUME_PROFILE_CHANNEL_LABELS[channel]}</option>
+                  ))}
+                </Select>
+                <Select
+                  value={profile.dayVolume}
+                  onChange={(e) => updateProfile(profile.id, { dayVolume: Number(e.target.value) })}
+                >
+                  {volumeOptions(profile.dayVolume)}
+                </Select>
+                <Select
+                  value={profile.nightVolume}
+                  onChange={(e) => updateProfile(profile.id, { nightVolume: Number(e.target.value) })}
+                >
+                  {volumeOptions(profile.nightVolume)}
+                </Select>
+                <Button variant="ghost" size="sm" onClick={() => removeProfile(profile.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-[var(--text-muted)]">
+          Volumes are a share of each speaker&apos;s operating volume. A profile for the exact call type wins
+          over an &quot;Any call&quot; one; single-input monitoring only uses &quot;Any call&quot; profiles.
+          Day and night follow the station schedule in Settings.
+        </p>
+
+        {errors.length > 0 && (
+          <div className="space-y-1">
+            {errors.map((error) => (
+              <div key={error} className="flex items-center gap-2 text-xs">
+                <Badge variant="destructive">error</Badge>
+                <span className="text-[var(--text-secondary)]">{error}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {status && (
+          <div className="flex items-start gap-2 text-xs text-[var(--text-secondary)]">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {status}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,6 +16,9 @@ import { Label } from "@/components/ui/label";
 import { Flame, Heart, Bell } from "lucide-react";
 import type { Zone } from "@/lib/algo/types";
 
+// Zone cap on speaker operating volume - 100% leaves each speaker's own
+const ZONE_VOLUME_OPTIONS = [100, 90, 80, 70, 60, 50, 40, 30, 20, 10];
+
 interface ZoneModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -53,6 +56,7 @@ export function ZoneModal({
 }: ZoneModalProps) {
   const [name, setName] = useState("");
   const [color, setColor] = useState(colorOptions[0].value);
+  const [defaultVolume, setDefaultVolume] = useState(100);
   const [fire, setFire] = useState(true);
   const [medical, setMedical] = useState(true);
   const [allCall, setAllCall] = useState(true);
@@ -68,12 +72,14 @@ export function ZoneModal({
       if (zone) {
         setName(zone.name);
         setColor(zone.color);
+        setDefaultVolume(zone.defaultVolume ?? 100);
         setFire(routing.fire);
         setMedical(routing.medical);
         setAllCall(routing.allCall);
       } else {
         setName("");
         setColor(colorOptions[0].value);
+        setDefaultVolume(100);
         setFire(true);
         setMedical(true);
         setAllCall(true);
@@ -98,6 +104,7 @@ export function ZoneModal({
           id: zone?.id,
           name: name.trim(),
           color,
+          defaultVolume,
           deviceIds: zone?.deviceIds || [],
           ownerEmail,
         },
@@ -176,7 +183,28 @@ export function ZoneModal({
                 </div>
               </div>
 
-              {/* Alert Routing */}
+              {/* Speaker Volume */}
+              <div className="space-y-2">
+                <Label htmlFor="zone-volume">Speaker Volume</Label>
+                <select
+                  id="zone-volume"
+                  value={defaultVolume}
+                  onChange={(e) => setDefaultVolume(parseInt(e.target.value))}
+                  disabled={saving || deleting}
+                  className="w-full px-3 py-2 rounded-md border border-[var(--border-color)] bg-[var(--bg-secondary)] text-[var(--text-primary)]"
+                >
+                  {ZONE_VOLUME_OPTIONS.map((volume) => (
+                    <option key={volume} value={volume}>
+                      {volume === 100 ? "100% (each speaker's own operating volume)" : `Up to ${volume}%`}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-[var(--text-muted)]">
+                  Speakers in this zone never page louder than this, whatever their own operating volume
+                </p>
+              </div>
+
+                            {/* Alert Routing */}
               <div className="space-y-2">
                 <Label>Receives Alerts</Label>
                 <div className="space-y-3">
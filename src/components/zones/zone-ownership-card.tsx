@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert } from "lucide-react";
+import {
+  PAGING_SOURCES,
+  PAGING_SOURCE_LABELS,
+  getZoneOwners,
+  type PagingClaim,
+  type PagingSource,
+} from "@/lib/algo/paging-priority";
+import type { Zone } from "@/lib/algo/types";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+
+interface ZoneOwnershipCardProps {
+  zones: Zone[];
+  ownerEmail: string;
+}
+
+const SOURCE_BADGES: Record<PagingSource, "destructive" | "warning" | "default" | "success" | "secondary"> = {
+  fire: "destructive",
+  medical: "warning",
+  allCall: "default",
+  scheduled: "success",
+  manualTest: "secondary",
+};
+
+// Claims change with every call; re-read them this often
+const REFRESH_MS = 3000;
+
+export function ZoneOwnershipCard({ zones, ownerEmail }: ZoneOwnershipCardProps) {
+  const [claims, setClaims] = useState<PagingClaim[]>([]);
+  const [readAt, setReadAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch("/api/paging/status", {
+          method: "POST",
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({ ownerEmail }),
+        });
+        const data = response.ok ? await response.json() : null;
+        if (cancelled || !data) return;
+
+        setClaims(data.claims);
+        setReadAt(data.readAt);
+      } catch (error) {
+        console.error("Failed to load paging status:", error);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [ownerEmail]);
+
+  const owners = useMemo(() => getZoneOwners(claims, zones), [claims, zones]);
+  const busyCount = Object.keys(owners).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-lg ${busyCount > 0 ? "bg-[var(--accent-orange)]/15" : "bg-[var(--accent-blue)]/15"}`}>
+            <ShieldAlert className={`h-5 w-5 ${busyCount > 0 ? "text-[var(--accent-orange)]" : "text-[var(--accent-blue)]"}`} />
+          </div>
+          <div>
+            <CardTitle>Zone Ownership</CardTitle>
+            <CardDescription>
+              {readAt ? `${busyCount} zone(s) on the air · read ${new Date(readAt).toLocaleTimeString()}` : "Reading paging status..."}
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {zones.map((zone) => {
+            const [owner, ...waiting] = owners[zone.id] ?? [];
+            return (
+              <div key={zone.id} className="flex items-center gap-3 p-3 rounded-xl border border-[var(--border-color)] text-sm">
+                <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: zone.color }} />
+                <span className="flex-1 font-medium text-[var(--text-primary)] truncate">{zone.name}</span>
+                {owner ? (
+                  <div className="flex flex-wrap items-center justify-end gap-2">
+                    <Badge variant={SOURCE_BADGES[owner.source]}>
+                      {PAGING_SOURCE_LABELS[owner.source]}: {owner.label}
+                    </Badge>
+                    {waiting.map((claim) => (
+                      <Badge key={claim.id} variant="outline" title="Shares this zone at a lower priority">
+                        {PAGING_SOURCE_LABELS[claim.source]}: {claim.label}
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-[var(--text-muted)] whitespace-nowrap">
+                      since {new Date(owner.startedAt).toLocaleTimeString()}
+                    </span>
+                  </div>
+                ) : (
+                  <span className="text-xs text-[var(--text-muted)]">Idle</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-[var(--text-muted)]">
+          Priority: {PAGING_SOURCES.map((source) => PAGING_SOURCE_LABELS[source]).join(" > ")}. A higher source stops a
+          lower one&apos;s tone on the devices they share, once its speakers are put back.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,15 +2,23 @@
 
 import { createContext, useContext, useState, useRef, useCallback, useEffect } from "react";
 import { useAudioCapture } from "@/hooks/useAudioCapture";
-import type { AlgoDevice, PoEDevice } from "@/lib/algo/types";
+import { useRelayTrigger } from "@/hooks/useRelayTrigger";
+import type { AlgoDevice, MulticastPlan, PoEDevice, ZoneVolumeProfile } from "@/lib/algo/types";
 import { storage, realtimeDb } from "@/lib/firebase/config";
 import { ref as storageRef, uploadBytes, getDownloadURL } from "firebase/storage";
 import { ref as dbRef, set, push } from "firebase/database";
 import { useAuth } from "@/contexts/auth-context";
-import { getIdleVolumeString, getAlwaysKeepPagingOn } from "@/lib/settings";
+import { getIdleVolume, getIdleVolumeString, getAlwaysKeepPagingOn, getStrobePatterns, getRelayTriggerSettings, getStationTimezone, isStationNight } from "@/lib/settings";
+import { formatStationFileTime, formatStationTimestamp, getStationClock, getTimeZoneLabel } from "@/lib/algo/station-time";
+import { resolveSpeakerVolume } from "@/lib/algo/volume";
 import { CallCoordinator, CallState } from "@/lib/call-coordinator";
-import { BatchCoordinator, type BatchCoordinatorConfig } from "@/lib/batch-coordinator";
-import { addRecording } from "@/lib/firebase/firestore";
+import { BatchCoordinator, type BatchCoordinatorConfig, type LiveCallAnswer } from "@/lib/batch-coordinator";
+import { addRecording, getVolumeProfilePlan, subscribeToMulticastPlan } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import { formatGroup, getDeviceAssignment, receiverSettings } from "@/lib/algo/multicast-plan";
+import { getCallStrobes, groupStrobesByPattern, isStrobeDevice } from "@/lib/algo/strobe";
+import { describePagingClaim, type PagingClaim } from "@/lib/algo/paging-priority";
+import { DEFAULT_RELAY_TRIGGER_SETTINGS, usesRelayTrigger, type RelayTriggerSettings } from "@/lib/algo/relay-trigger";
 
 // Debug mode - set to false for production to reduce console noise
 const DEBUG_MODE = process.env.NODE_ENV === 'development';
@@ -33,34 +41,15 @@ const debugLog = (...args: any[]) => {
   }
 };
 
-// Helper function to get current time in PST (Pacific Standard Time)
-// Returns both ISO string and formatted date for organizing logs
-const getPSTTime = () => {
+// Helper function to get current time at the station (timezone from Settings)
+// Returns both ISO string (with the real UTC offset) and formatted date for organizing logs
+const getStationTime = () => {
   const now = new Date();
-
-  // Get time in PST using Intl.DateTimeFormat
-  const pstFormatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/Los_Angeles',
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-    hour12: false,
-  });
-
-  const parts = pstFormatter.formatToParts(now);
-  const partsObj: any = {};
-  parts.forEach(part => {
-    partsObj[part.type] = part.value;
-  });
-
-  // Create ISO-like timestamp in PST
-  const timestamp = `${partsObj.year}-${partsObj.month}-${partsObj.day}T${partsObj.hour}:${partsObj.minute}:${partsObj.second}-08:00`;
+  const timeZone = getStationTimezone();
+  const timestamp = formatStationTimestamp(now, timeZone);
 
   // Format date as YYYY-MM-DD for organizing logs by day
-  const dateKey = `${partsObj.year}-${partsObj.month}-${partsObj.day}`;
+  const dateKey = getStationClock(now, timeZone).date;
 
   return { timestamp, dateKey };
 };
@@ -107,16 +96,12 @@ interface AudioMonitoringContextType {
   rampEnabled: boolean;
   rampDuration: number;
   dayNightMode: boolean;
-  dayStartHour: number;
-  dayEndHour: number;
   nightRampDuration: number;
   sustainDuration: number;
   disableDelay: number;
   setRampEnabled: (enabled: boolean) => void;
   setRampDuration: (duration: number) => void;
   setDayNightMode: (enabled: boolean) => void;
-  setDayStartHour: (hour: number) => void;
-  setDayEndHour: (hour: number) => void;
   setNightRampDuration: (duration: number) => void;
   setSustainDuration: (duration: number) => void;
   setDisableDelay: (delay: number) => void;
@@ -191,6 +176,10 @@ interface AudioMonitoringContextType {
   emulationNetworkDelay: number; // Network delay in ms (simulates slow polling)
   setEmulationNetworkDelay: (delay: number) => void;
   triggerTestCall: (durationSeconds?: number) => void;
+
+  // Spoken announcements - played into the monitored input, so they page
+  // like a live call (monitoring must be running)
+  playLiveAnnouncement: (audio: ArrayBuffer, label: string) => Promise<void>;
 }
 
 const AudioMonitoringContext = createContext<AudioMonitoringContextType | null>(null);
@@ -287,8 +276,6 @@ const STORAGE_KEYS = {
   RAMP_ENABLED: 'algo_live_ramp_enabled',
   RAMP_DURATION: 'algo_live_ramp_duration',
   DAY_NIGHT_MODE: 'algo_live_day_night_mode',
-  DAY_START_HOUR: 'algo_live_day_start_hour',
-  DAY_END_HOUR: 'algo_live_day_end_hour',
   NIGHT_RAMP_DURATION: 'algo_live_night_ramp_duration',
   SUSTAIN_DURATION: 'algo_live_sustain_duration',
   DISABLE_DELAY: 'algo_live_disable_delay',
@@ -316,6 +303,8 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
   const [selectedDevices, setSelectedDevicesState] = useState<string[]>([]);
   const [devices, setDevices] = useState<AlgoDevice[]>([]);
   const [poeDevices, setPoeDevices] = useState<PoEDevice[]>([]);
+  const [multicastPlan, setMulticastPlanState] = useState<MulticastPlan | null>(null); // null = legacy zone 1 group
+  const [volumeProfiles, setVolumeProfiles] = useState<ZoneVolumeProfile[]>([]); // Per-zone day/night volumes
   const [audioDetected, setAudioDetected] = useState(false);
   const [speakersEnabled, setSpeakersEnabled] = useState(false);
 
@@ -344,8 +333,6 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
   const [rampEnabled, setRampEnabledState] = useState(true);
   const [rampDuration, setRampDurationState] = useState(15); // 15 seconds default
   const [dayNightMode, setDayNightModeState] = useState(false);
-  const [dayStartHour, setDayStartHourState] = useState(6); // 6 AM
-  const [dayEndHour, setDayEndHourState] = useState(18); // 6 PM
   const [nightRampDuration, setNightRampDurationState] = useState(10); // 10 seconds for night
   const [sustainDuration, setSustainDurationState] = useState(50); // 50ms default for faster detection (in ms)
   const [disableDelay, setDisableDelayState] = useState(3000); // 3 seconds default (in ms)
@@ -353,6 +340,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
   // Emulation mode state
   const [emulationMode, setEmulationModeState] = useState(false);
   const [emulationNetworkDelay, setEmulationNetworkDelay] = useState(0); // Network delay in ms (0 = instant)
+
+  // Relay input trigger (re-read from settings each time monitoring starts)
+  const [relayTrigger, setRelayTrigger] = useState<RelayTriggerSettings>(DEFAULT_RELAY_TRIGGER_SETTINGS);
   const testCallTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const testCallOscillatorRef = useRef<OscillatorNode | null>(null);
   const testCallContextRef = useRef<AudioContext | null>(null);
@@ -411,13 +401,15 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     startCapture,
     stopCapture,
     setVolume: setGainVolume,
+    playIntoCallStream,
     mediaStream: monitoringStream,
+    callStream,
   } = useAudioCapture();
 
   // Helper to add log entry
   const addLog = useCallback((entry: Omit<AudioLogEntry, "timestamp">) => {
-    // Get PST timestamp
-    const { timestamp, dateKey } = getPSTTime();
+    // Get station timestamp
+    const { timestamp, dateKey } = getStationTime();
 
     const userEmail = user?.email || 'Unknown';
     const isAdmin = (user as any)?.role === 'admin';
@@ -540,20 +532,10 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
       recordedChunksRef.current = [];
 
-      // Generate PST timestamp with AM/PM format
+      // Generate station timestamp with AM/PM format
       const now = new Date();
-      const pstTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }));
-      const year = pstTime.getFullYear();
-      const month = String(pstTime.getMonth() + 1).padStart(2, '0');
-      const day = String(pstTime.getDate()).padStart(2, '0');
-      let hours = pstTime.getHours();
-      const minutes = String(pstTime.getMinutes()).padStart(2, '0');
-      const seconds = String(pstTime.getSeconds()).padStart(2, '0');
-      const ampm = hours >= 12 ? 'PM' : 'AM';
-      hours = hours % 12 || 12; // Convert to 12-hour format
-      const hoursStr = String(hours).padStart(2, '0');
-
-      recordingStartTimeRef.current = `${year}-${month}-${day}-${hoursStr}-${minutes}-${seconds}-${ampm}`;
+      const timeZone = getStationTimezone();
+      recordingStartTimeRef.current = `${getStationClock(now, timeZone).date}-${formatStationFileTime(now, timeZone)}`;
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
@@ -630,17 +612,12 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
             console.log(`[Recording] Saving ${audioBlob.size} bytes as ${fileExtension} (${actualMimeType})`);
 
-            // Generate filename with PST timestamp (already formatted: YYYY-MM-DD-HH-MM-SS-AM/PM)
+            // Generate filename with station timestamp (already formatted: YYYY-MM-DD-HH-MM-SS-AM/PM)
             const timestamp = recordingStartTimeRef.current!;
             const filename = `recording-${timestamp}.${fileExtension}`;
 
-            // Create daily folder based on PST date (format: YYYY-MM-DD-pst-recordings)
-            const now = new Date();
-            const pstTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }));
-            const year = pstTime.getFullYear();
-            const month = String(pstTime.getMonth() + 1).padStart(2, '0');
-            const day = String(pstTime.getDate()).padStart(2, '0');
-            const dailyFolder = `${year}-${month}-${day}-pst-recordings`;
+            // Create daily folder based on station date (format: YYYY-MM-DD-recordings)
+            const dailyFolder = `${getStationClock(new Date(), getStationTimezone()).date}-recordings`;
 
             const filePath = `audio-recordings/${user.uid}/${dailyFolder}/${filename}`;
 
@@ -1099,6 +1076,25 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     setGainVolume(volume);
   }, [volume, setGainVolume]);
 
+  // Follow this station's multicast plan (zone → group mapping), so a save in
+  // the planner applies to the next activation without a reload
+  useEffect(() => {
+    if (!user?.email) return;
+    return subscribeToMulticastPlan(
+      user.email,
+      setMulticastPlanState,
+      (error) => console.error('[AudioMonitoring] Failed to load multicast plan:', error)
+    );
+  }, [user?.email]);
+
+  // Load this station's volume profiles (zone + call type → day/night volume)
+  useEffect(() => {
+    if (!user?.email) return;
+    getVolumeProfilePlan(user.email)
+      .then((plan) => setVolumeProfiles(plan?.profiles ?? []))
+      .catch((error) => console.error('[AudioMonitoring] Failed to load volume profiles:', error));
+  }, [user?.email]);
+
   // Initialize and restore state from localStorage on mount
   useEffect(() => {
     if (isInitializedRef.current) return;
@@ -1115,8 +1111,6 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       const savedRampEnabled = localStorage.getItem(STORAGE_KEYS.RAMP_ENABLED);
       const savedRampDuration = localStorage.getItem(STORAGE_KEYS.RAMP_DURATION);
       const savedDayNightMode = localStorage.getItem(STORAGE_KEYS.DAY_NIGHT_MODE);
-      const savedDayStartHour = localStorage.getItem(STORAGE_KEYS.DAY_START_HOUR);
-      const savedDayEndHour = localStorage.getItem(STORAGE_KEYS.DAY_END_HOUR);
       const savedNightRampDuration = localStorage.getItem(STORAGE_KEYS.NIGHT_RAMP_DURATION);
       const savedSustainDuration = localStorage.getItem(STORAGE_KEYS.SUSTAIN_DURATION);
       const savedDisableDelay = localStorage.getItem(STORAGE_KEYS.DISABLE_DELAY);
@@ -1133,8 +1127,6 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         rampEnabled: savedRampEnabled,
         rampDuration: savedRampDuration,
         dayNightMode: savedDayNightMode,
-        dayStartHour: savedDayStartHour,
-        dayEndHour: savedDayEndHour,
         nightRampDuration: savedNightRampDuration,
         wasMonitoring,
       });
@@ -1171,12 +1163,6 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       if (savedDayNightMode !== null) {
         setDayNightModeState(savedDayNightMode === 'true');
       }
-      if (savedDayStartHour) {
-        setDayStartHourState(parseFloat(savedDayStartHour));
-      }
-      if (savedDayEndHour) {
-        setDayEndHourState(parseFloat(savedDayEndHour));
-      }
       if (savedNightRampDuration) {
         setNightRampDurationState(parseInt(savedNightRampDuration));
       }
@@ -1310,18 +1296,6 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     localStorage.setItem(STORAGE_KEYS.DAY_NIGHT_MODE, dayNightMode.toString());
   }, [dayNightMode]);
 
-  useEffect(() => {
-    if (!hasRestoredStateRef.current) return;
-    debugLog('[AudioMonitoring] Saving day start hour:', dayStartHour);
-    localStorage.setItem(STORAGE_KEYS.DAY_START_HOUR, dayStartHour.toString());
-  }, [dayStartHour]);
-
-  useEffect(() => {
-    if (!hasRestoredStateRef.current) return;
-    debugLog('[AudioMonitoring] Saving day end hour:', dayEndHour);
-    localStorage.setItem(STORAGE_KEYS.DAY_END_HOUR, dayEndHour.toString());
-  }, [dayEndHour]);
-
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving night ramp duration:', nightRampDuration);
@@ -1409,32 +1383,28 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     localStorage.setItem(STORAGE_KEYS.PLAYBACK_VOLUME, playbackVolume.toString());
   }, [playbackVolume]);
 
-  // Daily console clear for long-running sessions (clears at midnight PST)
+  // Daily console clear for long-running sessions (clears at station midnight)
   useEffect(() => {
     const checkConsoleClear = () => {
-      const now = new Date();
-      const pstTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }));
-      const currentHour = pstTime.getHours();
-      const currentMinute = pstTime.getMinutes();
-      const pstDateString = pstTime.toDateString();
+      const { date: stationDate, time } = getStationClock(new Date(), getStationTimezone());
 
       // Get last clear date
       const lastClear = localStorage.getItem(STORAGE_KEYS.LAST_CONSOLE_CLEAR);
 
-      // Clear console at midnight PST (00:00) if not already cleared today
-      if (currentHour === 0 && currentMinute === 0 && lastClear !== pstDateString) {
+      // Clear console at station midnight (00:00) if not already cleared today
+      if (time === '00:00' && lastClear !== stationDate) {
         console.log('🧹 [System] Performing daily console clear to free memory...');
         console.log(`📅 Last clear: ${lastClear || 'Never'}`);
         console.log(`📊 Clearing console for 24/7 operation maintenance`);
 
         // Save clear date before clearing (so we can see it in logs afterward)
-        localStorage.setItem(STORAGE_KEYS.LAST_CONSOLE_CLEAR, pstDateString);
+        localStorage.setItem(STORAGE_KEYS.LAST_CONSOLE_CLEAR, stationDate);
 
         // Small delay to ensure logs are visible
         setTimeout(async () => {
           console.clear();
-          console.log('✅ [System] Console cleared at midnight PST - logs reset for new day');
-          console.log(`📅 Date: ${pstDateString}`);
+          console.log('✅ [System] Console cleared at station midnight - logs reset for new day');
+          console.log(`📅 Date: ${stationDate}`);
 
           // Also clear the terminal where dev server is running
           try {
@@ -1455,26 +1425,24 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     return () => clearInterval(interval);
   }, []);
 
-  // Daily activity log refresh at midnight PST
+  // Daily activity log refresh at station midnight
   useEffect(() => {
     const checkLogRefresh = () => {
       const now = new Date();
-      const pstTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }));
-      const currentHour = pstTime.getHours();
-      const currentMinute = pstTime.getMinutes();
-      const pstDateString = pstTime.toDateString();
+      const timeZone = getStationTimezone();
+      const { date: stationDate, time } = getStationClock(now, timeZone);
 
       // Get last log refresh date
       const lastLogRefresh = localStorage.getItem(STORAGE_KEYS.LAST_CONSOLE_CLEAR + '_logs');
 
-      // Refresh logs at midnight PST (00:00) if not already refreshed today
-      if (currentHour === 0 && currentMinute === 0 && lastLogRefresh !== pstDateString) {
-        console.log('🔄 [System] Midnight PST - Refreshing activity logs for new day...');
+      // Refresh logs at station midnight (00:00) if not already refreshed today
+      if (time === '00:00' && lastLogRefresh !== stationDate) {
+        console.log('🔄 [System] Station midnight - Refreshing activity logs for new day...');
         console.log(`📅 Previous log date: ${lastLogRefresh || 'First run'}`);
-        console.log(`📅 New log date: ${pstDateString}`);
+        console.log(`📅 New log date: ${stationDate}`);
 
         // Save refresh date
-        localStorage.setItem(STORAGE_KEYS.LAST_CONSOLE_CLEAR + '_logs', pstDateString);
+        localStorage.setItem(STORAGE_KEYS.LAST_CONSOLE_CLEAR + '_logs', stationDate);
 
         // Clear activity logs (they're already saved to Firebase)
         setLogs([]);
@@ -1483,7 +1451,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         setTimeout(() => {
           addLog({
             type: "system",
-            message: `🌅 New day started - Activity logs refreshed for ${pstDateString} (PST)`,
+            message: `🌅 New day started - Activity logs refreshed for ${stationDate} (${getTimeZoneLabel(now, timeZone)})`,
           });
         }, 100);
       }
@@ -1555,43 +1523,25 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         return;
       }
 
-      // Skip speakers without proper credentials
-      if (!speaker.ipAddress || !speaker.apiPassword) {
-        console.warn(`[AudioMonitoring] Skipping ${speaker.name || speakerId}: missing IP or password`);
+      // Skip speakers without an address (credentials are resolved server-side)
+      if (!speaker.ipAddress) {
+        console.warn(`[AudioMonitoring] Skipping ${speaker.name || speakerId}: missing IP`);
         return;
       }
 
-      // Calculate actual volume: each speaker ramps to its own maxVolume
-      // volumePercent represents the ramp progress (0-100%)
-      // At 0%: speaker is at 0%, at 100%: speaker is at its maxVolume
-      const speakerMaxVolume = speaker.maxVolume ?? 100;
-      const actualVolume = (volumePercent / 100) * speakerMaxVolume;
-      debugLog(`[AudioMonitoring] Setting ${speaker.name} to ${volumePercent.toFixed(0)}% of its max ${speakerMaxVolume}% = ${actualVolume.toFixed(0)}% (Level ${Math.round(actualVolume/10)})`);
-
-
-      // Convert 0-100% to dB
-      // SPECIAL CASE: 0% = idle volume (IDLE state - quietest before needing multicast control)
-      // Normal range: Algo expects 1=-27dB, 2=-24dB, ... 10=0dB
-      // Formula: dB = (level - 10) * 3
-      let volumeDbString: string;
-      if (actualVolume === 0) {
-        volumeDbString = getIdleVolumeString(); // IDLE state - level -5 (quietest volume)
-      } else {
-        const volumeScale = Math.round((actualVolume / 100) * 10);
-        const volumeDb = (volumeScale - 10) * 3;
-        volumeDbString = volumeDb === 0 ? "0dB" : `${volumeDb}dB`;
-      }
+      // volumePercent is the ramp progress (0-100%): 0% = idle volume,
+      // 100% = the speaker's operating volume, calibrated
+      const pageVolume = resolveSpeakerVolume(volumePercent, speaker, { idleVolumeDb: getIdleVolume() });
+      const volumeDbString = pageVolume.dbString;
 
-      debugLog(`[AudioMonitoring] ${speaker.name} final: ${actualVolume.toFixed(0)}% → ${volumeDbString}`);
+      debugLog(`[AudioMonitoring] ${speaker.name} final: ${volumePercent.toFixed(0)}% of operating volume = ${pageVolume.percent.toFixed(0)}% → ${volumeDbString} (Level ${pageVolume.level})`);
 
       try {
         const response = await fetch("/api/algo/settings", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod || "standard",
+            deviceId: speaker.id,
             settings: {
               "audio.page.vol": volumeDbString,
             },
@@ -1614,17 +1564,10 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // Use allSettled to continue even if some speakers fail
     await Promise.allSettled(volumePromises);
     debugLog(`[AudioMonitoring] setDevicesVolume(${volumePercent}%) - completed`);
-  }, [selectedDevices, devices, emulationMode, debugLog, getIdleVolumeString]);
-
-  // Helper function to determine if it's currently daytime (supports half-hour intervals)
-  const isDaytime = useCallback(() => {
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    // Convert to decimal hours (e.g., 6:30 = 6.5, 14:30 = 14.5)
-    const currentTime = currentHour + (currentMinute >= 30 ? 0.5 : 0);
-    return currentTime >= dayStartHour && currentTime < dayEndHour;
-  }, [dayStartHour, dayEndHour]);
+  }, [selectedDevices, devices, emulationMode, debugLog]);
+
+  // Helper function to determine if it's currently daytime (station schedule in Settings)
+  const isDaytime = useCallback(() => !isStationNight(), []);
 
   // Helper to determine if ramping should be skipped (speakers stay at max)
   // Returns true if: ramp disabled OR (day/night mode enabled AND currently daytime)
@@ -1679,16 +1622,14 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
     const volumePromises = Array.from(linkedSpeakerIds).map(async (speakerId) => {
       const speaker = devices.find(d => d.id === speakerId);
-      if (!speaker || !speaker.ipAddress || !speaker.apiPassword) return;
+      if (!speaker || !speaker.ipAddress) return;
 
       try {
         await fetch("/api/algo/settings", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod || "standard",
+            deviceId: speaker.id,
             settings: {
               "audio.page.vol": getIdleVolumeString(), // IDLE state - quietest volume (level -5)
             },
@@ -1792,13 +1733,8 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
     // Check every minute for day/night transitions
     dayNightCheckIntervalRef.current = setInterval(() => {
-      // Calculate current day/night status directly to avoid function dependency
-      const now = new Date();
-      const currentHour = now.getHours();
-      const currentMinute = now.getMinutes();
-      // Convert to decimal hours for comparison with half-hour intervals
-      const currentTime = currentHour + (currentMinute >= 30 ? 0.5 : 0);
-      const currentIsDaytime = currentTime >= dayStartHour && currentTime < dayEndHour;
+      // Ask the station schedule directly to avoid function dependency
+      const currentIsDaytime = !isStationNight();
 
       // Initialize on first run
       if (previousDayModeRef.current === null) {
@@ -1850,7 +1786,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     };
     // Only depend on stable values - not functions
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dayNightMode, dayStartHour, dayEndHour]);
+  }, [dayNightMode]);
 
   // Set paging device multicast mode (0=disabled, 1=transmitter, 2=receiver)
   // Smart: Checks current mode first to avoid redundant API calls
@@ -1871,16 +1807,12 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       pagingDevices.map(async (paging) => {
         try {
           // First, check current mode (with error handling)
-          let shouldProceed = true;
-
           try {
             const checkResponse = await fetch("/api/algo/settings/get", {
               method: "POST",
-              headers: { "Content-Type": "application/json" },
+              headers: await getAuthHeaders(),
               body: JSON.stringify({
-                ipAddress: paging.ipAddress,
-                password: paging.apiPassword,
-                authMethod: paging.authMethod,
+                deviceId: paging.id,
                 setting: "mcast.mode",
               }),
             });
@@ -1907,55 +1839,27 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
             console.warn(`[AudioMonitoring] Proceeding with mode change anyway...`);
           }
 
-          // Proceed with mode change (with retry logic for stuck devices)
-          let retryCount = 0;
-          const maxRetries = 3;
-          let success = false;
-          let lastError: any = null;
-
-          while (retryCount < maxRetries && !success) {
-            try {
-              if (retryCount > 0) {
-                console.warn(`[AudioMonitoring] Retry ${retryCount}/${maxRetries} for ${paging.name} mode change...`);
-                // Wait 500ms between retries
-                await new Promise(resolve => setTimeout(resolve, 500));
-              }
-
-              const response = await fetch("/api/algo/speakers/mcast", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  speakers: [{
-                    ipAddress: paging.ipAddress,
-                    password: paging.apiPassword,
-                    authMethod: paging.authMethod,
-                  }],
-                  mode,
-                }),
-              });
-
-              if (response.ok) {
-                success = true;
-                debugLog(`[AudioMonitoring] ✓ Set ${paging.name} to mode ${mode}${retryCount > 0 ? ` (after ${retryCount} retries)` : ''}`);
-                addLog({
-                  type: "speakers_enabled",
-                  message: `Paging ${paging.name} mode ${mode} activated${retryCount > 0 ? ` (after ${retryCount} retries)` : ''}`,
-                });
-              } else {
-                lastError = `HTTP ${response.status}`;
-                console.error(`[AudioMonitoring] Failed to set ${paging.name} mode: HTTP ${response.status}`);
-                retryCount++;
-              }
-            } catch (error) {
-              lastError = error;
-              console.error(`[AudioMonitoring] Error setting ${paging.name} mode:`, error);
-              retryCount++;
-            }
-          }
+          // Proceed with mode change - the server's command dispatcher serializes
+          // writes per device and retries with backoff, so one request is enough
+          const response = await fetch("/api/algo/speakers/mcast", {
+            method: "POST",
+            headers: await getAuthHeaders(),
+            body: JSON.stringify({
+              speakerIds: [paging.id],
+              mode,
+            }),
+          });
 
-          // If all retries failed, log warning
-          if (!success) {
-            console.error(`[AudioMonitoring] 🚨 FAILED to set ${paging.name} to mode ${mode} after ${maxRetries} attempts!`);
+          if (response.ok) {
+            debugLog(`[AudioMonitoring] ✓ Set ${paging.name} to mode ${mode}`);
+            addLog({
+              type: "speakers_enabled",
+              message: `Paging ${paging.name} mode ${mode} activated`,
+            });
+          } else {
+            const data = await response.json().catch(() => ({}));
+            const lastError = data.error || `HTTP ${response.status}`;
+            console.error(`[AudioMonitoring] 🚨 FAILED to set ${paging.name} to mode ${mode}: ${lastError}`);
             addLog({
               type: "speakers_disabled",
               message: `⚠️ WARNING: Failed to change ${paging.name} mode - device may be stuck! Error: ${lastError}`,
@@ -1968,12 +1872,19 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     );
   }, [devices, selectedDevices, addLog]);
 
-  // NEW: Set paging multicast IP for zone 1 - MUCH simpler than changing zones!
-  // Active: 224.0.2.60:5002 (speakers listen here)
-  // Idle: 224.0.2.60:50022 (different port, speakers don't receive)
-  const setPagingMulticastIP = useCallback(async (active: boolean) => {
-    const multicastIP = active ? "224.0.2.60:50002" : "224.0.2.60:50022";
+  // NEW: Set speakers' multicast group to the active or idle port - MUCH simpler than changing zones!
+  // Each speaker uses its zone's group from the multicast plan (legacy: zone 1,
+  // active 224.0.2.60:50002 / idle 224.0.2.60:50022 - speakers don't receive on idle)
+  // Speakers in skipDeviceIds (held by a higher-priority call) are left alone
+  const setPagingMulticastIP = useCallback(async (active: boolean, skipDeviceIds: string[] = []) => {
     const mode = active ? "active" : "idle";
+    const groupFor = (device: Pick<AlgoDevice, "zone">) => {
+      const assignment = getDeviceAssignment(multicastPlan, device);
+      return formatGroup(assignment.address, active ? assignment.port : assignment.idlePort);
+    };
+    const multicastIP = multicastPlan
+      ? `${multicastPlan.assignments.length} planned group(s)`
+      : groupFor({ zone: null });
 
     // 🧪 EMULATION MODE: Skip actual API calls
     if (emulationMode) {
@@ -2007,6 +1918,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
     // Remove duplicates
     const speakerDevices = Array.from(new Set(allLinkedSpeakers.map(s => s.id)))
+      .filter(id => !skipDeviceIds.includes(id))
       .map(id => allLinkedSpeakers.find(s => s.id === id)!)
       .filter(Boolean);
 
@@ -2017,37 +1929,30 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
     debugLog(`[AudioMonitoring] Setting ${speakerDevices.length} linked speaker(s) to ${mode} mode (${multicastIP})...`);
 
-    // Change all speakers' mcast.zone1
+    // Change each speaker's mcast.zoneN (N from its zone's plan entry)
     await Promise.allSettled(
       speakerDevices.map(async (speaker) => {
         try {
-          // Change the multicast IP for zone 1
           const response = await fetch("/api/algo/settings", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await getAuthHeaders(),
             body: JSON.stringify({
-              ipAddress: speaker.ipAddress,
-              password: speaker.apiPassword,
-              authMethod: speaker.authMethod,
-              settings: {
-                "mcast.zone1": multicastIP,
-              },
+              deviceId: speaker.id,
+              settings: receiverSettings(getDeviceAssignment(multicastPlan, speaker), active),
             }),
           });
 
           if (response.ok) {
-            debugLog(`[AudioMonitoring] ✓ Set ${speaker.name} multicast IP to ${multicastIP}`);
+            debugLog(`[AudioMonitoring] ✓ Set ${speaker.name} multicast IP to ${groupFor(speaker)}`);
 
             // Reload device after zone change
             try {
               debugLog(`[AudioMonitoring] Reloading ${speaker.name}...`);
               const reloadResponse = await fetch("/api/algo/reload", {
                 method: "POST",
-                headers: { "Content-Type": "application/json" },
+                headers: await getAuthHeaders(),
                 body: JSON.stringify({
-                  ipAddress: speaker.ipAddress,
-                  password: speaker.apiPassword,
-                  authMethod: speaker.authMethod || "standard",
+                  deviceId: speaker.id,
                 }),
               });
 
@@ -2071,6 +1976,8 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // Poll ONLY the first speaker to verify (don't poll all of them)
     if (speakerDevices.length > 0) {
       const firstSpeaker = speakerDevices[0];
+      const expectedIP = groupFor(firstSpeaker);
+      const zoneSetting = `mcast.zone${getDeviceAssignment(multicastPlan, firstSpeaker).zoneNumber}`;
       debugLog(`[AudioMonitoring] Polling ${firstSpeaker.name} multicast IP status (verification speaker)...`);
 
       const maxPollAttempts = 20; // 20 attempts × 500ms = 10s max
@@ -2084,12 +1991,10 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         try {
           const pollResponse = await fetch("/api/algo/settings/get", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await getAuthHeaders(),
             body: JSON.stringify({
-              ipAddress: firstSpeaker.ipAddress,
-              password: firstSpeaker.apiPassword,
-              authMethod: firstSpeaker.authMethod,
-              setting: "mcast.zone1",
+              deviceId: firstSpeaker.id,
+              setting: zoneSetting,
             }),
           });
 
@@ -2097,12 +2002,12 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
             const pollData = await pollResponse.json();
             const currentIP = pollData.value;
 
-            if (currentIP === multicastIP) {
+            if (currentIP === expectedIP) {
               ipVerified = true;
-              debugLog(`[AudioMonitoring] ✓ ${firstSpeaker.name} multicast IP verified as ${multicastIP} (attempt ${pollAttempt})`);
+              debugLog(`[AudioMonitoring] ✓ ${firstSpeaker.name} multicast IP verified as ${expectedIP} (attempt ${pollAttempt})`);
               break;
             } else {
-              debugLog(`[AudioMonitoring] Polling ${firstSpeaker.name}: IP is ${currentIP}, waiting for ${multicastIP}... (${pollAttempt}/${maxPollAttempts})`);
+              debugLog(`[AudioMonitoring] Polling ${firstSpeaker.name}: IP is ${currentIP}, waiting for ${expectedIP}... (${pollAttempt}/${maxPollAttempts})`);
             }
           }
         } catch (pollError) {
@@ -2120,7 +2025,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         message: `Speakers ${mode} mode activated (${multicastIP})${ipVerified ? ' (verified)' : ' (unverified)'}`,
       });
     }
-  }, [devices, selectedDevices, addLog, emulationMode, emulationNetworkDelay]);
+  }, [devices, selectedDevices, addLog, emulationMode, emulationNetworkDelay, multicastPlan]);
 
   // Wait for paging device to be ready by polling until mcast.mode = 1
   const waitForPagingReady = useCallback(async (): Promise<boolean> => {
@@ -2146,13 +2051,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         try {
           await fetch("/api/algo/speakers/mcast", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await getAuthHeaders(),
             body: JSON.stringify({
-              speakers: [{
-                ipAddress: paging.ipAddress,
-                password: paging.apiPassword,
-                authMethod: paging.authMethod,
-              }],
+              speakerIds: [paging.id],
               mode: 1,
             }),
           });
@@ -2176,11 +2077,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
           // Poll the mcast.mode setting
           const response = await fetch("/api/algo/settings/get", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await getAuthHeaders(),
             body: JSON.stringify({
-              ipAddress: paging.ipAddress,
-              password: paging.apiPassword,
-              authMethod: paging.authMethod,
+              deviceId: paging.id,
               setting: "mcast.mode",
             }),
           });
@@ -2247,11 +2146,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
         const response = await fetch("/api/algo/settings/get", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            ipAddress: paging.ipAddress,
-            password: paging.apiPassword,
-            authMethod: paging.authMethod,
+            deviceId: paging.id,
             setting: "mcast.tx.fixed",
           }),
           signal: pollAbort.signal,
@@ -2307,11 +2204,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         // Poll the mcast.mode setting
         const response = await fetch("/api/algo/settings/get", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            ipAddress: paging.ipAddress,
-            password: paging.apiPassword,
-            authMethod: paging.authMethod,
+            deviceId: paging.id,
             setting: "mcast.mode",
           }),
         });
@@ -2372,13 +2267,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         try {
           await fetch("/api/algo/speakers/mcast", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await getAuthHeaders(),
             body: JSON.stringify({
-              speakers: [{
-                ipAddress: speaker.ipAddress,
-                password: speaker.apiPassword,
-                authMethod: speaker.authMethod,
-              }],
+              speakerIds: [speaker.id],
               mode,
             }),
           });
@@ -2409,13 +2300,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
             try {
               const response = await fetch("/api/algo/speakers/mcast", {
                 method: "POST",
-                headers: { "Content-Type": "application/json" },
+                headers: await getAuthHeaders(),
                 body: JSON.stringify({
-                  speakers: [{
-                    ipAddress: speaker.ipAddress,
-                    password: speaker.apiPassword,
-                    authMethod: speaker.authMethod,
-                  }],
+                  speakerIds: [speaker.id],
                   enable,
                 }),
               });
@@ -2510,7 +2397,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       try {
         const response = await fetch("/api/poe/toggle", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
             deviceId: device.id,
             enabled: enable,
@@ -2538,6 +2425,116 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     await Promise.allSettled(promises);
   }, [poeDevices, selectedDevices, devices, addLog, emulationMode]);
 
+  // Strobe Controls (8128/8138) - each strobe flashes the pattern for its own
+  // input channel, or the default pattern if it has none
+  const controlStrobes = useCallback(async (deviceIds: string[], enable: boolean) => {
+    const strobes = devices.filter(d => deviceIds.includes(d.id));
+    if (strobes.length === 0) return;
+
+    // 🧪 EMULATION MODE: Skip actual API calls
+    if (emulationMode) {
+      debugLog(`[Strobe Control] 🧪 EMULATION: Simulated ${enable ? 'starting' : 'stopping'} ${strobes.length} strobe(s)`);
+      return;
+    }
+
+    addLog({
+      type: enable ? "speakers_enabled" : "speakers_disabled",
+      message: `Strobes: ${enable ? 'ON' : 'OFF'} - ${strobes.map(d => d.name).join(', ')}`,
+    });
+
+    const groups = enable
+      ? groupStrobesByPattern(strobes, getStrobePatterns())
+      : [{ deviceIds: strobes.map(d => d.id), pattern: undefined }];
+
+    await Promise.allSettled(groups.map(async (group) => {
+      try {
+        const response = await fetch("/api/algo/strobe", {
+          method: "POST",
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({
+            deviceIds: group.deviceIds,
+            action: enable ? "start" : "stop",
+            pattern: group.pattern,
+          }),
+        });
+
+        if (!response.ok) {
+          console.error(`Failed to ${enable ? 'start' : 'stop'} strobes: HTTP ${response.status}`);
+          addLog({
+            type: enable ? "speakers_enabled" : "speakers_disabled",
+            message: `⚠️ Strobes failed: HTTP ${response.status}`,
+          });
+        }
+      } catch (error) {
+        console.error('Failed to control strobes:', error);
+        addLog({
+          type: enable ? "speakers_enabled" : "speakers_disabled",
+          message: `⚠️ Strobe error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }));
+  }, [devices, addLog, emulationMode]);
+
+  // Door / relay rules for single-input calls ("Any call" rules)
+  const triggerDoorActions = useCallback(async (phase: 'start' | 'end', callStartedAt: number) => {
+    if (!user?.email) return;
+
+    // 🧪 EMULATION MODE: Skip actual API calls
+    if (emulationMode) {
+      debugLog(`[Door Control] 🧪 EMULATION: Simulated door rules for call ${phase}`);
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/doors/trigger", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ownerEmail: user.email, trigger: "anyCall", phase, callStartedAt }),
+      });
+      const data = await response.json();
+      const results: Array<{ ruleName: string; success: boolean; error?: string }> = data.results ?? [];
+
+      results.forEach((result) => {
+        addLog({
+          type: "system",
+          message: result.success
+            ? `Door: ${result.ruleName} (call ${phase})`
+            : `⚠️ Door ${result.ruleName} failed: ${result.error}`,
+        });
+      });
+    } catch (error) {
+      console.error('Failed to run door rules:', error);
+    }
+  }, [user?.email, addLog, emulationMode]);
+
+  // Claim the paging devices and their speakers as an all-call - tone plays
+  // on them (announcements, tests) stop and wait until the call ends. The
+  // answer lists devices a higher input channel holds, for the coordinator
+  // to leave alone
+  const reportLiveCall = useCallback(async (phase: 'start' | 'end'): Promise<LiveCallAnswer> => {
+    if (!user?.email || emulationMode) return { yieldDeviceIds: [], heldDeviceIds: [] };
+
+    const pagingDevices = devices.filter(d => d.type === "8301" && selectedDevices.includes(d.id));
+    const response = await fetch("/api/paging/claim", {
+      method: "POST",
+      headers: await getAuthHeaders(),
+      body: JSON.stringify({
+        ownerEmail: user.email,
+        claimId: "monitoring",
+        source: "allCall",
+        label: "Live monitoring",
+        pagingDeviceIds: pagingDevices.map(d => d.id),
+        speakerIds: [...new Set(pagingDevices.flatMap(d => d.linkedSpeakerIds ?? []))],
+        phase,
+      }),
+    });
+    const data = await response.json();
+    for (const claim of (data.preempted ?? []) as PagingClaim[]) {
+      addLog({ type: "system", message: `${describePagingClaim(claim)} stopped for this call` });
+    }
+    return { yieldDeviceIds: data.yieldDeviceIds ?? [], heldDeviceIds: data.heldDeviceIds ?? [] };
+  }, [user?.email, addLog, emulationMode, devices, selectedDevices]);
+
   // Emergency Controls
   const emergencyKillAll = useCallback(async () => {
     debugLog('[AudioMonitoring] EMERGENCY: Killing all speakers');
@@ -2608,13 +2605,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       // Control multicast
       await fetch("/api/algo/speakers/mcast", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          speakers: [{
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod,
-          }],
+          speakerIds: [speaker.id],
           enable,
         }),
       });
@@ -2623,11 +2616,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       if (!enable) {
         await fetch("/api/algo/settings", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod,
+            deviceId: speaker.id,
             settings: { "audio.page.vol": getIdleVolumeString() }, // IDLE state - eliminates buzzing
           }),
         });
@@ -2656,7 +2647,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         name: 'EMU Paging Device 8301',
         type: '8301',
         ipAddress: '192.168.1.100',
-        apiPassword: 'emu-pass',
+        hasCredentials: true,
         authMethod: 'basic',
         linkedSpeakerIds: [], // Will be populated with speaker IDs
         ownerEmail: user?.email || '',
@@ -2676,7 +2667,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
           name: `EMU Speaker ${isEven ? '8198' : '8180g2'}-${i}`,
           type: isEven ? '8198' : '8180g2',
           ipAddress: `192.168.1.${100 + i}`,
-          apiPassword: 'emu-pass',
+          hasCredentials: true,
           authMethod: 'basic',
           ownerEmail: user?.email || '',
           zone: null,
@@ -2783,6 +2774,24 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
   // END EMULATION MODE
   // ============================================================================
 
+  /**
+   * Play a spoken announcement through the live call path
+   * The audio is mixed into the monitored input, so it's detected, recorded
+   * and paged out by the coordinator like someone speaking
+   */
+  const playLiveAnnouncement = useCallback(async (audio: ArrayBuffer, label: string) => {
+    if (!isCapturing) {
+      throw new Error('Start live monitoring first - live announcements page through it');
+    }
+
+    addLog({
+      type: 'system',
+      message: `🗣️ Live announcement: "${label}"`
+    });
+    const duration = await playIntoCallStream(audio);
+    debugLog(`[Announcement] Finished playing into the call stream (${duration.toFixed(1)}s)`);
+  }, [isCapturing, addLog, playIntoCallStream]);
+
   // Check connectivity of all linked speakers
   const checkSpeakerConnectivity = useCallback(async () => {
     const linkedSpeakerIds = new Set<string>();
@@ -2807,7 +2816,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // Build device list for health check API
     const speakersToCheck = Array.from(linkedSpeakerIds)
       .map(id => devices.find(d => d.id === id))
-      .filter((s): s is AlgoDevice => !!s && !!s.ipAddress && !!s.apiPassword);
+      .filter((s): s is AlgoDevice => !!s && !!s.ipAddress);
 
     if (speakersToCheck.length === 0) {
       setSpeakerStatuses([]);
@@ -2819,14 +2828,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     try {
       const response = await fetch("/api/algo/health", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          devices: speakersToCheck.map(s => ({
-            id: s.id,
-            ipAddress: s.ipAddress,
-            apiPassword: s.apiPassword,
-            authMethod: s.authMethod || "standard",
-          })),
+          deviceIds: speakersToCheck.map(s => s.id),
           timeout: 3000,
         }),
       });
@@ -2897,28 +2901,19 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         fileExtension = 'm4a';
       }
 
-      // Use first audio detection timestamp (PST) for filename
+      // Use first audio detection timestamp (station time) for filename
       const detectionTime = new Date(firstAudioTimestamp);
-      const pstTime = new Date(detectionTime.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }));
-      const year = pstTime.getFullYear();
-      const month = String(pstTime.getMonth() + 1).padStart(2, '0');
-      const day = String(pstTime.getDate()).padStart(2, '0');
-      let hours = pstTime.getHours();
-      const minutes = String(pstTime.getMinutes()).padStart(2, '0');
-      const seconds = String(pstTime.getSeconds()).padStart(2, '0');
-      const ampm = hours >= 12 ? 'PM' : 'AM';
-      hours = hours % 12 || 12;
-      const hoursStr = String(hours).padStart(2, '0');
-
-      const timestamp = `${year}-${month}-${day}-${hoursStr}-${minutes}-${seconds}-${ampm}`;
+      const timeZone = getStationTimezone();
+      const detectionDate = getStationClock(detectionTime, timeZone).date;
+      const timestamp = `${detectionDate}-${formatStationFileTime(detectionTime, timeZone)}`;
 
       // Append "-playback" suffix if this is a playback recording
       const recordingType = isPlayback ? 'playback' : 'input';
       const filenameSuffix = isPlayback ? '-playback' : '';
       const filename = `recording-${timestamp}${filenameSuffix}.${fileExtension}`;
 
-      // Create daily folder (clean format: YYYY-MM-DD)
-      const dailyFolder = `${year}-${month}-${day}`;
+      // Create daily folder (clean format: YYYY-MM-DD, station date)
+      const dailyFolder = detectionDate;
 
       // Use email instead of UID for folder structure
       const userEmail = user.email || user.uid;
@@ -3007,8 +3002,6 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
           name: pagingDevices[0].name,
           ip: pagingDevices[0].ipAddress, // CallCoordinator uses 'ip'
           ipAddress: pagingDevices[0].ipAddress, // BatchCoordinator uses 'ipAddress'
-          password: pagingDevices[0].apiPassword || '',
-          authMethod: pagingDevices[0].authMethod || 'basic',
         }
       : null;
 
@@ -3019,7 +3012,8 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
             // Find the paging device in the devices array
             const paging = devices.find(pd => pd.id === pagingDevice.id);
             // Check if this device is in the paging device's linkedSpeakerIds
-            return d.type !== "8301" && paging?.linkedSpeakerIds?.includes(d.id);
+            // (strobes have no speaker - they're driven separately below)
+            return d.type !== "8301" && !isStrobeDevice(d) && paging?.linkedSpeakerIds?.includes(d.id);
           })
           .map(s => ({
             id: s.id,
@@ -3028,6 +3022,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
             ip: s.ipAddress, // Keep for CallCoordinator backward compatibility
             volume: s.maxVolume ?? 100, // BatchCoordinator expects 'volume'
             maxVolume: s.maxVolume ?? 100, // Keep for CallCoordinator backward compatibility
+            zone: s.zone, // For volume profiles
           }))
       : [];
 
@@ -3036,8 +3031,8 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // Create speaker volume control callback
     const setSpeakerVolume = async (speakerId: string, volumePercent: number) => {
       const speaker = devices.find(d => d.id === speakerId);
-      if (!speaker || !speaker.ipAddress || !speaker.apiPassword) {
-        debugLog(`[CallCoordinator] Speaker ${speakerId} not found or missing credentials`);
+      if (!speaker || !speaker.ipAddress) {
+        debugLog(`[CallCoordinator] Speaker ${speakerId} not found or missing IP`);
         return;
       }
 
@@ -3047,29 +3042,17 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         return;
       }
 
-      // Calculate actual volume: volumePercent represents ramp progress (0-100%)
-      // Scale by speaker's maxVolume
-      const speakerMaxVolume = speaker.maxVolume ?? 100;
-      const actualVolume = (volumePercent / 100) * speakerMaxVolume;
-
-      // Convert 0-100% to dB for Algo API
-      let volumeDbString: string;
-      if (actualVolume === 0) {
-        volumeDbString = getIdleVolumeString(); // IDLE state
-      } else {
-        const volumeScale = Math.round((actualVolume / 100) * 10);
-        const volumeDb = (volumeScale - 10) * 3;
-        volumeDbString = volumeDb === 0 ? "0dB" : `${volumeDb}dB`;
-      }
+      // volumePercent is ramp progress (0-100%) of the speaker's operating volume
+      const { dbString: volumeDbString, percent: actualVolume } = resolveSpeakerVolume(volumePercent, speaker, {
+        idleVolumeDb: getIdleVolume(),
+      });
 
       try {
         const response = await fetch("/api/algo/settings", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAuthHeaders(),
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod || "standard",
+            deviceId: speaker.id,
             settings: {
               "audio.page.vol": volumeDbString,
             },
@@ -3094,10 +3077,17 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       linkedPagingDevices: d.linkedPagingDeviceIds || [],
     }));
 
+    // Strobes linked to the selected paging devices, or in their speakers' zones
+    const strobeDevicesForCoordinator = getCallStrobes(devices, pagingDevices.map(d => d.id)).map(d => ({
+      id: d.id,
+      name: d.name,
+    }));
+
     // Create shared config properties
     const sharedConfig = {
       audioThreshold,
       sustainDuration,
+      triggerMode: relayTrigger.mode,
       playbackEnabled,
       playbackDelay: playbackDelay,
       // Use playbackDisableDelay when playback is enabled, otherwise use legacy disableDelay
@@ -3110,10 +3100,11 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       setSpeakerVolume,
       rampEnabled,
       dayNightMode,
-      dayStartHour,
-      dayEndHour,
+      isNight: isStationNight,
       nightRampDuration,
       targetVolume,
+      volumeProfiles,
+      inputChannel: 'anyCall' as const, // Single-input monitoring - "Any call" profiles
       // PoE device control
       poeDevices: poeDevicesForCoordinator,
     };
@@ -3131,6 +3122,12 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
           // Wrapper to match BatchCoordinator interface signature
           await controlPoEDevices(action === 'on');
         },
+        strobeDevices: strobeDevicesForCoordinator,
+        controlStrobes: async (deviceIds: string[], action: 'on' | 'off') => {
+          await controlStrobes(deviceIds, action === 'on');
+        },
+        triggerDoorActions,
+        reportLiveCall,
         batchDuration: 5000, // 5 seconds per batch
         minBatchDuration: 1000, // 1 second minimum
         maxBatchDuration: 10000, // 10 seconds maximum
@@ -3146,7 +3143,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       batchCoordinatorRef.current = new BatchCoordinator(batchConfig);
 
       // Start the coordinator with the monitoring stream
-      batchCoordinatorRef.current.start(monitoringStream).then(() => {
+      batchCoordinatorRef.current.start(callStream ?? monitoringStream).then(() => {
         debugLog('[BatchCoordinator] ✅ Batch coordinator started and ready');
       }).catch((error) => {
         console.error('[BatchCoordinator] Failed to start:', error);
@@ -3163,7 +3160,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       callCoordinatorRef.current = new CallCoordinator(callConfig);
 
       // Start the coordinator with the monitoring stream
-      callCoordinatorRef.current.start(monitoringStream).then(() => {
+      callCoordinatorRef.current.start(callStream ?? monitoringStream).then(() => {
         debugLog('[CallCoordinator] ✅ Call coordinator started and ready');
       }).catch((error) => {
         console.error('[CallCoordinator] Failed to start:', error);
@@ -3189,6 +3186,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
   }, [
     isCapturing,
     monitoringStream,
+    callStream,
     audioThreshold,
     sustainDuration,
     playbackEnabled,
@@ -3202,16 +3200,32 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     uploadRecordingToFirebase,
     rampEnabled,
     dayNightMode,
-    dayStartHour,
-    dayEndHour,
     nightRampDuration,
     targetVolume,
+    volumeProfiles,
     poeDevices,
     controlPoEDevices,
+    controlStrobes,
+    triggerDoorActions,
+    reportLiveCall,
     getIdleVolumeString,
     emulationMode,
+    relayTrigger.mode,
   ]);
 
+  // Relay input trigger - feed the selected 8301/8180 contacts to the coordinator
+  const onRelayChange = useCallback((active: boolean) => {
+    batchCoordinatorRef.current?.onRelayChange(active);
+    callCoordinatorRef.current?.onRelayChange(active);
+  }, []);
+
+  useRelayTrigger({
+    enabled: isCapturing && !emulationMode && usesRelayTrigger(relayTrigger.mode),
+    deviceIds: relayTrigger.deviceIds,
+    pollIntervalMs: relayTrigger.pollIntervalMs,
+    onChange: onRelayChange,
+  });
+
   // Audio activity detection with sustained audio requirement
   useEffect(() => {
     if (!isCapturing) {
@@ -3575,6 +3589,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // Reset paging state tracker
     pagingWasEnabledRef.current = false;
 
+    // Pick up relay trigger changes from the Doors & Relays page
+    setRelayTrigger(getRelayTriggerSettings());
+
     // Set speakers to idle mode (don't listen to paging yet)
     await setPagingMulticastIP(false);
 
@@ -3763,14 +3780,6 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     setDayNightModeState(enabled);
   }, []);
 
-  const setDayStartHour = useCallback((hour: number) => {
-    setDayStartHourState(hour);
-  }, []);
-
-  const setDayEndHour = useCallback((hour: number) => {
-    setDayEndHourState(hour);
-  }, []);
-
   const setNightRampDuration = useCallback((duration: number) => {
     setNightRampDurationState(duration);
   }, []);
@@ -3866,16 +3875,12 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         rampEnabled,
         rampDuration,
         dayNightMode,
-        dayStartHour,
-        dayEndHour,
         nightRampDuration,
         sustainDuration,
         disableDelay,
         setRampEnabled,
         setRampDuration,
         setDayNightMode,
-        setDayStartHour,
-        setDayEndHour,
         setNightRampDuration,
         setSustainDuration,
         setDisableDelay,
@@ -3928,6 +3933,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         emulationNetworkDelay,
         setEmulationNetworkDelay: setEmulationNetworkDelay,
         triggerTestCall,
+        playLiveAnnouncement,
       }}
     >
       {children}
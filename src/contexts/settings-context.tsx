@@ -0,0 +1,99 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react";
+import { useAuth } from "@/contexts/auth-context";
+import { getAppSettings, setAppSettings } from "@/lib/firebase/firestore";
+import {
+  DEFAULT_SETTINGS,
+  applySettings,
+  clearLegacySettings,
+  normalizeSettings,
+  readLegacySettings,
+  validateSettings,
+  type AppSettings,
+} from "@/lib/settings";
+
+interface SettingsContextType {
+  settings: AppSettings;
+  loading: boolean;
+  saveSettings: (changes: Partial<AppSettings>) => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+/**
+ * Loads the signed-in owner's settings document and keeps the
+ * `@/lib/settings` cache in step with it. Settings a browser saved before
+ * they moved to Firestore seed the owner's first document.
+ */
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [loaded, setLoaded] = useState<{ ownerEmail: string; settings: AppSettings } | null>(null);
+
+  const ownerEmail = user?.email ?? null;
+  const settings = loaded && loaded.ownerEmail === ownerEmail ? loaded.settings : DEFAULT_SETTINGS;
+  const loading = ownerEmail !== null && loaded?.ownerEmail !== ownerEmail;
+
+  useEffect(() => {
+    applySettings(DEFAULT_SETTINGS);
+    if (!ownerEmail) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const stored = await getAppSettings(ownerEmail);
+        let next = stored ? normalizeSettings(stored) : DEFAULT_SETTINGS;
+        if (!stored) {
+          const legacy = readLegacySettings();
+          if (legacy) {
+            console.log("[Settings] Copying this browser's saved settings to Firestore");
+            await setAppSettings(ownerEmail, legacy);
+            clearLegacySettings();
+            next = legacy;
+          }
+        }
+        if (cancelled) return;
+        applySettings(next);
+        setLoaded({ ownerEmail, settings: next });
+      } catch (error) {
+        console.error("[Settings] Failed to load settings (using defaults):", error);
+        if (!cancelled) setLoaded({ ownerEmail, settings: DEFAULT_SETTINGS });
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ownerEmail]);
+
+  const saveSettings = useCallback(async (changes: Partial<AppSettings>) => {
+    if (!ownerEmail) {
+      throw new Error("Sign in to save settings");
+    }
+    const next = { ...settings, ...changes };
+    const errors = validateSettings(next);
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
+    await setAppSettings(ownerEmail, next);
+    // Store what a reload would read back
+    const saved = normalizeSettings(next);
+    applySettings(saved);
+    setLoaded({ ownerEmail, settings: saved });
+  }, [ownerEmail, settings]);
+
+  return (
+    <SettingsContext.Provider value={{ settings, loading, saveSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error("useSettings must be used within a SettingsProvider");
+  }
+  return context;
+}
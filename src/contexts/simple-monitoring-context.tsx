@@ -14,6 +14,13 @@ import { ref as dbRef, push, set } from "firebase/database";
 import { realtimeDb, storage } from "@/lib/firebase/config";
 import { ref as storageRef, uploadBytes, getDownloadURL } from "firebase/storage";
 import { addRecording } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+import { getIdleVolume, getRelayTriggerSettings, getStationTimezone, isStationNight } from "@/lib/settings";
+import { getStationClock } from "@/lib/algo/station-time";
+import { resolveSpeakerVolume } from "@/lib/algo/volume";
+import type { Zone, ZoneVolumeProfile } from "@/lib/algo/types";
+import { DEFAULT_RELAY_TRIGGER_SETTINGS, usesRelayTrigger, type RelayTriggerSettings } from "@/lib/algo/relay-trigger";
+import { useRelayTrigger } from "@/hooks/useRelayTrigger";
 
 // TODO: Import proper types
 type Device = any;
@@ -47,8 +54,6 @@ interface SimpleMonitoringContextType {
   rampEnabled: boolean;
   rampDuration: number;
   dayNightMode: boolean;
-  dayStartHour: number;
-  dayEndHour: number;
   nightRampDuration: number;
 
   // Playback Volume Settings
@@ -63,8 +68,6 @@ interface SimpleMonitoringContextType {
   playbackRampTargetVolume: number;
   playbackSessionRampDuration: number;
   playbackRampScheduleEnabled: boolean;
-  playbackRampStartHour: number;
-  playbackRampEndHour: number;
 
   // Recording & Playback
   saveRecording: boolean;
@@ -76,6 +79,8 @@ interface SimpleMonitoringContextType {
   devices: Device[];
   selectedDevices: string[];
   poeDevices: PoEDevice[];
+  zones: Zone[];
+  volumeProfiles: ZoneVolumeProfile[];
   speakerStatuses: SpeakerStatus[];
 
   // Emulation
@@ -97,8 +102,6 @@ interface SimpleMonitoringContextType {
   setRampEnabled: (enabled: boolean) => void;
   setRampDuration: (ms: number) => void;
   setDayNightMode: (enabled: boolean) => void;
-  setDayStartHour: (hour: number) => void;
-  setDayEndHour: (hour: number) => void;
   setNightRampDuration: (ms: number) => void;
   setPlaybackRampDuration: (ms: number) => void;
   setPlaybackStartVolume: (value: number) => void;
@@ -109,8 +112,6 @@ interface SimpleMonitoringContextType {
   setPlaybackRampTargetVolume: (value: number) => void;
   setPlaybackSessionRampDuration: (ms: number) => void;
   setPlaybackRampScheduleEnabled: (enabled: boolean) => void;
-  setPlaybackRampStartHour: (hour: number) => void;
-  setPlaybackRampEndHour: (hour: number) => void;
   setSaveRecording: (enabled: boolean) => void;
   setRecordingEnabled: (enabled: boolean) => void;
   setLoggingEnabled: (enabled: boolean) => void;
@@ -118,6 +119,8 @@ interface SimpleMonitoringContextType {
   setDevices: (devices: Device[]) => void;
   setSelectedDevices: (deviceIds: string[]) => void;
   setPoeDevices: (devices: PoEDevice[]) => void;
+  setZones: (zones: Zone[]) => void;
+  setVolumeProfiles: (profiles: ZoneVolumeProfile[]) => void;
   setEmulationMode: (enabled: boolean) => void;
   setEmulationNetworkDelay: (ms: number) => void;
   onAudioDetected: (level: number) => void;
@@ -161,8 +164,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
   const [rampEnabled, setRampEnabled] = useState(false);
   const [rampDuration, setRampDuration] = useState(2000);
   const [dayNightMode, setDayNightMode] = useState(false);
-  const [dayStartHour, setDayStartHour] = useState(7);
-  const [dayEndHour, setDayEndHour] = useState(19);
   const [nightRampDuration, setNightRampDuration] = useState(3000);
 
   // Playback Volume Settings
@@ -177,8 +178,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
   const [playbackRampTargetVolume, setPlaybackRampTargetVolume] = useState(2.0);
   const [playbackSessionRampDuration, setPlaybackSessionRampDuration] = useState(2000);
   const [playbackRampScheduleEnabled, setPlaybackRampScheduleEnabled] = useState(false);
-  const [playbackRampStartHour, setPlaybackRampStartHour] = useState(18); // 6:00 PM
-  const [playbackRampEndHour, setPlaybackRampEndHour] = useState(6); // 6:00 AM
 
   // Recording & Playback
   const [saveRecording, setSaveRecording] = useState(true);
@@ -189,12 +188,17 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
   const [devices, setDevices] = useState<Device[]>([]);
   const [selectedDevices, setSelectedDevices] = useState<string[]>([]);
   const [poeDevices, setPoeDevices] = useState<PoEDevice[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]); // Zone volume caps
+  const [volumeProfiles, setVolumeProfiles] = useState<ZoneVolumeProfile[]>([]); // Per-zone day/night volumes
   const [speakerStatuses, setSpeakerStatuses] = useState<SpeakerStatus[]>([]);
 
   // Emulation
   const [emulationMode, setEmulationMode] = useState(false);
   const [emulationNetworkDelay, setEmulationNetworkDelay] = useState(0);
 
+  // Relay input trigger (re-read from settings each time monitoring starts)
+  const [relayTrigger, setRelayTrigger] = useState<RelayTriggerSettings>(DEFAULT_RELAY_TRIGGER_SETTINGS);
+
   // Logs
   const [logs, setLogs] = useState<Array<{ timestamp: string; message: string; type: 'info' | 'error' | 'warning' }>>([]);
 
@@ -232,8 +236,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     if (sessionState.rampEnabled !== undefined) setRampEnabled(sessionState.rampEnabled);
     if (sessionState.rampDuration !== undefined) setRampDuration(sessionState.rampDuration);
     if (sessionState.dayNightMode !== undefined) setDayNightMode(sessionState.dayNightMode);
-    if (sessionState.dayStartHour !== undefined) setDayStartHour(sessionState.dayStartHour);
-    if (sessionState.dayEndHour !== undefined) setDayEndHour(sessionState.dayEndHour);
     if (sessionState.nightRampDuration !== undefined) setNightRampDuration(sessionState.nightRampDuration);
 
     // Load playback volume settings
@@ -248,8 +250,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     if (sessionState.playbackRampTargetVolume !== undefined) setPlaybackRampTargetVolume(sessionState.playbackRampTargetVolume);
     if (sessionState.playbackSessionRampDuration !== undefined) setPlaybackSessionRampDuration(sessionState.playbackSessionRampDuration);
     if (sessionState.playbackRampScheduleEnabled !== undefined) setPlaybackRampScheduleEnabled(sessionState.playbackRampScheduleEnabled);
-    if (sessionState.playbackRampStartHour !== undefined) setPlaybackRampStartHour(sessionState.playbackRampStartHour);
-    if (sessionState.playbackRampEndHour !== undefined) setPlaybackRampEndHour(sessionState.playbackRampEndHour);
 
     // Load recording/playback settings
     if (sessionState.saveRecording !== undefined) setSaveRecording(sessionState.saveRecording);
@@ -277,8 +277,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
       rampEnabled,
       rampDuration,
       dayNightMode,
-      dayStartHour,
-      dayEndHour,
       nightRampDuration,
       playbackRampDuration,
       playbackStartVolume,
@@ -289,8 +287,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
       playbackRampTargetVolume,
       playbackSessionRampDuration,
       playbackRampScheduleEnabled,
-      playbackRampStartHour,
-      playbackRampEndHour,
       saveRecording,
       loggingEnabled,
       playbackEnabled,
@@ -301,10 +297,10 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     selectedDevices,
     selectedInputDevice,
     batchDuration, silenceTimeout, playbackDelay, hardwareGracePeriod, audioThreshold, sustainDuration, disableDelay,
-    targetVolume, rampEnabled, rampDuration, dayNightMode, dayStartHour, dayEndHour, nightRampDuration,
+    targetVolume, rampEnabled, rampDuration, dayNightMode, nightRampDuration,
     playbackRampDuration, playbackStartVolume, playbackMaxVolume, playbackVolume,
     playbackRampEnabled, playbackRampStartVolume, playbackRampTargetVolume, playbackSessionRampDuration,
-    playbackRampScheduleEnabled, playbackRampStartHour, playbackRampEndHour,
+    playbackRampScheduleEnabled,
     saveRecording, loggingEnabled, playbackEnabled, emulationMode, emulationNetworkDelay,
     syncSessionState,
   ]);
@@ -377,6 +373,10 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
       // Store for emergency controls
       linkedSpeakersRef.current = linkedSpeakers;
 
+      // Pick up relay trigger changes from the Doors & Relays page
+      const relayTriggerSettings = getRelayTriggerSettings();
+      setRelayTrigger(relayTriggerSettings);
+
       // Create SimpleRecorder
       recorderRef.current = new SimpleRecorder({
         batchDuration,
@@ -385,7 +385,11 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
         hardwareGracePeriod,
         audioThreshold,
         sustainDuration,
+        triggerMode: relayTriggerSettings.mode,
         linkedSpeakers,
+        volumeProfiles,
+        isNight: isStationNight,
+        timeZone: getStationTimezone(),
         pagingDevice,
         saveRecording,
         emulationMode,
@@ -396,8 +400,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
         playbackRampTargetVolume,
         playbackRampDuration: playbackSessionRampDuration,
         playbackRampScheduleEnabled,
-        playbackRampStartHour,
-        playbackRampEndHour,
         uploadCallback: async (blob, filename, sessionId) => {
           try {
             addLog(`Uploading ${filename} (${(blob.size / 1024).toFixed(2)} KB)...`, 'info');
@@ -417,7 +419,7 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
 
             // Save metadata to Firestore for fast querying
             if (user) {
-              const { dateKey } = getPSTTime();
+              const { dateKey } = getStationTime();
 
               // Save to Firestore (for admin recordings page)
               // Use sessionId as document ID to prevent duplicates on retry
@@ -467,30 +469,24 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
 
           // Find speaker device
           const speaker = devices.find(d => d.id === speakerId);
-          if (!speaker || !speaker.ipAddress || !speaker.apiPassword) {
-            addLog(`⚠️  Speaker ${speakerId} not found or missing credentials - skipping volume set`, 'warning');
+          if (!speaker || !speaker.ipAddress) {
+            addLog(`⚠️  Speaker ${speakerId} not found or missing IP - skipping volume set`, 'warning');
             return;
           }
 
-          // Use speaker's maxVolume setting from /live-v2 page (NOT default volume from output page)
-          const speakerMaxVolume = speaker.maxVolume ?? 100;
-
-          // Convert to level (0-10) and then to dB
-          // Formula: dB = (level - 10) * 3
-          // Level 7 (70%) = -9dB, Level 10 (100%) = 0dB
-          let volumeDbString: string;
-          const volumeScale = Math.round((speakerMaxVolume / 100) * 10);
-          const volumeDb = (volumeScale - 10) * 3;
-          volumeDbString = volumeDb === 0 ? "0dB" : `${volumeDb}dB`;
+          // volumePercent of the speaker's operating volume - its maxVolume from
+          // /live-v2 (NOT default volume from output page), capped by its zone
+          const { dbString: volumeDbString, level: volumeScale } = resolveSpeakerVolume(volumePercent, speaker, {
+            idleVolumeDb: getIdleVolume(),
+            zones,
+          });
 
           try {
             const response = await fetch("/api/algo/settings", {
               method: "POST",
-              headers: { "Content-Type": "application/json" },
+              headers: await getAuthHeaders(),
               body: JSON.stringify({
-                ipAddress: speaker.ipAddress,
-                password: speaker.apiPassword,
-                authMethod: speaker.authMethod || 'basic',
+                deviceId: speaker.id,
                 settings: {
                   "audio.page.vol": volumeDbString,
                 },
@@ -525,7 +521,7 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
       console.error('Failed to start monitoring:', error);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedInputDevice, batchDuration, silenceTimeout, playbackDelay, hardwareGracePeriod, saveRecording, devices, selectedDevices, audioThreshold, emulationMode, emulationNetworkDelay]);
+  }, [selectedInputDevice, batchDuration, silenceTimeout, playbackDelay, hardwareGracePeriod, saveRecording, devices, zones, volumeProfiles, selectedDevices, audioThreshold, emulationMode, emulationNetworkDelay]);
 
   // Stop monitoring
   const stopMonitoring = useCallback(async () => {
@@ -564,43 +560,36 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     }
   }, [audioThreshold]);
 
+  // Relay input trigger - feed the selected 8301/8180 contacts to the recorder
+  const onRelayChange = useCallback((active: boolean) => {
+    recorderRef.current?.onRelayChange(active);
+  }, []);
+
+  useRelayTrigger({
+    enabled: isMonitoring && !emulationMode && usesRelayTrigger(relayTrigger.mode),
+    deviceIds: relayTrigger.deviceIds,
+    pollIntervalMs: relayTrigger.pollIntervalMs,
+    onChange: onRelayChange,
+  });
+
   // Set input device
   const setInputDevice = useCallback((deviceId: string) => {
     setSelectedInputDevice(deviceId);
   }, []);
 
-  // Helper to get PST time
-  const getPSTTime = () => {
-    const now = new Date();
-
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: 'America/Los_Angeles',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false,
-    });
-
-    const parts = formatter.formatToParts(now);
-    const year = parts.find(p => p.type === 'year')?.value || '';
-    const month = parts.find(p => p.type === 'month')?.value || '';
-    const day = parts.find(p => p.type === 'day')?.value || '';
-    const hour = parts.find(p => p.type === 'hour')?.value || '';
-    const minute = parts.find(p => p.type === 'minute')?.value || '';
-    const second = parts.find(p => p.type === 'second')?.value || '';
+  // Helper to get station time (timezone from Settings)
+  const getStationTime = () => {
+    const clock = getStationClock(new Date(), getStationTimezone());
 
-    const timestamp = `${hour}:${minute}:${second}`;
-    const dateKey = `${year}-${month}-${day}`;
+    const timestamp = `${clock.time}:${clock.seconds}`;
+    const dateKey = clock.date;
 
     return { timestamp, dateKey };
   };
 
   // Add log (write to Firebase RTDB for activity page)
   const addLog = useCallback((message: string, type: 'info' | 'error' | 'warning') => {
-    const { timestamp, dateKey } = getPSTTime();
+    const { timestamp, dateKey } = getStationTime();
     const logEntry = { timestamp, message, type };
 
     // Add to local state (for console/debugging)
@@ -676,11 +665,9 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
         speakers.map(async (speaker) => {
           const response = await fetch("/api/algo/settings", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await getAuthHeaders(),
             body: JSON.stringify({
-              ipAddress: speaker.ipAddress,
-              password: speaker.apiPassword || speaker.password,
-              authMethod: speaker.authMethod || 'basic',
+              deviceId: speaker.id,
               settings: {
                 "mcast.zone1": zoneIP,
               },
@@ -773,8 +760,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     rampEnabled,
     rampDuration,
     dayNightMode,
-    dayStartHour,
-    dayEndHour,
     nightRampDuration,
 
     // Playback Volume Settings
@@ -789,8 +774,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     playbackRampTargetVolume,
     playbackSessionRampDuration,
     playbackRampScheduleEnabled,
-    playbackRampStartHour,
-    playbackRampEndHour,
 
     // Recording & Playback
     saveRecording,
@@ -802,6 +785,8 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     devices,
     selectedDevices,
     poeDevices,
+    zones,
+    volumeProfiles,
     speakerStatuses,
 
     // Emulation
@@ -823,8 +808,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     setRampEnabled,
     setRampDuration,
     setDayNightMode,
-    setDayStartHour,
-    setDayEndHour,
     setNightRampDuration,
     setPlaybackRampDuration,
     setPlaybackStartVolume,
@@ -835,8 +818,6 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     setPlaybackRampTargetVolume,
     setPlaybackSessionRampDuration,
     setPlaybackRampScheduleEnabled,
-    setPlaybackRampStartHour,
-    setPlaybackRampEndHour,
     setSaveRecording,
     setRecordingEnabled: setSaveRecording, // Alias
     setLoggingEnabled,
@@ -844,6 +825,8 @@ export function SimpleMonitoringProvider({ children }: { children: React.ReactNo
     setDevices,
     setSelectedDevices,
     setPoeDevices,
+    setZones,
+    setVolumeProfiles,
     setEmulationMode,
     setEmulationNetworkDelay,
     onAudioDetected,
@@ -30,6 +30,8 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
   const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const analyserNodeRef = useRef<AnalyserNode | null>(null);
+  const announcementBusRef = useRef<GainNode | null>(null);
+  const callStreamRef = useRef<MediaStream | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
   const animationFrameRef = useRef<number | null>(null);
@@ -132,6 +134,16 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
       sourceNode.connect(gainNode);
       gainNode.connect(analyserNode);
 
+      // Call stream: the input plus spoken announcements, so an announcement
+      // is detected, recorded and played back exactly like a live call
+      const callDestination = audioContext.createMediaStreamDestination();
+      sourceNode.connect(callDestination);
+      const announcementBus = audioContext.createGain();
+      announcementBus.connect(callDestination);
+      announcementBus.connect(analyserNode);
+      announcementBusRef.current = announcementBus;
+      callStreamRef.current = callDestination.stream;
+
       // Set capturing flag BEFORE starting animation frame
       isCapturingRef.current = true;
       setState((prev) => ({ ...prev, isCapturing: true }));
@@ -184,6 +196,8 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
     sourceNodeRef.current = null;
     gainNodeRef.current = null;
     analyserNodeRef.current = null;
+    announcementBusRef.current = null;
+    callStreamRef.current = null;
     recordedChunksRef.current = [];
 
     setState({
@@ -276,6 +290,29 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
     }
   }, [state.isRecording, state.isPaused]);
 
+  /**
+   * Play audio (any format the browser decodes) into the call stream.
+   * Resolves with its duration once it has finished playing.
+   */
+  const playIntoCallStream = useCallback(async (audio: ArrayBuffer): Promise<number> => {
+    const audioContext = audioContextRef.current;
+    const bus = announcementBusRef.current;
+    if (!audioContext || !bus) {
+      throw new Error("Start monitoring first");
+    }
+
+    const buffer = await audioContext.decodeAudioData(audio);
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(bus);
+    await new Promise<void>((resolve) => {
+      source.onended = () => resolve();
+      source.start();
+    });
+    source.disconnect();
+    return buffer.duration;
+  }, []);
+
   const getInputDevices = useCallback(async () => {
     try {
       const devices = await navigator.mediaDevices.enumerateDevices();
@@ -296,6 +333,8 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
     resumeRecording,
     setVolume,
     getInputDevices,
+    playIntoCallStream,
     mediaStream: mediaStreamRef.current, // Expose the monitoring stream
+    callStream: callStreamRef.current,   // Monitoring stream plus announcements - what calls record
   };
 }
@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { isRelayTriggerActive } from "@/lib/algo/relay-trigger";
+import type { RelayInputReading } from "@/lib/algo/types";
+import { getAuthHeaders } from "@/lib/firebase/auth-headers";
+
+interface UseRelayTriggerOptions {
+  enabled: boolean;
+  deviceIds: string[];
+  pollIntervalMs: number;
+  // Called after every read - coordinators ignore repeats of the same state
+  onChange: (active: boolean, readings: RelayInputReading[]) => void;
+}
+
+/**
+ * Poll the selected 8301/8180 relay inputs while monitoring is running
+ * A failed read keeps the last known state, so a network blip can't end a call
+ */
+export function useRelayTrigger({ enabled, deviceIds, pollIntervalMs, onChange }: UseRelayTriggerOptions) {
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  const deviceKey = deviceIds.join(",");
+
+  useEffect(() => {
+    if (!enabled || !deviceKey) return;
+
+    let cancelled = false;
+    let inFlight = false;
+
+    const poll = async () => {
+      // Never stack reads behind a slow device
+      if (inFlight) return;
+      inFlight = true;
+      try {
+        const response = await fetch("/api/algo/relay", {
+          method: "POST",
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({ deviceIds: deviceKey.split(",") }),
+        });
+        if (!response.ok || cancelled) return;
+
+        const data: { readings: RelayInputReading[] } = await response.json();
+        // No unit answered - keep the last known state
+        if (data.readings.every((reading) => reading.state === "unknown")) return;
+        if (!cancelled) {
+          onChangeRef.current(isRelayTriggerActive(data.readings), data.readings);
+        }
+      } catch (error) {
+        console.error("[RelayTrigger] Failed to read relay inputs:", error);
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, pollIntervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled, deviceKey, pollIntervalMs]);
+}
@@ -26,8 +26,6 @@ export function useSessionSync() {
     disableDelay,
     selectedInputDevice,
     dayNightMode,
-    dayStartHour,
-    dayEndHour,
     nightRampDuration,
     loggingEnabled,
     recordingEnabled,
@@ -54,8 +52,6 @@ export function useSessionSync() {
     setDisableDelay,
     setInputDevice,
     setDayNightMode,
-    setDayStartHour,
-    setDayEndHour,
     setNightRampDuration,
     setLoggingEnabled,
     setRecordingEnabled,
@@ -94,8 +90,6 @@ export function useSessionSync() {
     if (disableDelay !== undefined) stateToSync.disableDelay = disableDelay;
     if (selectedInputDevice !== undefined) stateToSync.selectedInputDevice = selectedInputDevice;
     if (dayNightMode !== undefined) stateToSync.dayNightMode = dayNightMode;
-    if (dayStartHour !== undefined) stateToSync.dayStartHour = dayStartHour;
-    if (dayEndHour !== undefined) stateToSync.dayEndHour = dayEndHour;
     if (nightRampDuration !== undefined) stateToSync.nightRampDuration = nightRampDuration;
     if (loggingEnabled !== undefined) stateToSync.loggingEnabled = loggingEnabled;
     if (recordingEnabled !== undefined) stateToSync.recordingEnabled = recordingEnabled;
@@ -124,8 +118,6 @@ export function useSessionSync() {
     disableDelay,
     selectedInputDevice,
     dayNightMode,
-    dayStartHour,
-    dayEndHour,
     nightRampDuration,
     loggingEnabled,
     recordingEnabled,
@@ -219,14 +211,6 @@ export function useSessionSync() {
       setDayNightMode(sessionState.dayNightMode);
     }
 
-    if (sessionState.dayStartHour !== undefined && sessionState.dayStartHour !== dayStartHour) {
-      setDayStartHour(sessionState.dayStartHour);
-    }
-
-    if (sessionState.dayEndHour !== undefined && sessionState.dayEndHour !== dayEndHour) {
-      setDayEndHour(sessionState.dayEndHour);
-    }
-
     if (sessionState.nightRampDuration !== undefined && sessionState.nightRampDuration !== nightRampDuration) {
       setNightRampDuration(sessionState.nightRampDuration);
     }
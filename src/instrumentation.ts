@@ -0,0 +1,19 @@
+/**
+ * Runs once when the Next.js server starts (dev, `next start` and the
+ * Electron server alike)
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startHealthMonitor } = await import("@/lib/health/monitor");
+    startHealthMonitor();
+
+    const { replayPendingSettings } = await import("@/lib/commands/device-commands");
+    void replayPendingSettings();
+
+    const { startSipCallScheduler } = await import("@/lib/sip/scheduler");
+    startSipCallScheduler();
+
+    const { startAnnouncementScheduler } = await import("@/lib/announcements/scheduler");
+    startAnnouncementScheduler();
+  }
+}
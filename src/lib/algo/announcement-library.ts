@@ -0,0 +1,105 @@
+import type { AlgoDeviceType, AudioFile } from "./types";
+
+/**
+ * Announcement Library
+ * The owner's WAV announcements (`audioFiles` documents backed by Firebase
+ * Storage) and which of them each Algo unit holds in its tones folder. A
+ * device is in sync when every library file is there at the library size;
+ * anything else in the folder that isn't a factory tone is an orphan.
+ * Pure functions only - the server side of the sync is `src/lib/library/sync.ts`.
+ */
+
+// Folder on the device that tone playback reads from
+export const LIBRARY_FOLDER = "tones";
+
+// Default tones that come pre-installed on Algo devices - never pushed or removed
+export const DEFAULT_TONES = [
+  "bell-na.wav",
+  "bell-uk.wav",
+  "buzzer.wav",
+  "chime.wav",
+  "dogs.wav",
+  "gong.wav",
+  "page-notif.wav",
+  "speech-test.wav",
+  "tone-1kHz-max.wav",
+  "warble1-low.wav",
+  "warble2-med.wav",
+  "warble3-high.wav",
+  "warble4-trill.wav",
+];
+
+export type LibraryFile = Pick<AudioFile, "id" | "name" | "filename" | "storageUrl" | "fileSize">;
+
+export interface LibrarySyncPlan {
+  present: string[];      // On the device (at the library size, if sizes were checked)
+  missing: string[];      // In the library, not on the device
+  sizeMismatch: string[]; // On the device at a different size - pushed again
+  orphans: string[];      // On the device, not in the library and not a default tone
+}
+
+export interface LibraryDeviceReport extends LibrarySyncPlan {
+  deviceId: string;
+  deviceName: string;
+  type: AlgoDeviceType;
+  ipAddress: string;
+  pushed: string[];  // Uploaded during this sync
+  removed: string[]; // Orphans deleted during this sync
+  failed: { filename: string; error: string }[];
+  inSync: boolean;   // Nothing missing or mismatched after the sync
+  error?: string;    // Unreachable / auth failed
+}
+
+/**
+ * The name a tone path refers to ("tones/chime.wav" -> "chime.wav")
+ */
+export function toneFilename(path: string): string {
+  return path.split("/").filter(Boolean).pop() ?? "";
+}
+
+/**
+ * Whether a filename can be stored on an Algo unit and played as a tone
+ */
+export function isValidLibraryFilename(filename: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]*\.wav$/i.test(filename) && filename.length <= 64;
+}
+
+/**
+ * Audio files that belong in the library (WAVs with a storage copy)
+ */
+export function getLibraryFiles<T extends LibraryFile>(audioFiles: T[]): T[] {
+  return audioFiles.filter(
+    (file) => isValidLibraryFilename(file.filename) && !!file.storageUrl && !DEFAULT_TONES.includes(file.filename)
+  );
+}
+
+/**
+ * Compare the library with a device's file list. Sizes (bytes by filename)
+ * are optional - files without a reported size count as present.
+ */
+export function planLibrarySync(
+  library: Pick<LibraryFile, "filename" | "fileSize">[],
+  deviceFiles: string[],
+  deviceSizes: Record<string, number> = {}
+): LibrarySyncPlan {
+  const onDevice = new Set(deviceFiles);
+  const plan: LibrarySyncPlan = { present: [], missing: [], sizeMismatch: [], orphans: [] };
+
+  for (const file of library) {
+    if (!onDevice.has(file.filename)) {
+      plan.missing.push(file.filename);
+    } else if (deviceSizes[file.filename] !== undefined && deviceSizes[file.filename] !== file.fileSize) {
+      plan.sizeMismatch.push(file.filename);
+    } else {
+      plan.present.push(file.filename);
+    }
+  }
+
+  const inLibrary = new Set(library.map((file) => file.filename));
+  plan.orphans = deviceFiles.filter((name) => !inLibrary.has(name) && !DEFAULT_TONES.includes(name));
+  return plan;
+}
+
+export function isPlanInSync(plan: Pick<LibrarySyncPlan, "missing" | "sizeMismatch">): boolean {
+  return plan.missing.length === 0 && plan.sizeMismatch.length === 0;
+}
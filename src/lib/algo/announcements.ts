@@ -0,0 +1,145 @@
+import type { AlgoDevice, AnnouncementBlackout, ScheduledAnnouncement, Zone } from "./types";
+import { DEFAULT_STATION_TIMEZONE, WEEKDAY_LABELS, getStationClock, isValidWallClockTime } from "./station-time";
+import { isValidLibraryFilename } from "./announcement-library";
+
+/**
+ * Scheduled Announcements
+ * One-off and weekly tones/announcements played through a paging adapter to
+ * a set of zones, with blackout windows when they must stay quiet. Pure
+ * functions only - plays run in `src/lib/announcements/player.ts`.
+ */
+
+// Longest a looped announcement may run before the scheduler stops it
+export const MAX_ANNOUNCEMENT_LOOP_SECONDS = 600;
+
+export function newScheduledAnnouncement(pagingDeviceId: string): ScheduledAnnouncement {
+  return {
+    id: `announcement-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: "Shift change",
+    tone: "chime.wav",
+    pagingDeviceId,
+    zoneIds: [],
+    volume: 80,
+    loop: false,
+    repeat: "weekly",
+    time: "08:00",
+    days: [0, 1, 2, 3, 4, 5, 6],
+    blackouts: [],
+    enabled: true,
+  };
+}
+
+export function newAnnouncementBlackout(): AnnouncementBlackout {
+  return { start: "22:00", end: "06:00", days: [] };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function blackoutAppliesOn(blackout: AnnouncementBlackout, weekday: number): boolean {
+  return blackout.days.length === 0 || blackout.days.includes(weekday);
+}
+
+/**
+ * The blackout window covering an instant (station time), or null. A window
+ * that runs past midnight belongs to the day it starts on.
+ */
+export function getActiveBlackout(
+  blackouts: AnnouncementBlackout[],
+  at: Date,
+  timeZone = DEFAULT_STATION_TIMEZONE
+): AnnouncementBlackout | null {
+  const clock = getStationClock(at, timeZone);
+  const minute = toMinutes(clock.time);
+  const yesterday = (clock.weekday + 6) % 7;
+
+  return blackouts.find((blackout) => {
+    const start = toMinutes(blackout.start);
+    const end = toMinutes(blackout.end);
+    if (start === end) {
+      return blackoutAppliesOn(blackout, clock.weekday);
+    }
+    if (start < end) {
+      return blackoutAppliesOn(blackout, clock.weekday) && minute >= start && minute < end;
+    }
+    return (blackoutAppliesOn(blackout, clock.weekday) && minute >= start) ||
+      (blackoutAppliesOn(blackout, yesterday) && minute < end);
+  }) ?? null;
+}
+
+export function describeBlackout(blackout: AnnouncementBlackout): string {
+  const days = blackout.days.length === 0 || blackout.days.length === 7
+    ? "Every day"
+    : [...blackout.days].sort().map((d) => WEEKDAY_LABELS[d]).join(", ");
+  const hours = blackout.start === blackout.end ? "all day" : `${blackout.start}-${blackout.end}`;
+  return `${days} ${hours}`;
+}
+
+/**
+ * Speakers that receive an announcement: every device in its zones except
+ * the paging adapter that plays it
+ */
+export function getAnnouncementSpeakerIds(
+  announcement: Pick<ScheduledAnnouncement, "zoneIds" | "pagingDeviceId">,
+  zones: Pick<Zone, "id" | "deviceIds">[]
+): string[] {
+  const ids = zones
+    .filter((zone) => announcement.zoneIds.includes(zone.id))
+    .flatMap((zone) => zone.deviceIds);
+  return [...new Set(ids)].filter((id) => id !== announcement.pagingDeviceId);
+}
+
+/**
+ * Problems that would stop an announcement from playing (empty = valid)
+ */
+export function validateScheduledAnnouncement(
+  announcement: ScheduledAnnouncement,
+  devices: Pick<AlgoDevice, "id" | "type">[],
+  zones: Pick<Zone, "id">[]
+): string[] {
+  const errors: string[] = [];
+  if (!announcement.name.trim()) {
+    errors.push("Name is required");
+  }
+  if (!isValidLibraryFilename(announcement.tone)) {
+    errors.push("Pick a WAV tone or library announcement");
+  }
+  const paging = devices.find((d) => d.id === announcement.pagingDeviceId);
+  if (!paging) {
+    errors.push("Paging device not found");
+  } else if (paging.type !== "8301") {
+    errors.push("Announcements play through an 8301 paging adapter");
+  }
+  if (announcement.zoneIds.length === 0) {
+    errors.push("Pick at least one zone");
+  } else if (announcement.zoneIds.some((id) => !zones.some((z) => z.id === id))) {
+    errors.push("Zone not found");
+  }
+  if (!Number.isInteger(announcement.volume) || announcement.volume < 1 || announcement.volume > 100) {
+    errors.push("Volume must be 1-100%");
+  }
+  if (announcement.loop) {
+    const seconds = announcement.maxDurationSeconds;
+    if (!Number.isInteger(seconds) || seconds! < 1 || seconds! > MAX_ANNOUNCEMENT_LOOP_SECONDS) {
+      errors.push(`A looped announcement needs a duration of 1-${MAX_ANNOUNCEMENT_LOOP_SECONDS} seconds`);
+    }
+  }
+  if (!isValidWallClockTime(announcement.time)) {
+    errors.push("Time must be HH:MM (24-hour)");
+  }
+  if (announcement.repeat === "once" && !/^\d{4}-\d{2}-\d{2}$/.test(announcement.date ?? "")) {
+    errors.push("Date is required for a one-off announcement");
+  }
+  if (announcement.repeat === "weekly" && (announcement.days ?? []).length === 0) {
+    errors.push("Pick at least one day");
+  }
+  for (const blackout of announcement.blackouts) {
+    if (!isValidWallClockTime(blackout.start) || !isValidWallClockTime(blackout.end)) {
+      errors.push("Blackout times must be HH:MM (24-hour)");
+      break;
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,72 @@
+/**
+ * Audio Formats
+ * Recognizes uploaded audio by its first bytes rather than its name, and
+ * checks an upload before it's transcoded to a speaker WAV. WAV is decoded
+ * directly; the other formats need ffmpeg on the server. Pure functions
+ * only - transcoding runs in `src/lib/audio/transcode.ts`.
+ */
+
+export type AudioFormat = "wav" | "aiff" | "mp3" | "ogg" | "flac" | "m4a" | "webm";
+
+export const AUDIO_FORMAT_LABELS: Record<AudioFormat, string> = {
+  wav: "WAV",
+  aiff: "AIFF",
+  mp3: "MP3",
+  ogg: "Ogg",
+  flac: "FLAC",
+  m4a: "M4A/AAC",
+  webm: "WebM",
+};
+
+// For file pickers - the server checks the bytes, not the extension
+export const AUDIO_UPLOAD_ACCEPT = ".wav,.aif,.aiff,.mp3,.ogg,.oga,.opus,.flac,.m4a,.aac,.webm,audio/*";
+
+// Largest upload accepted
+export const MAX_AUDIO_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// Longest tone the library or a device takes, after trimming
+export const MAX_TONE_SECONDS = 600;
+
+function startsWith(data: Uint8Array, offset: number, tag: string): boolean {
+  if (data.length < offset + tag.length) return false;
+  for (let i = 0; i < tag.length; i++) {
+    if (data[offset + i] !== tag.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * The container an upload really is, or null if it isn't audio we know
+ */
+export function detectAudioFormat(data: Uint8Array): AudioFormat | null {
+  if ((startsWith(data, 0, "RIFF") || startsWith(data, 0, "RF64")) && startsWith(data, 8, "WAVE")) return "wav";
+  if (startsWith(data, 0, "FORM") && (startsWith(data, 8, "AIFF") || startsWith(data, 8, "AIFC"))) return "aiff";
+  if (startsWith(data, 0, "OggS")) return "ogg";
+  if (startsWith(data, 0, "fLaC")) return "flac";
+  if (startsWith(data, 4, "ftyp")) return "m4a";
+  if (data.length >= 4 && data[0] === 0x1a && data[1] === 0x45 && data[2] === 0xdf && data[3] === 0xa3) return "webm";
+  // ID3 tag, or a bare MPEG audio frame sync
+  if (startsWith(data, 0, "ID3") || (data.length >= 2 && data[0] === 0xff && (data[1] & 0xe0) === 0xe0)) return "mp3";
+  return null;
+}
+
+/**
+ * The WAV name an upload is stored under ("Shift Change.mp3" -> "Shift-Change.wav")
+ */
+export function toToneFilename(name: string): string {
+  const base = name.replace(/\.[^.]*$/, "").trim().replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^[^A-Za-z0-9]+/, "");
+  return `${base.slice(0, 60) || "tone"}.wav`;
+}
+
+export function validateAudioUpload(data: Uint8Array): string | null {
+  if (data.length === 0) {
+    return "The file is empty";
+  }
+  if (data.length > MAX_AUDIO_UPLOAD_BYTES) {
+    return `Files must be under ${MAX_AUDIO_UPLOAD_BYTES / 1024 / 1024} MB`;
+  }
+  if (!detectAudioFormat(data)) {
+    return `Not an audio file we can read (${Object.values(AUDIO_FORMAT_LABELS).join(", ")})`;
+  }
+  return null;
+}
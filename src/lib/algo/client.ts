@@ -21,6 +21,7 @@ interface AlgoClientOptions {
   password: string;
   authMethod: AlgoAuthMethod;
   useHttps?: boolean;
+  timeoutMs?: number; // Abort requests that take longer (default: no limit)
 }
 
 /**
@@ -78,43 +79,45 @@ export class AlgoClient {
   private password: string;
   private authMethod: AlgoAuthMethod;
   private baseUrl: string;
+  private timeoutMs?: number;
 
   constructor(options: AlgoClientOptions) {
     this.ipAddress = options.ipAddress;
     this.password = options.password;
     this.authMethod = options.authMethod;
+    this.timeoutMs = options.timeoutMs;
     // Use HTTP by default to avoid self-signed cert issues
     const protocol = options.useHttps === true ? "https" : "http";
     this.baseUrl = `${protocol}://${this.ipAddress}`;
   }
 
   /**
-   * Make an authenticated request to the Algo device
+   * Authentication headers for a JSON (or empty) request
    */
-  private async request<T>(
-    method: "GET" | "POST" | "PUT" | "DELETE",
-    uri: string,
-    body?: object
-  ): Promise<T> {
-    let headers: HeadersInit;
-
+  private authHeaders(method: string, uri: string, body?: object): HeadersInit {
     switch (this.authMethod) {
       case "standard":
-        headers = generateStandardAuthHeaders(method, uri, body, this.password);
-        break;
+        return generateStandardAuthHeaders(method, uri, body, this.password);
       case "basic":
-        headers = generateBasicAuthHeaders(this.password);
-        break;
+        return generateBasicAuthHeaders(this.password);
       case "none":
       default:
-        headers = { "Content-Type": "application/json" };
-        break;
+        return { "Content-Type": "application/json" };
     }
+  }
 
+  /**
+   * Make an authenticated request to the Algo device
+   */
+  private async request<T>(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    uri: string,
+    body?: object
+  ): Promise<T> {
     const url = `${this.baseUrl}${uri}`;
     const options: RequestInit = {
       method,
-      headers,
+      headers: this.authHeaders(method, uri, body),
       // Skip SSL verification for self-signed certs (common on Algo devices)
       // Note: In production, you'd want proper SSL handling
     };
@@ -122,6 +125,9 @@ export class AlgoClient {
     if (body) {
       options.body = JSON.stringify(body);
     }
+    if (this.timeoutMs) {
+      options.signal = AbortSignal.timeout(this.timeoutMs);
+    }
 
     const response = await fetch(url, options);
 
@@ -249,6 +255,14 @@ export class AlgoClient {
     return this.request<{ version: string }>("POST", "/api/controls/upgrade/check");
   }
 
+  /**
+   * Install the firmware reported by checkFirmware()
+   * The device reboots and is unreachable for a few minutes
+   */
+  async startFirmwareUpgrade(): Promise<void> {
+    await this.request<void>("POST", "/api/controls/upgrade/start");
+  }
+
   /**
    * Restore factory defaults
    */
@@ -310,6 +324,26 @@ export class AlgoClient {
     }
   }
 
+  /**
+   * Download a file from the device (e.g. to check its size)
+   */
+  async downloadFile(folder: string, filename: string): Promise<Buffer> {
+    const uri = `/api/files/${folder}/${filename}`;
+    const options: RequestInit = {
+      method: "GET",
+      headers: this.authHeaders("GET", uri),
+    };
+    if (this.timeoutMs) {
+      options.signal = AbortSignal.timeout(this.timeoutMs);
+    }
+
+    const response = await fetch(`${this.baseUrl}${uri}`, options);
+    if (!response.ok) {
+      throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
   /**
    * Delete a file from the device
    */
@@ -0,0 +1,124 @@
+import type { AlgoAuthMethod, AlgoDevice, AlgoDeviceType } from "./types";
+
+/**
+ * Device Discovery
+ * Range parsing, model mapping and MAC matching for the network scanner.
+ * Pure functions only - the probing happens in /api/algo/scan.
+ */
+
+export interface DiscoveredDevice {
+  ipAddress: string;
+  type: AlgoDeviceType;
+  productName?: string;
+  firmwareVersion?: string;
+  macAddress?: string;          // Normalized, e.g. "00:22:ee:01:02:03"
+  authMethod?: AlgoAuthMethod;  // The one that answered
+  passwordFromDeviceId?: string; // Answered to this stored device's vault password, not the scan password
+  authRequired?: boolean;       // Answered 401 to every password tried - can't be identified
+  existingDeviceId?: string;    // Already stored (matched by MAC, then IP)
+  previousIpAddress?: string;   // Stored IP before this scan moved it (DHCP change)
+}
+
+// Streamed to the client one JSON object per line
+export type ScanEvent =
+  | { type: "start"; range: string; total: number }
+  | { type: "progress"; scanned: number; total: number }
+  | { type: "device"; device: DiscoveredDevice }
+  | { type: "done"; scanned: number; found: number; updated: number }
+  | { type: "error"; error: string };
+
+// Larger ranges take minutes and flood the network - split them up instead
+export const MAX_SCAN_HOSTS = 4096; // A /20
+
+export interface ParsedRange {
+  cidr: string;  // Normalized, e.g. "10.0.4.0/22"
+  first: number; // First host (network address excluded)
+  last: number;  // Last host (broadcast excluded)
+  count: number;
+}
+
+function ipToInt(ip: string): number | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+export function intToIp(value: number): string {
+  return [value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].join(".");
+}
+
+/**
+ * "10.0.4.0/22", a single address, or the old "192.168.68" (= /24)
+ */
+export function parseScanRange(range: string): ParsedRange {
+  let input = range.trim();
+  if (/^\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(input)) {
+    input = `${input}.0/24`;
+  }
+
+  const [address, prefixText = "32"] = input.split("/");
+  const base = ipToInt(address);
+  const prefix = Number(prefixText);
+  if (base === null || !/^\d{1,2}$/.test(prefixText) || prefix > 32) {
+    throw new Error(`Invalid range "${range}" - use CIDR notation, e.g. 192.168.1.0/24`);
+  }
+
+  const size = 2 ** (32 - prefix);
+  const network = Math.floor(base / size) * size;
+  // /31 and /32 have no network/broadcast address to skip
+  const first = prefix >= 31 ? network : network + 1;
+  const last = prefix >= 31 ? network + size - 1 : network + size - 2;
+  const count = last - first + 1;
+
+  if (count > MAX_SCAN_HOSTS) {
+    throw new Error(`Range ${intToIp(network)}/${prefix} has ${count} hosts - the limit is ${MAX_SCAN_HOSTS} (a /20)`);
+  }
+
+  return { cidr: `${intToIp(network)}/${prefix}`, first, last, count };
+}
+
+export function* rangeAddresses(range: ParsedRange): Generator<string> {
+  for (let value = range.first; value <= range.last; value++) {
+    yield intToIp(value);
+  }
+}
+
+/**
+ * "8180G2 IP Audio Alerter" → "8180g2"
+ */
+export function deviceTypeFromProductName(productName: string | undefined): AlgoDeviceType {
+  const name = productName ?? "";
+  if (/8301/.test(name)) return "8301";
+  if (/8180/.test(name)) return "8180g2";
+  if (/8198/.test(name)) return "8198";
+  if (/8128/.test(name)) return "8128";
+  if (/8138/.test(name)) return "8138";
+  return "other";
+}
+
+export function normalizeMac(mac: string | undefined): string | undefined {
+  const hex = (mac ?? "").replace(/[^0-9a-f]/gi, "").toLowerCase();
+  return hex.length === 12 ? hex.match(/../g)!.join(":") : undefined;
+}
+
+/**
+ * The stored device a scan result belongs to - MAC first, since DHCP can
+ * hand a known unit a new address; IP only when one side has no MAC (records
+ * saved before MACs were stored, or a unit that wouldn't let us log in)
+ */
+export function matchStoredDevice(
+  found: Pick<DiscoveredDevice, "ipAddress" | "macAddress">,
+  stored: Pick<AlgoDevice, "id" | "ipAddress" | "macAddress">[]
+): Pick<AlgoDevice, "id" | "ipAddress" | "macAddress"> | undefined {
+  if (found.macAddress) {
+    const byMac = stored.find((d) => normalizeMac(d.macAddress) === found.macAddress);
+    if (byMac) return byMac;
+  }
+  // A different MAC at a known IP is a different unit
+  return stored.find((d) => d.ipAddress === found.ipAddress && (!d.macAddress || !found.macAddress));
+}
@@ -0,0 +1,120 @@
+import type {
+  AlgoDevice,
+  AlgoDeviceType,
+  DoorActionPhase,
+  DoorActionRule,
+  DoorActionTrigger,
+  DoorActionType,
+  RelayInputState,
+} from "./types";
+
+/**
+ * Door / Relay Actions
+ * Which door rules a call fires, rule validation, and relay input parsing.
+ * Pure functions only - the device calls happen in `src/lib/doors/actions.ts`.
+ */
+
+export const DOOR_ACTION_LABELS: Record<DoorActionType, string> = {
+  momentary_unlock: "Momentary unlock",
+  unlock: "Unlock",
+  lock: "Lock",
+};
+
+export const DOOR_TRIGGER_LABELS: Record<DoorActionTrigger, string> = {
+  fire: "🔥 Fire call",
+  medical: "🏥 Medical call",
+  allCall: "📢 All call",
+  anyCall: "Any call",
+};
+
+// "Unlock for 10s when <phrase> starts"
+const DOOR_TRIGGER_PHRASES: Record<DoorActionTrigger, string> = {
+  fire: "a fire call",
+  medical: "a medical call",
+  allCall: "an all call",
+  anyCall: "any call",
+};
+
+export const DOOR_PHASE_LABELS: Record<DoorActionPhase, string> = {
+  start: "starts",
+  end: "ends",
+};
+
+// The door controller's own limit for a momentary unlock
+export const MAX_MOMENTARY_UNLOCK_SECONDS = 60;
+
+export function newDoorActionRule(deviceId: string): DoorActionRule {
+  return {
+    id: `door-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: "Apparatus bay door",
+    deviceId,
+    doorId: "local",
+    action: "momentary_unlock",
+    durationSeconds: 10,
+    trigger: "fire",
+    phase: "start",
+    enabled: true,
+  };
+}
+
+/**
+ * Problems that would stop a rule from running (empty = valid)
+ */
+export function validateDoorActionRule(
+  rule: DoorActionRule,
+  devices: Pick<AlgoDevice, "id">[]
+): string[] {
+  const errors: string[] = [];
+  if (!rule.name.trim()) {
+    errors.push("Name is required");
+  }
+  if (!devices.some((d) => d.id === rule.deviceId)) {
+    errors.push("Door controller device not found");
+  }
+  if (rule.action === "momentary_unlock") {
+    const seconds = rule.durationSeconds;
+    if (!Number.isInteger(seconds) || seconds! < 1 || seconds! > MAX_MOMENTARY_UNLOCK_SECONDS) {
+      errors.push(`Unlock duration must be 1-${MAX_MOMENTARY_UNLOCK_SECONDS} seconds`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Enabled rules for a call of this type - "anyCall" rules match every call,
+ * and a single-input call (trigger "anyCall") only matches those
+ */
+export function getMatchingDoorRules(
+  rules: DoorActionRule[],
+  trigger: DoorActionTrigger,
+  phase: DoorActionPhase
+): DoorActionRule[] {
+  return rules.filter(
+    (rule) => rule.enabled && rule.phase === phase && (rule.trigger === trigger || rule.trigger === "anyCall")
+  );
+}
+
+export function describeDoorRule(rule: Pick<DoorActionRule, "action" | "durationSeconds" | "trigger" | "phase">): string {
+  const action = rule.action === "momentary_unlock"
+    ? `Unlock for ${rule.durationSeconds}s`
+    : DOOR_ACTION_LABELS[rule.action];
+  return `${action} when ${DOOR_TRIGGER_PHRASES[rule.trigger]} ${DOOR_PHASE_LABELS[rule.phase]}`;
+}
+
+// Models with a relay (contact closure) input
+export const RELAY_INPUT_DEVICE_TYPES: AlgoDeviceType[] = ["8301", "8180g2", "8128", "8138"];
+
+export function hasRelayInput(device: Pick<AlgoDevice, "type">): boolean {
+  return RELAY_INPUT_DEVICE_TYPES.includes(device.type);
+}
+
+/**
+ * `input.relay.status` → active/idle
+ * Firmware reports "active"/"idle"; some builds use 1/0 or closed/open.
+ */
+export function parseRelayInput(status: string | undefined): RelayInputState {
+  const value = (status ?? "").trim().toLowerCase();
+  if (["active", "1", "closed", "on"].includes(value)) return "active";
+  if (["idle", "0", "open", "off", "inactive"].includes(value)) return "idle";
+  return "unknown";
+}
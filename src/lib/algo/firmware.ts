@@ -0,0 +1,280 @@
+import type { AlgoDeviceType } from "./types";
+
+/**
+ * Firmware Inventory & Staged Upgrade
+ * Grouping helpers for the inventory view, and the canary → batches upgrade
+ * runner. The runner only sequences and verifies; the page supplies the I/O
+ * (upgrade route, /api/algo/health, inventory route) through `deps`.
+ */
+
+export interface FirmwareInventoryEntry {
+  deviceId: string;
+  deviceName: string;
+  type: AlgoDeviceType;
+  ipAddress: string;
+  productName?: string;
+  firmwareVersion?: string;
+  availableVersion?: string; // From checkFirmware()
+  macAddress?: string;
+  error?: string;            // Unreachable / auth failed
+}
+
+export interface FirmwareGroup {
+  type: AlgoDeviceType;
+  firmwareVersion: string; // "unknown" if the device didn't answer
+  devices: FirmwareInventoryEntry[];
+}
+
+/**
+ * Numeric-aware version compare ("5.10.1" > "5.4.2")
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(/[.-]/);
+  const pb = b.split(/[.-]/);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const x = pa[i] ?? "0";
+    const y = pb[i] ?? "0";
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function hasUpdate(entry: FirmwareInventoryEntry): boolean {
+  return !!entry.firmwareVersion && !!entry.availableVersion &&
+    compareVersions(entry.availableVersion, entry.firmwareVersion) > 0;
+}
+
+/**
+ * Group by model, then version (newest first)
+ */
+export function groupInventory(entries: FirmwareInventoryEntry[]): FirmwareGroup[] {
+  const groups = new Map<string, FirmwareGroup>();
+  for (const entry of entries) {
+    const firmwareVersion = entry.firmwareVersion ?? "unknown";
+    const key = `${entry.type}|${firmwareVersion}`;
+    if (!groups.has(key)) {
+      groups.set(key, { type: entry.type, firmwareVersion, devices: [] });
+    }
+    groups.get(key)!.devices.push(entry);
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.type !== b.type
+      ? a.type.localeCompare(b.type)
+      : compareVersions(b.firmwareVersion, a.firmwareVersion)
+  );
+}
+
+/**
+ * [[canary], [batch 1], [batch 2], ...]
+ */
+export function planUpgradeStages(deviceIds: string[], canaryId: string, batchSize: number): string[][] {
+  const rest = deviceIds.filter((id) => id !== canaryId);
+  const size = Math.max(1, Math.floor(batchSize));
+  const stages: string[][] = [[canaryId]];
+  for (let i = 0; i < rest.length; i += size) {
+    stages.push(rest.slice(i, i + size));
+  }
+  return stages;
+}
+
+// ============ Staged Upgrade ============
+
+export type UpgradeStatus =
+  | "upgraded"          // Back online on a new version
+  | "unchanged"         // Back online, same version as before
+  | "failed_to_start"   // Upgrade request was rejected
+  | "did_not_return";   // Never passed a health check after upgrading
+
+export interface UpgradeDeviceResult {
+  deviceId: string;
+  deviceName: string;
+  stage: number; // 0 = canary
+  status: UpgradeStatus;
+  versionBefore?: string;
+  versionAfter?: string;
+  error?: string;
+}
+
+export interface StagedUpgradeReport {
+  startedAt: Date;
+  finishedAt: Date;
+  canaryId: string;
+  stages: Array<{ deviceIds: string[] }>; // Objects, not nested arrays - Firestore can't store those
+  results: UpgradeDeviceResult[];
+  halted: boolean;
+  haltReason?: string;
+  notAttempted: string[];  // Devices in stages that never ran
+  needsAttention: string[]; // Failed to start or didn't come back - check/reflash these by hand
+}
+
+export interface StagedUpgradeDevice {
+  id: string;
+  name: string;
+  firmwareVersion?: string;
+}
+
+export interface StagedUpgradeDeps {
+  startUpgrade: (deviceId: string) => Promise<void>;
+  checkHealth: (deviceIds: string[]) => Promise<Record<string, boolean>>; // online and auth OK
+  getVersions: (deviceIds: string[]) => Promise<Record<string, string | undefined>>;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface StagedUpgradeOptions {
+  batchSize?: number;       // Devices per stage after the canary (default: 3)
+  settleMs?: number;        // Wait after starting before the first health check (default: 60s)
+  healthTimeoutMs?: number; // Give up on a device after this long (default: 10min)
+  pollIntervalMs?: number;  // Between health checks (default: 15s)
+  signal?: AbortSignal;     // Stop before the next stage
+  onProgress?: (message: string) => void;
+}
+
+// A canary only passes once it reports a version above the one it started on
+function isNewerVersion(after: string | undefined, before: string | undefined): boolean {
+  return !!after && (!before || compareVersions(after, before) > 0);
+}
+
+/**
+ * Upgrade the canary, verify it's on a newer version, then the rest in
+ * batches - halting as soon as a stage has a unit that doesn't come back
+ */
+export async function runStagedUpgrade(
+  devices: StagedUpgradeDevice[],
+  canaryId: string,
+  deps: StagedUpgradeDeps,
+  options: StagedUpgradeOptions = {}
+): Promise<StagedUpgradeReport> {
+  const {
+    batchSize = 3,
+    settleMs = 60_000,
+    healthTimeoutMs = 600_000,
+    pollIntervalMs = 15_000,
+    signal,
+    onProgress = () => {},
+  } = options;
+  const sleep = deps.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const byId = new Map(devices.map((d) => [d.id, d]));
+
+  const startedAt = new Date();
+  const stages = planUpgradeStages(devices.map((d) => d.id), canaryId, batchSize);
+  const results: UpgradeDeviceResult[] = [];
+  let halted = false;
+  let haltReason: string | undefined;
+  let stageIndex = 0;
+
+  for (; stageIndex < stages.length; stageIndex++) {
+    if (signal?.aborted) {
+      halted = true;
+      haltReason = "Cancelled";
+      break;
+    }
+
+    const stage = stages[stageIndex];
+    const stageName = stageIndex === 0 ? "Canary" : `Batch ${stageIndex}/${stages.length - 1}`;
+    onProgress(`${stageName}: upgrading ${stage.map((id) => byId.get(id)?.name ?? id).join(", ")}`);
+
+    // Start every upgrade in the stage
+    const started: string[] = [];
+    for (const id of stage) {
+      try {
+        await deps.startUpgrade(id);
+        started.push(id);
+      } catch (error) {
+        results.push({
+          deviceId: id,
+          deviceName: byId.get(id)?.name ?? id,
+          stage: stageIndex,
+          status: "failed_to_start",
+          versionBefore: byId.get(id)?.firmwareVersion,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // Wait for the started units to pass /api/algo/health. The canary must
+    // also report a newer version - one still on its old image after the
+    // settle wait proves nothing about the new one.
+    const isCanary = stageIndex === 0;
+    const healthy = new Set<string>();
+    const versions: Record<string, string | undefined> = {};
+    const isDone = (id: string) =>
+      healthy.has(id) && (!isCanary || isNewerVersion(versions[id], byId.get(id)?.firmwareVersion));
+    if (started.length > 0) {
+      await sleep(settleMs);
+      let waited = settleMs;
+      while (!started.every(isDone)) {
+        const pending = started.filter((id) => !isDone(id));
+        try {
+          const health = await deps.checkHealth(pending);
+          pending.filter((id) => health[id]).forEach((id) => healthy.add(id));
+          if (isCanary) {
+            const answered = pending.filter((id) => healthy.has(id));
+            if (answered.length > 0) Object.assign(versions, await deps.getVersions(answered));
+          }
+        } catch (error) {
+          onProgress(`${stageName}: health check failed (${error instanceof Error ? error.message : error}), retrying`);
+        }
+        if (started.every(isDone) || waited >= healthTimeoutMs) break;
+        await sleep(pollIntervalMs);
+        waited += pollIntervalMs;
+      }
+    }
+
+    if (!isCanary && healthy.size > 0) {
+      Object.assign(versions, await deps.getVersions(Array.from(healthy)).catch(() => ({} as Record<string, string | undefined>)));
+    }
+    for (const id of started) {
+      const device = byId.get(id);
+      const versionAfter = versions[id];
+      const status: UpgradeStatus = !healthy.has(id)
+        ? "did_not_return"
+        : versionAfter && versionAfter !== device?.firmwareVersion
+          ? "upgraded"
+          : "unchanged";
+      results.push({
+        deviceId: id,
+        deviceName: device?.name ?? id,
+        stage: stageIndex,
+        status,
+        versionBefore: device?.firmwareVersion,
+        versionAfter,
+        ...(!healthy.has(id)
+          ? { error: `No healthy response within ${Math.round(healthTimeoutMs / 1000)}s` }
+          : !isDone(id)
+            ? { error: `Still reports ${versionAfter ?? "no version"} after ${Math.round(healthTimeoutMs / 1000)}s` }
+            : {}),
+      });
+    }
+
+    const failed = results.filter((r) =>
+      r.stage === stageIndex && (r.status === "did_not_return" || r.status === "failed_to_start" || !isDone(r.deviceId))
+    );
+    if (failed.length > 0) {
+      halted = true;
+      haltReason = `${stageName}: ${failed.map((r) => r.deviceName).join(", ")} failed - remaining stages skipped`;
+      onProgress(haltReason);
+      stageIndex++;
+      break;
+    }
+    onProgress(`${stageName}: all ${stage.length} unit(s) healthy`);
+  }
+
+  const notAttempted = stages.slice(stageIndex).flat();
+  const needsAttention = results
+    .filter((r) => r.status === "did_not_return" || r.status === "failed_to_start")
+    .map((r) => r.deviceId);
+
+  return {
+    startedAt,
+    finishedAt: new Date(),
+    canaryId,
+    stages: stages.map((deviceIds) => ({ deviceIds })),
+    results,
+    halted,
+    ...(haltReason ? { haltReason } : {}),
+    notAttempted,
+    needsAttention,
+  };
+}
@@ -0,0 +1,109 @@
+import type { DeviceAlertType, DeviceHealthDay, DeviceHealthSample } from "./types";
+
+/**
+ * Health Monitor Rules
+ * Turns a stream of health samples into alert raise/resolve decisions, and
+ * summarizes the stored history. Pure functions only - the polling side
+ * lives in `src/lib/health/monitor.ts` (server-only).
+ */
+
+export interface HealthAlertLimits {
+  offlineAfter: number;           // Consecutive failed checks before "offline" (default: 2)
+  maxTemperatureC: number;        // Raise "over_temperature" above this (default: 70)
+  temperatureHysteresisC: number; // Resolve only once it's this far back under the limit
+}
+
+export const DEFAULT_HEALTH_ALERT_LIMITS: HealthAlertLimits = {
+  offlineAfter: 2,
+  maxTemperatureC: 70,
+  temperatureHysteresisC: 3,
+};
+
+/**
+ * "38C", "38.5 C", "101F" → °C (undefined if it can't be read)
+ */
+export function parseTemperature(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*°?\s*([CF])?$/i);
+  if (!match) return undefined;
+  const reading = Number(match[1]);
+  return match[2]?.toUpperCase() === "F" ? Math.round(((reading - 32) * 5) / 9 * 10) / 10 : reading;
+}
+
+export interface AlertEvaluation {
+  raise: DeviceAlertType[];
+  resolve: DeviceAlertType[];
+}
+
+/**
+ * Compare the latest sample against the alerts already open for a device
+ * Anything the sample can't tell (auth/temperature while offline) leaves the
+ * open alert as it is.
+ */
+export function evaluateAlerts(
+  sample: DeviceHealthSample,
+  consecutiveFailures: number,
+  open: DeviceAlertType[],
+  limits: HealthAlertLimits = DEFAULT_HEALTH_ALERT_LIMITS
+): AlertEvaluation {
+  const active = new Map<DeviceAlertType, boolean | undefined>();
+
+  active.set("offline", sample.isOnline ? false : consecutiveFailures >= limits.offlineAfter ? true : undefined);
+  active.set("auth_failed", sample.isOnline && sample.authValid !== undefined ? !sample.authValid : undefined);
+
+  if (sample.temperatureC === undefined) {
+    active.set("over_temperature", undefined);
+  } else if (sample.temperatureC > limits.maxTemperatureC) {
+    active.set("over_temperature", true);
+  } else if (sample.temperatureC <= limits.maxTemperatureC - limits.temperatureHysteresisC) {
+    active.set("over_temperature", false);
+  }
+
+  const raise: DeviceAlertType[] = [];
+  const resolve: DeviceAlertType[] = [];
+  for (const [type, isActive] of active) {
+    if (isActive === true && !open.includes(type)) raise.push(type);
+    if (isActive === false && open.includes(type)) resolve.push(type);
+  }
+  return { raise, resolve };
+}
+
+export function describeAlert(type: DeviceAlertType, deviceName: string, sample: DeviceHealthSample, limits: HealthAlertLimits): string {
+  switch (type) {
+    case "offline":
+      return `${deviceName} is not responding`;
+    case "auth_failed":
+      return `${deviceName} is rejecting the stored password`;
+    case "over_temperature":
+      return `${deviceName} is at ${sample.temperatureC}°C (limit ${limits.maxTemperatureC}°C)`;
+  }
+}
+
+// ============ History ============
+
+export interface HealthHistorySummary {
+  checks: number;
+  uptimePercent: number | null;  // null = never checked
+  averageLatencyMs: number | null;
+  lastSample?: DeviceHealthSample;
+}
+
+export function summarizeHealthHistory(days: DeviceHealthDay[]): HealthHistorySummary {
+  const checks = days.reduce((sum, day) => sum + day.checks, 0);
+  const onlineChecks = days.reduce((sum, day) => sum + day.onlineChecks, 0);
+  const latencyTotalMs = days.reduce((sum, day) => sum + day.latencyTotalMs, 0);
+  const lastSample = days
+    .flatMap((day) => day.samples)
+    .reduce<DeviceHealthSample | undefined>((latest, s) => (!latest || s.at > latest.at ? s : latest), undefined);
+
+  return {
+    checks,
+    uptimePercent: checks > 0 ? Math.round((onlineChecks / checks) * 1000) / 10 : null,
+    averageLatencyMs: onlineChecks > 0 ? Math.round(latencyTotalMs / onlineChecks) : null,
+    lastSample,
+  };
+}
+
+export function healthDateKey(at: number): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
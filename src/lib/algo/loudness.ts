@@ -0,0 +1,152 @@
+/**
+ * Loudness
+ * Integrated loudness (ITU-R BS.1770: K-weighting, 400 ms blocks, absolute
+ * and relative gates) for mono audio, and the gain that brings a tone to the
+ * library's target without pushing its peaks past the ceiling - so every
+ * tone plays at about the same level. Pure functions only.
+ */
+
+// Level every library tone and spoken announcement is brought to
+export const TARGET_LOUDNESS_LUFS = -16;
+
+// Peaks are kept under this, even if the tone then ends up below the target
+export const PEAK_CEILING_DBFS = -1;
+
+// Quiet audio is raised at most this much, so near-silence isn't turned into hiss
+export const MAX_GAIN_DB = 20;
+
+// Leading audio quieter than this counts as silence
+export const SILENCE_THRESHOLD_DBFS = -50;
+
+// Kept before the first sound so its attack isn't clipped
+const SILENCE_PREROLL_SECONDS = 0.02;
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+export interface LoudnessAdjustment {
+  samples: Float32Array;
+  loudness: number; // LUFS after the gain
+  gainDb: number;
+  peakLimited: boolean; // The ceiling held the gain below the target
+}
+
+function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+function gainToDb(gain: number): number {
+  return 20 * Math.log10(gain);
+}
+
+function biquad(samples: Float32Array, b: number[], a: number[]): Float32Array {
+  const output = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * BS.1770 K-weighting (high shelf, then high pass) for any sample rate
+ */
+function kWeight(samples: Float32Array, sampleRate: number): Float32Array {
+  // Stage 1: +4 dB shelf above ~1.7 kHz (head effects)
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = dbToGain(3.999843853973347);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelved = biquad(
+    samples,
+    [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]
+  );
+
+  // Stage 2: high pass at ~38 Hz
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  return biquad(shelved, [1, -2, 1], [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]);
+}
+
+function blockLoudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+/**
+ * Integrated loudness in LUFS. Audio shorter than one block is measured as
+ * a whole; silence is -Infinity.
+ */
+export function measureLoudness(samples: Float32Array, sampleRate: number): number {
+  const weighted = kWeight(samples, sampleRate);
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+
+  const blocks: number[] = [];
+  const lastStart = Math.max(0, weighted.length - blockLength);
+  for (let start = 0; start <= lastStart; start += step) {
+    const end = Math.min(weighted.length, start + blockLength);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += weighted[i] * weighted[i];
+    if (end > start) blocks.push(sum / (end - start));
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const audible = blocks.filter((z) => blockLoudness(z) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return -Infinity;
+
+  const relativeGate = blockLoudness(mean(audible)) + RELATIVE_GATE_LU;
+  const gated = audible.filter((z) => blockLoudness(z) > relativeGate);
+  return blockLoudness(mean(gated));
+}
+
+export function measurePeakDbfs(samples: Float32Array): number {
+  let peak = 0;
+  for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+  return gainToDb(peak);
+}
+
+/**
+ * Bring audio to `targetLufs`, unless that would push a peak over the
+ * ceiling or need more than MAX_GAIN_DB. Silence is returned unchanged.
+ */
+export function normalizeLoudness(
+  samples: Float32Array,
+  sampleRate: number,
+  targetLufs: number = TARGET_LOUDNESS_LUFS
+): LoudnessAdjustment {
+  const loudness = measureLoudness(samples, sampleRate);
+  if (!Number.isFinite(loudness)) {
+    return { samples, loudness, gainDb: 0, peakLimited: false };
+  }
+
+  const wanted = Math.min(MAX_GAIN_DB, targetLufs - loudness);
+  const gainDb = Math.min(wanted, PEAK_CEILING_DBFS - measurePeakDbfs(samples));
+  const gain = dbToGain(gainDb);
+  return {
+    samples: samples.map((sample) => sample * gain),
+    loudness: loudness + gainDb,
+    gainDb,
+    peakLimited: gainDb < wanted,
+  };
+}
+
+/**
+ * Drop silence before the first sound, keeping a short pre-roll
+ */
+export function trimLeadingSilence(samples: Float32Array, sampleRate: number): Float32Array {
+  const threshold = dbToGain(SILENCE_THRESHOLD_DBFS);
+  const first = samples.findIndex((sample) => Math.abs(sample) > threshold);
+  if (first < 0) return samples.subarray(0, 0);
+  return samples.subarray(Math.max(0, first - Math.round(SILENCE_PREROLL_SECONDS * sampleRate)));
+}
@@ -0,0 +1,227 @@
+import type { AlgoDevice, MulticastPlan, Zone, ZoneMulticastAssignment } from "./types";
+
+/**
+ * Multicast Zone Planner
+ * Maps station zones to Algo multicast zones (mcast.zone1-50) and turns a
+ * plan into the settings each device needs: receivers get their zone's group,
+ * 8301 senders get every group plus the zone they transmit on.
+ *
+ * Pure functions only - safe to use from pages, the audio context and routes.
+ */
+
+export const MIN_ZONE_NUMBER = 1;
+export const MAX_ZONE_NUMBER = 50;
+
+// What every station used before plans existed - zone 1 on 224.0.2.60,
+// active 50002 / idle 50022. Devices outside any plan keep using it.
+export const LEGACY_ASSIGNMENT: Omit<ZoneMulticastAssignment, "zoneId"> = {
+  zoneNumber: 1,
+  address: "224.0.2.60",
+  port: 50002,
+  idlePort: 50022,
+};
+
+export interface MulticastPlanIssue {
+  severity: "error" | "warning";
+  zoneId?: string;
+  message: string;
+}
+
+export function formatGroup(address: string, port: number): string {
+  return `${address}:${port}`;
+}
+
+export function getZoneAssignment(
+  plan: MulticastPlan | null,
+  zoneId: string | null | undefined
+): ZoneMulticastAssignment | null {
+  if (!plan || !zoneId) return null;
+  return plan.assignments.find((a) => a.zoneId === zoneId) ?? null;
+}
+
+/**
+ * Assignment a device follows - its zone's, or the legacy zone 1 group
+ */
+export function getDeviceAssignment(
+  plan: MulticastPlan | null,
+  device: Pick<AlgoDevice, "zone">
+): Omit<ZoneMulticastAssignment, "zoneId"> {
+  return getZoneAssignment(plan, device.zone) ?? LEGACY_ASSIGNMENT;
+}
+
+/**
+ * Next free zone number, on its own group address (zone N → 224.0.2.(59+N))
+ * so zone 1 lines up with the legacy group. Numbers whose group another
+ * station's plan already uses are skipped too.
+ */
+export function suggestAssignment(
+  plan: MulticastPlan | null,
+  zoneId: string,
+  otherPlans: MulticastPlan[] = []
+): ZoneMulticastAssignment {
+  const used = new Set((plan?.assignments ?? []).map((a) => a.zoneNumber));
+  const theirGroups = new Set(
+    otherPlans
+      .filter((other) => other.ownerEmail !== plan?.ownerEmail)
+      .flatMap((other) => other.assignments)
+      .flatMap((a) => [formatGroup(a.address, a.port), formatGroup(a.address, a.idlePort)])
+  );
+  const addressFor = (zoneNumber: number) => `224.0.2.${59 + zoneNumber}`;
+  const isFree = (zoneNumber: number) =>
+    !used.has(zoneNumber) &&
+    !theirGroups.has(formatGroup(addressFor(zoneNumber), LEGACY_ASSIGNMENT.port)) &&
+    !theirGroups.has(formatGroup(addressFor(zoneNumber), LEGACY_ASSIGNMENT.idlePort));
+
+  let zoneNumber = MIN_ZONE_NUMBER;
+  while (!isFree(zoneNumber) && zoneNumber < MAX_ZONE_NUMBER) zoneNumber++;
+
+  return {
+    zoneId,
+    zoneNumber,
+    address: addressFor(zoneNumber),
+    port: LEGACY_ASSIGNMENT.port,
+    idlePort: LEGACY_ASSIGNMENT.idlePort,
+  };
+}
+
+// ============ Device Settings ============
+
+/**
+ * Receiver (speaker) settings - listen on the active or the idle port
+ */
+export function receiverSettings(
+  assignment: Omit<ZoneMulticastAssignment, "zoneId">,
+  active: boolean
+): Record<string, string> {
+  return {
+    [`mcast.zone${assignment.zoneNumber}`]: formatGroup(assignment.address, active ? assignment.port : assignment.idlePort),
+  };
+}
+
+/**
+ * Sender (8301) settings - every planned group, transmitting on `txZoneNumber`
+ */
+export function senderSettings(plan: MulticastPlan, txZoneNumber: number): Record<string, string> {
+  const settings: Record<string, string> = { "mcast.tx.fixed": String(txZoneNumber) };
+  for (const assignment of plan.assignments) {
+    settings[`mcast.zone${assignment.zoneNumber}`] = formatGroup(assignment.address, assignment.port);
+  }
+  return settings;
+}
+
+/**
+ * Zone a paging device transmits on - its own zone, else the zone of its
+ * first linked speaker that is in the plan
+ */
+export function getPagingAssignment(
+  plan: MulticastPlan,
+  paging: Pick<AlgoDevice, "zone" | "linkedSpeakerIds">,
+  devices: Pick<AlgoDevice, "id" | "zone">[]
+): ZoneMulticastAssignment | null {
+  const own = getZoneAssignment(plan, paging.zone);
+  if (own) return own;
+
+  for (const speakerId of paging.linkedSpeakerIds ?? []) {
+    const speaker = devices.find((d) => d.id === speakerId);
+    const assignment = speaker ? getZoneAssignment(plan, speaker.zone) : null;
+    if (assignment) return assignment;
+  }
+  return null;
+}
+
+// ============ Validation ============
+
+function isMulticastAddress(address: string): boolean {
+  const parts = address.split(".");
+  if (parts.length !== 4) return false;
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  if (octets.some((octet) => Number.isNaN(octet) || octet > 255)) return false;
+  return octets[0] >= 224 && octets[0] <= 239;
+}
+
+function isPort(port: number): boolean {
+  return Number.isInteger(port) && port >= 1 && port <= 65535;
+}
+
+/**
+ * Check a plan on its own and against every other station's plan
+ * Errors block saving/applying; warnings are shown but allowed.
+ */
+export function validateMulticastPlan(
+  plan: MulticastPlan,
+  otherPlans: MulticastPlan[] = [],
+  zones: Pick<Zone, "id" | "name">[] = []
+): MulticastPlanIssue[] {
+  const issues: MulticastPlanIssue[] = [];
+  const zoneName = (zoneId: string) => zones.find((z) => z.id === zoneId)?.name ?? zoneId;
+
+  // Groups claimed so far in this plan: "address:port" → zone ID
+  const groups = new Map<string, string>();
+  const zoneNumbers = new Map<number, string>();
+
+  for (const assignment of plan.assignments) {
+    const name = zoneName(assignment.zoneId);
+    const { zoneId, zoneNumber, address, port, idlePort } = assignment;
+
+    if (!Number.isInteger(zoneNumber) || zoneNumber < MIN_ZONE_NUMBER || zoneNumber > MAX_ZONE_NUMBER) {
+      issues.push({ severity: "error", zoneId, message: `${name}: zone number must be ${MIN_ZONE_NUMBER}-${MAX_ZONE_NUMBER}` });
+    } else if (zoneNumbers.has(zoneNumber)) {
+      issues.push({ severity: "error", zoneId, message: `${name}: zone number ${zoneNumber} is also used by ${zoneName(zoneNumbers.get(zoneNumber)!)}` });
+    } else {
+      zoneNumbers.set(zoneNumber, zoneId);
+    }
+
+    if (!isMulticastAddress(address)) {
+      issues.push({ severity: "error", zoneId, message: `${name}: ${address} is not a multicast address (224.0.0.0-239.255.255.255)` });
+    } else if (address.startsWith("224.0.0.")) {
+      issues.push({ severity: "warning", zoneId, message: `${name}: 224.0.0.x is reserved for link-local protocols` });
+    }
+
+    if (!isPort(port) || !isPort(idlePort)) {
+      issues.push({ severity: "error", zoneId, message: `${name}: ports must be 1-65535` });
+      continue;
+    }
+    if (port === idlePort) {
+      issues.push({ severity: "error", zoneId, message: `${name}: active and idle ports must differ` });
+      continue;
+    }
+
+    for (const group of [formatGroup(address, port), formatGroup(address, idlePort)]) {
+      const owner = groups.get(group);
+      if (owner) {
+        issues.push({ severity: "error", zoneId, message: `${name}: ${group} is also used by ${zoneName(owner)}` });
+      } else {
+        groups.set(group, zoneId);
+      }
+    }
+  }
+
+  // Another station on the same network hearing our pages (or us theirs).
+  // Only a warning - their plan isn't ours to fix, and it mustn't lock us
+  // out of saving or applying our own.
+  for (const other of otherPlans) {
+    if (other.ownerEmail === plan.ownerEmail) continue;
+    const station = other.stationName || other.ownerEmail;
+
+    for (const theirs of other.assignments) {
+      for (const group of [formatGroup(theirs.address, theirs.port), formatGroup(theirs.address, theirs.idlePort)]) {
+        const zoneId = groups.get(group);
+        if (zoneId) {
+          issues.push({
+            severity: "warning",
+            zoneId,
+            message: `${zoneName(zoneId)}: ${group} overlaps with ${station} (multicast zone ${theirs.zoneNumber})`,
+          });
+        }
+      }
+    }
+  }
+
+  for (const zone of zones) {
+    if (!getZoneAssignment(plan, zone.id)) {
+      issues.push({ severity: "warning", zoneId: zone.id, message: `${zone.name}: not in the plan - its speakers stay on the legacy zone 1 group` });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,135 @@
+import type { Zone } from "./types";
+
+/**
+ * Paging Priority
+ * Every path that drives a paging adapter or speakers - live input channels,
+ * the live monitoring session, scheduled announcements, manual tone tests -
+ * claims the devices it uses. A claim from a higher source preempts a lower
+ * one on the devices they share; a lower one is refused (tone plays) or
+ * leaves those devices alone (live audio). Pure functions only - claims are
+ * held by `src/lib/paging/arbiter.ts`.
+ */
+
+// Highest first
+export const PAGING_SOURCES = ["fire", "medical", "allCall", "scheduled", "manualTest"] as const;
+
+export type PagingSource = (typeof PAGING_SOURCES)[number];
+
+export const PAGING_SOURCE_LABELS: Record<PagingSource, string> = {
+  fire: "Fire",
+  medical: "Medical",
+  allCall: "All-Call",
+  scheduled: "Scheduled announcement",
+  manualTest: "Manual test",
+};
+
+export interface PagingClaim {
+  id: string;                // Stable per path, e.g. "input:fire", "monitoring", "play:<pagingId>"
+  ownerEmail: string;
+  source: PagingSource;
+  label: string;             // What's on the air, e.g. "Fire input" or "Shift change"
+  pagingDeviceIds: string[]; // Transmitting (or playing the tone)
+  speakerIds: string[];      // Receiving
+  startedAt: number;
+}
+
+export interface PagingDecision {
+  granted: boolean;
+  blockedBy: PagingClaim | null; // Why a tone play was refused
+  preempt: PagingClaim[];        // Lower tone plays to stop first
+  yieldDeviceIds: string[];      // Devices a higher live source keeps (live claims only)
+}
+
+export function getPagingPriority(source: PagingSource): number {
+  return PAGING_SOURCES.length - PAGING_SOURCES.indexOf(source);
+}
+
+/**
+ * Live audio (an input channel or the monitoring session) can't be refused
+ * or stopped from the server - only tone plays can
+ */
+export function isLivePagingSource(source: PagingSource): boolean {
+  return source === "fire" || source === "medical" || source === "allCall";
+}
+
+export function isPagingSource(value: unknown): value is PagingSource {
+  return PAGING_SOURCES.includes(value as PagingSource);
+}
+
+export function describePagingClaim(claim: Pick<PagingClaim, "source" | "label">): string {
+  return `${claim.label} (${PAGING_SOURCE_LABELS[claim.source]})`;
+}
+
+export function getClaimDeviceIds(claim: Pick<PagingClaim, "pagingDeviceIds" | "speakerIds">): string[] {
+  return [...new Set([...claim.pagingDeviceIds, ...claim.speakerIds])];
+}
+
+function sharedDeviceIds(a: Pick<PagingClaim, "pagingDeviceIds" | "speakerIds">, b: Pick<PagingClaim, "pagingDeviceIds" | "speakerIds">): string[] {
+  const other = new Set(getClaimDeviceIds(b));
+  return getClaimDeviceIds(a).filter((id) => other.has(id));
+}
+
+function byPriority(a: PagingClaim, b: PagingClaim): number {
+  return getPagingPriority(b.source) - getPagingPriority(a.source) || a.startedAt - b.startedAt;
+}
+
+/**
+ * Decide a new claim against the station's current ones. Only claims that
+ * share a device with it matter; a claim with the same id is the same path
+ * and is replaced, not weighed.
+ */
+export function arbitratePagingClaim(
+  claims: PagingClaim[],
+  request: Omit<PagingClaim, "startedAt">
+): PagingDecision {
+  const priority = getPagingPriority(request.source);
+  const overlapping = claims
+    .filter((claim) => claim.ownerEmail === request.ownerEmail && claim.id !== request.id)
+    .filter((claim) => sharedDeviceIds(request, claim).length > 0)
+    .sort(byPriority);
+
+  if (!isLivePagingSource(request.source)) {
+    const blockedBy = overlapping.find((claim) => getPagingPriority(claim.source) >= priority) ?? null;
+    if (blockedBy) {
+      return { granted: false, blockedBy, preempt: [], yieldDeviceIds: [] };
+    }
+  }
+
+  const preempt = overlapping.filter(
+    (claim) => !isLivePagingSource(claim.source) && getPagingPriority(claim.source) < priority
+  );
+  const yieldDeviceIds = overlapping
+    .filter((claim) => isLivePagingSource(claim.source) && getPagingPriority(claim.source) > priority)
+    .flatMap((claim) => sharedDeviceIds(request, claim));
+
+  return { granted: true, blockedBy: null, preempt, yieldDeviceIds: [...new Set(yieldDeviceIds)] };
+}
+
+/**
+ * Devices of a released claim that another claim still holds - the path
+ * letting go must leave them as they are
+ */
+export function getHeldDeviceIds(claims: PagingClaim[], released: PagingClaim): string[] {
+  const held = claims
+    .filter((claim) => claim.ownerEmail === released.ownerEmail && claim.id !== released.id)
+    .flatMap((claim) => sharedDeviceIds(released, claim));
+  return [...new Set(held)];
+}
+
+/**
+ * Who is on the air in each zone, highest priority first. A claim holds a
+ * zone when one of the zone's speakers receives it.
+ */
+export function getZoneOwners(
+  claims: PagingClaim[],
+  zones: Pick<Zone, "id" | "deviceIds">[]
+): Record<string, PagingClaim[]> {
+  const owners: Record<string, PagingClaim[]> = {};
+  for (const zone of zones) {
+    const holding = claims.filter((claim) => claim.speakerIds.some((id) => zone.deviceIds.includes(id)));
+    if (holding.length > 0) {
+      owners[zone.id] = holding.sort(byPriority);
+    }
+  }
+  return owners;
+}
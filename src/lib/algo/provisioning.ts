@@ -0,0 +1,89 @@
+/**
+ * Provisioning Catalog & Diff
+ * The Algo REST API reads settings one key at a time (there's no "export
+ * all"), so a snapshot walks this catalog. Keys a model doesn't know answer
+ * 404 and are simply left out of its snapshot.
+ *
+ * Pure functions only - the capture/restore side lives in
+ * `src/lib/provisioning/snapshots.ts` (server-only).
+ */
+
+const MULTICAST_ZONE_KEYS = Array.from({ length: 50 }, (_, i) => `mcast.zone${i + 1}`);
+
+// Settings this app manages; pass extra keys for anything else a firmware
+// version adds when taking a snapshot
+const SNAPSHOT_KEYS = [
+  // Multicast
+  "mcast.mode",
+  "mcast.tx.fixed",
+  ...MULTICAST_ZONE_KEYS,
+  // Audio
+  "audio.page.vol",
+  "audio.noise.level",
+  // SIP - without the auth and registration settings a replacement unit
+  // can't register to the PBX
+  "sip.ext",
+  "sip.server",
+  "sip.user",       // Authentication ID
+  "sip.pwd",        // Secret - kept in the vault
+  "sip.realm",
+  "sip.proxy",      // Outbound proxy
+  "sip.reg",        // Registration on/off
+  "sip.reg.expiry", // Registration period, seconds
+];
+
+export function getSnapshotKeys(extraKeys: string[] = []): string[] {
+  return Array.from(new Set([...SNAPSHOT_KEYS, ...extraKeys]));
+}
+
+// Passwords/secrets never go into the snapshot document in plaintext
+export function isSecretKey(key: string): boolean {
+  return /(pwd|pass|secret|token)/i.test(key);
+}
+
+// ============ Diff ============
+
+export type SnapshotChange = "added" | "removed" | "changed";
+
+export interface SnapshotDiffEntry {
+  key: string;
+  change: SnapshotChange;
+  before?: string;
+  after?: string;
+}
+
+interface DiffableSnapshot {
+  settings: Record<string, string>;
+  secretKeys: string[];
+}
+
+/**
+ * Key-by-key difference from `before` to `after`, sorted by key
+ * Secret values aren't available here - a secret only shows up when it was
+ * added or removed.
+ */
+export function diffSnapshots(before: DiffableSnapshot, after: DiffableSnapshot): SnapshotDiffEntry[] {
+  const entries: SnapshotDiffEntry[] = [];
+  const keys = new Set([...Object.keys(before.settings), ...Object.keys(after.settings)]);
+
+  for (const key of keys) {
+    const a = before.settings[key];
+    const b = after.settings[key];
+    if (a === undefined) {
+      entries.push({ key, change: "added", after: b });
+    } else if (b === undefined) {
+      entries.push({ key, change: "removed", before: a });
+    } else if (a !== b) {
+      entries.push({ key, change: "changed", before: a, after: b });
+    }
+  }
+
+  for (const key of before.secretKeys) {
+    if (!after.secretKeys.includes(key)) entries.push({ key, change: "removed" });
+  }
+  for (const key of after.secretKeys) {
+    if (!before.secretKeys.includes(key)) entries.push({ key, change: "added" });
+  }
+
+  return entries.sort((x, y) => x.key.localeCompare(y.key, undefined, { numeric: true }));
+}
@@ -0,0 +1,118 @@
+import type { Recording } from "./types";
+import { formatStationTimestamp, getStationClock, getTimeZoneLabel, isValidTimeZone } from "./station-time";
+
+/**
+ * Recording Export
+ * Downloads of recorded sessions (WebM/Opus from the call coordinators) as
+ * MP3, WAV or Ogg/Opus, one file per session or several sessions joined in
+ * time order, tagged with the station, channel and first-detected time for
+ * incident reports and records requests. Pure functions only - conversion
+ * runs in `src/lib/audio/recording-export.ts`.
+ */
+
+export type RecordingExportFormat = "mp3" | "wav" | "ogg";
+
+export const RECORDING_EXPORT_FORMATS: Record<RecordingExportFormat, { label: string; extension: string; mimeType: string }> = {
+  mp3: { label: "MP3", extension: "mp3", mimeType: "audio/mpeg" },
+  wav: { label: "WAV", extension: "wav", mimeType: "audio/wav" },
+  ogg: { label: "Ogg (Opus)", extension: "ogg", mimeType: "audio/ogg" },
+};
+
+// Most sessions one export may join
+export const MAX_EXPORT_RECORDINGS = 20;
+
+// Silence between joined sessions, so each one is heard as separate
+export const EXPORT_GAP_SECONDS = 1;
+
+export type RecordingChannel = "Input" | "Playback";
+
+export interface RecordingExportRequest {
+  recordingIds: string[];
+  format: RecordingExportFormat;
+  timeZone: string; // Station timezone, for the first-detected tag
+}
+
+export function isRecordingExportFormat(value: unknown): value is RecordingExportFormat {
+  return typeof value === "string" && Object.keys(RECORDING_EXPORT_FORMATS).includes(value);
+}
+
+/**
+ * Input is what the station heard; playback is what the speakers played
+ * (saved with a "-playback" suffix)
+ */
+export function getRecordingChannel(recording: Pick<Recording, "filename">): RecordingChannel {
+  return /-playback\.[^.]+$/.test(recording.filename) ? "Playback" : "Input";
+}
+
+export function sortRecordingsByTime<T extends Pick<Recording, "timestamp">>(recordings: T[]): T[] {
+  return [...recordings].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+function distinct(values: string[]): string {
+  return [...new Set(values)].join(", ");
+}
+
+/**
+ * Tags for an export of `recordings` (in time order). ffmpeg writes them as
+ * ID3 frames (MP3), Vorbis comments (Ogg) or RIFF INFO (WAV). WAV only keeps
+ * the standard keys, so the comment repeats everything.
+ */
+export function buildExportMetadata(
+  recordings: Pick<Recording, "filename" | "userEmail" | "timestamp">[],
+  timeZone: string
+): Record<string, string> {
+  const first = new Date(recordings[0].timestamp);
+  const station = distinct(recordings.map((r) => r.userEmail));
+  const channel = distinct(recordings.map(getRecordingChannel));
+  const firstDetected = formatStationTimestamp(first, timeZone);
+  const clock = getStationClock(first, timeZone);
+  const when = `${clock.date} ${clock.time}:${clock.seconds} ${getTimeZoneLabel(first, timeZone)}`;
+
+  return {
+    title: recordings.length === 1
+      ? `${channel} recording ${when}`
+      : `${recordings.length} recordings (${channel}) from ${when}`,
+    artist: station,
+    album: "Paging recordings",
+    date: firstDetected,
+    comment: [
+      `Station: ${station}`,
+      `Channel: ${channel}`,
+      `First detected: ${firstDetected}`,
+      `Sessions: ${recordings.map((r) => r.filename).join(", ")}`,
+    ].join("; "),
+    station,
+    channel,
+    first_detected: firstDetected,
+  };
+}
+
+/**
+ * Download name: the session's own name, or the first joined session's name
+ * with how many follow
+ */
+export function exportFilename(recordings: Pick<Recording, "filename">[], format: RecordingExportFormat): string {
+  const base = recordings[0].filename.replace(/\.[^.]*$/, "");
+  const more = recordings.length > 1 ? `-and-${recordings.length - 1}-more` : "";
+  return `${base}${more}.${RECORDING_EXPORT_FORMATS[format].extension}`;
+}
+
+export function validateRecordingExport(request: Partial<RecordingExportRequest>): string | null {
+  const { recordingIds, format } = request;
+  if (!Array.isArray(recordingIds) || recordingIds.length === 0 || !recordingIds.every((id) => typeof id === "string" && id)) {
+    return "Choose at least one recording";
+  }
+  if (recordingIds.length > MAX_EXPORT_RECORDINGS) {
+    return `Export at most ${MAX_EXPORT_RECORDINGS} recordings at once`;
+  }
+  if (new Set(recordingIds).size !== recordingIds.length) {
+    return "A recording is listed twice";
+  }
+  if (!isRecordingExportFormat(format)) {
+    return `Format must be one of ${Object.keys(RECORDING_EXPORT_FORMATS).join(", ")}`;
+  }
+  if (typeof request.timeZone !== "string" || !isValidTimeZone(request.timeZone)) {
+    return "A valid station timezone is required";
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+import type { AlgoDevice, AlgoDeviceType, RelayInputReading } from "./types";
+
+/**
+ * Relay Triggers
+ * A dispatch system drops a dry contact on an 8301/8180's relay input when a
+ * tone-out begins. Polling that input lets a call start - and the hardware
+ * arm - before any voice arrives. Pure functions only - the polling happens in
+ * `src/hooks/useRelayTrigger.ts`, the reads in /api/algo/relay.
+ */
+
+// audio: level threshold only (the original behaviour)
+// relay: the contact alone starts and ends calls, audio level is ignored
+// relay_and_audio: either one starts a call, and it lasts while either is active
+export type TriggerMode = "audio" | "relay" | "relay_and_audio";
+
+export const TRIGGER_MODES: TriggerMode[] = ["audio", "relay", "relay_and_audio"];
+
+export const TRIGGER_MODE_LABELS: Record<TriggerMode, string> = {
+  audio: "Audio level",
+  relay: "Relay input only",
+  relay_and_audio: "Relay input or audio level",
+};
+
+export interface RelayTriggerSettings {
+  mode: TriggerMode;
+  deviceIds: string[];
+  pollIntervalMs: number;
+}
+
+export const MIN_RELAY_POLL_INTERVAL_MS = 250;
+export const MAX_RELAY_POLL_INTERVAL_MS = 5000;
+
+export const DEFAULT_RELAY_TRIGGER_SETTINGS: RelayTriggerSettings = {
+  mode: "audio",
+  deviceIds: [],
+  pollIntervalMs: 500,
+};
+
+// Paging units wired to the dispatch contact (strobes have relay inputs too,
+// but they're never the call source)
+export const RELAY_TRIGGER_DEVICE_TYPES: AlgoDeviceType[] = ["8301", "8180g2"];
+
+export function isRelayTriggerDevice(device: Pick<AlgoDevice, "type">): boolean {
+  return RELAY_TRIGGER_DEVICE_TYPES.includes(device.type);
+}
+
+export function usesRelayTrigger(mode: TriggerMode): boolean {
+  return mode !== "audio";
+}
+
+export function usesAudioTrigger(mode: TriggerMode): boolean {
+  return mode !== "relay";
+}
+
+/**
+ * Problems that would stop relay triggering from working (empty = valid)
+ */
+export function validateRelayTriggerSettings(
+  settings: RelayTriggerSettings,
+  devices: Pick<AlgoDevice, "id" | "type">[]
+): string[] {
+  const errors: string[] = [];
+  if (!TRIGGER_MODES.includes(settings.mode)) {
+    errors.push("Unknown trigger mode");
+  }
+  if (usesRelayTrigger(settings.mode)) {
+    if (settings.deviceIds.length === 0) {
+      errors.push("Select at least one 8301/8180 relay input");
+    }
+    const invalid = settings.deviceIds.filter((id) => !devices.some((d) => d.id === id && isRelayTriggerDevice(d)));
+    if (invalid.length > 0) {
+      errors.push(`${invalid.length} selected relay input${invalid.length === 1 ? " is" : "s are"} not an 8301/8180`);
+    }
+  }
+  const interval = settings.pollIntervalMs;
+  if (!Number.isInteger(interval) || interval < MIN_RELAY_POLL_INTERVAL_MS || interval > MAX_RELAY_POLL_INTERVAL_MS) {
+    errors.push(`Poll interval must be ${MIN_RELAY_POLL_INTERVAL_MS}-${MAX_RELAY_POLL_INTERVAL_MS} ms`);
+  }
+  return errors;
+}
+
+/**
+ * A call is held while any selected contact is closed. Units that can't be
+ * read ("unknown") are ignored.
+ */
+export function isRelayTriggerActive(readings: Pick<RelayInputReading, "state">[]): boolean {
+  return readings.some((reading) => reading.state === "active");
+}
@@ -0,0 +1,160 @@
+import { getStationClock } from "./station-time";
+
+/**
+ * Station Schedule
+ * Whether it's day or night at the station: weekday and weekend hours in the
+ * station's timezone, dated exceptions (holidays) and a manual override (e.g.
+ * quiet hours off during a declared incident). Every coordinator asks this
+ * module instead of comparing hours itself. Pure functions only - the
+ * signed-in owner's schedule is read with `isStationNight` in
+ * `src/lib/settings.ts`.
+ */
+
+export interface DayHours {
+  dayStartHour: number; // 0-24 in half hours (7.5 = 7:30 AM)
+  dayEndHour: number;   // Before dayStartHour = day runs past midnight; equal = night all day
+}
+
+export interface ScheduleException {
+  id: string;
+  date: string; // "YYYY-MM-DD" in station time
+  name: string; // e.g. "Thanksgiving"
+  hours: DayHours;
+}
+
+export type ScheduleOverrideMode = "day" | "night";
+
+export interface ScheduleOverride {
+  mode: ScheduleOverrideMode; // day = quiet hours off, night = quiet hours on
+  reason: string;             // e.g. "Structure fire - all hands"
+  startedAt: string;          // ISO time it was declared
+  until: string | null;       // ISO time it lapses by itself (null = until cleared)
+}
+
+export interface StationSchedule {
+  weekday: DayHours;
+  weekend: DayHours;
+  weekendDays: number[]; // 0 = Sunday
+  exceptions: ScheduleException[];
+  override: ScheduleOverride | null;
+}
+
+export const DEFAULT_SCHEDULE: StationSchedule = {
+  weekday: { dayStartHour: 7, dayEndHour: 19 },
+  weekend: { dayStartHour: 8, dayEndHour: 19 },
+  weekendDays: [0, 6],
+  exceptions: [],
+  override: null,
+};
+
+export type SchedulePeriodSource = "override" | "exception" | "weekend" | "weekday";
+
+export interface SchedulePeriod {
+  night: boolean;
+  source: SchedulePeriodSource;
+  label: string; // e.g. "Night (Thanksgiving)"
+}
+
+/**
+ * Whether a time of day (decimal hours) falls outside the day hours
+ */
+export function isNightHour(hour: number, hours: DayHours): boolean {
+  const { dayStartHour, dayEndHour } = hours;
+  if (dayStartHour > dayEndHour) {
+    return hour >= dayEndHour && hour < dayStartHour;
+  }
+  return hour < dayStartHour || hour >= dayEndHour;
+}
+
+export function isOverrideActive(override: ScheduleOverride | null, at: Date): override is ScheduleOverride {
+  return override !== null && (override.until === null || new Date(override.until).getTime() > at.getTime());
+}
+
+/**
+ * Day or night at the station, and which rule decided it. An active override
+ * wins, then an exception for the date, then weekend or weekday hours.
+ */
+export function getSchedulePeriod(schedule: StationSchedule, timeZone: string, at: Date): SchedulePeriod {
+  if (isOverrideActive(schedule.override, at)) {
+    const night = schedule.override.mode === "night";
+    return { night, source: "override", label: `${night ? "Night" : "Day"} (${schedule.override.reason || "override"})` };
+  }
+
+  const clock = getStationClock(at, timeZone);
+  const exception = schedule.exceptions.find((e) => e.date === clock.date);
+  if (exception) {
+    const night = isNightHour(clock.hour, exception.hours);
+    return { night, source: "exception", label: `${night ? "Night" : "Day"} (${exception.name})` };
+  }
+
+  const weekend = schedule.weekendDays.includes(clock.weekday);
+  const night = isNightHour(clock.hour, weekend ? schedule.weekend : schedule.weekday);
+  return { night, source: weekend ? "weekend" : "weekday", label: `${night ? "Night" : "Day"} (${weekend ? "weekend" : "weekday"})` };
+}
+
+export function isNightAt(schedule: StationSchedule, timeZone: string, at: Date): boolean {
+  return getSchedulePeriod(schedule, timeZone, at).night;
+}
+
+export function newScheduleException(date: string, hours: DayHours): ScheduleException {
+  return {
+    id: `exception-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    date,
+    name: "Holiday",
+    hours: { ...hours },
+  };
+}
+
+export function formatHour(hour: number): string {
+  const h = Math.floor(hour) % 24;
+  const minutes = hour % 1 === 0 ? "00" : "30";
+  return `${h % 12 || 12}:${minutes} ${h >= 12 ? "PM" : "AM"}`;
+}
+
+function isValidHour(value: unknown): boolean {
+  return typeof value === "number" && value >= 0 && value <= 24 && (value * 2) % 1 === 0;
+}
+
+function validateHours(hours: DayHours | undefined, label: string): string[] {
+  if (!hours || !isValidHour(hours.dayStartHour) || !isValidHour(hours.dayEndHour)) {
+    return [`${label}: hours must be 0-24 in half hours`];
+  }
+  return [];
+}
+
+/**
+ * Problems that would stop the schedule from being saved (empty = valid)
+ */
+export function validateSchedule(schedule: StationSchedule): string[] {
+  const errors = [
+    ...validateHours(schedule.weekday, "Weekdays"),
+    ...validateHours(schedule.weekend, "Weekends"),
+  ];
+  if (!Array.isArray(schedule.weekendDays) || schedule.weekendDays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    errors.push("Weekend days must be 0 (Sunday) to 6 (Saturday)");
+  }
+  const dates = new Set<string>();
+  for (const exception of schedule.exceptions) {
+    const label = exception.name.trim() || exception.date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(exception.date)) {
+      errors.push(`${label}: date must be YYYY-MM-DD`);
+    } else if (dates.has(exception.date)) {
+      errors.push(`${label}: more than one exception on ${exception.date}`);
+    }
+    dates.add(exception.date);
+    if (!exception.name.trim()) {
+      errors.push(`Exception on ${exception.date}: name is required`);
+    }
+    errors.push(...validateHours(exception.hours, label));
+  }
+  const override = schedule.override;
+  if (override) {
+    if (override.mode !== "day" && override.mode !== "night") {
+      errors.push("Override must be day or night");
+    }
+    if (Number.isNaN(new Date(override.startedAt).getTime()) || (override.until !== null && Number.isNaN(new Date(override.until).getTime()))) {
+      errors.push("Override times must be valid");
+    }
+  }
+  return errors;
+}
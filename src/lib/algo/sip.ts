@@ -0,0 +1,173 @@
+import type {
+  AlgoCallStartRequest,
+  AlgoDevice,
+  AlgoDeviceType,
+  ScheduledSipCall,
+  SipRegistrationState,
+} from "./types";
+import {
+  DEFAULT_STATION_TIMEZONE,
+  MAX_SCHEDULE_CATCH_UP_MS,
+  describeWallClockSchedule,
+  getDueWallClockSchedules,
+  isValidWallClockTime,
+} from "./station-time";
+
+/**
+ * SIP Calls
+ * Which devices can place calls, parsing SIP registration / call status, call
+ * validation, and when scheduled calls are due. Pure functions only - the
+ * device calls happen in `src/lib/sip/calls.ts`.
+ */
+
+// Models that register to a SIP server and can originate a call
+export const SIP_CALL_DEVICE_TYPES: AlgoDeviceType[] = ["8301", "8180g2"];
+
+export function canPlaceSipCall(device: Pick<AlgoDevice, "type">): boolean {
+  return SIP_CALL_DEVICE_TYPES.includes(device.type);
+}
+
+export const MAX_SIP_CALL_SECONDS = 3600;
+
+export const SIP_REGISTRATION_LABELS: Record<SipRegistrationState, string> = {
+  registered: "Registered",
+  failed: "Not registered",
+  disabled: "SIP disabled",
+  unknown: "Unknown",
+};
+
+/**
+ * `SIP Registration` from /api/info/status → state
+ * Firmware reports "Successful"/"Registered", "Failed"/"Not Registered",
+ * or "Disabled"/"None" when no SIP account is configured.
+ */
+export function parseSipRegistration(status: string | undefined): SipRegistrationState {
+  const value = (status ?? "").trim().toLowerCase();
+  if (!value) return "unknown";
+  if (/disabled|none|not configured/.test(value)) return "disabled";
+  if (/not|fail|error|unregistered|timeout|rejected/.test(value)) return "failed";
+  if (/success|registered|ok/.test(value)) return "registered";
+  return "unknown";
+}
+
+/**
+ * `Call Status` from /api/info/status - anything other than idle means the
+ * device is ringing or on a call
+ */
+export function isSipCallActive(status: string | undefined): boolean {
+  const value = (status ?? "").trim().toLowerCase();
+  return value !== "" && !/idle|none|inactive|ready/.test(value);
+}
+
+// Extensions, numbers and SIP URIs (e.g. "1001", "*97", "page@pbx.local")
+export function validateSipExtension(extension: string | undefined): string | null {
+  if (!extension?.trim()) {
+    return "Extension is required";
+  }
+  if (!/^[A-Za-z0-9*#+._@:-]{1,64}$/.test(extension.trim())) {
+    return "Extension can only contain letters, digits and * # + . _ @ : -";
+  }
+  return null;
+}
+
+export function validateSipCallDuration(seconds: number | undefined): string | null {
+  if (seconds === undefined) return null;
+  if (!Number.isInteger(seconds) || seconds < 1 || seconds > MAX_SIP_CALL_SECONDS) {
+    return `Max duration must be 1-${MAX_SIP_CALL_SECONDS} seconds`;
+  }
+  return null;
+}
+
+// Seconds between tone repeats - 0 plays it once
+export function validateSipCallInterval(seconds: number | undefined): string | null {
+  if (seconds === undefined) return null;
+  if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_SIP_CALL_SECONDS) {
+    return `Tone interval must be 0-${MAX_SIP_CALL_SECONDS} seconds`;
+  }
+  return null;
+}
+
+/**
+ * Device request for a call - the API takes every value as a string
+ */
+export function toSipCallRequest(call: {
+  extension: string;
+  tone?: string;
+  intervalSeconds?: number;
+  maxDurationSeconds?: number;
+}): AlgoCallStartRequest {
+  const request: AlgoCallStartRequest = { extension: call.extension.trim() };
+  if (call.tone) request.tone = call.tone;
+  if (call.intervalSeconds !== undefined) request.interval = String(call.intervalSeconds);
+  if (call.maxDurationSeconds !== undefined) request.maxdur = String(call.maxDurationSeconds);
+  return request;
+}
+
+export function newScheduledSipCall(deviceId: string): ScheduledSipCall {
+  return {
+    id: `sip-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: "Line check",
+    deviceId,
+    extension: "",
+    maxDurationSeconds: 30,
+    repeat: "weekly",
+    time: "08:00",
+    days: [1, 2, 3, 4, 5],
+    enabled: true,
+  };
+}
+
+/**
+ * Problems that would stop a scheduled call from running (empty = valid)
+ */
+export function validateScheduledSipCall(
+  call: ScheduledSipCall,
+  devices: Pick<AlgoDevice, "id" | "type">[]
+): string[] {
+  const errors: string[] = [];
+  if (!call.name.trim()) {
+    errors.push("Name is required");
+  }
+  const device = devices.find((d) => d.id === call.deviceId);
+  if (!device) {
+    errors.push("Calling device not found");
+  } else if (!canPlaceSipCall(device)) {
+    errors.push("Only 8301 and 8180 devices can place SIP calls");
+  }
+  const extensionError = validateSipExtension(call.extension);
+  if (extensionError) errors.push(extensionError);
+  const durationError = validateSipCallDuration(call.maxDurationSeconds);
+  if (durationError) errors.push(durationError);
+  const intervalError = validateSipCallInterval(call.intervalSeconds);
+  if (intervalError) errors.push(intervalError);
+  if (!isValidWallClockTime(call.time)) {
+    errors.push("Time must be HH:MM (24-hour)");
+  }
+  if (call.repeat === "once" && !/^\d{4}-\d{2}-\d{2}$/.test(call.date ?? "")) {
+    errors.push("Date is required for a one-off call");
+  }
+  if (call.repeat === "weekly" && (call.days ?? []).length === 0) {
+    errors.push("Pick at least one day");
+  }
+  return errors;
+}
+
+export function describeSipSchedule(call: Pick<ScheduledSipCall, "repeat" | "date" | "time" | "days">): string {
+  return describeWallClockSchedule(call);
+}
+
+// A scheduler that was asleep longer than this doesn't replay missed calls
+export const MAX_SIP_SCHEDULE_CATCH_UP_MS = MAX_SCHEDULE_CATCH_UP_MS;
+
+/**
+ * Enabled calls whose station-time minute started in (since, now] - call
+ * times are wall-clock times in the station's timezone
+ */
+export function getDueSipCalls(
+  calls: ScheduledSipCall[],
+  since: Date,
+  now: Date,
+  timeZone = DEFAULT_STATION_TIMEZONE
+): ScheduledSipCall[] {
+  return getDueWallClockSchedules(calls, since, now, timeZone);
+}
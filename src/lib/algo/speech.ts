@@ -0,0 +1,80 @@
+import type { SpeechTemplate } from "./types";
+
+/**
+ * Spoken Announcements
+ * Text typed on the Call Routing page, or a saved template with `{field}`
+ * placeholders ("Engine {n} respond to {address}") filled in first, rendered
+ * to a WAV by an offline text-to-speech engine. Pure functions only -
+ * rendering runs in `src/lib/tts/engine.ts`.
+ */
+
+// Longest text one announcement may speak
+export const MAX_SPEECH_LENGTH = 500;
+
+const FIELD_PATTERN = /\{([A-Za-z][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Placeholder names in a template, in order of first use
+ */
+export function getTemplateFields(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(FIELD_PATTERN), (match) => match[1]))];
+}
+
+/**
+ * Fill a template's placeholders. Fields without a value stay as `{field}`,
+ * so validateSpeechText catches them.
+ */
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(FIELD_PATTERN, (placeholder, field: string) => values[field]?.trim() || placeholder);
+}
+
+export function validateSpeechText(text: string): string | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return "Type something to say";
+  }
+  if (trimmed.length > MAX_SPEECH_LENGTH) {
+    return `Keep announcements under ${MAX_SPEECH_LENGTH} characters`;
+  }
+  const unfilled = getTemplateFields(trimmed);
+  if (unfilled.length > 0) {
+    return `Fill in ${unfilled.map((field) => `{${field}}`).join(", ")}`;
+  }
+  return null;
+}
+
+export function newSpeechTemplate(): SpeechTemplate {
+  return {
+    id: `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: "Engine dispatch",
+    text: "Engine {n} respond to {address}",
+  };
+}
+
+export function validateSpeechTemplate(template: SpeechTemplate): string[] {
+  const errors: string[] = [];
+  if (!template.name.trim()) {
+    errors.push("Name is required");
+  }
+  if (!template.text.trim()) {
+    errors.push("Template text is required");
+  } else if (template.text.length > MAX_SPEECH_LENGTH) {
+    errors.push(`Keep templates under ${MAX_SPEECH_LENGTH} characters`);
+  }
+  return errors;
+}
+
+/**
+ * The tones-folder name a rendering is stored under. The same text and
+ * voice always map to the same file, so a repeat announcement is uploaded
+ * once per device.
+ */
+export function speechFilename(text: string, voice: string): string {
+  // FNV-1a - stable across the server and the browser, no crypto needed
+  let hash = 0x811c9dc5;
+  for (const char of `${voice}\n${text.trim()}`) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `tts-${(hash >>> 0).toString(16).padStart(8, "0")}.wav`;
+}
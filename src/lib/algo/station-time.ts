@@ -0,0 +1,156 @@
+/**
+ * Station Time
+ * Wall-clock time in the station's timezone (an IANA name such as
+ * "America/Denver", set per owner in Settings). Log date keys, recording
+ * filenames, daily rollovers and schedules all read the clock through here,
+ * so offsets follow daylight saving. Pure functions only - the signed-in
+ * owner's timezone is read with `getStationTimezone` in `src/lib/settings.ts`.
+ */
+
+export const DEFAULT_STATION_TIMEZONE = "America/Los_Angeles";
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface StationClock {
+  date: string;    // "YYYY-MM-DD"
+  time: string;    // "HH:MM" (24-hour)
+  seconds: string; // "SS"
+  weekday: number; // 0 = Sunday
+  hour: number;    // Decimal hours (7.5 = 7:30 AM)
+  offset: string;  // UTC offset at that instant, e.g. "-07:00"
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Station wall clock for an instant
+ */
+export function getStationClock(at: Date, timeZone = DEFAULT_STATION_TIMEZONE): StationClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  const num = (type: Intl.DateTimeFormatPartTypes) => parseInt(part(type), 10);
+
+  // The wall clock read as if it were UTC, minus the real instant, is the offset
+  const wallClockMs = Date.UTC(num("year"), num("month") - 1, num("day"), num("hour"), num("minute"), num("second"));
+  const offsetMinutes = Math.round((wallClockMs - Math.floor(at.getTime() / 1000) * 1000) / 60000);
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    time: `${part("hour")}:${part("minute")}`,
+    seconds: part("second"),
+    weekday: WEEKDAY_LABELS.indexOf(part("weekday")),
+    hour: num("hour") + num("minute") / 60,
+    offset: formatOffset(offsetMinutes),
+  };
+}
+
+/**
+ * ISO 8601 station time with its real offset, e.g. "2026-07-04T09:30:00-07:00"
+ */
+export function formatStationTimestamp(at: Date, timeZone = DEFAULT_STATION_TIMEZONE): string {
+  const clock = getStationClock(at, timeZone);
+  return `${clock.date}T${clock.time}:${clock.seconds}${clock.offset}`;
+}
+
+/**
+ * Station time for filenames: "hh-mm-ss-AM" (12-hour, no colons)
+ */
+export function formatStationFileTime(at: Date, timeZone = DEFAULT_STATION_TIMEZONE): string {
+  const clock = getStationClock(at, timeZone);
+  const [hour, minute] = clock.time.split(":").map(Number);
+  const hour12 = String(hour % 12 || 12).padStart(2, "0");
+  return `${hour12}-${String(minute).padStart(2, "0")}-${clock.seconds}-${hour >= 12 ? "PM" : "AM"}`;
+}
+
+/**
+ * Short label for the timezone at an instant, e.g. "PDT" or "GMT+2"
+ */
+export function getTimeZoneLabel(at: Date, timeZone = DEFAULT_STATION_TIMEZONE): string {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" }).formatToParts(at);
+  return parts.find((p) => p.type === "timeZoneName")?.value ?? timeZone;
+}
+
+// ============ Wall-Clock Schedules ============
+
+/**
+ * Something that runs once (on a date) or weekly (on chosen days) at an
+ * "HH:MM" station time - scheduled SIP calls and announcements
+ */
+export interface WallClockSchedule {
+  id: string;
+  enabled: boolean;
+  repeat: "once" | "weekly";
+  date?: string;  // "YYYY-MM-DD" (once only)
+  time: string;   // "HH:MM" station time
+  days?: number[]; // 0 = Sunday (weekly only)
+}
+
+export function isValidWallClockTime(time: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+}
+
+export function describeWallClockSchedule(schedule: Pick<WallClockSchedule, "repeat" | "date" | "time" | "days">): string {
+  if (schedule.repeat === "once") {
+    return `Once on ${schedule.date} at ${schedule.time}`;
+  }
+  const days = [...(schedule.days ?? [])].sort();
+  const label = days.length === 7
+    ? "Every day"
+    : days.join(",") === "1,2,3,4,5"
+      ? "Weekdays"
+      : days.map((d) => WEEKDAY_LABELS[d]).join(", ");
+  return `${label} at ${schedule.time}`;
+}
+
+// A scheduler that was asleep longer than this doesn't replay missed runs
+export const MAX_SCHEDULE_CATCH_UP_MS = 5 * 60_000;
+
+/**
+ * Enabled schedules whose station-time minute started in (since, now]
+ */
+export function getDueWallClockSchedules<T extends WallClockSchedule>(
+  schedules: T[],
+  since: Date,
+  now: Date,
+  timeZone = DEFAULT_STATION_TIMEZONE
+): T[] {
+  const due = new Map<string, T>();
+  const start = Math.max(since.getTime(), now.getTime() - MAX_SCHEDULE_CATCH_UP_MS);
+  const firstMinute = Math.floor(start / 60_000) + 1;
+  const lastMinute = Math.floor(now.getTime() / 60_000);
+
+  for (let minute = firstMinute; minute <= lastMinute; minute++) {
+    const clock = getStationClock(new Date(minute * 60_000), timeZone);
+    for (const schedule of schedules) {
+      if (!schedule.enabled || schedule.time !== clock.time) continue;
+      const matches = schedule.repeat === "once"
+        ? schedule.date === clock.date
+        : (schedule.days ?? []).includes(clock.weekday);
+      if (matches) due.set(schedule.id, schedule);
+    }
+  }
+  return Array.from(due.values());
+}
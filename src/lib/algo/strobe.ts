@@ -0,0 +1,112 @@
+import type { AlgoDevice, AlgoDeviceType, AlgoStrobeStartRequest, InputChannelType } from "./types";
+
+/**
+ * Strobe Alerts
+ * Which 8128/8138 visual alerters flash for a call, and in which pattern.
+ * Strobes are assigned like speakers: linked to an 8301 (its
+ * linkedSpeakerIds), placed in a zone, or given an inputAssignment.
+ * Pure functions only - the device calls go through /api/algo/strobe.
+ */
+
+export const STROBE_DEVICE_TYPES: AlgoDeviceType[] = ["8128", "8138"];
+
+export function isStrobeDevice(device: Pick<AlgoDevice, "type">): boolean {
+  return STROBE_DEVICE_TYPES.includes(device.type);
+}
+
+export type StrobeColor = AlgoStrobeStartRequest["color1"];
+
+export const STROBE_COLORS: StrobeColor[] = ["red", "blue", "green", "amber"];
+
+// "default" is used by strobes with no inputAssignment (the single-input monitor)
+export type StrobePatternKey = InputChannelType | "default";
+
+export type StrobePatterns = Record<StrobePatternKey, AlgoStrobeStartRequest>;
+
+// Pattern numbers are the device's built-in flash patterns (0-15)
+export const STROBE_PATTERN_MAX = 15;
+
+export const DEFAULT_STROBE_PATTERNS: StrobePatterns = {
+  fire: { pattern: 1, color1: "red", ledlvl: "255" },
+  medical: { pattern: 1, color1: "blue", ledlvl: "255" },
+  allCall: { pattern: 2, color1: "amber", color2: "red", ledlvl: "255" },
+  default: { pattern: 1, color1: "amber", ledlvl: "255" },
+};
+
+export function getStrobePattern(
+  patterns: Partial<StrobePatterns> | undefined,
+  key: StrobePatternKey | null | undefined
+): AlgoStrobeStartRequest {
+  const resolvedKey = key ?? "default";
+  return patterns?.[resolvedKey] ?? DEFAULT_STROBE_PATTERNS[resolvedKey];
+}
+
+/**
+ * Check a start request before it's sent to a device
+ * Returns an error message, or null if it's valid
+ */
+export function validateStrobePattern(request: Partial<AlgoStrobeStartRequest>): string | null {
+  if (!Number.isInteger(request.pattern) || request.pattern! < 0 || request.pattern! > STROBE_PATTERN_MAX) {
+    return `pattern must be a whole number from 0 to ${STROBE_PATTERN_MAX}`;
+  }
+  if (!request.color1 || !STROBE_COLORS.includes(request.color1)) {
+    return `color1 must be one of ${STROBE_COLORS.join(", ")}`;
+  }
+  if (request.color2 !== undefined && !STROBE_COLORS.includes(request.color2)) {
+    return `color2 must be one of ${STROBE_COLORS.join(", ")}`;
+  }
+  const level = Number(request.ledlvl);
+  if (!/^\d{1,3}$/.test(request.ledlvl ?? "") || level > 255) {
+    return "ledlvl must be a number from 0 to 255";
+  }
+  return null;
+}
+
+/**
+ * Strobes that belong to a call on the given paging devices: linked to one
+ * of them directly, or sharing a zone with one of their linked speakers
+ */
+export function getCallStrobes<T extends Pick<AlgoDevice, "id" | "type" | "zone" | "linkedSpeakerIds">>(
+  devices: T[],
+  pagingDeviceIds: string[]
+): T[] {
+  const linkedIds = new Set(
+    devices
+      .filter((d) => d.type === "8301" && pagingDeviceIds.includes(d.id))
+      .flatMap((d) => d.linkedSpeakerIds ?? [])
+  );
+  const zones = new Set(
+    devices
+      .filter((d) => linkedIds.has(d.id) && !isStrobeDevice(d) && d.zone)
+      .map((d) => d.zone)
+  );
+
+  return devices.filter((d) => isStrobeDevice(d) && (linkedIds.has(d.id) || (d.zone !== null && zones.has(d.zone))));
+}
+
+/**
+ * Strobes assigned to an input channel (input routing)
+ */
+export function getChannelStrobes<T extends Pick<AlgoDevice, "type" | "inputAssignment">>(
+  devices: T[],
+  channel: InputChannelType
+): T[] {
+  return devices.filter((d) => isStrobeDevice(d) && d.inputAssignment === channel);
+}
+
+/**
+ * Group strobes by the pattern they should flash - each one uses the pattern
+ * for its own inputAssignment, or `fallback` when it has none
+ */
+export function groupStrobesByPattern<T extends Pick<AlgoDevice, "id" | "inputAssignment">>(
+  strobes: T[],
+  patterns: Partial<StrobePatterns> | undefined,
+  fallback: StrobePatternKey = "default"
+): Array<{ key: StrobePatternKey; pattern: AlgoStrobeStartRequest; deviceIds: string[] }> {
+  const groups = new Map<StrobePatternKey, string[]>();
+  for (const strobe of strobes) {
+    const key = strobe.inputAssignment ?? fallback;
+    groups.set(key, [...(groups.get(key) ?? []), strobe.id]);
+  }
+  return Array.from(groups, ([key, deviceIds]) => ({ key, pattern: getStrobePattern(patterns, key), deviceIds }));
+}
@@ -7,12 +7,14 @@ export interface AlgoDevice {
   name: string;
   type: AlgoDeviceType;
   ipAddress: string;
+  macAddress?: string; // From /api/info/about - discovery matches on this when DHCP moves a unit
   authMethod: AlgoAuthMethod;
-  apiPassword: string;
+  hasCredentials?: boolean; // Password is stored in the server-side vault (never on this document)
   ownerEmail: string; // User who owns this device
   zone: string | null; // Zone ID this device is assigned to, or null if unassigned
   volume: number; // Default/initial volume
   maxVolume?: number; // Maximum volume this speaker can reach (0-100, default 100)
+  volumeOffsetDb?: number; // Calibration added to its page volume so matched speakers sound equally loud
   isOnline: boolean;
   authValid?: boolean; // true = auth works, false = wrong password/auth
   lastSeen: Date | null;
@@ -109,12 +111,54 @@ export interface Zone {
   deviceIds: string[];
   ownerEmail: string; // User who owns this zone
   slug?: string;
-  defaultVolume?: number;
+  defaultVolume?: number; // Caps the operating volume of every speaker in the zone (0-100, default 100)
   createdAt: Date;
   updatedAt?: Date;
 }
 
+// Multicast Plan (one document per owner, stored separately from zones)
+// Each zone gets its own Algo multicast zone number (mcast.zoneN) and group.
+// Receivers switch between `port` (active) and `idlePort` (idle) so they only
+// hear the paging device while a call is live.
+export interface ZoneMulticastAssignment {
+  zoneId: string;
+  zoneNumber: number; // Algo multicast zone 1-50
+  address: string;    // Multicast IPv4 group, e.g. 224.0.2.60
+  port: number;       // Active port (senders always transmit here)
+  idlePort: number;   // Receivers park here between calls
+}
+
+export interface MulticastPlan {
+  id: string; // same as ownerEmail
+  ownerEmail: string;
+  stationName?: string;
+  assignments: ZoneMulticastAssignment[];
+  updatedAt?: Date;
+}
+
 // Zone Routing Configuration (stored separately)
+// Volume Profiles (one document per owner)
+// How loud a zone pages for each kind of call, by day and by night - e.g.
+// dorms at 40% at night, the apparatus bay at 100% for fire. Volumes are a
+// percent of each speaker's operating volume.
+export type VolumeProfileChannel = InputChannelType | "anyCall"; // anyCall = every call, including single-input monitoring
+
+export interface ZoneVolumeProfile {
+  id: string;
+  zoneId: string;
+  channel: VolumeProfileChannel;
+  dayVolume: number;   // 0-100
+  nightVolume: number; // 0-100
+  enabled: boolean;
+}
+
+export interface VolumeProfilePlan {
+  id: string; // same as ownerEmail
+  ownerEmail: string;
+  profiles: ZoneVolumeProfile[];
+  updatedAt?: Date;
+}
+
 export interface ZoneRouting {
   id: string; // same as zone id
   zoneId: string;
@@ -145,7 +189,10 @@ export interface DistributionLog {
   targetDevices: string[];
   targetZones: string[];
   triggeredBy: string;
-  status: "success" | "partial" | "failed";
+  status: "success" | "partial" | "failed" | "preempted" | "skipped";
+  ownerEmail?: string;
+  scheduleId?: string; // Scheduled announcement that played (absent for manual plays)
+  note?: string;       // Why a scheduled play was skipped or cut short
   results: Array<{
     deviceId: string;
     deviceName: string;
@@ -155,6 +202,64 @@ export interface DistributionLog {
   createdAt: Date;
 }
 
+// Provisioning Snapshot - a device's configuration at one point in time
+// Secret settings (SIP passwords etc.) are kept encrypted server-side in
+// `provisioningSecrets/{snapshotId}`; only their keys are listed here.
+export interface ProvisioningSnapshot {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  deviceType: AlgoDeviceType;
+  ownerEmail: string;
+  version: number; // 1, 2, 3... per device
+  label?: string;
+  settings: Record<string, string>;
+  secretKeys: string[];
+  firmwareVersion?: string;
+  macAddress?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+// Background Health Monitor
+export type HealthTargetKind = "algo" | "poe_switch";
+export type DeviceAlertType = "offline" | "auth_failed" | "over_temperature";
+
+export interface DeviceHealthSample {
+  at: number; // ms since epoch
+  isOnline: boolean;
+  authValid?: boolean;   // Algo only
+  responseTime?: number; // milliseconds
+  temperatureC?: number; // Algo only, from /api/info/status
+}
+
+// One document per device per UTC day: `deviceHealthHistory/{deviceId}_{YYYY-MM-DD}`
+export interface DeviceHealthDay {
+  id: string;
+  deviceId: string;
+  kind: HealthTargetKind;
+  ownerEmail: string;
+  dateKey: string;
+  checks: number;
+  onlineChecks: number;
+  latencyTotalMs: number; // Sum over online checks - average = latencyTotalMs / onlineChecks
+  samples: DeviceHealthSample[];
+}
+
+export interface DeviceAlert {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  kind: HealthTargetKind;
+  ownerEmail: string;
+  type: DeviceAlertType;
+  message: string;
+  resolved: boolean;
+  acknowledged: boolean;
+  createdAt: Date;
+  resolvedAt?: Date;
+}
+
 // Multi-Input Channel Type
 export type InputChannelType = "medical" | "fire" | "allCall";
 
@@ -165,6 +270,170 @@ export interface InputChannel {
   audioLevel: number; // Current audio level (0-100)
 }
 
+// Door / Relay Actions
+// Rules run through the Algo's door controller output (local relay or a
+// networked door controller) when a call of the matching type starts or ends.
+export type AlgoDoorId = "local" | "netdc1";
+export type DoorActionType = "momentary_unlock" | "unlock" | "lock";
+export type DoorActionTrigger = InputChannelType | "anyCall"; // anyCall = every call, including single-input monitoring
+export type DoorActionPhase = "start" | "end";
+export type RelayInputState = "active" | "idle" | "unknown";
+
+export interface DoorActionRule {
+  id: string;
+  name: string;              // e.g. "Apparatus bay door"
+  deviceId: string;          // Algo device wired to the door controller
+  doorId: AlgoDoorId;
+  action: DoorActionType;
+  durationSeconds?: number;  // momentary_unlock only (1-60)
+  trigger: DoorActionTrigger;
+  phase: DoorActionPhase;    // When the call starts, or once it has ended
+  enabled: boolean;
+}
+
+export interface DoorActionPlan {
+  id: string; // same as ownerEmail
+  ownerEmail: string;
+  rules: DoorActionRule[];
+  updatedAt?: Date;
+}
+
+export interface RelayInputReading {
+  deviceId: string;
+  deviceName: string;
+  state: RelayInputState;
+  raw?: string;   // As reported by the device
+  error?: string;
+}
+
+// One row per door action actually sent, including manual ones
+export interface DoorAuditEntry {
+  id: string;
+  ownerEmail: string;
+  ruleId: string | null;          // null for manual actions
+  ruleName: string;
+  deviceId: string;
+  deviceName: string;
+  doorId: AlgoDoorId;
+  action: DoorActionType;
+  durationSeconds?: number;
+  trigger: DoorActionTrigger | "manual";
+  phase?: DoorActionPhase;
+  callStartedAt: Date | null;     // First audio of the call that caused it (matches the recording timestamp)
+  triggeredBy?: string;           // User email for manual actions
+  success: boolean;
+  error?: string;
+  createdAt: Date;
+}
+
+// SIP Calls
+// Calls placed from a paging adapter to a SIP extension, by hand or on a
+// schedule - the fallback paging path when multicast is broken.
+export type SipRegistrationState = "registered" | "failed" | "disabled" | "unknown";
+export type SipCallAction = "start" | "stop";
+export type SipCallRepeat = "once" | "weekly";
+
+export interface SipStatusReading {
+  deviceId: string;
+  deviceName: string;
+  registration: SipRegistrationState;
+  registrationRaw?: string; // "SIP Registration" as reported by the device
+  callStatus?: string;      // "Call Status" as reported by the device
+  callActive: boolean;
+  error?: string;
+}
+
+export interface ScheduledSipCall {
+  id: string;
+  name: string;                 // e.g. "Morning line check"
+  deviceId: string;             // Paging adapter that places the call
+  extension: string;
+  tone?: string;                // Tone played to the far end before the call connects
+  intervalSeconds?: number;     // Tone repeat interval
+  maxDurationSeconds?: number;  // Device hangs up after this long
+  repeat: SipCallRepeat;
+  date?: string;                // "YYYY-MM-DD" (once only)
+  time: string;                 // "HH:MM" station time
+  days?: number[];              // 0 = Sunday (weekly only)
+  enabled: boolean;
+}
+
+export interface SipCallPlan {
+  id: string; // same as ownerEmail
+  ownerEmail: string;
+  calls: ScheduledSipCall[];
+  updatedAt?: Date;
+}
+
+// One row per call started or stopped, manual or scheduled
+export interface SipCallLogEntry {
+  id: string;
+  ownerEmail: string;
+  scheduleId: string | null;   // null for manual calls
+  name: string;
+  deviceId: string;
+  deviceName: string;
+  action: SipCallAction;
+  extension?: string;
+  trigger: "manual" | "scheduled";
+  triggeredBy?: string;        // User email for manual calls
+  success: boolean;
+  error?: string;
+  createdAt: Date;
+}
+
+// Scheduled Announcements
+// Tones and library announcements played on a schedule (e.g. a daily 08:00
+// shift-change chime) through a paging adapter to a set of zones. A live call
+// always wins: scheduled plays are skipped while one is active and stopped
+// when one starts.
+export interface AnnouncementBlackout {
+  start: string;  // "HH:MM" station time
+  end: string;    // "HH:MM" - before start = runs past midnight; equal = all day
+  days: number[]; // Days the window starts on, 0 = Sunday (empty = every day)
+}
+
+export interface ScheduledAnnouncement {
+  id: string;
+  name: string;                 // e.g. "Shift change"
+  tone: string;                 // Default tone or announcement library filename
+  pagingDeviceId: string;       // 8301 that plays it
+  zoneIds: string[];            // Zones whose speakers receive it
+  volume: number;               // 1-100, share of each speaker's operating volume
+  loop: boolean;
+  maxDurationSeconds?: number;  // How long a looped play runs before it's stopped
+  repeat: "once" | "weekly";
+  date?: string;                // "YYYY-MM-DD" (once only)
+  time: string;                 // "HH:MM" station time
+  days?: number[];              // 0 = Sunday (weekly only)
+  blackouts: AnnouncementBlackout[];
+  enabled: boolean;
+}
+
+export interface AnnouncementPlan {
+  id: string; // same as ownerEmail
+  ownerEmail: string;
+  announcements: ScheduledAnnouncement[];
+  updatedAt?: Date;
+}
+
+// Spoken Announcements
+// Text rendered to a WAV by an offline text-to-speech engine. Saved
+// templates hold `{field}` placeholders filled in before each play,
+// e.g. "Engine {n} respond to {address}".
+export interface SpeechTemplate {
+  id: string;
+  name: string; // e.g. "Engine dispatch"
+  text: string;
+}
+
+export interface SpeechTemplatePlan {
+  id: string; // same as ownerEmail
+  ownerEmail: string;
+  templates: SpeechTemplate[];
+  updatedAt?: Date;
+}
+
 // PoE-Controlled Device Types
 export type PoEDeviceMode = "always_on" | "auto" | "always_off";
 export type PoESwitchType = "netgear_gs308ep" | "other";
@@ -174,7 +443,7 @@ export interface PoESwitch {
   name: string;
   type: PoESwitchType;
   ipAddress: string;
-  password: string;
+  hasCredentials?: boolean; // Password is stored in the server-side vault (never on this document)
   ownerEmail: string; // User who owns this switch
   isOnline: boolean;
   lastSeen: Date | null;
@@ -210,7 +479,7 @@ export interface Recording {
   size: number; // File size in bytes
   duration?: number; // Duration in seconds (if available)
   mimeType: string; // e.g., audio/webm;codecs=opus
-  timestamp: Date; // When the recording was created (PST)
-  dateKey: string; // Date key for grouping (e.g., "2026-02-02")
+  timestamp: Date; // When the recording was created
+  dateKey: string; // Date key for grouping, station date (e.g., "2026-02-02")
   createdAt: Date; // Firestore timestamp
 }
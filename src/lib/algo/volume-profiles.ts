@@ -0,0 +1,76 @@
+import type { VolumeProfileChannel, Zone, ZoneVolumeProfile } from "./types";
+
+/**
+ * Volume Profiles
+ * Which volume a zone pages at for a call type, by day or by night. A
+ * profile volume is a percent of each speaker's operating volume (see
+ * `src/lib/algo/volume.ts`), so calibration and zone caps still apply.
+ * Speakers with no matching profile use the caller's default.
+ */
+
+export const VOLUME_PROFILE_CHANNEL_LABELS: Record<VolumeProfileChannel, string> = {
+  fire: "🔥 Fire call",
+  medical: "🏥 Medical call",
+  allCall: "📢 All call",
+  anyCall: "Any call",
+};
+
+export function newZoneVolumeProfile(zoneId: string): ZoneVolumeProfile {
+  return {
+    id: `volume-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    zoneId,
+    channel: "anyCall",
+    dayVolume: 100,
+    nightVolume: 50,
+    enabled: true,
+  };
+}
+
+function isValidVolume(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 100;
+}
+
+/**
+ * Problems that would stop the profiles from being saved (empty = valid)
+ */
+export function validateVolumeProfiles(
+  profiles: ZoneVolumeProfile[],
+  zones: Pick<Zone, "id" | "name">[]
+): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const profile of profiles) {
+    const zone = zones.find((z) => z.id === profile.zoneId);
+    const name = `${zone?.name ?? "Unknown zone"} (${VOLUME_PROFILE_CHANNEL_LABELS[profile.channel]})`;
+    if (!zone) {
+      errors.push(`${name}: zone not found`);
+    }
+    if (!isValidVolume(profile.dayVolume) || !isValidVolume(profile.nightVolume)) {
+      errors.push(`${name}: volumes must be 0-100%`);
+    }
+    const key = `${profile.zoneId}:${profile.channel}`;
+    if (seen.has(key)) {
+      errors.push(`${name}: more than one profile`);
+    }
+    seen.add(key);
+  }
+  return errors;
+}
+
+/**
+ * The profile volume (0-100) for a zone and call type, or null if no enabled
+ * profile matches. A profile for the exact call type wins over an "anyCall"
+ * one, and a single-input call (channel "anyCall") only matches those.
+ */
+export function getProfileVolume(
+  profiles: ZoneVolumeProfile[],
+  zoneId: string | null | undefined,
+  channel: VolumeProfileChannel,
+  night: boolean
+): number | null {
+  if (!zoneId) return null;
+  const candidates = profiles.filter((profile) => profile.enabled && profile.zoneId === zoneId);
+  const profile = candidates.find((p) => p.channel === channel) ?? candidates.find((p) => p.channel === "anyCall");
+  if (!profile) return null;
+  return night ? profile.nightVolume : profile.dayVolume;
+}
@@ -0,0 +1,140 @@
+import type { AlgoDevice, AlgoDeviceType, Zone } from "./types";
+
+/**
+ * Speaker Volume
+ * One model for `audio.page.vol`: Algo levels (-5 to 10) and dB per device
+ * model, a speaker's operating volume (its `maxVolume`, capped by its zone's
+ * `defaultVolume`), and per-speaker calibration offsets. Every place that
+ * turns a 0-100% volume into a page volume goes through here.
+ */
+
+export interface PageVolumeScale {
+  minDb: number;   // Quietest page volume the model accepts (level -5)
+  maxDb: number;   // Loudest (level 10)
+  stepDb: number;  // dB per level
+}
+
+// Every current Algo endpoint uses the same page volume scale - kept per
+// model so a new one can differ
+const ALGO_PAGE_VOLUME: PageVolumeScale = { minDb: -45, maxDb: 0, stepDb: 3 };
+
+export const PAGE_VOLUME_SCALES: Record<AlgoDeviceType, PageVolumeScale> = {
+  "8301": ALGO_PAGE_VOLUME,
+  "8180g2": ALGO_PAGE_VOLUME,
+  "8198": ALGO_PAGE_VOLUME,
+  "8128": ALGO_PAGE_VOLUME,
+  "8138": ALGO_PAGE_VOLUME,
+  other: ALGO_PAGE_VOLUME,
+};
+
+export function getPageVolumeScale(type: AlgoDeviceType): PageVolumeScale {
+  return PAGE_VOLUME_SCALES[type] ?? ALGO_PAGE_VOLUME;
+}
+
+// Calibration is limited so a bad offset can't turn one speaker into a siren
+export const MAX_CALIBRATION_OFFSET_DB = 12;
+
+/**
+ * Algo level → dB (level 10 = 0dB, each level below is one step quieter)
+ */
+export function levelToDb(level: number, scale: PageVolumeScale = ALGO_PAGE_VOLUME): number {
+  return (level - 10) * scale.stepDb + scale.maxDb;
+}
+
+/**
+ * dB → nearest Algo level
+ */
+export function dbToLevel(db: number, scale: PageVolumeScale = ALGO_PAGE_VOLUME): number {
+  return Math.round((db - scale.maxDb) / scale.stepDb) + 10;
+}
+
+/**
+ * dB → `audio.page.vol` value, e.g. "-9dB"
+ */
+export function formatDb(db: number): string {
+  return db === 0 ? "0dB" : `${db}dB`;
+}
+
+/**
+ * Page volume as the device reports it - "-9dB", "-9" or
+ * "Page Volume: 7 (-9dB)" → dB, or null if it can't be read
+ */
+export function parsePageVolume(value: string | undefined): number | null {
+  const match = (value ?? "").match(/(-?\d+)\s*dB/i) ?? (value ?? "").trim().match(/^(-?\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Snap to the model's steps and keep within its range
+ */
+export function clampDb(db: number, scale: PageVolumeScale = ALGO_PAGE_VOLUME): number {
+  const snapped = Math.round(db / scale.stepDb) * scale.stepDb;
+  return Math.min(scale.maxDb, Math.max(scale.minDb, snapped));
+}
+
+export function validateCalibrationOffset(offsetDb: number, scale: PageVolumeScale = ALGO_PAGE_VOLUME): string | null {
+  if (!Number.isInteger(offsetDb) || Math.abs(offsetDb) > MAX_CALIBRATION_OFFSET_DB) {
+    return `Calibration must be between -${MAX_CALIBRATION_OFFSET_DB} and +${MAX_CALIBRATION_OFFSET_DB} dB`;
+  }
+  if (offsetDb % scale.stepDb !== 0) {
+    return `Calibration must be a multiple of ${scale.stepDb} dB`;
+  }
+  return null;
+}
+
+/**
+ * The volume (0-100%) a speaker runs at during a call: its own `maxVolume`,
+ * capped by its zone's `defaultVolume`
+ */
+export function getOperatingVolume(
+  speaker: Pick<AlgoDevice, "maxVolume" | "zone">,
+  zones: Pick<Zone, "id" | "defaultVolume">[] = []
+): number {
+  const zoneVolume = zones.find((zone) => zone.id === speaker.zone)?.defaultVolume;
+  return Math.min(speaker.maxVolume ?? 100, zoneVolume ?? 100);
+}
+
+export interface PageVolume {
+  percent: number;   // Volume after operating-volume scaling (0-100)
+  level: number;     // Algo level (-5 to 10)
+  db: number;        // After calibration
+  dbString: string;  // For audio.page.vol
+  idle: boolean;     // 0% - the configured idle volume, uncalibrated
+}
+
+/**
+ * An absolute volume (1-100%) → page volume for one device, with its
+ * calibration offset applied
+ */
+export function percentToPageVolume(
+  percent: number,
+  device: Pick<AlgoDevice, "type" | "volumeOffsetDb">
+): PageVolume {
+  const scale = getPageVolumeScale(device.type);
+  const level = Math.round(Math.min(100, Math.max(0, percent)) / 10);
+  const db = clampDb(levelToDb(level, scale) + (device.volumeOffsetDb ?? 0), scale);
+  return { percent, level: dbToLevel(db, scale), db, dbString: formatDb(db), idle: false };
+}
+
+/**
+ * Ramp progress (0-100%) → page volume for one speaker. 100% is the
+ * speaker's operating volume; 0% is the idle volume.
+ */
+export function resolveSpeakerVolume(
+  rampPercent: number,
+  speaker: Pick<AlgoDevice, "type" | "maxVolume" | "zone" | "volumeOffsetDb">,
+  options: { idleVolumeDb: number; zones?: Pick<Zone, "id" | "defaultVolume">[] }
+): PageVolume {
+  const percent = (Math.min(100, Math.max(0, rampPercent)) / 100) * getOperatingVolume(speaker, options.zones);
+  if (percent === 0) {
+    const scale = getPageVolumeScale(speaker.type);
+    return {
+      percent: 0,
+      level: dbToLevel(options.idleVolumeDb, scale),
+      db: options.idleVolumeDb,
+      dbString: formatDb(options.idleVolumeDb),
+      idle: true,
+    };
+  }
+  return percentToPageVolume(percent, speaker);
+}
@@ -0,0 +1,223 @@
+import { normalizeLoudness, trimLeadingSilence } from "./loudness";
+
+/**
+ * WAV Audio
+ * Reads PCM and float WAV files and writes them in the format Algo units
+ * play tones in: 16-bit PCM, mono, 16 kHz. Anything else is mixed down and
+ * resampled on the way, then trimmed and brought to the library loudness.
+ * Pure functions only - works on bytes, so the server and the browser can
+ * both use it.
+ */
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+export interface DecodedWav {
+  format: WavFormat & { float: boolean };
+  channels: Float32Array[]; // One array of -1..1 samples per channel
+  duration: number;         // Seconds
+}
+
+// A WAV converted for the speakers, and what was done to it
+export interface SpeakerAudio {
+  data: Uint8Array;
+  duration: number;       // Seconds, after trimming
+  loudness: number;       // LUFS, after the gain
+  gainDb: number;
+  peakLimited: boolean;   // Quieter than the target - louder would clip
+  trimmedSeconds: number; // Leading silence removed
+}
+
+// What tone playback on the speakers and paging adapters expects
+export const SPEAKER_WAV_FORMAT: WavFormat = { sampleRate: 16000, channels: 1, bitsPerSample: 16 };
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function readSample(view: DataView, offset: number, bits: number, float: boolean): number {
+  if (float) {
+    return bits === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bits) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+/**
+ * Read a WAV file. Throws with a readable message for anything that isn't
+ * uncompressed PCM or float audio.
+ */
+export function decodeWav(data: Uint8Array): DecodedWav {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.byteLength < 12 || readTag(view, 0) !== "RIFF" || readTag(view, 8) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: DecodedWav["format"] | null = null;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Chunks are word-aligned; streamed files may claim a data size past the end
+  for (let offset = 12; offset + 8 <= data.byteLength; ) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === "fmt ") {
+      if (size < 16) throw new Error("WAV format chunk is too short");
+      let audioFormat = view.getUint16(body, true);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        audioFormat = view.getUint16(body + 24, true);
+      }
+      if (audioFormat !== WAVE_FORMAT_PCM && audioFormat !== WAVE_FORMAT_FLOAT) {
+        throw new Error("Only uncompressed PCM or float WAV files are supported");
+      }
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+        float: audioFormat === WAVE_FORMAT_FLOAT,
+      };
+    } else if (tag === "data") {
+      dataOffset = body;
+      dataLength = Math.min(size, data.byteLength - body);
+      break;
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) throw new Error("WAV file has no format chunk");
+  if (dataOffset < 0) throw new Error("WAV file has no audio data");
+
+  const { channels, sampleRate, bitsPerSample, float } = format;
+  const validBits = float ? [32, 64] : [8, 16, 24, 32];
+  if (channels < 1 || sampleRate < 1 || !validBits.includes(bitsPerSample)) {
+    throw new Error(`Unsupported WAV format: ${channels} channel(s), ${sampleRate} Hz, ${bitsPerSample}-bit`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = Array.from({ length: channels }, () => new Float32Array(frameCount));
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const offset = dataOffset + (frame * channels + channel) * bytesPerSample;
+      samples[channel][frame] = readSample(view, offset, bitsPerSample, float);
+    }
+  }
+
+  return { format, channels: samples, duration: frameCount / sampleRate };
+}
+
+/**
+ * Write mono samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const data = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(data.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, data.byteLength - 8, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, WAVE_FORMAT_PCM, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, Math.round(sample < 0 ? sample * 32768 : sample * 32767), true);
+  }
+  return data;
+}
+
+function mixDown(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+/**
+ * Change the sample rate. Upsampling interpolates between samples;
+ * downsampling averages each output sample's span, which keeps most of the
+ * aliasing out of speech.
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    if (ratio > 1) {
+      const start = Math.floor(position);
+      const end = Math.min(samples.length, Math.max(start + 1, Math.floor(position + ratio)));
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += samples[j];
+      output[i] = sum / (end - start);
+    } else {
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, samples.length - 1);
+      const fraction = position - index;
+      output[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+    }
+  }
+  return output;
+}
+
+/**
+ * Convert a decoded WAV to what the speakers play: mono, 16 kHz, 16-bit,
+ * leading silence trimmed, at the library loudness. Throws if nothing is
+ * left to play.
+ */
+export function toSpeakerWav(wav: DecodedWav): SpeakerAudio {
+  const { sampleRate } = SPEAKER_WAV_FORMAT;
+  const mono = resample(mixDown(wav.channels), wav.format.sampleRate, sampleRate);
+  const trimmed = trimLeadingSilence(mono, sampleRate);
+  if (trimmed.length === 0) {
+    throw new Error("The audio is silent");
+  }
+
+  const { samples, loudness, gainDb, peakLimited } = normalizeLoudness(trimmed, sampleRate);
+  return {
+    data: encodeWav(samples, sampleRate),
+    duration: Math.round((samples.length / sampleRate) * 10) / 10,
+    loudness: Math.round(loudness * 10) / 10,
+    gainDb: Math.round(gainDb * 10) / 10,
+    peakLimited,
+    trimmedSeconds: Math.round(((mono.length - trimmed.length) / sampleRate) * 100) / 100,
+  };
+}
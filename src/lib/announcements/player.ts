@@ -0,0 +1,233 @@
+import { runAlgoCommand, setAlgoSettings } from "@/lib/commands/device-commands";
+import { addServerDistributionLog, getServerAppSettings, getServerZones } from "@/lib/firebase/admin";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { getAnnouncementSpeakerIds } from "@/lib/algo/announcements";
+import { describePagingClaim } from "@/lib/algo/paging-priority";
+import { resolveSpeakerVolume } from "@/lib/algo/volume";
+import { ensureLibraryFile } from "@/lib/library/sync";
+import { pagingArbiter } from "@/lib/paging/arbiter";
+import { restoreSpeakers, snapshotSpeakers, type SpeakerSnapshot } from "@/lib/paging/speaker-state";
+import { resolveAlgoDevice, resolveAlgoDevices, type ResolvedAlgoDevice } from "@/lib/vault/credentials";
+import type { DistributionLog, ScheduledAnnouncement } from "@/lib/algo/types";
+
+/**
+ * Announcement Player
+ * Plays scheduled announcements through a paging adapter and writes each
+ * one (played, skipped or cut short) to `distributionLogs`. Every play
+ * claims its adapter and speakers from the paging arbiter as a "scheduled"
+ * source: it's skipped while a live call or another announcement holds one
+ * of them, and stopped when a live call takes them over. Speakers get back
+ * the page volume and multicast mode they had before the play.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface AnnouncementPlayResult {
+  scheduleId: string;
+  name: string;
+  status: DistributionLog["status"];
+  note?: string;
+  results: DistributionLog["results"];
+}
+
+const POLL_INTERVAL_MS = 500;
+const MAX_PLAY_WAIT_MS = 5 * 60_000;
+
+export class AnnouncementPlayer {
+  /**
+   * Play one announcement and log it - never throws, a failed or skipped play
+   * is reported in the result (and the log) instead
+   */
+  async play(announcement: ScheduledAnnouncement, ownerEmail: string, triggeredBy = "scheduler"): Promise<AnnouncementPlayResult> {
+    const result: AnnouncementPlayResult = {
+      scheduleId: announcement.id,
+      name: announcement.name,
+      status: "failed",
+      results: [],
+    };
+    let targetDevices = [announcement.pagingDeviceId];
+
+    try {
+      await this.runPlay(announcement, ownerEmail, result, (ids) => {
+        targetDevices = ids;
+      });
+    } catch (error) {
+      result.status = "failed";
+      result.note = error instanceof Error ? error.message : String(error);
+      console.error(`[Announcements] ${announcement.name} failed:`, result.note);
+    }
+
+    await this.log(announcement, ownerEmail, result, targetDevices, triggeredBy);
+    return result;
+  }
+
+  /**
+   * Log a play the scheduler didn't start (e.g. inside a blackout window)
+   */
+  async skip(announcement: ScheduledAnnouncement, ownerEmail: string, note: string): Promise<AnnouncementPlayResult> {
+    const result: AnnouncementPlayResult = {
+      scheduleId: announcement.id,
+      name: announcement.name,
+      status: "skipped",
+      note,
+      results: [],
+    };
+    console.log(`[Announcements] ${announcement.name}: skipped (${note})`);
+    await this.log(announcement, ownerEmail, result, [announcement.pagingDeviceId], "scheduler");
+    return result;
+  }
+
+  private async log(
+    announcement: ScheduledAnnouncement,
+    ownerEmail: string,
+    result: AnnouncementPlayResult,
+    targetDevices: string[],
+    triggeredBy: string
+  ): Promise<void> {
+    try {
+      await addServerDistributionLog({
+        audioFileId: announcement.tone,
+        audioFileName: announcement.name,
+        targetDevices,
+        targetZones: announcement.zoneIds,
+        triggeredBy,
+        status: result.status,
+        ownerEmail,
+        scheduleId: announcement.id,
+        note: result.note,
+        results: result.results,
+      });
+    } catch (logError) {
+      console.error("[Announcements] Failed to write distribution log:", logError);
+    }
+  }
+
+  private async runPlay(
+    announcement: ScheduledAnnouncement,
+    ownerEmail: string,
+    result: AnnouncementPlayResult,
+    setTargets: (deviceIds: string[]) => void
+  ): Promise<void> {
+    const paging = await resolveAlgoDevice(announcement.pagingDeviceId);
+    if (!paging) {
+      throw new Error("Paging device not found");
+    }
+
+    const [zones, settings] = await Promise.all([getServerZones(ownerEmail), getServerAppSettings(ownerEmail)]);
+    const { devices: speakers } = await resolveAlgoDevices(getAnnouncementSpeakerIds(announcement, zones));
+    setTargets([paging.id, ...speakers.map((s) => s.id)]);
+
+    // What to put back afterwards - restored once the speakers are set up,
+    // so a preempted play never undoes the call that preempted it
+    let snapshots: SpeakerSnapshot[] = [];
+    let setup: Promise<unknown> = Promise.resolve();
+    const claim = await pagingArbiter.acquire(
+      {
+        id: `announcement:${announcement.id}:${Date.now()}`,
+        ownerEmail,
+        source: "scheduled",
+        label: announcement.name,
+        pagingDeviceIds: [paging.id],
+        speakerIds: speakers.map((s) => s.id),
+      },
+      {
+        toneDevice: paging,
+        restore: async (isHeld) => {
+          await setup.catch(() => {});
+          await restoreSpeakers(snapshots, { "mcast.mode": "0" }, isHeld);
+        },
+      }
+    );
+    if (!claim.granted) {
+      result.status = "skipped";
+      result.note = `${describePagingClaim(claim.blockedBy!)} is on the air`;
+      return;
+    }
+    const signal = claim.signal!;
+
+    try {
+      await ensureLibraryFile(paging, announcement.tone);
+
+      const idleVolumeDb = (settings ?? DEFAULT_SETTINGS).idleVolumeDb;
+      setup = (async () => {
+        if (signal.aborted) return;
+        snapshots = await snapshotSpeakers(speakers, ["audio.page.vol", "mcast.mode"]);
+        if (signal.aborted) return;
+        result.results = await Promise.all(
+          speakers.map(async (speaker) => {
+            try {
+              const { dbString } = resolveSpeakerVolume(announcement.volume, speaker, { idleVolumeDb, zones });
+              await setAlgoSettings(speaker, { "audio.page.vol": dbString, "mcast.mode": "2" });
+              return { deviceId: speaker.id, deviceName: speaker.name, success: true };
+            } catch (error) {
+              return { deviceId: speaker.id, deviceName: speaker.name, success: false, error: error instanceof Error ? error.message : String(error) };
+            }
+          })
+        );
+      })();
+      await setup;
+
+      if (!signal.aborted) {
+        await runAlgoCommand(paging, `play ${announcement.tone}`, (client) =>
+          client.playTone({ path: announcement.tone, loop: announcement.loop, mcast: true })
+        );
+        result.results.unshift({ deviceId: paging.id, deviceName: paging.name, success: true });
+        console.log(`[Announcements] ${announcement.name}: playing ${announcement.tone} on ${paging.name}`);
+
+        await this.waitForPlay(paging, announcement, signal);
+        if (announcement.loop && !signal.aborted) {
+          await runAlgoCommand(paging, "stop tone", (client) => client.stopTone(), { coalesceKey: "tone" });
+        }
+      }
+    } finally {
+      // A preempted play was already released (and restored) by the arbiter
+      await claim.release!();
+    }
+
+    if (signal.aborted) {
+      result.status = "preempted";
+      result.note = `Stopped for ${signal.reason}`;
+    } else {
+      const failed = result.results.filter((r) => !r.success).length;
+      result.status = failed === 0 ? "success" : failed < result.results.length ? "partial" : "failed";
+    }
+  }
+
+  /**
+   * Until the tone ends (or a looped one has run its duration) - a preempting
+   * source cuts the wait short
+   */
+  private async waitForPlay(paging: ResolvedAlgoDevice, announcement: ScheduledAnnouncement, signal: AbortSignal): Promise<void> {
+    const deadline = Date.now() + (announcement.loop ? (announcement.maxDurationSeconds ?? 30) * 1000 : MAX_PLAY_WAIT_MS);
+
+    while (!signal.aborted && Date.now() < deadline) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          signal.removeEventListener("abort", done);
+          resolve();
+        };
+        const timer = setTimeout(done, Math.min(POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())));
+        signal.addEventListener("abort", done, { once: true });
+      });
+      if (signal.aborted || announcement.loop) continue;
+
+      try {
+        const status = await runAlgoCommand(paging, "get status", (client) => client.getStatus(), {
+          retry: { attempts: 1 },
+        });
+        const currentAction = status["Current Action"];
+        if (!currentAction || currentAction === "None") return;
+      } catch (error) {
+        console.error("[Announcements] Status poll error:", error);
+      }
+    }
+  }
+}
+
+// One player per server process - kept on globalThis like the scheduler that
+// drives it
+const globalForPlayer = globalThis as unknown as { announcementPlayer?: AnnouncementPlayer };
+
+export const announcementPlayer =
+  globalForPlayer.announcementPlayer ?? (globalForPlayer.announcementPlayer = new AnnouncementPlayer());
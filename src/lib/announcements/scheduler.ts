@@ -0,0 +1,119 @@
+import { getAnnouncementPlans, getServerAppSettings } from "@/lib/firebase/admin";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { getActiveBlackout, describeBlackout } from "@/lib/algo/announcements";
+import { getDueWallClockSchedules } from "@/lib/algo/station-time";
+import { announcementPlayer } from "./player";
+
+/**
+ * Announcement Scheduler
+ * Checks every station's `announcementPlans` on an interval and starts the
+ * announcements whose station-time minute has come round, unless a blackout
+ * window covers it. Plays run in the background - a long looped one never
+ * holds up the next check. Announcements due while the server was down for
+ * more than a few minutes are skipped, not replayed. Started once per server
+ * process from `src/instrumentation.ts`.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface AnnouncementSchedulerTick {
+  at: number;
+  started: string[]; // Names of the announcements started
+  blackedOut: string[];
+}
+
+export class AnnouncementScheduler {
+  private intervalMs = 15_000;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastCheck = new Date();
+  private ticking: Promise<AnnouncementSchedulerTick> | null = null;
+  private lastTick: AnnouncementSchedulerTick | null = null;
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  start(intervalMs = this.intervalMs): void {
+    this.intervalMs = intervalMs;
+    this.stop();
+    this.lastCheck = new Date();
+    console.log(`[AnnouncementScheduler] Checking every ${Math.round(intervalMs / 1000)}s`);
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error("[AnnouncementScheduler] Tick failed:", error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return { running: this.isRunning, intervalMs: this.intervalMs, lastTick: this.lastTick };
+  }
+
+  /**
+   * Start every announcement that came due since the last check; a tick
+   * still in progress is joined, not doubled
+   */
+  tick(): Promise<AnnouncementSchedulerTick> {
+    if (!this.ticking) {
+      this.ticking = this.runTick().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  private async runTick(): Promise<AnnouncementSchedulerTick> {
+    const now = new Date();
+    const since = this.lastCheck;
+
+    const plans = await getAnnouncementPlans();
+    // Announcement times and blackouts are in each station's own timezone
+    const timezones = await Promise.all(
+      plans.map(async (plan) => (await getServerAppSettings(plan.ownerEmail))?.timezone ?? DEFAULT_SETTINGS.timezone)
+    );
+    // Only once the plans are in - a failed read leaves the window open for the next tick
+    this.lastCheck = now;
+
+    const tick: AnnouncementSchedulerTick = { at: now.getTime(), started: [], blackedOut: [] };
+    plans.forEach((plan, index) => {
+      for (const announcement of getDueWallClockSchedules(plan.announcements, since, now, timezones[index])) {
+        const blackout = getActiveBlackout(announcement.blackouts, now, timezones[index]);
+        if (blackout) {
+          tick.blackedOut.push(announcement.name);
+          announcementPlayer.skip(announcement, plan.ownerEmail, `Blackout window (${describeBlackout(blackout)})`);
+          continue;
+        }
+        tick.started.push(announcement.name);
+        announcementPlayer.play(announcement, plan.ownerEmail);
+      }
+    });
+
+    this.lastTick = tick;
+    return tick;
+  }
+}
+
+// One scheduler per server process - kept on globalThis so dev hot reloads
+// don't start a second timer (and play every announcement twice)
+const globalForScheduler = globalThis as unknown as { announcementScheduler?: AnnouncementScheduler };
+
+export const announcementScheduler =
+  globalForScheduler.announcementScheduler ?? (globalForScheduler.announcementScheduler = new AnnouncementScheduler());
+
+/**
+ * Start checking unless ANNOUNCEMENT_SCHEDULER_ENABLED=false
+ */
+export function startAnnouncementScheduler(): void {
+  if (process.env.ANNOUNCEMENT_SCHEDULER_ENABLED === "false") {
+    console.log("[AnnouncementScheduler] Disabled (ANNOUNCEMENT_SCHEDULER_ENABLED=false)");
+    return;
+  }
+  if (!announcementScheduler.isRunning) {
+    announcementScheduler.start();
+  }
+}
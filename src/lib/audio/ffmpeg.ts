@@ -0,0 +1,57 @@
+import { spawn } from "child_process";
+
+/**
+ * ffmpeg
+ * Runs the ffmpeg binary for tone transcoding and recording exports. Set
+ * FFMPEG_PATH if it isn't on the PATH.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface FfmpegOptions {
+  input?: Uint8Array;  // Written to stdin, for args reading "pipe:0"
+  timeoutMs: number;   // Stopped after this long
+  subject: string;     // What's converted, for errors - e.g. "the MP3 file"
+}
+
+/**
+ * Run ffmpeg with `args` (after -hide_banner -loglevel error) and resolve
+ * with what it wrote to stdout. Rejects with a readable message when ffmpeg
+ * is missing, fails or runs out of time.
+ */
+export function runFfmpeg(args: string[], { input, timeoutMs, subject }: FfmpegOptions): Promise<Buffer> {
+  const binary = process.env.FFMPEG_PATH?.trim() || "ffmpeg";
+
+  return new Promise((resolve, reject) => {
+    // -nostdin stops ffmpeg reading keyboard commands when it has no input
+    const flags = ["-hide_banner", "-loglevel", "error", ...(input ? [] : ["-nostdin"])];
+    const child = spawn(binary, [...flags, ...args], { stdio: ["pipe", "pipe", "pipe"], timeout: timeoutMs });
+    const output: Buffer[] = [];
+    let stderr = "";
+
+    child.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+    child.stderr.on("data", (chunk) => {
+      stderr = (stderr + chunk).slice(-500);
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === "ENOENT"
+          ? new Error(`Converting ${subject} needs ffmpeg on the server - install it or set FFMPEG_PATH`)
+          : error
+      );
+    });
+    child.on("close", (code, signal) => {
+      if (code === 0) {
+        resolve(Buffer.concat(output));
+      } else if (signal) {
+        reject(new Error(`Converting ${subject} took too long`));
+      } else {
+        reject(new Error(`Couldn't convert ${subject}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+      }
+    });
+
+    // Input ffmpeg rejects early closes stdin - that's reported on close
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
@@ -0,0 +1,109 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  EXPORT_GAP_SECONDS,
+  RECORDING_EXPORT_FORMATS,
+  buildExportMetadata,
+  exportFilename,
+  sortRecordingsByTime,
+  type RecordingExportFormat,
+} from "@/lib/algo/recording-export";
+import type { Recording } from "@/lib/algo/types";
+import { runFfmpeg } from "@/lib/audio/ffmpeg";
+
+/**
+ * Recording Export
+ * Downloads sessions from storage and converts them with ffmpeg: one file,
+ * or several joined in time order with a short gap, as mono 48 kHz audio
+ * tagged with buildExportMetadata.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface ExportedRecording {
+  audio: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+// Longest one session download may take
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
+// Longest ffmpeg may take on one export
+const EXPORT_TIMEOUT_MS = 5 * 60_000;
+
+const EXPORT_SAMPLE_RATE = 48000;
+
+const CODEC_ARGS: Record<RecordingExportFormat, string[]> = {
+  mp3: ["-c:a", "libmp3lame", "-b:a", "128k", "-id3v2_version", "3"],
+  wav: ["-c:a", "pcm_s16le"],
+  ogg: ["-c:a", "libopus", "-b:a", "64k"],
+};
+
+async function downloadSession(recording: Recording): Promise<Buffer> {
+  const response = await fetch(recording.storageUrl, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Couldn't download ${recording.filename} (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Each input as mono 48 kHz (padded with the gap unless it's last), then
+ * joined into [out]
+ */
+function concatFilter(count: number): string {
+  const inputs = Array.from({ length: count }, (_, i) => {
+    const pad = i < count - 1 ? `,apad=pad_dur=${EXPORT_GAP_SECONDS}` : "";
+    return `[${i}:a]aresample=${EXPORT_SAMPLE_RATE},aformat=sample_fmts=s16:channel_layouts=mono${pad}[a${i}]`;
+  });
+  const labels = Array.from({ length: count }, (_, i) => `[a${i}]`).join("");
+  return `${inputs.join(";")};${labels}concat=n=${count}:v=0:a=1[out]`;
+}
+
+/**
+ * Export `recordings` (already loaded from Firestore) as one file
+ */
+export async function exportRecordings(
+  recordings: Recording[],
+  format: RecordingExportFormat,
+  timeZone: string
+): Promise<ExportedRecording> {
+  const sessions = sortRecordingsByTime(recordings);
+  const { extension, mimeType } = RECORDING_EXPORT_FORMATS[format];
+
+  const dir = await mkdtemp(path.join(tmpdir(), "algo-export-"));
+  try {
+    const inputs: string[] = [];
+    for (const [i, session] of sessions.entries()) {
+      const file = path.join(dir, `session-${i}`);
+      await writeFile(file, await downloadSession(session));
+      inputs.push("-i", file);
+    }
+
+    const metadata = Object.entries(buildExportMetadata(sessions, timeZone)).flatMap(([key, value]) => [
+      "-metadata",
+      `${key}=${value}`,
+    ]);
+
+    // Written to a file, not stdout, so WAV headers carry the real sizes
+    const outputFile = path.join(dir, `export.${extension}`);
+    await runFfmpeg(
+      [
+        ...inputs,
+        "-filter_complex", concatFilter(sessions.length),
+        "-map", "[out]",
+        "-map_metadata", "-1",
+        ...metadata,
+        ...CODEC_ARGS[format],
+        "-y", outputFile,
+      ],
+      { timeoutMs: EXPORT_TIMEOUT_MS, subject: sessions.length === 1 ? "the recording" : "the recordings" }
+    );
+
+    return { audio: await readFile(outputFile), filename: exportFilename(sessions, format), mimeType };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
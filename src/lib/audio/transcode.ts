@@ -0,0 +1,70 @@
+import {
+  AUDIO_FORMAT_LABELS,
+  MAX_TONE_SECONDS,
+  detectAudioFormat,
+  type AudioFormat,
+} from "@/lib/algo/audio-format";
+import { runFfmpeg } from "@/lib/audio/ffmpeg";
+import { decodeWav, toSpeakerWav, type DecodedWav, type SpeakerAudio } from "@/lib/algo/wav";
+
+/**
+ * Tone Transcoding
+ * Turns an uploaded file into a tone every speaker plays at the library
+ * level: detects the format, decodes WAVs directly and anything else (or a
+ * compressed WAV) through ffmpeg, then converts, trims and normalizes with
+ * toSpeakerWav.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface TranscodedTone extends Omit<SpeakerAudio, "data"> {
+  audio: Buffer;
+  format: AudioFormat; // What was uploaded
+}
+
+// Longest ffmpeg may take on one file
+const FFMPEG_TIMEOUT_MS = 60_000;
+
+/**
+ * Decode anything ffmpeg reads to a 16 kHz mono 16-bit WAV (streamed, so its
+ * sizes are placeholders - decodeWav reads to the end of the data)
+ */
+function ffmpegToWav(data: Uint8Array, format: AudioFormat): Promise<Buffer> {
+  return runFfmpeg(
+    ["-i", "pipe:0", "-vn", "-ac", "1", "-ar", "16000", "-c:a", "pcm_s16le", "-f", "wav", "pipe:1"],
+    { input: data, timeoutMs: FFMPEG_TIMEOUT_MS, subject: `the ${AUDIO_FORMAT_LABELS[format]} file` }
+  );
+}
+
+async function decodeUpload(data: Uint8Array, format: AudioFormat): Promise<DecodedWav> {
+  if (format !== "wav") {
+    return decodeWav(await ffmpegToWav(data, format));
+  }
+  try {
+    return decodeWav(data);
+  } catch (error) {
+    // ADPCM, mu-law and other compressed WAVs - only ffmpeg reads those
+    try {
+      return decodeWav(await ffmpegToWav(data, format));
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Transcode an upload (already checked with validateAudioUpload). Throws a
+ * readable message for files that can't be used as a tone.
+ */
+export async function transcodeTone(data: Uint8Array): Promise<TranscodedTone> {
+  const format = detectAudioFormat(data);
+  if (!format) {
+    throw new Error("Not an audio file we can read");
+  }
+
+  const { data: wav, ...report } = toSpeakerWav(await decodeUpload(data, format));
+  if (report.duration > MAX_TONE_SECONDS) {
+    throw new Error(`Tones must be under ${MAX_TONE_SECONDS / 60} minutes (this one is ${Math.round(report.duration)}s)`);
+  }
+  return { ...report, audio: Buffer.from(wav), format };
+}
@@ -32,6 +32,13 @@
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
+import { getProfileVolume } from './algo/volume-profiles';
+import type { VolumeProfileChannel, ZoneVolumeProfile } from './algo/types';
+
+// Longest activation (or deactivation) waits for the server to answer a live
+// call report - stopping a tone play on the call's devices takes most of it
+const LIVE_CALL_REPORT_WAIT_MS = 2000;
+
 // ============================================================================
 // Types & Interfaces
 // ============================================================================
@@ -82,11 +89,21 @@ export interface CompletedSession {
   playbackUploadUrl?: string;
 }
 
+// The server's answer to a live call report (`/api/paging/claim`)
+export interface LiveCallAnswer {
+  yieldDeviceIds: string[]; // 'start': a higher-priority call holds these - don't switch them
+  heldDeviceIds: string[];  // 'end': another call still holds these - don't switch them back
+}
+
 export interface BatchCoordinatorConfig {
   // Audio validation
   audioThreshold: number;                  // Threshold level for audio detection
   sustainDuration: number;                 // Duration audio must be sustained (ms)
 
+  // Call trigger (default: 'audio'). With a relay mode, feed the polled
+  // 8301/8180 relay input to onRelayChange()
+  triggerMode?: 'audio' | 'relay' | 'relay_and_audio';
+
   // Batch settings
   batchDuration: number;                   // Target duration per batch (ms)
   minBatchDuration?: number;               // Min duration before completing batch (ms)
@@ -110,10 +127,8 @@ export interface BatchCoordinatorConfig {
     id: string;
     name: string;
     ipAddress: string;
-    password: string;
-    authMethod: string;
   } | null;
-  setPagingMulticastIP?: (active: boolean) => Promise<void>; // Set multicast IP (active=224.0.2.60:5002, idle=224.0.2.60:50022)
+  setPagingMulticastIP?: (active: boolean, skipDeviceIds?: string[]) => Promise<void>; // Set multicast IP (active=224.0.2.60:5002, idle=224.0.2.60:50022), leaving skipDeviceIds alone
 
   // Speaker control
   linkedSpeakers: Array<{
@@ -121,14 +136,16 @@ export interface BatchCoordinatorConfig {
     name: string;
     ipAddress: string;
     volume: number;
+    zone?: string | null;                  // Zone id, for volume profiles
   }>;
-  setSpeakerVolume?: (speakerId: string, volume: number) => Promise<void>;
+  setSpeakerVolume?: (speakerId: string, volume: number) => Promise<void>; // % of the speaker's operating volume
   rampEnabled: boolean;
   dayNightMode: boolean;
-  dayStartHour: number;
-  dayEndHour: number;
+  isNight?: () => boolean;                 // Station day/night schedule (default: always day)
   nightRampDuration: number;
-  targetVolume: number;
+  targetVolume: number;                    // Speakers with no matching volume profile
+  volumeProfiles?: ZoneVolumeProfile[];    // Per-zone day/night volumes
+  inputChannel?: VolumeProfileChannel;     // Call type this coordinator pages (default: anyCall)
 
   // PoE control
   poeDevices: Array<{
@@ -139,6 +156,22 @@ export interface BatchCoordinatorConfig {
   }>;
   controlPoEDevices?: (deviceIds: string[], action: 'on' | 'off') => Promise<void>;
 
+  // Strobe control (8128/8138 visual alerters)
+  strobeDevices?: Array<{
+    id: string;
+    name: string;
+  }>;
+  controlStrobes?: (deviceIds: string[], action: 'on' | 'off') => Promise<void>;
+
+  // Door / relay rules (callStartedAt = first audio of the call, for the audit log)
+  triggerDoorActions?: (phase: 'start' | 'end', callStartedAt: number) => Promise<void>;
+
+  // Live call starting / ending - tone plays on the same devices stop and
+  // hold off. Hardware waits (briefly) for the answer, so a stopped
+  // announcement has handed the speakers back before the call switches them,
+  // and devices another call holds are left alone
+  reportLiveCall?: (phase: 'start' | 'end') => Promise<LiveCallAnswer>;
+
   // Callbacks
   onLog: (entry: { type: string; message: string; audioLevel?: number }) => void;
   onUpload: (blob: Blob, mimeType: string, timestamp: number, isPlayback?: boolean) => Promise<string>;
@@ -159,6 +192,7 @@ export class BatchCoordinator {
   private maxBatchDuration: number;
   private sustainDuration: number;
   private silenceTimeout: number;
+  private triggerMode: 'audio' | 'relay' | 'relay_and_audio';
 
   // State
   private stream: MediaStream | null = null;
@@ -170,7 +204,7 @@ export class BatchCoordinator {
   private lastAudioTime: number = 0;
   private silenceCheckInterval: number | null = null;
   private sessionStartTime: number = 0;
-  private firstAudioDetectionTime: number = 0; // PST timestamp when audio first detected
+  private firstAudioDetectionTime: number = 0; // Epoch ms when audio first detected
   private initSegment: Blob | null = null; // First chunk with headers for playback
 
   // Web Audio API for playback
@@ -191,12 +225,18 @@ export class BatchCoordinator {
   private pagingActive: boolean = false;      // Zone 1 active
   private hardwareReady: boolean = false;     // Speakers ramped, PoE enabled
   private isInZone1: boolean = false;         // Track zone for subsequent calls
+  private strobesActive: boolean = false;     // Strobes flashing for the current call
+  private doorCallStartedAt: number = 0;      // Call whose start-of-call door rules have run (0 = none)
+  private liveCallReported: boolean = false;  // Server told this call started (announcements held off)
+  private yieldedDeviceIds: string[] = [];    // Held by a higher-priority call - this call leaves them alone
   private speakerVolumesInitialized: boolean = false; // Volumes set once at monitoring start
+  private appliedSpeakerVolumes = new Map<string, number>(); // Last volume sent to each speaker
 
   // Validation
   private audioValidated: boolean = false;
   private validationStartTime: number = 0;
   private isPreBuffering: boolean = false; // Recording during validation
+  private relayActive: boolean = false;    // Relay input contact closed (holds the call open)
 
   // Session ID gate (prevents late playback after session invalidation)
   private sessionId: number = 0;
@@ -251,6 +291,7 @@ export class BatchCoordinator {
     this.maxBatchDuration = config.maxBatchDuration || 10000;
     this.sustainDuration = config.sustainDuration || 500;
     this.silenceTimeout = config.disableDelay; // Respect user setting, no fallback
+    this.triggerMode = config.triggerMode ?? 'audio';
     this.tailGuardDuration = config.tailGuardDuration ?? 3000; // Default: 3s
     this.postPlaybackGraceDuration = config.postPlaybackGraceDuration ?? 750; // Default: 750ms
     this.playbackRampDuration = config.playbackRampDuration ?? 2000; // Default: 2s
@@ -279,6 +320,7 @@ export class BatchCoordinator {
     this.finishingSessionBatches = []; // Reset finishing session batches
     this.tailGuardActive = false; // Reset TailGuard state
     this.tailGuardStartTime = 0;
+    this.relayActive = false; // Next relay poll re-reports a closed contact
 
     this.log(`BatchCoordinator started (session ${this.sessionId})`);
 
@@ -333,9 +375,9 @@ export class BatchCoordinator {
     // After this, we NEVER touch speaker volumes again - only change multicast IP!
     if (!this.speakerVolumesInitialized && this.config.linkedSpeakers.length > 0 && this.config.playbackEnabled) {
       this.log('🔊 Initializing speaker volumes (one-time setup)...');
-      await this.setSpeakersToTargetVolume();
+      await this.applySpeakerVolumes();
       this.speakerVolumesInitialized = true;
-      this.log('  ✓ Speaker volumes initialized - will not change during sessions');
+      this.log('  ✓ Speaker volumes initialized - only change when day/night profiles do');
     }
 
     // Don't start recording yet - wait for audio validation
@@ -346,6 +388,35 @@ export class BatchCoordinator {
    * Handle audio detection event
    */
   onAudioDetected(level: number): void {
+    // Relay-only: the contact alone starts and ends calls
+    if (this.triggerMode === 'relay') return;
+    this.handleCallActivity(level);
+  }
+
+  /**
+   * Handle relay input state (dry contact from the dispatch system)
+   * A closed contact counts as validated audio: the session starts and hardware
+   * arms right away, before any voice arrives, and the call is held open until
+   * the contact opens. Repeats of the same state are ignored.
+   */
+  onRelayChange(active: boolean): void {
+    if (this.triggerMode === 'audio' || active === this.relayActive) return;
+    this.relayActive = active;
+
+    if (active) {
+      this.log('🔌 Relay input ACTIVE - starting call and arming hardware (no sustain wait)');
+      this.handleCallActivity(1);
+    } else {
+      this.log(`🔌 Relay input idle - ${this.silenceTimeout / 1000}s silence countdown starts now`);
+      this.lastAudioTime = Date.now();
+      this.handleSilence();
+    }
+  }
+
+  /**
+   * Audio or a closed relay contact - starts, validates or extends a session
+   */
+  private handleCallActivity(level: number): void {
     this.lastAudioTime = Date.now();
 
     // 🔍 DEBUG: Log ALL audio detection calls
@@ -396,6 +467,7 @@ export class BatchCoordinator {
         this.firstAudioDetectionTime = Date.now(); // New timestamp for this session
 
         this.log(`🔒 Grace: Step 2 - New session started (session ${this.sessionId}), playback queue preserved (${this.playbackQueue.length} batches)`);
+        this.transitionTo(SystemState.RECORDING);
 
         // Start new batch for the new session (standby batch becomes first batch)
         if (this.currentBatch && this.currentBatch.state === BatchState.Recording) {
@@ -425,7 +497,7 @@ export class BatchCoordinator {
           clearInterval(this.silenceCheckInterval);
           this.silenceCheckInterval = null;
         }
-        this.onSilence(); // Start fresh silence monitoring
+        this.handleSilence(); // Start fresh silence monitoring
 
         this.log(`🔒 Grace: Recording continues while hardware resets (non-blocking)`);
 
@@ -458,13 +530,14 @@ export class BatchCoordinator {
 
       if (!this.audioValidated && this.validationStartTime) {
         const elapsed = Date.now() - this.validationStartTime;
-        if (elapsed >= this.sustainDuration) {
+        if (elapsed >= this.sustainDuration || this.relayActive) {
           this.audioValidated = true;
           this.log(`🛡️ TailGuard: Audio validated (${elapsed}ms) - PROMOTING to new session`);
 
           // Deactivate TailGuard - it's now a full session
           this.tailGuardActive = false;
           this.tailGuardStartTime = 0;
+          this.transitionTo(SystemState.RECORDING);
 
           // 🔥 CRITICAL: Restart silence monitoring for the promoted session
           // This ensures the promoted session has a fresh 8s silence countdown
@@ -472,7 +545,7 @@ export class BatchCoordinator {
             clearInterval(this.silenceCheckInterval);
             this.silenceCheckInterval = null;
           }
-          this.onSilence(); // Start fresh silence monitoring with updated lastAudioTime
+          this.handleSilence(); // Start fresh silence monitoring with updated lastAudioTime
 
           // Start new batch for the promoted session
           // MediaRecorder is already running, just continue batching
@@ -514,6 +587,7 @@ export class BatchCoordinator {
       if (!this.validationStartTime) {
         this.validationStartTime = Date.now();
         this.log(`Audio detected (${(level * 100).toFixed(0)}%), validating...`);
+        this.transitionTo(SystemState.ARMED);
 
         // 🎙️ Start recording IMMEDIATELY (pre-buffer mode)
         // Discard idle standby batch (if exists) and start fresh
@@ -529,16 +603,17 @@ export class BatchCoordinator {
       }
 
       const elapsed = Date.now() - this.validationStartTime;
-      if (elapsed >= this.sustainDuration) {
+      if (elapsed >= this.sustainDuration || this.relayActive) {
         this.audioValidated = true;
         this.isPreBuffering = false;
 
-        // Capture first audio detection time (PST) - only set once per session
+        // Capture first audio detection time - only set once per session
         if (this.firstAudioDetectionTime === 0) {
           this.firstAudioDetectionTime = Date.now();
         }
 
         this.log(`✓ Audio validated (${elapsed}ms above threshold) - pre-buffer committed`);
+        this.transitionTo(SystemState.RECORDING);
 
         // Trigger hardware activation
         if (!this.pagingActive && !this.hardwareReady) {
@@ -565,6 +640,12 @@ export class BatchCoordinator {
    * Handle silence event
    */
   onSilence(): void {
+    // The relay ends relay-only calls, and a closed contact holds any call open
+    if (this.triggerMode === 'relay' || this.relayActive) return;
+    this.handleSilence();
+  }
+
+  private handleSilence(): void {
     // If in pre-buffer mode and silence detected, validation failed
     if (this.isPreBuffering && !this.audioValidated) {
       this.log('⚠️ Validation failed (silence during validation) - discarding pre-buffer');
@@ -578,6 +659,7 @@ export class BatchCoordinator {
       this.batches = [];
       this.isPreBuffering = false;
       this.validationStartTime = 0;
+      this.transitionTo(SystemState.IDLE);
 
       // If this was a finish-phase prebuffer, clear the pending start flag
       if (this.pendingStart) {
@@ -618,7 +700,8 @@ export class BatchCoordinator {
       this.log(`Silence detected, starting ${this.silenceTimeout / 1000}s countdown`);
 
       this.silenceCheckInterval = window.setInterval(() => {
-        const silenceElapsed = Date.now() - this.lastAudioTime;
+        // A closed relay contact counts as continuous audio
+        const silenceElapsed = this.relayActive ? 0 : Date.now() - this.lastAudioTime;
 
         // 🎯 Check if we should activate TailGuard or expire it
         if (silenceElapsed >= this.silenceTimeout && !this.tailGuardActive) {
@@ -645,6 +728,7 @@ export class BatchCoordinator {
           this.validationStartTime = 0;
 
           this.log(`🛡️ TailGuard ACTIVATED (${this.tailGuardDuration}ms window)`);
+          this.transitionTo(SystemState.TAILGUARD);
           this.log('   MediaRecorder stays active - listening for emergency audio');
           this.log(`   🎯 Validation state reset (audioValidated=${this.audioValidated}) - ready to detect emergency audio`);
 
@@ -783,6 +867,12 @@ export class BatchCoordinator {
     this.tailGuardActive = false;
     this.tailGuardStartTime = 0;
 
+    // Don't leave strobes flashing when monitoring stops mid-call
+    await this.setStrobes('off', 'Abort');
+    this.triggerDoorActions('end');
+    this.reportLiveCall('end');
+    this.yieldedDeviceIds = [];
+
     // Cleanup without uploading
     await this.cleanup(false);
   }
@@ -805,6 +895,13 @@ export class BatchCoordinator {
     return 'Idle';
   }
 
+  /**
+   * Get current system state machine position
+   */
+  getSystemState(): SystemState {
+    return this.systemState;
+  }
+
   // ============================================================================
   // Batch Recording
   // ============================================================================
@@ -998,6 +1095,11 @@ export class BatchCoordinator {
     batch.playbackStartTime = Date.now();
     this.isPlaying = true;
 
+    // Playback during an active session (TailGuard/finish phases keep their own state)
+    if (this.systemState === SystemState.RECORDING) {
+      this.transitionTo(SystemState.PLAYING);
+    }
+
     const batchIndex = this.batches.indexOf(batch) + 1;
     this.log(`Playing batch ${batchIndex} of ${this.batches.length}`);
 
@@ -1263,6 +1365,9 @@ export class BatchCoordinator {
 
     this.log('🎛️  HARDWARE ACTIVATION:');
 
+    // Step 0: Stop any announcement or tone test before touching the speakers
+    this.yieldedDeviceIds = await this.reportLiveCall('start');
+
     try {
       // Step 1: Set speakers' multicast IP to active (224.0.2.60:50002)
       // DON'T touch paging device (it freezes) - change speakers instead!
@@ -1271,21 +1376,25 @@ export class BatchCoordinator {
           this.log('Step 1: Speakers already in active mode');
         } else {
           this.log('Step 1: Switching speakers to active mode (224.0.2.60:50002)...');
-          await this.config.setPagingMulticastIP(true);
+          await this.config.setPagingMulticastIP(true, this.yieldedDeviceIds);
           this.log('  ✓ Multicast IP change sent to speakers (includes reload + polling)');
           this.isInZone1 = true;
         }
         this.pagingActive = true;
       }
 
-      // Step 2: Speaker volumes - SKIP! (already set at monitoring start)
-      // We NEVER touch speaker volumes during sessions - only at initialization
-      // This prevents network thrashing and ensures smooth operation
+      // Step 2: Speaker volumes - already set at monitoring start. Only
+      // speakers whose zone profile changed since (day → night) are sent,
+      // so a normal call makes no volume requests at all
+      if (this.speakerVolumesInitialized) {
+        await this.applySpeakerVolumes('Step 2');
+      }
 
       // Step 2.5: Ramp playback gain node (fast, smooth, no network!)
       if (this.config.playbackEnabled && this.config.rampEnabled) {
-        // Check day/night mode: if enabled, only ramp during night hours
-        const shouldRamp = !this.config.dayNightMode || this.shouldUseNightRamp();
+        // Check day/night mode: if enabled, only ramp during night hours.
+        // The gain ramp is relative - each speaker ends at its zone's profile volume
+        const shouldRamp = !this.config.dayNightMode || this.isNight();
 
         if (shouldRamp) {
           this.log(`Step 2.5: Ramping playback gain (${this.playbackStartVolume.toFixed(2)} → ${this.playbackMaxVolume.toFixed(2)} over ${this.playbackRampDuration}ms)...`);
@@ -1314,6 +1423,12 @@ export class BatchCoordinator {
         this.log(`  ✓ Enabled ${autoPoEDevices.length} PoE device(s)`);
       }
 
+      // Step 3.5: Start strobes (visual alert for a loud apparatus bay)
+      await this.setStrobes('on', 'Step 3.5');
+
+      // Step 3.6: Door rules for the call starting (not awaited - a door never holds up audio)
+      this.triggerDoorActions('start');
+
       // Step 4: Start recording playback output (what actually plays through speakers)
       if (this.config.playbackEnabled && this.playbackDestination) {
         this.startPlaybackRecording();
@@ -1354,12 +1469,18 @@ export class BatchCoordinator {
         this.log(`  ✓ Disabled ${autoPoEDevices.length} PoE device(s)`);
       }
 
+      // Step 2.5: Stop strobes
+      await this.setStrobes('off', 'Step 2.5');
+      this.triggerDoorActions('end');
+      const heldDeviceIds = await this.reportLiveCall('end');
+      this.yieldedDeviceIds = [];
+
       // Step 3: Set speakers' multicast IP to idle (224.0.2.60:50022)
       // Different port = speakers don't receive audio from paging
       if (this.config.pagingDevice && this.config.setPagingMulticastIP) {
         if (this.isInZone1) {
           this.log('Step 3: Switching speakers to idle mode (224.0.2.60:50022)...');
-          await this.config.setPagingMulticastIP(false);
+          await this.config.setPagingMulticastIP(false, heldDeviceIds);
           this.log('  ✓ Multicast IP change sent to speakers (includes reload + polling)');
           this.pagingActive = false;
           this.isInZone1 = false;
@@ -1378,6 +1499,75 @@ export class BatchCoordinator {
     }
   }
 
+  /**
+   * Start or stop the call's strobes
+   * A strobe that doesn't answer must never hold up or fail the audio, so
+   * errors are logged and swallowed here
+   */
+  private async setStrobes(action: 'on' | 'off', step: string): Promise<void> {
+    const strobes = this.config.strobeDevices ?? [];
+    if (strobes.length === 0 || !this.config.controlStrobes) return;
+    if ((action === 'on') === this.strobesActive) return;
+
+    this.log(`${step}: ${action === 'on' ? 'Starting' : 'Stopping'} ${strobes.length} strobe(s)...`);
+    this.strobesActive = action === 'on';
+    try {
+      await this.config.controlStrobes(strobes.map(d => d.id), action);
+      this.log(`  ✓ Strobes ${action === 'on' ? 'started' : 'stopped'}`);
+    } catch (error) {
+      this.log(`  ⚠️ Strobe ${action === 'on' ? 'start' : 'stop'} failed: ${error}`);
+    }
+  }
+
+  /**
+   * Run the door rules for the current call starting or ending
+   * Fire-and-forget: failures are logged (and audited server-side) only
+   */
+  private triggerDoorActions(phase: 'start' | 'end'): void {
+    if (!this.config.triggerDoorActions) return;
+    if (phase === 'end' && this.doorCallStartedAt === 0) return; // Nothing started
+
+    const callStartedAt = phase === 'start'
+      ? this.firstAudioDetectionTime || Date.now()
+      : this.doorCallStartedAt;
+    this.doorCallStartedAt = phase === 'start' ? callStartedAt : 0;
+
+    this.log(`Door rules: call ${phase === 'start' ? 'started' : 'ended'}`);
+    this.config.triggerDoorActions(phase, callStartedAt).catch((error) => {
+      this.log(`  ⚠️ Door rules failed: ${error}`);
+    });
+  }
+
+  /**
+   * Tell the server a live call started or ended (once each per call) and
+   * return the devices to leave alone: on 'start' those a higher-priority call
+   * holds, on 'end' those another call still holds
+   * Waits up to LIVE_CALL_REPORT_WAIT_MS for the answer - without one in time
+   * (or on failure) every device is switched as usual.
+   */
+  private async reportLiveCall(phase: 'start' | 'end'): Promise<string[]> {
+    if (!this.config.reportLiveCall) return [];
+    if (this.liveCallReported === (phase === 'start')) return [];
+    this.liveCallReported = phase === 'start';
+
+    const report = this.config.reportLiveCall(phase).then(
+      (answer) => (phase === 'start' ? answer.yieldDeviceIds : answer.heldDeviceIds) ?? [],
+      (error) => {
+        this.log(`  ⚠️ Live call report failed: ${error}`);
+        return [] as string[];
+      }
+    );
+    // A slow or unreachable server never holds the call up for long
+    const leaveAlone = await Promise.race([
+      report,
+      new Promise<string[]>((resolve) => setTimeout(() => resolve([]), LIVE_CALL_REPORT_WAIT_MS)),
+    ]);
+    if (leaveAlone.length > 0) {
+      this.log(`  Leaving ${leaveAlone.length} device(s) to ${phase === 'start' ? 'a higher-priority call' : 'the call still holding them'}`);
+    }
+    return leaveAlone;
+  }
+
   /**
    * Start recording playback output (what actually plays through speakers)
    * Non-blocking - runs in parallel with playback
@@ -1466,20 +1656,44 @@ export class BatchCoordinator {
   }
 
   /**
-   * Set speakers to target volume instantly (no ramping, just set once)
+   * The volume (% of operating volume) a speaker pages at right now: its
+   * zone's profile for this call type, or targetVolume if none matches
+   */
+  private getSpeakerTargetVolume(speaker: BatchCoordinatorConfig['linkedSpeakers'][number]): number {
+    const profileVolume = getProfileVolume(
+      this.config.volumeProfiles ?? [],
+      speaker.zone,
+      this.config.inputChannel ?? 'anyCall',
+      this.isNight()
+    );
+    return profileVolume ?? this.config.targetVolume;
+  }
+
+  /**
+   * Set each speaker to its target volume instantly (no ramping). Speakers
+   * already at that volume are skipped.
    */
-  private async setSpeakersToTargetVolume(): Promise<void> {
+  private async applySpeakerVolumes(step?: string): Promise<void> {
     if (this.config.linkedSpeakers.length === 0 || !this.config.setSpeakerVolume) {
       return;
     }
 
-    const targetVolume = this.config.targetVolume;
-    this.log(`🔊 Setting ${this.config.linkedSpeakers.length} speakers to ${targetVolume}% (instant, no ramp)`);
+    // Speakers a higher-priority call holds keep its volume - they catch up
+    // on the next call
+    const changes = this.config.linkedSpeakers
+      .filter((speaker) => !this.yieldedDeviceIds.includes(speaker.id))
+      .map((speaker) => ({ speaker, volume: this.getSpeakerTargetVolume(speaker) }))
+      .filter(({ speaker, volume }) => this.appliedSpeakerVolumes.get(speaker.id) !== volume);
+    if (changes.length === 0) return;
+
+    this.log(`${step ? `${step}: ` : '🔊 '}Setting ${changes.length} speaker(s) to their ${this.isNight() ? 'night' : 'day'} volume (instant, no ramp)`);
 
     await Promise.all(
-      this.config.linkedSpeakers.map(async (speaker) => {
+      changes.map(async ({ speaker, volume }) => {
         try {
-          await this.config.setSpeakerVolume!(speaker.id, targetVolume);
+          await this.config.setSpeakerVolume!(speaker.id, volume);
+          this.appliedSpeakerVolumes.set(speaker.id, volume);
+          this.log(`  ✓ ${speaker.name}: ${volume}%`);
         } catch (error) {
           this.log(`Failed to set ${speaker.name} volume: ${error}`);
         }
@@ -1550,60 +1764,13 @@ export class BatchCoordinator {
     }
   }
 
-  private async rampSpeakerVolumes(targetVolume: number): Promise<void> {
-    if (!this.config.setSpeakerVolume) return;
-
-    // Determine if we should ramp based on time of day
-    const shouldRamp = this.shouldRampVolume();
-
-    if (!shouldRamp) {
-      // Day mode: Set volumes immediately
-      for (const speaker of this.config.linkedSpeakers) {
-        const volume = Math.min(speaker.volume, targetVolume) / 100;
-        await this.config.setSpeakerVolume(speaker.id, volume);
-      }
-      return;
-    }
-
-    // Night mode: Ramp volumes gradually
-    const steps = 10;
-    const stepDelay = this.config.nightRampDuration / steps;
-
-    for (let i = 0; i <= steps; i++) {
-      const progress = i / steps;
-      for (const speaker of this.config.linkedSpeakers) {
-        const maxVolume = Math.min(speaker.volume, targetVolume);
-        const volume = (maxVolume * progress) / 100;
-        await this.config.setSpeakerVolume(speaker.id, volume);
-      }
-
-      if (i < steps) {
-        await new Promise(resolve => setTimeout(resolve, stepDelay));
-      }
-    }
-  }
-
-  private shouldRampVolume(): boolean {
-    if (!this.config.rampEnabled || !this.config.dayNightMode) {
-      return false;
-    }
-
-    const now = new Date();
-    const hour = now.getHours();
-
-    return hour < this.config.dayStartHour || hour >= this.config.dayEndHour;
-  }
-
   /**
-   * Check if current time is within "night" hours
-   * Used for playback volume ramping
+   * Check if it's night at the station (asks the schedule every time, so
+   * an override takes effect on the next call)
+   * Used for playback volume ramping and night profile volumes
    */
-  private shouldUseNightRamp(): boolean {
-    const now = new Date();
-    const hour = now.getHours();
-
-    // Night time is before dayStartHour OR after/equal to dayEndHour
-    return hour < this.config.dayStartHour || hour >= this.config.dayEndHour;
+  private isNight(): boolean {
+    return this.config.isNight?.() ?? false;
   }
 
   // ============================================================================
@@ -1636,11 +1803,15 @@ export class BatchCoordinator {
     this.log(`Session invalidated (now ${this.sessionId}) - no more playback allowed`);
 
     // Wait for playback to complete if enabled
+    if (this.isPlaying || this.playbackQueue.length > 0) {
+      this.transitionTo(SystemState.PLAYING);
+    }
     await this.waitForPlaybackComplete();
 
     // 🔒 POST-PLAYBACK GRACE: Give 750ms window for "hello" right after playback
     // This catches firefighters responding immediately after hearing the page
     this.postPlaybackGraceActive = true;
+    this.transitionTo(SystemState.GRACE);
     this.log(`⏳ Post-playback grace started (${this.postPlaybackGraceDuration}ms window for emergency audio)`);
 
     await this.waitForPostPlaybackGrace();
@@ -1648,6 +1819,7 @@ export class BatchCoordinator {
     // Check if audio validated during grace window
     if (this.audioValidated) {
       this.postPlaybackGraceActive = false;
+      this.transitionTo(SystemState.RECORDING);
       this.log('🚨 Grace period audio validated - session promoted, hardware stays active');
 
       // 🔥 CRITICAL: Complete and queue the standby batch that contains the validated audio!
@@ -1707,11 +1879,13 @@ export class BatchCoordinator {
     this.log('🔒 Extended grace: Monitoring during hardware deactivation...');
 
     // Deactivate hardware (but grace stays active!)
+    this.transitionTo(SystemState.DEACTIVATING);
     await this.deactivateHardware();
 
     // Check again after deactivation - audio might have been detected during deactivation
     if (this.audioValidated) {
       this.postPlaybackGraceActive = false;
+      this.transitionTo(SystemState.RECORDING);
 
       // 🔥 LIFE-SAFETY: Always re-activate hardware when audio is detected
       // No limits - this is a PA/VOX system, if someone speaks, they MUST be heard
@@ -1737,7 +1911,7 @@ export class BatchCoordinator {
         clearInterval(this.silenceCheckInterval);
         this.silenceCheckInterval = null;
       }
-      this.onSilence(); // Start fresh silence monitoring with updated lastAudioTime
+      this.handleSilence(); // Start fresh silence monitoring with updated lastAudioTime
 
       // 🎯 Prepare for new session: Complete and queue standby batch
       if (this.currentBatch && this.currentBatch.state === BatchState.Recording) {
@@ -1871,7 +2045,7 @@ export class BatchCoordinator {
       sessionNumber: this.sessionId,
       blob: combinedBlob, // Input recording (raw microphone)
       mimeType: mimeType,
-      timestamp: this.firstAudioDetectionTime || Date.now(), // Use first audio detection time (PST)
+      timestamp: this.firstAudioDetectionTime || Date.now(), // Use first audio detection time
       uploaded: false,
       playbackBlob, // Playback recording (what actually played)
       playbackUploaded: false,
@@ -2102,6 +2276,7 @@ export class BatchCoordinator {
       this.log('🎯 Idle standby batch started (capturing chunks silently)');
     }
 
+    this.transitionTo(SystemState.IDLE);
     this.log('🎯 System in idle standby state (ready for next session)');
   }
 
@@ -2223,6 +2398,15 @@ export class BatchCoordinator {
     }
   }
 
+  private transitionTo(newState: SystemState): void {
+    if (this.systemState === newState) return;
+
+    const oldState = this.systemState;
+    this.systemState = newState;
+    this.log(`State transition: ${oldState} → ${newState}`);
+    this.config.onStateChange?.(newState);
+  }
+
   private log(message: string): void {
     // 🎨 Color-coded logs for different system states
 
@@ -11,6 +11,9 @@
  * 7. Clean shutdown and save to Firebase
  */
 
+import { getProfileVolume } from './algo/volume-profiles';
+import type { VolumeProfileChannel, ZoneVolumeProfile } from './algo/types';
+
 export enum CallState {
   Idle = 'Idle',
   Recording = 'Recording',              // Recording started, accumulating chunks
@@ -28,6 +31,9 @@ export interface CallConfig {
   audioThreshold: number;      // 0-100
   sustainDuration: number;     // milliseconds
 
+  // Call trigger (default: 'audio') - relay modes take onRelayChange()
+  triggerMode?: 'audio' | 'relay' | 'relay_and_audio';
+
   // Playback
   playbackEnabled: boolean;    // Enable live playback
   playbackDelay: number;       // milliseconds - buffer before playing
@@ -39,16 +45,17 @@ export interface CallConfig {
   waitForPagingZoneReady?: (zone: number) => Promise<boolean>;
 
   // Speaker volume control (linked to paging device)
-  linkedSpeakers?: { id: string; name: string; ip: string; maxVolume: number }[];
-  setSpeakerVolume?: (speakerId: string, volume: number) => Promise<void>;
+  linkedSpeakers?: { id: string; name: string; ip: string; maxVolume: number; zone?: string | null }[];
+  setSpeakerVolume?: (speakerId: string, volume: number) => Promise<void>; // % of the speaker's operating volume
 
   // Volume ramping settings
   rampEnabled?: boolean;
   dayNightMode?: boolean;
-  dayStartHour?: number;  // 0-23.5 (e.g., 7.5 = 7:30 AM)
-  dayEndHour?: number;    // 0-23.5
+  isNight?: () => boolean; // Station day/night schedule (default: always day)
   nightRampDuration?: number; // seconds
-  targetVolume?: number;   // 0-100 (operating volume)
+  targetVolume?: number;   // 0-100 (operating volume) - speakers with no matching volume profile
+  volumeProfiles?: ZoneVolumeProfile[]; // Per-zone day/night volumes
+  inputChannel?: VolumeProfileChannel;  // Call type this coordinator pages (default: anyCall)
 
   // PoE device control
   poeDevices?: { id: string; name: string; mode: string }[];
@@ -104,6 +111,7 @@ export class CallCoordinator {
   private lastAudioTime: number = 0;
 
   // State
+  private relayActive: boolean = false; // Relay input contact closed (holds the call open)
   private aborted: boolean = false;
   private isInZone1: boolean = false; // Track if paging device is already in Zone 1
   private isPlaybackActive: boolean = false; // Track if audio.play() has actually started
@@ -114,6 +122,7 @@ export class CallCoordinator {
     this.config = {
       audioThreshold: config.audioThreshold,
       sustainDuration: config.sustainDuration,
+      triggerMode: config.triggerMode ?? 'audio',
       playbackEnabled: config.playbackEnabled,
       playbackDelay: config.playbackDelay,
       disableDelay: config.disableDelay,
@@ -124,10 +133,11 @@ export class CallCoordinator {
       setSpeakerVolume: config.setSpeakerVolume ?? (async () => {}),
       rampEnabled: config.rampEnabled ?? false,
       dayNightMode: config.dayNightMode ?? false,
-      dayStartHour: config.dayStartHour ?? 7,
-      dayEndHour: config.dayEndHour ?? 19,
+      isNight: config.isNight ?? (() => false),
       nightRampDuration: config.nightRampDuration ?? 5,
       targetVolume: config.targetVolume ?? 50,
+      volumeProfiles: config.volumeProfiles ?? [],
+      inputChannel: config.inputChannel ?? 'anyCall',
       poeDevices: config.poeDevices ?? [],
       controlPoEDevices: config.controlPoEDevices ?? (async () => {}),
       onStateChange: config.onStateChange ?? (() => {}),
@@ -170,6 +180,42 @@ export class CallCoordinator {
    * This is called from the audio monitoring loop
    */
   onAudioDetected(level: number): void {
+    // Relay-only: the contact alone starts and ends calls
+    if (this.config.triggerMode === 'relay') return;
+    this.handleCallActivity(level);
+  }
+
+  /**
+   * Notify coordinator of relay input state (dry contact from dispatch)
+   * A closed contact skips threshold/sustain validation so paging activates
+   * before any voice arrives, and holds the call open until it opens.
+   * Repeats of the same state are ignored.
+   */
+  onRelayChange(active: boolean): void {
+    if (this.aborted || this.config.triggerMode === 'audio' || active === this.relayActive) return;
+    this.relayActive = active;
+
+    if (!active) {
+      this.log(`🔌 Relay input idle - ${(this.config.disableDelay / 1000).toFixed(1)}s silence countdown starts now`);
+      if (this.state === CallState.SilenceWait) {
+        this.silenceDeadline = Date.now() + this.config.disableDelay;
+      } else {
+        this.handleSilence();
+      }
+      return;
+    }
+
+    this.log('🔌 Relay input ACTIVE - starting call without sustain wait');
+    if (this.state !== CallState.SilenceWait) {
+      this.silenceDeadline = 0;
+    }
+    if (this.state === CallState.Recording) {
+      this.transitionTo(CallState.Validating);
+    }
+    this.handleCallActivity(this.config.audioThreshold);
+  }
+
+  private handleCallActivity(level: number): void {
     if (this.aborted) return;
 
     const now = Date.now();
@@ -195,6 +241,9 @@ export class CallCoordinator {
           this.transitionTo(CallState.Recording);
           this.transitionTo(CallState.Validating);
           this.sustainStartTime = now;
+          if (this.relayActive) {
+            this.validateAudio(this.config.audioThreshold);
+          }
         }).catch((error) => {
           this.config.onError(error);
         });
@@ -233,6 +282,12 @@ export class CallCoordinator {
    * Notify coordinator of silence
    */
   onSilence(): void {
+    // The relay ends relay-only calls, and a closed contact holds any call open
+    if (this.config.triggerMode === 'relay' || this.relayActive) return;
+    this.handleSilence();
+  }
+
+  private handleSilence(): void {
     if (this.aborted) return;
 
     const now = Date.now();
@@ -445,7 +500,8 @@ export class CallCoordinator {
     }
 
     const sustainTime = Date.now() - this.sustainStartTime;
-    if (sustainTime >= this.config.sustainDuration) {
+    // A closed relay contact needs no sustain
+    if (sustainTime >= this.config.sustainDuration || this.relayActive) {
       // Audio validated! Move to paging or buffering
       this.metrics.audioDetectedTime = Date.now();
       this.log(`Audio validated: ${level}% for ${sustainTime}ms`);
@@ -519,13 +575,13 @@ export class CallCoordinator {
         this.log(`Step 2: Controlling ${linkedSpeakers.length} linked speaker(s)...`);
 
         if (this.shouldRampVolume()) {
-          // Night mode or ramp enabled: Ramp up from idle to operating volume
-          this.log(`  Night mode: Ramping from 0% to ${this.config.targetVolume}% over ${this.config.nightRampDuration}s`);
-          await this.rampSpeakerVolumes(this.config.targetVolume!, this.config.nightRampDuration!);
+          // Night mode or ramp enabled: Ramp up from idle to each zone's profile volume
+          this.log(`  Night mode: Ramping from 0% to each speaker's volume over ${this.config.nightRampDuration}s`);
+          await this.rampSpeakerVolumes(100, this.config.nightRampDuration!);
         } else {
-          // Day mode: Set to operating volume immediately
-          this.log(`  Day mode: Setting to ${this.config.targetVolume}% immediately`);
-          await this.setSpeakerVolumes(this.config.targetVolume!);
+          // Day mode: Set to each zone's profile volume immediately
+          this.log('  Day mode: Setting each speaker\'s volume immediately');
+          await this.setSpeakerVolumes(100);
         }
       } else {
         this.log('Step 2: No linked speakers found for this paging device');
@@ -1021,7 +1077,7 @@ export class CallCoordinator {
     while (this.state === CallState.SilenceWait && !this.aborted) {
       await new Promise(resolve => setTimeout(resolve, 100));
 
-      if (Date.now() >= this.silenceDeadline) {
+      if (Date.now() >= this.silenceDeadline && !this.relayActive) {
         // Silence persisted - stop recording and drain
         this.log('Silence timeout reached, stopping recording');
         await this.stopRecording();
@@ -1063,18 +1119,21 @@ export class CallCoordinator {
   // ==================== Helper Methods ====================
 
   private isNightTime(): boolean {
-    const now = new Date();
-    const currentHour = now.getHours() + now.getMinutes() / 60; // e.g., 7:30 = 7.5
-
-    const { dayStartHour, dayEndHour } = this.config;
-
-    // If day hours wrap around midnight
-    if (dayStartHour! > dayEndHour!) {
-      return currentHour >= dayEndHour! && currentHour < dayStartHour!;
-    }
+    return this.config.isNight();
+  }
 
-    // Normal case: day is between start and end
-    return currentHour < dayStartHour! || currentHour >= dayEndHour!;
+  /**
+   * A speaker's volume (% of operating volume) for this call: its zone's
+   * profile for this call type, or targetVolume if none matches
+   */
+  private getSpeakerTargetVolume(speaker: { zone?: string | null }): number {
+    const profileVolume = getProfileVolume(
+      this.config.volumeProfiles ?? [],
+      speaker.zone,
+      this.config.inputChannel ?? 'anyCall',
+      this.isNightTime()
+    );
+    return profileVolume ?? this.config.targetVolume!;
   }
 
   private shouldRampVolume(): boolean {
@@ -1096,24 +1155,25 @@ export class CallCoordinator {
     return isNight;
   }
 
-  private async rampSpeakerVolumes(targetVolume: number, duration: number): Promise<void> {
+  // percent: share of each speaker's target volume (100 = full, 0 = idle)
+  private async rampSpeakerVolumes(percent: number, duration: number): Promise<void> {
     const speakers = this.config.linkedSpeakers ?? [];
     if (speakers.length === 0) {
       this.log('No linked speakers to ramp');
       return;
     }
 
-    this.log(`Ramping ${speakers.length} speaker(s) to ${targetVolume}% over ${duration}s`);
+    this.log(`Ramping ${speakers.length} speaker(s) to ${percent}% of their volume over ${duration}s`);
 
-    // Ramp each speaker individually (respecting their maxVolume)
+    // Each speaker goes to its share of its zone's profile volume
     await Promise.all(
       speakers.map(async (speaker) => {
-        const actualVolume = Math.round((targetVolume / 100) * speaker.maxVolume);
-        this.log(`  - ${speaker.name}: ${actualVolume}% (max: ${speaker.maxVolume}%)`);
+        const volume = Math.round(this.getSpeakerTargetVolume(speaker) * percent / 100);
+        this.log(`  - ${speaker.name}: ${volume}% of its operating volume (max: ${speaker.maxVolume}%)`);
 
         if (this.config.setSpeakerVolume) {
           try {
-            await this.config.setSpeakerVolume(speaker.id, actualVolume);
+            await this.config.setSpeakerVolume(speaker.id, volume);
           } catch (error) {
             this.log(`  - Error setting volume for ${speaker.name}: ${error}`);
           }
@@ -1123,27 +1183,27 @@ export class CallCoordinator {
 
     this.log({
       type: 'volume_change',
-      message: `✓ Ramped ${speakers.length} speaker(s) to ${targetVolume}%`
+      message: `✓ Ramped ${speakers.length} speaker(s) to ${percent}% of their volume`
     });
   }
 
-  private async setSpeakerVolumes(targetVolume: number): Promise<void> {
+  private async setSpeakerVolumes(percent: number): Promise<void> {
     const speakers = this.config.linkedSpeakers ?? [];
     if (speakers.length === 0) {
       this.log('No linked speakers to control');
       return;
     }
 
-    this.log(`Setting ${speakers.length} speaker(s) to ${targetVolume}%`);
+    this.log(`Setting ${speakers.length} speaker(s) to ${percent}% of their volume`);
 
     await Promise.all(
       speakers.map(async (speaker) => {
-        const actualVolume = Math.round((targetVolume / 100) * speaker.maxVolume);
-        this.log(`  - ${speaker.name}: ${actualVolume}% (max: ${speaker.maxVolume}%)`);
+        const volume = Math.round(this.getSpeakerTargetVolume(speaker) * percent / 100);
+        this.log(`  - ${speaker.name}: ${volume}% of its operating volume (max: ${speaker.maxVolume}%)`);
 
         if (this.config.setSpeakerVolume) {
           try {
-            await this.config.setSpeakerVolume(speaker.id, actualVolume);
+            await this.config.setSpeakerVolume(speaker.id, volume);
           } catch (error) {
             this.log(`  - Error setting volume for ${speaker.name}: ${error}`);
           }
@@ -1153,7 +1213,7 @@ export class CallCoordinator {
 
     this.log({
       type: 'volume_change',
-      message: `✓ Set ${speakers.length} speaker(s) to ${targetVolume}%`
+      message: `✓ Set ${speakers.length} speaker(s) to ${percent}% of their volume`
     });
   }
 
@@ -0,0 +1,268 @@
+import { randomUUID } from "crypto";
+import { Timestamp } from "firebase-admin/firestore";
+import { AlgoClient } from "@/lib/algo/client";
+import { isSecretKey } from "@/lib/algo/provisioning";
+import { getAdminDb } from "@/lib/firebase/admin";
+import { createPoEController } from "@/lib/poe/controller";
+import { decryptSecret, encryptSecret, type EncryptedSecret } from "@/lib/vault/cipher";
+import { resolveAlgoDevice, type ResolvedAlgoDevice, type ResolvedPoESwitch } from "@/lib/vault/credentials";
+import { CommandDispatcher, type DeviceCommandHealth, type RetryPolicy } from "./dispatcher";
+
+/**
+ * Server-side entry point for every Algo and PoE operation
+ * Routes call these helpers instead of talking to AlgoClient / the PoE
+ * controller directly, so all commands share one per-device queue. Settings
+ * writes waiting in it are also kept in `deviceCommandQueue`, and replayed
+ * by replayPendingSettings when the server starts again.
+ */
+
+// Wrong password or missing endpoint won't fix itself - don't hammer the device
+const notClientError = (error: unknown): boolean =>
+  !(error instanceof Error && /\b(400|401|403|404)\b/.test(error.message));
+
+/**
+ * Stuck/recovered transitions are written to `deviceCommandStatus/{deviceId}`
+ * so they survive a restart and the dashboard can read them
+ */
+function persistStuckChange(health: DeviceCommandHealth): void {
+  getAdminDb().collection("deviceCommandStatus").doc(health.deviceId).set({
+    stuck: health.stuck,
+    consecutiveFailures: health.consecutiveFailures,
+    lastError: health.lastError ?? null,
+    lastSuccessAt: health.lastSuccessAt ? Timestamp.fromMillis(health.lastSuccessAt) : null,
+    lastFailureAt: health.lastFailureAt ? Timestamp.fromMillis(health.lastFailureAt) : null,
+    updatedAt: Timestamp.now(),
+  }).catch((error) => {
+    console.error(`[Dispatcher] Failed to persist status for ${health.deviceId}:`, error);
+  });
+}
+
+// One dispatcher per server process - kept on globalThis so dev hot reloads
+// don't start a second set of queues next to the old one
+const globalForDispatcher = globalThis as unknown as { deviceCommandDispatcher?: CommandDispatcher };
+
+export const commandDispatcher =
+  globalForDispatcher.deviceCommandDispatcher ??
+  (globalForDispatcher.deviceCommandDispatcher = new CommandDispatcher({
+    retry: { isRetryable: notClientError },
+    onOutcome: (outcome) => {
+      if (outcome.status === "failed") {
+        console.warn(`[Dispatcher] ✗ ${outcome.deviceId} "${outcome.label}" failed after ${outcome.attempts} attempt(s): ${outcome.error}`);
+      }
+    },
+    onStuckChange: persistStuckChange,
+  }));
+
+interface CommandOptions {
+  coalesceKey?: string;
+  retry?: Partial<RetryPolicy>;
+}
+
+// ============ Algo ============
+
+/**
+ * Run any AlgoClient call through the device's queue
+ */
+export function runAlgoCommand<T>(
+  device: ResolvedAlgoDevice,
+  label: string,
+  fn: (client: AlgoClient) => Promise<T>,
+  options: CommandOptions = {}
+): Promise<T> {
+  const client = new AlgoClient({
+    ipAddress: device.ipAddress,
+    password: device.password,
+    authMethod: device.authMethod || "basic",
+  });
+  return commandDispatcher.dispatch({
+    deviceId: device.id,
+    label,
+    coalesceKey: options.coalesceKey,
+    retry: options.retry,
+    run: () => fn(client),
+  });
+}
+
+// ============ Pending Settings ============
+
+// A settings write that hasn't finished yet, at `deviceCommandQueue/{deviceId}|{coalesceKey}`
+interface PendingSettingsWrite {
+  deviceId: string;
+  settings: Record<string, string>; // Without the secret keys (sip.pwd) - those are in `secrets`
+  secrets?: EncryptedSecret; // The secret keys, encrypted with the vault key and bound to the entry
+  reload: boolean;
+  token: string; // Which write owns the entry - a newer one of the same keys replaces it
+  queuedAt: Timestamp;
+}
+
+const pendingWriteId = (deviceId: string, coalesceKey: string) => encodeURIComponent(`${deviceId}|${coalesceKey}`);
+
+const pendingWriteRef = (entryId: string) => getAdminDb().collection("deviceCommandQueue").doc(entryId);
+
+async function savePendingWrite(coalesceKey: string, write: Omit<PendingSettingsWrite, "secrets">): Promise<void> {
+  const entryId = pendingWriteId(write.deviceId, coalesceKey);
+  try {
+    const settings: Record<string, string> = {};
+    const secrets: Record<string, string> = {};
+    for (const [key, value] of Object.entries(write.settings)) {
+      (isSecretKey(key) ? secrets : settings)[key] = value;
+    }
+    const entry: PendingSettingsWrite = {
+      ...write,
+      settings,
+      ...(Object.keys(secrets).length > 0 ? { secrets: encryptSecret(JSON.stringify(secrets), entryId) } : {}),
+    };
+    await pendingWriteRef(entryId).set(entry);
+  } catch (error) {
+    console.error(`[Dispatcher] Failed to persist pending write for ${write.deviceId}:`, error);
+  }
+}
+
+// Every key of the write, secret ones decrypted again
+function pendingSettings(entryId: string, entry: PendingSettingsWrite): Record<string, string> {
+  if (!entry.secrets) return entry.settings;
+  return { ...entry.settings, ...JSON.parse(decryptSecret(entry.secrets, entryId)) };
+}
+
+/**
+ * Drop the entry once its write has run (or failed for good) - unless a
+ * newer write of the same keys has taken it over in the meantime
+ */
+async function clearPendingWrite(entryId: string, token: string): Promise<void> {
+  const ref = pendingWriteRef(entryId);
+  try {
+    await getAdminDb().runTransaction(async (transaction) => {
+      const entry = await transaction.get(ref);
+      if (entry.exists && entry.get("token") === token) {
+        transaction.delete(ref);
+      }
+    });
+  } catch (error) {
+    console.error(`[Dispatcher] Failed to clear pending write ${decodeURIComponent(entryId)}:`, error);
+  }
+}
+
+/**
+ * Write settings (optionally followed by a reload) - a pending write of the
+ * same keys on the same device is superseded, so back-to-back mcast.mode or
+ * volume writes only send the latest value. Until it has run, the write is
+ * kept in Firestore so a restart doesn't lose it.
+ */
+export function setAlgoSettings(
+  device: ResolvedAlgoDevice,
+  settings: Record<string, string>,
+  options: { reload?: boolean } = {}
+): Promise<void> {
+  const keys = Object.keys(settings).sort();
+  const label = keys.map((key) => `${key}=${settings[key]}`).join(", ") + (options.reload ? " + reload" : "");
+  const coalesceKey = `settings:${keys.join(",")}${options.reload ? ":reload" : ""}`;
+  const token = randomUUID();
+
+  // Queued before anything is awaited, so writes keep the order they were made in
+  const result = runAlgoCommand(
+    device,
+    label,
+    async (client) => {
+      await client.setSetting(settings);
+      if (options.reload) {
+        await client.reload();
+      }
+    },
+    { coalesceKey }
+  );
+  const saved = savePendingWrite(coalesceKey, {
+    deviceId: device.id,
+    settings,
+    reload: !!options.reload,
+    token,
+    queuedAt: Timestamp.now(),
+  });
+
+  // Callers don't wait on the bookkeeping - only on the write itself
+  const clear = () => void saved.then(() => clearPendingWrite(pendingWriteId(device.id, coalesceKey), token));
+  return result.then(clear, (error) => {
+    clear();
+    throw error;
+  });
+}
+
+/**
+ * Send settings writes that were still waiting when the server stopped,
+ * oldest first. Called once at startup (src/instrumentation.ts).
+ */
+export async function replayPendingSettings(): Promise<void> {
+  let entries: { entryId: string; entry: PendingSettingsWrite }[];
+  try {
+    const snapshot = await getAdminDb().collection("deviceCommandQueue").orderBy("queuedAt").get();
+    entries = snapshot.docs.map((doc) => ({ entryId: doc.id, entry: doc.data() as PendingSettingsWrite }));
+  } catch (error) {
+    console.error("[Dispatcher] Couldn't read pending writes:", error);
+    return;
+  }
+  if (entries.length === 0) return;
+
+  console.log(`[Dispatcher] Replaying ${entries.length} pending settings write(s)`);
+  const devices = new Map<string, Promise<ResolvedAlgoDevice | null>>();
+  const replays = entries.map(async ({ entryId, entry }) => {
+    if (!devices.has(entry.deviceId)) {
+      devices.set(entry.deviceId, resolveAlgoDevice(entry.deviceId).catch(() => null));
+    }
+
+    let settings: Record<string, string> | null = null;
+    try {
+      settings = pendingSettings(entryId, entry);
+    } catch (error) {
+      console.error(`[Dispatcher] Couldn't decrypt pending write ${decodeURIComponent(entryId)}:`, error);
+    }
+    const device = await devices.get(entry.deviceId)!;
+    if (!device || !settings) {
+      // Deleted device, no password to reach it with any more, or secrets
+      // sealed with a vault key that has since changed
+      await clearPendingWrite(entryId, entry.token);
+      return;
+    }
+    await setAlgoSettings(device, settings, { reload: entry.reload }).catch((error) => {
+      console.warn(`[Dispatcher] Replayed write to ${device.name} failed:`, error);
+    });
+  });
+  await Promise.all(replays);
+}
+
+/**
+ * Single-attempt read - callers that poll handle their own timing
+ */
+export function getAlgoSetting(
+  device: ResolvedAlgoDevice,
+  setting: string
+): Promise<Record<string, string>> {
+  return runAlgoCommand(device, `get ${setting}`, (client) => client.getSetting(setting), {
+    retry: { attempts: 1 },
+  });
+}
+
+// ============ PoE ============
+
+type PoEController = ReturnType<typeof createPoEController>;
+
+/**
+ * Run a PoE controller call through the switch's queue (one login at a time
+ * per switch, which also keeps its session table from filling up)
+ */
+export function runPoECommand<T>(
+  poeSwitch: ResolvedPoESwitch,
+  label: string,
+  fn: (controller: PoEController) => Promise<T>,
+  options: CommandOptions = {}
+): Promise<T> {
+  const controller = createPoEController(poeSwitch.type, {
+    ipAddress: poeSwitch.ipAddress,
+    password: poeSwitch.password,
+  });
+  return commandDispatcher.dispatch({
+    deviceId: poeSwitch.id,
+    label,
+    coalesceKey: options.coalesceKey,
+    retry: options.retry,
+    run: () => fn(controller),
+  });
+}
@@ -0,0 +1,276 @@
+/**
+ * Device Command Dispatcher
+ *
+ * One queue per device: commands for the same device run strictly one after
+ * another, different devices run in parallel. A command that is still waiting
+ * is superseded by a newer one with the same coalesce key (the newer value
+ * wins, both callers get its result). Failures retry with exponential backoff,
+ * and every outcome is recorded so stuck devices show up in one place.
+ */
+
+export interface RetryPolicy {
+  attempts: number;         // Total tries including the first (default: 3)
+  initialDelayMs: number;   // Wait before the first retry (default: 500)
+  maxDelayMs: number;       // Backoff ceiling (default: 4000)
+  factor: number;           // Delay multiplier per retry (default: 2)
+  isRetryable?: (error: unknown) => boolean; // Default: retry everything
+}
+
+export interface DeviceCommand<T> {
+  deviceId: string;          // Serialization key (Algo device ID or PoE switch ID)
+  label: string;             // Human-readable, e.g. "mcast.mode=2 + reload"
+  coalesceKey?: string;      // Pending commands with the same key on the same device collapse into the newest
+  retry?: Partial<RetryPolicy>;
+  run: () => Promise<T>;
+}
+
+export type CommandStatus = "succeeded" | "failed" | "coalesced";
+
+export interface CommandOutcome {
+  id: number;
+  deviceId: string;
+  label: string;
+  status: CommandStatus;
+  attempts: number;
+  error?: string;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt: number;
+}
+
+export interface DeviceCommandHealth {
+  deviceId: string;
+  pending: number;
+  consecutiveFailures: number;
+  stuck: boolean;
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+}
+
+export interface DispatcherOptions {
+  retry?: Partial<RetryPolicy>;
+  stuckThreshold?: number;    // Consecutive failed commands before a device counts as stuck (default: 3)
+  historySize?: number;       // Outcomes kept in memory (default: 500)
+  sleep?: (ms: number) => Promise<void>;
+  onOutcome?: (outcome: CommandOutcome) => void;
+  onStuckChange?: (health: DeviceCommandHealth) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 4000,
+  factor: 2,
+};
+
+interface QueuedCommand {
+  id: number;
+  command: DeviceCommand<unknown>;
+  queuedAt: number;
+  waiters: Array<{ resolve: (value: unknown) => void; reject: (error: unknown) => void }>;
+}
+
+interface DeviceQueue {
+  pending: QueuedCommand[];
+  running: boolean;
+  health: DeviceCommandHealth;
+}
+
+export class CommandDispatcher {
+  private queues = new Map<string, DeviceQueue>();
+  private history: CommandOutcome[] = [];
+  private nextId = 1;
+  private retry: RetryPolicy;
+  private stuckThreshold: number;
+  private historySize: number;
+  private sleep: (ms: number) => Promise<void>;
+  private onOutcome?: (outcome: CommandOutcome) => void;
+  private onStuckChange?: (health: DeviceCommandHealth) => void;
+
+  constructor(options: DispatcherOptions = {}) {
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.stuckThreshold = options.stuckThreshold ?? 3;
+    this.historySize = options.historySize ?? 500;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.onOutcome = options.onOutcome;
+    this.onStuckChange = options.onStuckChange;
+  }
+
+  /**
+   * Queue a command and resolve with its result once it (or the command that
+   * superseded it) has run
+   */
+  dispatch<T>(command: DeviceCommand<T>): Promise<T> {
+    const queue = this.getQueue(command.deviceId);
+
+    return new Promise<T>((resolve, reject) => {
+      const waiter = { resolve: resolve as (value: unknown) => void, reject };
+
+      if (command.coalesceKey) {
+        const index = queue.pending.findIndex((q) => q.command.coalesceKey === command.coalesceKey);
+        if (index !== -1) {
+          // Newest value wins - the superseded command never touches the device.
+          // It takes the old command's place, so it still runs before anything
+          // queued after that one.
+          const superseded = queue.pending[index];
+          this.record({
+            id: superseded.id,
+            deviceId: command.deviceId,
+            label: superseded.command.label,
+            status: "coalesced",
+            attempts: 0,
+            queuedAt: superseded.queuedAt,
+            finishedAt: Date.now(),
+          });
+          queue.pending[index] = {
+            id: this.nextId++,
+            command: command as DeviceCommand<unknown>,
+            queuedAt: Date.now(),
+            waiters: [...superseded.waiters, waiter],
+          };
+          return;
+        }
+      }
+
+      queue.pending.push({
+        id: this.nextId++,
+        command: command as DeviceCommand<unknown>,
+        queuedAt: Date.now(),
+        waiters: [waiter],
+      });
+      queue.health.pending = queue.pending.length;
+      void this.drain(command.deviceId);
+    });
+  }
+
+  getHealth(deviceId: string): DeviceCommandHealth | null {
+    const queue = this.queues.get(deviceId);
+    return queue ? { ...queue.health } : null;
+  }
+
+  getAllHealth(): DeviceCommandHealth[] {
+    return Array.from(this.queues.values()).map((queue) => ({ ...queue.health }));
+  }
+
+  getStuckDevices(): DeviceCommandHealth[] {
+    return this.getAllHealth().filter((health) => health.stuck);
+  }
+
+  getHistory(deviceId?: string): CommandOutcome[] {
+    return deviceId ? this.history.filter((outcome) => outcome.deviceId === deviceId) : [...this.history];
+  }
+
+  // ============ Internals ============
+
+  private getQueue(deviceId: string): DeviceQueue {
+    let queue = this.queues.get(deviceId);
+    if (!queue) {
+      queue = {
+        pending: [],
+        running: false,
+        health: { deviceId, pending: 0, consecutiveFailures: 0, stuck: false },
+      };
+      this.queues.set(deviceId, queue);
+    }
+    return queue;
+  }
+
+  private async drain(deviceId: string): Promise<void> {
+    const queue = this.getQueue(deviceId);
+    if (queue.running) return;
+    queue.running = true;
+
+    try {
+      while (queue.pending.length > 0) {
+        const next = queue.pending.shift()!;
+        queue.health.pending = queue.pending.length;
+        await this.execute(queue, next);
+      }
+    } finally {
+      queue.running = false;
+    }
+  }
+
+  private async execute(queue: DeviceQueue, queued: QueuedCommand): Promise<void> {
+    const { command } = queued;
+    const policy = { ...this.retry, ...command.retry };
+    const startedAt = Date.now();
+    let attempts = 0;
+    let delay = policy.initialDelayMs;
+    let lastError: unknown = null;
+
+    while (attempts < policy.attempts) {
+      if (attempts > 0) {
+        await this.sleep(delay);
+        delay = Math.min(delay * policy.factor, policy.maxDelayMs);
+      }
+      attempts++;
+
+      try {
+        const result = await command.run();
+        this.record({
+          id: queued.id,
+          deviceId: command.deviceId,
+          label: command.label,
+          status: "succeeded",
+          attempts,
+          queuedAt: queued.queuedAt,
+          startedAt,
+          finishedAt: Date.now(),
+        });
+        this.markSuccess(queue);
+        queued.waiters.forEach((waiter) => waiter.resolve(result));
+        return;
+      } catch (error) {
+        lastError = error;
+        if (policy.isRetryable && !policy.isRetryable(error)) break;
+      }
+    }
+
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    this.record({
+      id: queued.id,
+      deviceId: command.deviceId,
+      label: command.label,
+      status: "failed",
+      attempts,
+      error: message,
+      queuedAt: queued.queuedAt,
+      startedAt,
+      finishedAt: Date.now(),
+    });
+    this.markFailure(queue, message);
+    queued.waiters.forEach((waiter) => waiter.reject(lastError));
+  }
+
+  private markSuccess(queue: DeviceQueue): void {
+    const wasStuck = queue.health.stuck;
+    queue.health.consecutiveFailures = 0;
+    queue.health.stuck = false;
+    queue.health.lastSuccessAt = Date.now();
+    if (wasStuck) {
+      console.log(`[Dispatcher] ✓ ${queue.health.deviceId} recovered`);
+      this.onStuckChange?.({ ...queue.health });
+    }
+  }
+
+  private markFailure(queue: DeviceQueue, message: string): void {
+    queue.health.consecutiveFailures++;
+    queue.health.lastError = message;
+    queue.health.lastFailureAt = Date.now();
+    if (!queue.health.stuck && queue.health.consecutiveFailures >= this.stuckThreshold) {
+      queue.health.stuck = true;
+      console.error(`[Dispatcher] 🚨 ${queue.health.deviceId} stuck after ${queue.health.consecutiveFailures} failed commands: ${message}`);
+      this.onStuckChange?.({ ...queue.health });
+    }
+  }
+
+  private record(outcome: CommandOutcome): void {
+    this.history.push(outcome);
+    if (this.history.length > this.historySize) {
+      this.history.splice(0, this.history.length - this.historySize);
+    }
+    this.onOutcome?.(outcome);
+  }
+}
@@ -0,0 +1,123 @@
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { addDoorAuditEntry, getServerDoorActionPlan } from "@/lib/firebase/admin";
+import { getMatchingDoorRules, parseRelayInput } from "@/lib/algo/door-actions";
+import { resolveAlgoDevice, type ResolvedAlgoDevice } from "@/lib/vault/credentials";
+import type { DoorActionPhase, DoorActionRule, DoorActionTrigger, RelayInputState } from "@/lib/algo/types";
+
+/**
+ * Door / Relay Commands
+ * Runs door rules (and manual door actions) through the command dispatcher
+ * and writes every one of them to `doorAuditLog`, together with the call
+ * that caused it. Also reads relay inputs for the dashboard and triggers.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export type DoorCommand = Pick<DoorActionRule, "name" | "deviceId" | "doorId" | "action" | "durationSeconds"> & {
+  ruleId: string | null;
+  trigger: DoorActionTrigger | "manual";
+  phase?: DoorActionPhase;
+};
+
+export interface DoorCallContext {
+  ownerEmail: string;
+  callStartedAt: Date | null;
+  triggeredBy?: string;
+}
+
+export interface DoorActionResult {
+  ruleId: string | null;
+  ruleName: string;
+  deviceId: string;
+  deviceName: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Send one door action and audit it - never throws, a failed door is reported
+ * in the result (and the audit log) instead
+ */
+export async function runDoorAction(command: DoorCommand, context: DoorCallContext): Promise<DoorActionResult> {
+  let deviceName = command.deviceId;
+  let error: string | undefined;
+
+  try {
+    const device = await resolveAlgoDevice(command.deviceId);
+    if (!device) {
+      throw new Error("Door controller device not found");
+    }
+    deviceName = device.name;
+
+    // Same door, newest action wins - a lock queued behind an unlock that
+    // hasn't run yet replaces it
+    await runAlgoCommand(
+      device,
+      `door ${command.doorId} ${command.action}`,
+      (client) => {
+        switch (command.action) {
+          case "momentary_unlock":
+            return client.momentaryUnlock(command.doorId, String(command.durationSeconds ?? 10));
+          case "unlock":
+            return client.unlockDoor(command.doorId);
+          case "lock":
+            return client.lockDoor(command.doorId);
+        }
+      },
+      { coalesceKey: `door:${command.doorId}` }
+    );
+    console.log(`[Doors] ${command.name}: ${command.action} ${command.doorId} on ${deviceName} (${command.trigger})`);
+  } catch (actionError) {
+    error = actionError instanceof Error ? actionError.message : String(actionError);
+    console.error(`[Doors] ${command.name}: ${command.action} failed on ${deviceName}:`, error);
+  }
+
+  try {
+    await addDoorAuditEntry({
+      ownerEmail: context.ownerEmail,
+      ruleId: command.ruleId,
+      ruleName: command.name,
+      deviceId: command.deviceId,
+      deviceName,
+      doorId: command.doorId,
+      action: command.action,
+      durationSeconds: command.action === "momentary_unlock" ? command.durationSeconds : undefined,
+      trigger: command.trigger,
+      phase: command.phase,
+      callStartedAt: context.callStartedAt,
+      triggeredBy: context.triggeredBy,
+      success: !error,
+      error,
+    });
+  } catch (auditError) {
+    console.error("[Doors] Failed to write audit entry:", auditError);
+  }
+
+  return { ruleId: command.ruleId, ruleName: command.name, deviceId: command.deviceId, deviceName, success: !error, error };
+}
+
+/**
+ * Run every enabled rule of the owner's plan that matches this call
+ */
+export async function runDoorRules(
+  trigger: DoorActionTrigger,
+  phase: DoorActionPhase,
+  context: DoorCallContext
+): Promise<DoorActionResult[]> {
+  const plan = await getServerDoorActionPlan(context.ownerEmail);
+  const rules = getMatchingDoorRules(plan?.rules ?? [], trigger, phase);
+
+  return Promise.all(
+    rules.map((rule) => runDoorAction({ ...rule, ruleId: rule.id, trigger, phase }, context))
+  );
+}
+
+/**
+ * Read a device's relay input (single attempt - it's polled)
+ */
+export async function readRelayInput(device: ResolvedAlgoDevice): Promise<{ state: RelayInputState; raw?: string }> {
+  const status = await runAlgoCommand(device, "read relay input", (client) => client.getRelayStatus(), {
+    retry: { attempts: 1 },
+  });
+  return { state: parseRelayInput(status?.["input.relay.status"]), raw: status?.["input.relay.status"] };
+}
@@ -0,0 +1,298 @@
+import { applicationDefault, cert, getApps, initializeApp, type App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { FieldValue, getFirestore, Timestamp, type DocumentData, type Firestore, type Query } from "firebase-admin/firestore";
+import { healthDateKey } from "@/lib/algo/health";
+import { normalizeSettings, type StoredAppSettings } from "@/lib/settings";
+import type { AlgoDevice, AnnouncementPlan, AudioFile, DeviceAlert, DistributionLog, DeviceHealthSample, DoorActionPlan, DoorAuditEntry, HealthTargetKind, MulticastPlan, PoEDevice, PoESwitch, Recording, SipCallLogEntry, SipCallPlan, VolumeProfilePlan, Zone } from "@/lib/algo/types";
+
+/**
+ * Firebase Admin
+ * Server access to Firestore with a service account. API routes run without
+ * a signed-in user, so the security rules would refuse their reads and
+ * writes - every server-side read and write goes through here instead, never
+ * through `./firestore`. Routes check who's calling with verifyCaller.
+ * Configure with one of:
+ *   FIREBASE_SERVICE_ACCOUNT_KEY    The service account key JSON
+ *   GOOGLE_APPLICATION_CREDENTIALS  Path to the key file
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+function getAdminApp(): App {
+  const existing = getApps()[0];
+  if (existing) return existing;
+
+  const key = process.env.FIREBASE_SERVICE_ACCOUNT_KEY?.trim();
+  return initializeApp({
+    credential: key ? cert(JSON.parse(key)) : applicationDefault(),
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+}
+
+export function getAdminDb(): Firestore {
+  return getFirestore(getAdminApp());
+}
+
+// ============ Callers ============
+
+export interface Caller {
+  uid: string;
+  email: string;
+}
+
+/**
+ * The signed-in user a request comes from, from its
+ * `Authorization: Bearer <Firebase ID token>` header
+ * Returns null when the token is missing, expired or has no email.
+ */
+export async function verifyCaller(request: Request): Promise<Caller | null> {
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) return null;
+
+  try {
+    const decoded = await getAuth(getAdminApp()).verifyIdToken(token);
+    return decoded.email ? { uid: decoded.uid, email: decoded.email } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Admins (role "admin" on their `users` profile) may act on every station's data
+export async function isAdminCaller(caller: Caller): Promise<boolean> {
+  const profile = await getAdminDb().collection("users").doc(caller.uid).get();
+  return profile.exists && profile.get("role") === "admin";
+}
+
+// Whether the caller may act on data belonging to every one of `ownerEmails` -
+// their own station's, or any station's for an admin
+export async function canActFor(caller: Caller, ...ownerEmails: string[]): Promise<boolean> {
+  return ownerEmails.every((ownerEmail) => ownerEmail === caller.email) || isAdminCaller(caller);
+}
+
+// ============ Devices ============
+
+function convertTimestamps(data: DocumentData): DocumentData {
+  const result = { ...data };
+  for (const key in result) {
+    if (result[key] instanceof Timestamp) {
+      result[key] = result[key].toDate();
+    }
+  }
+  return result;
+}
+
+async function getOwnedDocs<T>(collection: string, ownerEmail?: string): Promise<T[]> {
+  let q: Query = getAdminDb().collection(collection);
+  if (ownerEmail) {
+    q = q.where("ownerEmail", "==", ownerEmail);
+  }
+  const snapshot = await q.orderBy("createdAt", "desc").get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...convertTimestamps(doc.data()) })) as T[];
+}
+
+async function getAllDocs<T>(collection: string): Promise<T[]> {
+  const snapshot = await getAdminDb().collection(collection).get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...convertTimestamps(doc.data()) })) as T[];
+}
+
+async function getDocById<T>(collection: string, id: string): Promise<T | null> {
+  const snapshot = await getAdminDb().collection(collection).doc(id).get();
+  if (!snapshot.exists) return null;
+  return { id: snapshot.id, ...convertTimestamps(snapshot.data()!) } as T;
+}
+
+// Firebase doesn't allow undefined values - filter them out
+async function updateDocById(collection: string, id: string, data: Record<string, unknown>): Promise<void> {
+  const cleanData: Record<string, unknown> = { updatedAt: Timestamp.now() };
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined) {
+      cleanData[key] = value;
+    }
+  }
+  await getAdminDb().collection(collection).doc(id).update(cleanData);
+}
+
+export function getServerDevices(ownerEmail?: string): Promise<AlgoDevice[]> {
+  return getOwnedDocs<AlgoDevice>("devices", ownerEmail);
+}
+
+export function getServerDevice(id: string): Promise<AlgoDevice | null> {
+  return getDocById<AlgoDevice>("devices", id);
+}
+
+export function updateServerDevice(id: string, data: Partial<AlgoDevice>): Promise<void> {
+  return updateDocById("devices", id, data);
+}
+
+export function getServerPoESwitches(ownerEmail?: string): Promise<PoESwitch[]> {
+  return getOwnedDocs<PoESwitch>("poeSwitches", ownerEmail);
+}
+
+export function getServerPoESwitch(id: string): Promise<PoESwitch | null> {
+  return getDocById<PoESwitch>("poeSwitches", id);
+}
+
+export function updateServerPoESwitch(id: string, data: Partial<PoESwitch>): Promise<void> {
+  return updateDocById("poeSwitches", id, data);
+}
+
+export function getServerPoEDevices(ownerEmail?: string): Promise<PoEDevice[]> {
+  return getOwnedDocs<PoEDevice>("poeDevices", ownerEmail);
+}
+
+export function getServerPoEDevice(id: string): Promise<PoEDevice | null> {
+  return getDocById<PoEDevice>("poeDevices", id);
+}
+
+export function updateServerPoEDevice(id: string, data: Partial<PoEDevice>): Promise<void> {
+  return updateDocById("poeDevices", id, data);
+}
+
+// ============ Zones ============
+
+export function getServerZones(ownerEmail?: string): Promise<Zone[]> {
+  return getOwnedDocs<Zone>("zones", ownerEmail);
+}
+
+export function getServerZone(id: string): Promise<Zone | null> {
+  return getDocById<Zone>("zones", id);
+}
+
+export function getServerVolumeProfilePlan(ownerEmail: string): Promise<VolumeProfilePlan | null> {
+  return getDocById<VolumeProfilePlan>("volumeProfilePlans", ownerEmail);
+}
+
+export function getServerMulticastPlan(ownerEmail: string): Promise<MulticastPlan | null> {
+  return getDocById<MulticastPlan>("multicastPlans", ownerEmail);
+}
+
+// All stations' plans - used to check for overlapping groups
+export function getServerMulticastPlans(): Promise<MulticastPlan[]> {
+  return getAllDocs<MulticastPlan>("multicastPlans");
+}
+
+// ============ Audio Files ============
+
+export function getServerAudioFiles(ownerEmail?: string): Promise<AudioFile[]> {
+  return getOwnedDocs<AudioFile>("audioFiles", ownerEmail);
+}
+
+// ============ App Settings ============
+
+// Normalized against the current schema - null if the owner has never saved
+export async function getServerAppSettings(ownerEmail: string): Promise<StoredAppSettings | null> {
+  const snapshot = await getAdminDb().collection("appSettings").doc(ownerEmail).get();
+  if (!snapshot.exists) return null;
+  const data = convertTimestamps(snapshot.data()!);
+  return {
+    ...normalizeSettings(data),
+    ownerEmail,
+    version: typeof data.version === "number" ? data.version : 0,
+    updatedAt: data.updatedAt as Date | undefined,
+  };
+}
+
+// ============ Device Health ============
+// Written only by the health monitor - the rules keep browsers to reading
+// history and acknowledging alerts
+
+/**
+ * Append a sample to the device's history document for that (UTC) day
+ */
+export async function recordDeviceHealthSample(
+  target: { deviceId: string; kind: HealthTargetKind; ownerEmail: string },
+  sample: DeviceHealthSample
+): Promise<void> {
+  const dateKey = healthDateKey(sample.at);
+  // Firebase doesn't allow undefined values (authValid/temperature aren't always known)
+  const cleanSample = JSON.parse(JSON.stringify(sample));
+  await getAdminDb().collection("deviceHealthHistory").doc(`${target.deviceId}_${dateKey}`).set(
+    {
+      ...target,
+      dateKey,
+      checks: FieldValue.increment(1),
+      onlineChecks: FieldValue.increment(sample.isOnline ? 1 : 0),
+      latencyTotalMs: FieldValue.increment(sample.isOnline ? sample.responseTime ?? 0 : 0),
+      samples: FieldValue.arrayUnion(cleanSample),
+    },
+    { merge: true }
+  );
+}
+
+export async function addDeviceAlert(alert: Omit<DeviceAlert, "id" | "createdAt" | "resolved" | "acknowledged">): Promise<string> {
+  const docRef = await getAdminDb().collection("deviceAlerts").add({
+    ...alert,
+    resolved: false,
+    acknowledged: false,
+    createdAt: Timestamp.now(),
+  });
+  return docRef.id;
+}
+
+export async function resolveDeviceAlert(id: string): Promise<void> {
+  await getAdminDb().collection("deviceAlerts").doc(id).update({ resolved: true, resolvedAt: Timestamp.now() });
+}
+
+// Every station's open alerts - the monitor reloads these after a restart
+export async function getUnresolvedDeviceAlerts(): Promise<DeviceAlert[]> {
+  const snapshot = await getAdminDb().collection("deviceAlerts").where("resolved", "==", false).get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...convertTimestamps(doc.data()) })) as DeviceAlert[];
+}
+
+// ============ Door Actions ============
+
+export function getServerDoorActionPlan(ownerEmail: string): Promise<DoorActionPlan | null> {
+  return getDocById<DoorActionPlan>("doorActionPlans", ownerEmail);
+}
+
+// The audit trail is append-only and written only here - browsers can read it
+export async function addDoorAuditEntry(entry: Omit<DoorAuditEntry, "id" | "createdAt">): Promise<string> {
+  const { callStartedAt, ...rest } = entry;
+  const docRef = await getAdminDb().collection("doorAuditLog").add({
+    ...JSON.parse(JSON.stringify(rest)),
+    callStartedAt: callStartedAt ? Timestamp.fromDate(callStartedAt) : null,
+    createdAt: Timestamp.now(),
+  });
+  return docRef.id;
+}
+
+// ============ SIP Calls ============
+
+// Every station's plan - for the scheduler
+export function getSipCallPlans(): Promise<SipCallPlan[]> {
+  return getAllDocs<SipCallPlan>("sipCallPlans");
+}
+
+// Like the door audit trail, the call log is written only here
+export async function addSipCallLogEntry(entry: Omit<SipCallLogEntry, "id" | "createdAt">): Promise<string> {
+  const docRef = await getAdminDb().collection("sipCallLog").add({
+    ...JSON.parse(JSON.stringify(entry)),
+    createdAt: Timestamp.now(),
+  });
+  return docRef.id;
+}
+
+// ============ Scheduled Announcements ============
+
+export function getServerAnnouncementPlan(ownerEmail: string): Promise<AnnouncementPlan | null> {
+  return getDocById<AnnouncementPlan>("announcementPlans", ownerEmail);
+}
+
+// Every station's plan - for the scheduler
+export function getAnnouncementPlans(): Promise<AnnouncementPlan[]> {
+  return getAllDocs<AnnouncementPlan>("announcementPlans");
+}
+
+export async function addServerDistributionLog(log: Omit<DistributionLog, "id" | "createdAt">): Promise<string> {
+  const docRef = await getAdminDb().collection("distributionLogs").add({
+    ...JSON.parse(JSON.stringify(log)),
+    createdAt: Timestamp.now(),
+  });
+  return docRef.id;
+}
+
+// ============ Recordings ============
+
+export function getServerRecording(id: string): Promise<Recording | null> {
+  return getDocById<Recording>("recordings", id);
+}
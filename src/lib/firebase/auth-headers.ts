@@ -0,0 +1,13 @@
+import { auth } from "./config";
+
+/**
+ * JSON request headers carrying the signed-in user's ID token, for routes
+ * that check who's calling (`verifyCaller` in `src/lib/firebase/admin.ts`)
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await auth.currentUser?.getIdToken();
+  return {
+    "Content-Type": "application/json",
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
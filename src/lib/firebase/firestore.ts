@@ -10,11 +10,17 @@ import {
   query,
   where,
   orderBy,
+  limit,
   Timestamp,
+  onSnapshot,
   type DocumentData,
+  type Unsubscribe,
 } from "firebase/firestore";
 import { db } from "./config";
-import type { AlgoDevice, Zone, AudioFile, DistributionLog, ZoneRouting, PoESwitch, PoEDevice, Recording } from "@/lib/algo/types";
+import type { StagedUpgradeReport } from "@/lib/algo/firmware";
+import { healthDateKey } from "@/lib/algo/health";
+import { SETTINGS_VERSION, normalizeSettings, type AppSettings, type StoredAppSettings } from "@/lib/settings";
+import type { AlgoDevice, Zone, AudioFile, DistributionLog, ZoneRouting, VolumeProfilePlan, MulticastPlan, ProvisioningSnapshot, DeviceAlert, DeviceHealthDay, DoorActionPlan, DoorAuditEntry, SipCallLogEntry, SipCallPlan, AnnouncementPlan, SpeechTemplatePlan, PoESwitch, PoEDevice, Recording } from "@/lib/algo/types";
 
 // ============ Devices ============
 
@@ -156,6 +162,67 @@ export async function setZoneRouting(zoneId: string, routing: Omit<ZoneRouting,
   }, { merge: true });
 }
 
+// ============ Volume Profiles ============
+
+export async function getVolumeProfilePlan(ownerEmail: string): Promise<VolumeProfilePlan | null> {
+  const snapshot = await getDoc(doc(db, "volumeProfilePlans", ownerEmail));
+  if (!snapshot.exists()) return null;
+  return { id: snapshot.id, ...convertTimestamps(snapshot.data()) } as VolumeProfilePlan;
+}
+
+export async function setVolumeProfilePlan(plan: Omit<VolumeProfilePlan, "id" | "updatedAt">): Promise<void> {
+  await setDoc(doc(db, "volumeProfilePlans", plan.ownerEmail), {
+    ...plan,
+    updatedAt: Timestamp.now(),
+  });
+}
+
+// ============ Multicast Plans ============
+
+const multicastPlansCollection = collection(db, "multicastPlans");
+
+export async function getMulticastPlan(ownerEmail: string): Promise<MulticastPlan | null> {
+  const docRef = doc(db, "multicastPlans", ownerEmail);
+  const snapshot = await getDoc(docRef);
+  if (!snapshot.exists()) return null;
+  return { id: snapshot.id, ...convertTimestamps(snapshot.data()) } as MulticastPlan;
+}
+
+/**
+ * Follow a station's plan - `onChange` gets the current plan straight away and
+ * again after every save, from this tab or any other
+ */
+export function subscribeToMulticastPlan(
+  ownerEmail: string,
+  onChange: (plan: MulticastPlan | null) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    doc(db, "multicastPlans", ownerEmail),
+    (snapshot) => {
+      onChange(snapshot.exists() ? ({ id: snapshot.id, ...convertTimestamps(snapshot.data()) } as MulticastPlan) : null);
+    },
+    onError
+  );
+}
+
+// All stations' plans - used to check for overlapping groups
+export async function getMulticastPlans(): Promise<MulticastPlan[]> {
+  const snapshot = await getDocs(multicastPlansCollection);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data()),
+  })) as MulticastPlan[];
+}
+
+export async function setMulticastPlan(plan: Omit<MulticastPlan, "id" | "updatedAt">): Promise<void> {
+  const docRef = doc(db, "multicastPlans", plan.ownerEmail);
+  await setDoc(docRef, {
+    ...plan,
+    updatedAt: Timestamp.now(),
+  });
+}
+
 // ============ Audio Files ============
 
 const audioFilesCollection = collection(db, "audioFiles");
@@ -210,7 +277,7 @@ export async function getDistributionLogs(limit = 50): Promise<DistributionLog[]
 
 export async function addDistributionLog(log: Omit<DistributionLog, "id" | "createdAt">): Promise<string> {
   const docRef = await addDoc(distributionLogsCollection, {
-    ...log,
+    ...JSON.parse(JSON.stringify(log)),
     createdAt: Timestamp.now(),
   });
   return docRef.id;
@@ -429,6 +496,216 @@ export async function getRecordingDateKeys(userId: string): Promise<string[]> {
   return Array.from(dateKeys);
 }
 
+// ============ Provisioning Snapshots ============
+
+const provisioningSnapshotsCollection = collection(db, "provisioningSnapshots");
+
+// Newest first
+export async function getProvisioningSnapshots(deviceId: string): Promise<ProvisioningSnapshot[]> {
+  const q = query(
+    provisioningSnapshotsCollection,
+    where("deviceId", "==", deviceId),
+    orderBy("version", "desc")
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data()),
+  })) as ProvisioningSnapshot[];
+}
+
+// ============ Firmware Rollouts ============
+
+export interface FirmwareRollout extends StagedUpgradeReport {
+  id: string;
+  ownerEmail: string;
+  model: string;
+  targetVersion?: string;
+}
+
+const firmwareRolloutsCollection = collection(db, "firmwareRollouts");
+
+export async function addFirmwareRollout(rollout: Omit<FirmwareRollout, "id">): Promise<string> {
+  const docRef = await addDoc(firmwareRolloutsCollection, {
+    // Firebase doesn't allow undefined values (e.g. versionAfter of a unit that never came back)
+    ...JSON.parse(JSON.stringify(rollout)),
+    startedAt: Timestamp.fromDate(rollout.startedAt),
+    finishedAt: Timestamp.fromDate(rollout.finishedAt),
+  });
+  return docRef.id;
+}
+
+export async function getFirmwareRollouts(ownerEmail: string): Promise<FirmwareRollout[]> {
+  const q = query(
+    firmwareRolloutsCollection,
+    where("ownerEmail", "==", ownerEmail),
+    orderBy("startedAt", "desc")
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data()),
+  })) as FirmwareRollout[];
+}
+
+// ============ Device Health ============
+
+const deviceAlertsCollection = collection(db, "deviceAlerts");
+
+// Most recent `days` days, oldest first
+export async function getDeviceHealthHistory(deviceId: string, days = 7): Promise<DeviceHealthDay[]> {
+  const dateKeys = Array.from({ length: days }, (_, i) => healthDateKey(Date.now() - (days - 1 - i) * 86_400_000));
+  const snapshots = await Promise.all(
+    dateKeys.map((dateKey) => getDoc(doc(db, "deviceHealthHistory", `${deviceId}_${dateKey}`)))
+  );
+  return snapshots
+    .filter((snapshot) => snapshot.exists())
+    .map((snapshot) => ({ id: snapshot.id, ...snapshot.data() })) as DeviceHealthDay[];
+}
+
+export async function acknowledgeDeviceAlert(id: string): Promise<void> {
+  await updateDoc(doc(db, "deviceAlerts", id), { acknowledged: true });
+}
+
+// Newest first
+export async function getDeviceAlerts(ownerEmail: string, count = 50): Promise<DeviceAlert[]> {
+  const q = query(deviceAlertsCollection, where("ownerEmail", "==", ownerEmail), orderBy("createdAt", "desc"), limit(count));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data()),
+  })) as DeviceAlert[];
+}
+
+// ============ Door Actions ============
+
+const doorAuditCollection = collection(db, "doorAuditLog");
+
+export async function getDoorActionPlan(ownerEmail: string): Promise<DoorActionPlan | null> {
+  const snapshot = await getDoc(doc(db, "doorActionPlans", ownerEmail));
+  if (!snapshot.exists()) return null;
+  return { id: snapshot.id, ...convertTimestamps(snapshot.data()) } as DoorActionPlan;
+}
+
+export async function setDoorActionPlan(plan: Omit<DoorActionPlan, "id" | "updatedAt">): Promise<void> {
+  // Firebase doesn't allow undefined values (durationSeconds is only set for momentary unlocks)
+  await setDoc(doc(db, "doorActionPlans", plan.ownerEmail), {
+    ...JSON.parse(JSON.stringify(plan)),
+    updatedAt: Timestamp.now(),
+  });
+}
+
+// Newest first
+export async function getDoorAuditLog(ownerEmail: string, count = 50): Promise<DoorAuditEntry[]> {
+  const q = query(doorAuditCollection, where("ownerEmail", "==", ownerEmail), orderBy("createdAt", "desc"), limit(count));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data()),
+  })) as DoorAuditEntry[];
+}
+
+// ============ SIP Calls ============
+
+const sipCallPlansCollection = collection(db, "sipCallPlans");
+const sipCallLogCollection = collection(db, "sipCallLog");
+
+export async function getSipCallPlan(ownerEmail: string): Promise<SipCallPlan | null> {
+  const snapshot = await getDoc(doc(sipCallPlansCollection, ownerEmail));
+  if (!snapshot.exists()) return null;
+  return { id: snapshot.id, ...convertTimestamps(snapshot.data()) } as SipCallPlan;
+}
+
+export async function setSipCallPlan(plan: Omit<SipCallPlan, "id" | "updatedAt">): Promise<void> {
+  // Firebase doesn't allow undefined values (date/days depend on the repeat)
+  await setDoc(doc(sipCallPlansCollection, plan.ownerEmail), {
+    ...JSON.parse(JSON.stringify(plan)),
+    updatedAt: Timestamp.now(),
+  });
+}
+
+// Newest first
+export async function getSipCallLog(ownerEmail: string, count = 50): Promise<SipCallLogEntry[]> {
+  const q = query(sipCallLogCollection, where("ownerEmail", "==", ownerEmail), orderBy("createdAt", "desc"), limit(count));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data()),
+  })) as SipCallLogEntry[];
+}
+
+// ============ Scheduled Announcements ============
+
+const announcementPlansCollection = collection(db, "announcementPlans");
+
+export async function getAnnouncementPlan(ownerEmail: string): Promise<AnnouncementPlan | null> {
+  const snapshot = await getDoc(doc(announcementPlansCollection, ownerEmail));
+  if (!snapshot.exists()) return null;
+  return { id: snapshot.id, ...convertTimestamps(snapshot.data()) } as AnnouncementPlan;
+}
+
+export async function setAnnouncementPlan(plan: Omit<AnnouncementPlan, "id" | "updatedAt">): Promise<void> {
+  // Firebase doesn't allow undefined values (date/days depend on the repeat)
+  await setDoc(doc(announcementPlansCollection, plan.ownerEmail), {
+    ...JSON.parse(JSON.stringify(plan)),
+    updatedAt: Timestamp.now(),
+  });
+}
+
+// Newest first - scheduled plays (and skips) for one station
+export async function getAnnouncementLog(ownerEmail: string, limit = 50): Promise<DistributionLog[]> {
+  const q = query(distributionLogsCollection, where("ownerEmail", "==", ownerEmail), orderBy("createdAt", "desc"));
+  const snapshot = await getDocs(q);
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...convertTimestamps(doc.data()) }) as DistributionLog)
+    .filter((entry) => !!entry.scheduleId)
+    .slice(0, limit);
+}
+
+// ============ Speech Templates ============
+
+const speechTemplatesCollection = collection(db, "speechTemplates");
+
+export async function getSpeechTemplatePlan(ownerEmail: string): Promise<SpeechTemplatePlan | null> {
+  const snapshot = await getDoc(doc(speechTemplatesCollection, ownerEmail));
+  if (!snapshot.exists()) return null;
+  return { id: snapshot.id, ...convertTimestamps(snapshot.data()) } as SpeechTemplatePlan;
+}
+
+export async function setSpeechTemplatePlan(plan: Omit<SpeechTemplatePlan, "id" | "updatedAt">): Promise<void> {
+  await setDoc(doc(speechTemplatesCollection, plan.ownerEmail), {
+    ...plan,
+    updatedAt: Timestamp.now(),
+  });
+}
+
+// ============ App Settings ============
+
+const appSettingsCollection = collection(db, "appSettings");
+
+// Normalized against the current schema - null if the owner has never saved
+export async function getAppSettings(ownerEmail: string): Promise<StoredAppSettings | null> {
+  const snapshot = await getDoc(doc(appSettingsCollection, ownerEmail));
+  if (!snapshot.exists()) return null;
+  const data = convertTimestamps(snapshot.data());
+  return {
+    ...normalizeSettings(data),
+    ownerEmail,
+    version: typeof data.version === "number" ? data.version : 0,
+    updatedAt: data.updatedAt as Date | undefined,
+  };
+}
+
+export async function setAppSettings(ownerEmail: string, settings: AppSettings): Promise<void> {
+  // Firebase doesn't allow undefined values (strobe color2 is optional)
+  await setDoc(doc(appSettingsCollection, ownerEmail), {
+    ...JSON.parse(JSON.stringify(settings)),
+    ownerEmail,
+    version: SETTINGS_VERSION,
+    updatedAt: Timestamp.now(),
+  });
+}
+
 // ============ Helpers ============
 
 function convertTimestamps(data: DocumentData): DocumentData {
@@ -0,0 +1,312 @@
+import {
+  addDeviceAlert,
+  getServerDevices,
+  getServerPoESwitches,
+  getUnresolvedDeviceAlerts,
+  recordDeviceHealthSample,
+  resolveDeviceAlert,
+  updateServerDevice,
+  updateServerPoESwitch,
+} from "@/lib/firebase/admin";
+import {
+  DEFAULT_HEALTH_ALERT_LIMITS,
+  describeAlert,
+  evaluateAlerts,
+  type HealthAlertLimits,
+} from "@/lib/algo/health";
+import { resolveAlgoDevice, resolvePoESwitch } from "@/lib/vault/credentials";
+import { checkDeviceHealth, checkPoESwitchHealth, readDeviceTemperature } from "./probes";
+import type { DeviceAlertType, DeviceHealthSample, HealthTargetKind } from "@/lib/algo/types";
+
+/**
+ * Background Health Monitor
+ * Polls every Algo device and PoE switch on an interval, appends each result
+ * to `deviceHealthHistory`, and opens/resolves `deviceAlerts` when a device
+ * goes offline, starts rejecting its password or runs hot. Started once per
+ * server process from `src/instrumentation.ts`.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface HealthMonitorOptions extends HealthAlertLimits {
+  intervalMs: number; // Between sweeps (default: 60s)
+  timeoutMs: number;  // Per-device reachability timeout (default: 3s)
+}
+
+export interface MonitoredTarget {
+  deviceId: string;
+  deviceName: string;
+  kind: HealthTargetKind;
+  ownerEmail: string;
+  consecutiveFailures: number;
+  lastSample?: DeviceHealthSample;
+  lastError?: string;
+  openAlerts: Partial<Record<DeviceAlertType, string>>; // Alert type → alert document ID
+}
+
+export interface HealthSweepSummary {
+  startedAt: number;
+  finishedAt: number;
+  checked: number;
+  online: number;
+  raised: number;
+  resolved: number;
+}
+
+// lastSeen is only rewritten this often while nothing else changes
+const LAST_SEEN_WRITE_MS = 5 * 60_000;
+
+function optionsFromEnv(): Partial<HealthMonitorOptions> {
+  const number = (name: string) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+  const options = {
+    intervalMs: number("HEALTH_MONITOR_INTERVAL_MS"),
+    maxTemperatureC: number("HEALTH_MONITOR_MAX_TEMP_C"),
+    offlineAfter: number("HEALTH_MONITOR_OFFLINE_AFTER"),
+  };
+  // Unset variables keep the defaults
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+}
+
+export class HealthMonitor {
+  private options: HealthMonitorOptions = {
+    ...DEFAULT_HEALTH_ALERT_LIMITS,
+    intervalMs: 60_000,
+    timeoutMs: 3000,
+  };
+  private targets = new Map<string, MonitoredTarget>();
+  private lastSeenWrittenAt = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping: Promise<HealthSweepSummary> | null = null;
+  private restored = false;
+  private lastSweep: HealthSweepSummary | null = null;
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  start(options: Partial<HealthMonitorOptions> = {}): void {
+    this.options = { ...this.options, ...options };
+    this.stop();
+    console.log(`[HealthMonitor] Polling every ${Math.round(this.options.intervalMs / 1000)}s`);
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => console.error("[HealthMonitor] Sweep failed:", error));
+    }, this.options.intervalMs);
+    this.sweep().catch((error) => console.error("[HealthMonitor] Sweep failed:", error));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(ownerEmail?: string) {
+    return {
+      running: this.isRunning,
+      options: this.options,
+      lastSweep: this.lastSweep,
+      targets: Array.from(this.targets.values()).filter((t) => !ownerEmail || t.ownerEmail === ownerEmail),
+    };
+  }
+
+  /**
+   * Check everything once; a sweep still in progress is joined, not doubled
+   */
+  sweep(): Promise<HealthSweepSummary> {
+    if (!this.sweeping) {
+      this.sweeping = this.runSweep().finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  private async runSweep(): Promise<HealthSweepSummary> {
+    const startedAt = Date.now();
+    if (!this.restored) {
+      await this.restoreOpenAlerts();
+    }
+
+    const [devices, switches] = await Promise.all([getServerDevices(), getServerPoESwitches()]);
+    const seen = new Set<string>();
+    const counts = { online: 0, raised: 0, resolved: 0 };
+
+    const checkAlgo = devices.map(async (device) => {
+      seen.add(device.id);
+      const sample: DeviceHealthSample = { at: Date.now(), isOnline: false };
+      let error: string | undefined;
+
+      try {
+        const resolved = await resolveAlgoDevice(device.id);
+        if (!resolved) return;
+        const health = await checkDeviceHealth(resolved, this.options.timeoutMs);
+        Object.assign(sample, {
+          isOnline: health.isOnline,
+          authValid: health.authValid,
+          responseTime: health.responseTime,
+        });
+        error = health.error;
+        if (health.isOnline && health.authValid) {
+          sample.temperatureC = await readDeviceTemperature(resolved);
+        }
+      } catch (resolveError) {
+        // No stored password - unreachable as far as the station is concerned
+        error = resolveError instanceof Error ? resolveError.message : String(resolveError);
+      }
+
+      const changed = device.isOnline !== sample.isOnline ||
+        (sample.authValid !== undefined && device.authValid !== sample.authValid);
+      if (changed || (sample.isOnline && this.lastSeenDue(device.id))) {
+        this.markLastSeenWritten(device.id, sample);
+        await updateServerDevice(device.id, {
+          isOnline: sample.isOnline,
+          authValid: sample.authValid,
+          ...(sample.isOnline ? { lastSeen: new Date(sample.at) } : {}),
+        });
+      }
+
+      await this.record({ deviceId: device.id, deviceName: device.name, kind: "algo", ownerEmail: device.ownerEmail }, sample, error, counts);
+    });
+
+    const checkSwitches = switches.map(async (poeSwitch) => {
+      seen.add(poeSwitch.id);
+      const sample: DeviceHealthSample = { at: Date.now(), isOnline: false };
+      let error: string | undefined;
+
+      try {
+        const resolved = await resolvePoESwitch(poeSwitch.id);
+        if (!resolved) return;
+        const health = await checkPoESwitchHealth(resolved);
+        Object.assign(sample, { isOnline: health.isOnline, responseTime: health.responseTime });
+        error = health.error;
+      } catch (resolveError) {
+        error = resolveError instanceof Error ? resolveError.message : String(resolveError);
+      }
+
+      if (poeSwitch.isOnline !== sample.isOnline || (sample.isOnline && this.lastSeenDue(poeSwitch.id))) {
+        this.markLastSeenWritten(poeSwitch.id, sample);
+        await updateServerPoESwitch(poeSwitch.id, {
+          isOnline: sample.isOnline,
+          ...(sample.isOnline ? { lastSeen: new Date(sample.at) } : {}),
+        });
+      }
+
+      await this.record({ deviceId: poeSwitch.id, deviceName: poeSwitch.name, kind: "poe_switch", ownerEmail: poeSwitch.ownerEmail }, sample, error, counts);
+    });
+
+    const results = await Promise.allSettled([...checkAlgo, ...checkSwitches]);
+    results
+      .filter((r): r is PromiseRejectedResult => r.status === "rejected")
+      .forEach((r) => console.error("[HealthMonitor] Check failed:", r.reason));
+
+    // Deleted devices stop being tracked, and their alerts are closed
+    for (const [id, target] of this.targets) {
+      if (!seen.has(id)) {
+        await Promise.all(Object.values(target.openAlerts).map((alertId) => resolveDeviceAlert(alertId!)));
+        this.targets.delete(id);
+        this.lastSeenWrittenAt.delete(id);
+      }
+    }
+
+    this.lastSweep = {
+      startedAt,
+      finishedAt: Date.now(),
+      checked: devices.length + switches.length,
+      online: counts.online,
+      raised: counts.raised,
+      resolved: counts.resolved,
+    };
+    return this.lastSweep;
+  }
+
+  private lastSeenDue(deviceId: string): boolean {
+    return Date.now() - (this.lastSeenWrittenAt.get(deviceId) ?? 0) >= LAST_SEEN_WRITE_MS;
+  }
+
+  private markLastSeenWritten(deviceId: string, sample: DeviceHealthSample): void {
+    if (sample.isOnline) {
+      this.lastSeenWrittenAt.set(deviceId, sample.at);
+    }
+  }
+
+  private async record(
+    info: Pick<MonitoredTarget, "deviceId" | "deviceName" | "kind" | "ownerEmail">,
+    sample: DeviceHealthSample,
+    error: string | undefined,
+    counts: { online: number; raised: number; resolved: number }
+  ): Promise<void> {
+    const target: MonitoredTarget = this.targets.get(info.deviceId) ?? { ...info, consecutiveFailures: 0, openAlerts: {} };
+    Object.assign(target, info);
+    target.consecutiveFailures = sample.isOnline ? 0 : target.consecutiveFailures + 1;
+    target.lastSample = sample;
+    target.lastError = error;
+    this.targets.set(info.deviceId, target);
+    if (sample.isOnline) counts.online++;
+
+    await recordDeviceHealthSample(
+      { deviceId: info.deviceId, kind: info.kind, ownerEmail: info.ownerEmail },
+      sample
+    );
+
+    const open = Object.keys(target.openAlerts) as DeviceAlertType[];
+    const { raise, resolve } = evaluateAlerts(sample, target.consecutiveFailures, open, this.options);
+
+    for (const type of raise) {
+      const message = describeAlert(type, info.deviceName, sample, this.options);
+      console.warn(`[HealthMonitor] ⚠ ${message}`);
+      target.openAlerts[type] = await addDeviceAlert({ ...info, type, message });
+      counts.raised++;
+    }
+    for (const type of resolve) {
+      console.log(`[HealthMonitor] ✓ ${info.deviceName}: ${type} cleared`);
+      await resolveDeviceAlert(target.openAlerts[type]!);
+      delete target.openAlerts[type];
+      counts.resolved++;
+    }
+  }
+
+  /**
+   * Pick up alerts left open by the previous process, so a restart neither
+   * duplicates them nor forgets to resolve them
+   */
+  private async restoreOpenAlerts(): Promise<void> {
+    const alerts = await getUnresolvedDeviceAlerts();
+    for (const alert of alerts) {
+      const target = this.targets.get(alert.deviceId) ?? {
+        deviceId: alert.deviceId,
+        deviceName: alert.deviceName,
+        kind: alert.kind,
+        ownerEmail: alert.ownerEmail,
+        consecutiveFailures: 0,
+        openAlerts: {},
+      };
+      target.openAlerts[alert.type] = alert.id;
+      this.targets.set(alert.deviceId, target);
+    }
+    this.restored = true;
+  }
+}
+
+// One monitor per server process - kept on globalThis so dev hot reloads
+// don't start a second timer next to the old one
+const globalForMonitor = globalThis as unknown as { deviceHealthMonitor?: HealthMonitor };
+
+export const healthMonitor =
+  globalForMonitor.deviceHealthMonitor ?? (globalForMonitor.deviceHealthMonitor = new HealthMonitor());
+
+/**
+ * Start polling unless HEALTH_MONITOR_ENABLED=false
+ */
+export function startHealthMonitor(): void {
+  if (process.env.HEALTH_MONITOR_ENABLED === "false") {
+    console.log("[HealthMonitor] Disabled (HEALTH_MONITOR_ENABLED=false)");
+    return;
+  }
+  if (!healthMonitor.isRunning) {
+    healthMonitor.start(optionsFromEnv());
+  }
+}
@@ -0,0 +1,137 @@
+import { getAlgoSetting, runAlgoCommand, runPoECommand } from "@/lib/commands/device-commands";
+import { parseTemperature } from "@/lib/algo/health";
+import type { ResolvedAlgoDevice, ResolvedPoESwitch } from "@/lib/vault/credentials";
+
+/**
+ * Device Health Probes
+ * Shared by the on-demand /api/algo/health check and the background monitor.
+ * Reads go through the command dispatcher as single attempts, so a probe
+ * never retries on its own or overlaps a command to the same device.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+// Check if a single device is reachable and if auth is valid
+export async function checkDeviceHealth(
+  device: ResolvedAlgoDevice,
+  timeout: number = 3000
+): Promise<{
+  isOnline: boolean;
+  authValid?: boolean;
+  responseTime?: number;
+  error?: string;
+}> {
+  const { ipAddress } = device;
+  const startTime = Date.now();
+
+  try {
+    // First, check if device is reachable (basic connectivity)
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    const pingResponse = await fetch(`http://${ipAddress}`, {
+      signal: controller.signal,
+      method: "HEAD",
+      headers: {
+        "User-Agent": "AlgoSound-Health/1.0",
+      },
+    });
+
+    clearTimeout(timeoutId);
+    const responseTime = Date.now() - startTime;
+
+    // Device is not reachable
+    if (!pingResponse.ok && pingResponse.status !== 401) {
+      return {
+        isOnline: false,
+        error: `HTTP ${pingResponse.status}`,
+        responseTime,
+      };
+    }
+
+    // Device is reachable, now test authentication
+    try {
+      // Try to get a simple setting (like device info)
+      // This will fail if auth is wrong
+      await getAlgoSetting(device, "info.product");
+
+      // Auth is valid!
+      return {
+        isOnline: true,
+        authValid: true,
+        responseTime,
+      };
+    } catch {
+      // Device is online but auth failed
+      return {
+        isOnline: true,
+        authValid: false,
+        responseTime,
+        error: "Invalid credentials",
+      };
+    }
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+
+    if (error instanceof Error) {
+      if (error.name === "AbortError") {
+        return {
+          isOnline: false,
+          responseTime,
+          error: "Timeout",
+        };
+      }
+      return {
+        isOnline: false,
+        error: error.message,
+        responseTime,
+      };
+    }
+
+    return {
+      isOnline: false,
+      error: "Unknown error",
+      responseTime,
+    };
+  }
+}
+
+/**
+ * Temperature from /api/info/status in °C, or undefined if the model doesn't
+ * report one
+ */
+export async function readDeviceTemperature(device: ResolvedAlgoDevice): Promise<number | undefined> {
+  try {
+    const status = await runAlgoCommand(device, "get status", (client) => client.getStatus(), {
+      retry: { attempts: 1 },
+    });
+    return parseTemperature(status.Temperature);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function checkPoESwitchHealth(
+  poeSwitch: ResolvedPoESwitch
+): Promise<{ isOnline: boolean; responseTime: number; error?: string }> {
+  const startTime = Date.now();
+  try {
+    const isOnline = await runPoECommand(
+      poeSwitch,
+      "test connection",
+      (controller) => controller.testConnection(),
+      { retry: { attempts: 1 } }
+    );
+    return {
+      isOnline,
+      responseTime: Date.now() - startTime,
+      ...(isOnline ? {} : { error: "Switch is not reachable" }),
+    };
+  } catch (error) {
+    return {
+      isOnline: false,
+      responseTime: Date.now() - startTime,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { getServerAudioFiles } from "@/lib/firebase/admin";
+import {
+  DEFAULT_TONES,
+  LIBRARY_FOLDER,
+  getLibraryFiles,
+  isPlanInSync,
+  planLibrarySync,
+  toneFilename,
+  type LibraryDeviceReport,
+  type LibraryFile,
+} from "@/lib/algo/announcement-library";
+import type { ResolvedAlgoDevice } from "@/lib/vault/credentials";
+
+/**
+ * Announcement Library Sync
+ * Reconciles each Algo unit's tones folder with the owner's library through
+ * the command dispatcher: lists the folder, pushes files that are missing or
+ * the wrong size from Firebase Storage, optionally deletes orphans, and makes
+ * sure a tone is on a device right before it's played.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface LibrarySyncOptions {
+  apply?: boolean;         // Push and remove (false = report only)
+  verifySizes?: boolean;   // Download library files from the device to compare sizes
+  removeOrphans?: boolean; // Delete files that aren't in the library (only with apply)
+}
+
+// Library audio downloaded from storage, shared by every device in one run
+export type LibraryAudioCache = Map<string, Promise<Buffer>>;
+
+export async function getLibrary(ownerEmail: string): Promise<LibraryFile[]> {
+  return getLibraryFiles(await getServerAudioFiles(ownerEmail));
+}
+
+function fetchLibraryAudio(file: LibraryFile, cache: LibraryAudioCache): Promise<Buffer> {
+  let audio = cache.get(file.id);
+  if (!audio) {
+    audio = fetch(file.storageUrl).then(async (response) => {
+      if (!response.ok) {
+        throw new Error(`Storage download failed: ${response.status} ${response.statusText}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    });
+    // A failed download isn't cached - the next device tries again
+    audio.catch(() => cache.delete(file.id));
+    cache.set(file.id, audio);
+  }
+  return audio;
+}
+
+async function listLibraryFolder(device: ResolvedAlgoDevice): Promise<string[]> {
+  const { filelist } = await runAlgoCommand(
+    device,
+    `list ${LIBRARY_FOLDER}`,
+    (client) => client.getFileList(LIBRARY_FOLDER),
+    { retry: { attempts: 1 } }
+  );
+  return filelist ?? [];
+}
+
+async function pushLibraryFile(device: ResolvedAlgoDevice, file: LibraryFile, cache: LibraryAudioCache): Promise<void> {
+  const audio = await fetchLibraryAudio(file, cache);
+  // Two plays racing to push the same file upload it once
+  await runAlgoCommand(
+    device,
+    `upload ${LIBRARY_FOLDER}/${file.filename}`,
+    (client) => client.uploadFile(LIBRARY_FOLDER, file.filename, audio),
+    { coalesceKey: `upload:${LIBRARY_FOLDER}/${file.filename}` }
+  );
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Check one device against the library and (with `apply`) bring it in sync.
+ * Never throws - an unreachable device is reported with `error`.
+ */
+export async function syncDeviceLibrary(
+  device: ResolvedAlgoDevice,
+  library: LibraryFile[],
+  options: LibrarySyncOptions = {},
+  cache: LibraryAudioCache = new Map()
+): Promise<LibraryDeviceReport> {
+  const report: LibraryDeviceReport = {
+    deviceId: device.id,
+    deviceName: device.name,
+    type: device.type,
+    ipAddress: device.ipAddress,
+    present: [],
+    missing: [],
+    sizeMismatch: [],
+    orphans: [],
+    pushed: [],
+    removed: [],
+    failed: [],
+    inSync: false,
+  };
+
+  try {
+    const deviceFiles = await listLibraryFolder(device);
+
+    const sizes: Record<string, number> = {};
+    if (options.verifySizes) {
+      for (const file of library.filter((f) => deviceFiles.includes(f.filename))) {
+        try {
+          const data = await runAlgoCommand(
+            device,
+            `download ${LIBRARY_FOLDER}/${file.filename}`,
+            (client) => client.downloadFile(LIBRARY_FOLDER, file.filename),
+            { retry: { attempts: 1 } }
+          );
+          sizes[file.filename] = data.length;
+        } catch (error) {
+          report.failed.push({ filename: file.filename, error: `Size check: ${errorMessage(error, "download failed")}` });
+        }
+      }
+    }
+
+    Object.assign(report, planLibrarySync(library, deviceFiles, sizes));
+    if (!options.apply) {
+      report.inSync = isPlanInSync(report);
+      return report;
+    }
+
+    for (const filename of [...report.missing, ...report.sizeMismatch]) {
+      const file = library.find((f) => f.filename === filename)!;
+      try {
+        await pushLibraryFile(device, file, cache);
+        report.pushed.push(filename);
+      } catch (error) {
+        report.failed.push({ filename, error: errorMessage(error, "Upload failed") });
+      }
+    }
+
+    if (options.removeOrphans) {
+      for (const filename of report.orphans) {
+        try {
+          await runAlgoCommand(device, `delete ${LIBRARY_FOLDER}/${filename}`, (client) =>
+            client.deleteFile(`/${LIBRARY_FOLDER}/${filename}`)
+          );
+          report.removed.push(filename);
+        } catch (error) {
+          report.failed.push({ filename, error: errorMessage(error, "Delete failed") });
+        }
+      }
+    }
+
+    // List again so "in sync" means the device really has every file
+    const after = planLibrarySync(library, await listLibraryFolder(device));
+    report.inSync = isPlanInSync({
+      missing: after.missing,
+      sizeMismatch: report.sizeMismatch.filter((filename) => !report.pushed.includes(filename)),
+    });
+  } catch (error) {
+    report.error = errorMessage(error, "Failed to read the device's files");
+  }
+  return report;
+}
+
+/**
+ * Make sure a tone is on the device before it's played. Default tones and
+ * files already there pass straight through; a library file that's missing
+ * is pushed first. Throws if the tone is neither on the device nor in the
+ * owner's library.
+ */
+export async function ensureLibraryFile(device: ResolvedAlgoDevice, tonePath: string): Promise<{ pushed: boolean }> {
+  const filename = toneFilename(tonePath);
+  if (DEFAULT_TONES.includes(filename)) {
+    return { pushed: false };
+  }
+
+  const deviceFiles = await listLibraryFolder(device);
+  if (deviceFiles.includes(filename)) {
+    return { pushed: false };
+  }
+
+  const file = (await getLibrary(device.ownerEmail)).find((f) => f.filename === filename);
+  if (!file) {
+    throw new Error(`"${filename}" is not on ${device.name} or in the announcement library`);
+  }
+
+  console.log(`[Library] Pushing ${filename} to ${device.name} before playback`);
+  await pushLibraryFile(device, file, new Map());
+  return { pushed: true };
+}
@@ -0,0 +1,189 @@
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import {
+  arbitratePagingClaim,
+  describePagingClaim,
+  getHeldDeviceIds,
+  isLivePagingSource,
+  type PagingClaim,
+} from "@/lib/algo/paging-priority";
+import type { ResolvedAlgoDevice } from "@/lib/vault/credentials";
+
+/**
+ * Paging Arbiter
+ * Holds every claim on a station's paging adapters and speakers. A tone play
+ * (scheduled announcement, manual test) claims its devices before touching
+ * them and is refused while a source of equal or higher priority holds one.
+ * A claim that outranks it stops its tone (`stopTone`), waits while it
+ * restores its speakers, then goes ahead. A restore still running after that
+ * wait leaves alone every device the new claim holds. Live paths report their
+ * calls through `/api/paging/claim`.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface PagingClaimOptions {
+  toneDevice?: ResolvedAlgoDevice;  // Sent stopTone when the claim is preempted
+  // Puts the claim's devices back - runs once, on release. `isHeld` says
+  // whether another claim holds a device right now; skip those.
+  restore?: (isHeld: (deviceId: string) => boolean) => Promise<void>;
+}
+
+export interface PagingClaimResult {
+  granted: boolean;
+  claim?: PagingClaim;
+  signal?: AbortSignal;      // Aborted (reason: who took over) when the claim is preempted
+  release?: () => Promise<PagingReleaseResult>; // Releases this claim only, never a later one with its id
+  blockedBy?: PagingClaim;
+  preempted: PagingClaim[];
+  yieldDeviceIds: string[];
+}
+
+export interface PagingReleaseResult {
+  released: boolean;
+  heldDeviceIds: string[]; // Still held by another claim - leave them alone
+}
+
+interface ActiveClaim {
+  claim: PagingClaim;
+  options: PagingClaimOptions;
+  controller: AbortController;
+  released: boolean;
+}
+
+// Longest a new claim waits for the plays it preempted to restore their
+// speakers - a fire call never waits on an unreachable speaker for long
+const MAX_PREEMPT_WAIT_MS = 1500;
+
+// A live call that never reports its end (tab closed mid-call) stops
+// holding its devices after this long
+const MAX_LIVE_CLAIM_MS = 30 * 60_000;
+
+// Claim ids are only unique within a station ("monitoring", "play:<id>")
+const claimKey = (claim: Pick<PagingClaim, "ownerEmail" | "id">): string => `${claim.ownerEmail}|${claim.id}`;
+
+export class PagingArbiter {
+  private claims = new Map<string, ActiveClaim>();
+
+  getClaims(ownerEmail: string): PagingClaim[] {
+    this.expireLiveClaims();
+    return Array.from(this.claims.values())
+      .map((active) => active.claim)
+      .filter((claim) => claim.ownerEmail === ownerEmail);
+  }
+
+  /**
+   * Claim devices. Deciding and registering happen together, so two plays
+   * racing for one adapter can't both win; preempted plays are stopped and
+   * restored before this returns.
+   */
+  async acquire(request: Omit<PagingClaim, "startedAt">, options: PagingClaimOptions = {}): Promise<PagingClaimResult> {
+    this.expireLiveClaims();
+
+    const decision = arbitratePagingClaim(this.getClaims(request.ownerEmail), request);
+    if (!decision.granted) {
+      return { granted: false, blockedBy: decision.blockedBy ?? undefined, preempted: [], yieldDeviceIds: [] };
+    }
+
+    const previous = this.claims.get(claimKey(request));
+    const preempt = decision.preempt.map((claim) => this.claims.get(claimKey(claim))!);
+    if (previous && !isLivePagingSource(previous.claim.source)) {
+      // The same path playing again replaces its own play
+      preempt.push(previous);
+    }
+
+    const claim: PagingClaim = {
+      ...request,
+      startedAt: previous && isLivePagingSource(request.source) ? previous.claim.startedAt : Date.now(),
+    };
+    const active: ActiveClaim = { claim, options, controller: new AbortController(), released: false };
+    this.claims.set(claimKey(claim), active);
+
+    if (preempt.length > 0) {
+      const by = describePagingClaim(claim);
+      await Promise.race([
+        Promise.all(preempt.map((active) => this.preempt(active, by))),
+        new Promise((resolve) => setTimeout(resolve, MAX_PREEMPT_WAIT_MS)),
+      ]);
+    }
+
+    return {
+      granted: true,
+      claim,
+      signal: active.controller.signal,
+      release: () => this.releaseActive(active),
+      preempted: preempt.map((active) => active.claim),
+      yieldDeviceIds: decision.yieldDeviceIds,
+    };
+  }
+
+  /**
+   * Let go of whatever claim of the station's holds an id (e.g. a stop
+   * endpoint ending a looped test) and restore its devices
+   */
+  async release(ownerEmail: string, claimId: string): Promise<PagingReleaseResult> {
+    const active = this.claims.get(claimKey({ ownerEmail, id: claimId }));
+    if (!active) {
+      return { released: false, heldDeviceIds: [] };
+    }
+    return this.releaseActive(active);
+  }
+
+  private async releaseActive(active: ActiveClaim): Promise<PagingReleaseResult> {
+    const key = claimKey(active.claim);
+    if (this.claims.get(key) === active) {
+      this.claims.delete(key);
+    }
+    const heldDeviceIds = getHeldDeviceIds(this.getClaims(active.claim.ownerEmail), active.claim);
+    if (active.released) {
+      return { released: false, heldDeviceIds };
+    }
+
+    active.released = true;
+    if (active.options.restore) {
+      // Asked again per device, as late as possible - a restore that outlives
+      // MAX_PREEMPT_WAIT_MS must not undo the claim that preempted it
+      const isHeld = (deviceId: string) =>
+        getHeldDeviceIds(this.getClaims(active.claim.ownerEmail), active.claim).includes(deviceId);
+      try {
+        await active.options.restore(isHeld);
+      } catch (error) {
+        console.error(`[Paging] Failed to restore after ${describePagingClaim(active.claim)}:`, error);
+      }
+    }
+    return { released: true, heldDeviceIds };
+  }
+
+  private async preempt(active: ActiveClaim, by: string): Promise<void> {
+    // Already released (or preempted by someone else) - nothing left to stop
+    if (active.released) return;
+
+    console.log(`[Paging] ${describePagingClaim(active.claim)} stopped for ${by}`);
+    active.controller.abort(by);
+
+    const { toneDevice } = active.options;
+    if (toneDevice) {
+      try {
+        await runAlgoCommand(toneDevice, "stop tone", (client) => client.stopTone(), { coalesceKey: "tone" });
+      } catch (error) {
+        console.error(`[Paging] Failed to stop the tone on ${toneDevice.name}:`, error);
+      }
+    }
+    await this.releaseActive(active);
+  }
+
+  private expireLiveClaims(): void {
+    const cutoff = Date.now() - MAX_LIVE_CLAIM_MS;
+    for (const [key, active] of this.claims) {
+      if (isLivePagingSource(active.claim.source) && active.claim.startedAt < cutoff) {
+        console.warn(`[Paging] ${describePagingClaim(active.claim)} never ended - releasing it`);
+        this.claims.delete(key);
+      }
+    }
+  }
+}
+
+// One arbiter per server process - kept on globalThis so every route and the
+// announcement scheduler see the same claims
+const globalForArbiter = globalThis as unknown as { pagingArbiter?: PagingArbiter };
+
+export const pagingArbiter = globalForArbiter.pagingArbiter ?? (globalForArbiter.pagingArbiter = new PagingArbiter());
@@ -0,0 +1,53 @@
+import { getAlgoSetting, setAlgoSettings } from "@/lib/commands/device-commands";
+import type { ResolvedAlgoDevice } from "@/lib/vault/credentials";
+
+/**
+ * Speaker State
+ * Reads the settings a tone play is about to change on each speaker and puts
+ * them back afterwards - whether the play ended or was preempted.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface SpeakerSnapshot {
+  speaker: ResolvedAlgoDevice;
+  settings: Record<string, string> | null; // null = couldn't be read
+}
+
+export async function snapshotSpeakers(speakers: ResolvedAlgoDevice[], keys: string[]): Promise<SpeakerSnapshot[]> {
+  return Promise.all(
+    speakers.map(async (speaker): Promise<SpeakerSnapshot> => {
+      try {
+        const values = await Promise.all(keys.map((key) => getAlgoSetting(speaker, key)));
+        return { speaker, settings: Object.assign({}, ...values) };
+      } catch {
+        return { speaker, settings: null };
+      }
+    })
+  );
+}
+
+/**
+ * Put every speaker back - one that couldn't be read beforehand gets
+ * `fallback` instead, one `isHeld` by another claim is left as it is.
+ * Never throws.
+ */
+export async function restoreSpeakers(
+  snapshots: SpeakerSnapshot[],
+  fallback: Record<string, string>,
+  isHeld: (deviceId: string) => boolean = () => false
+): Promise<void> {
+  await Promise.all(
+    snapshots.map(async ({ speaker, settings }) => {
+      if (isHeld(speaker.id)) {
+        console.log(`[Paging] Left ${speaker.name} to the claim now holding it`);
+        return;
+      }
+      try {
+        await setAlgoSettings(speaker, settings ?? fallback);
+      } catch (error) {
+        console.error(`[Paging] Failed to restore ${speaker.name}:`, error);
+      }
+    })
+  );
+}
@@ -92,10 +92,17 @@ function httpRequest(options: http.RequestOptions, body?: string, timeout: numbe
 export class NetgearGS308EPController {
   private ipAddress: string;
   private password: string;
+  private host: string;
+  private port: number;
 
   constructor(credentials: PoESwitchCredentials) {
     this.ipAddress = credentials.ipAddress;
     this.password = credentials.password;
+
+    // Accept "host:port" so a local switch simulator can stand in for the real unit
+    const [host, port] = credentials.ipAddress.split(':');
+    this.host = host;
+    this.port = port ? parseInt(port, 10) : 80;
   }
 
   /**
@@ -103,8 +110,8 @@ export class NetgearGS308EPController {
    */
   private async getRandValue(): Promise<string> {
     const response = await httpRequest({
-      hostname: this.ipAddress,
-      port: 80,
+      hostname: this.host,
+      port: this.port,
       path: '/login.cgi',
       method: 'GET',
     });
@@ -136,8 +143,8 @@ export class NetgearGS308EPController {
     const postData = `password=${hashedPassword}`;
 
     const response = await httpRequest({
-      hostname: this.ipAddress,
-      port: 80,
+      hostname: this.host,
+      port: this.port,
       path: '/login.cgi',
       method: 'POST',
       headers: {
@@ -172,8 +179,8 @@ export class NetgearGS308EPController {
    */
   private async getHashToken(sidCookie: string): Promise<string> {
     const response = await httpRequest({
-      hostname: this.ipAddress,
-      port: 80,
+      hostname: this.host,
+      port: this.port,
       path: '/PoEPortConfig.cgi',
       method: 'GET',
       headers: {
@@ -229,8 +236,8 @@ export class NetgearGS308EPController {
     const postData = formData.toString();
 
     const response = await httpRequest({
-      hostname: this.ipAddress,
-      port: 80,
+      hostname: this.host,
+      port: this.port,
       path: '/PoEPortConfig.cgi',
       method: 'POST',
       headers: {
@@ -269,8 +276,8 @@ export class NetgearGS308EPController {
 
     // Get PoE config page
     const response = await httpRequest({
-      hostname: this.ipAddress,
-      port: 80,
+      hostname: this.host,
+      port: this.port,
       path: '/PoEPortConfig.cgi',
       method: 'GET',
       headers: {
@@ -0,0 +1,137 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb, getServerDevice } from "@/lib/firebase/admin";
+import { getSnapshotKeys, isSecretKey } from "@/lib/algo/provisioning";
+import { runAlgoCommand, setAlgoSettings } from "@/lib/commands/device-commands";
+import {
+  deleteSnapshotSecrets,
+  getSnapshotSecrets,
+  setSnapshotSecrets,
+  type ResolvedAlgoDevice,
+} from "@/lib/vault/credentials";
+import type { AlgoAboutResponse, ProvisioningSnapshot } from "@/lib/algo/types";
+
+/**
+ * Provisioning Snapshots
+ * Capture a device's configuration into `provisioningSnapshots`, and put it
+ * back on the same or a replacement unit. Secret settings (SIP passwords)
+ * go to the vault instead of the snapshot document. Reads and writes go
+ * through the Admin SDK.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+interface CaptureOptions {
+  label?: string;
+  createdBy?: string;
+  extraKeys?: string[];
+}
+
+const isNotFound = (error: unknown): boolean =>
+  error instanceof Error && /\b404\b/.test(error.message);
+
+const snapshotsCollection = () => getAdminDb().collection("provisioningSnapshots");
+
+export async function getServerSnapshot(snapshotId: string): Promise<ProvisioningSnapshot | null> {
+  const snapshot = await snapshotsCollection().doc(snapshotId).get();
+  if (!snapshot.exists) return null;
+  const data = snapshot.data()!;
+  return { id: snapshot.id, ...data, createdAt: (data.createdAt as Timestamp).toDate() } as ProvisioningSnapshot;
+}
+
+async function getLatestVersion(deviceId: string): Promise<number> {
+  const latest = await snapshotsCollection().where("deviceId", "==", deviceId).orderBy("version", "desc").limit(1).get();
+  return latest.empty ? 0 : (latest.docs[0].get("version") as number);
+}
+
+/**
+ * Read every catalog key from the device and store it as the next version
+ * The reads run as one queued command, so no write to the same device can
+ * land halfway through the snapshot.
+ */
+export async function captureSnapshot(
+  device: ResolvedAlgoDevice,
+  options: CaptureOptions = {}
+): Promise<ProvisioningSnapshot> {
+  const keys = getSnapshotKeys(options.extraKeys);
+
+  const { values, about } = await runAlgoCommand(device, `snapshot (${keys.length} keys)`, async (client) => {
+    const about: AlgoAboutResponse | null = await client.getAbout().catch(() => null);
+    const values: Record<string, string> = {};
+
+    for (const key of keys) {
+      try {
+        const result = await client.getSetting(key);
+        if (result[key] !== undefined) {
+          values[key] = result[key];
+        }
+      } catch (error) {
+        // Not supported by this model/firmware
+        if (isNotFound(error)) continue;
+        throw error;
+      }
+    }
+    return { values, about };
+  });
+
+  const settings: Record<string, string> = {};
+  const secrets: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (isSecretKey(key)) {
+      secrets[key] = value;
+    } else {
+      settings[key] = value;
+    }
+  }
+
+  const [deviceDoc, latestVersion] = await Promise.all([getServerDevice(device.id), getLatestVersion(device.id)]);
+
+  const snapshot: Omit<ProvisioningSnapshot, "id" | "createdAt"> = {
+    deviceId: device.id,
+    deviceName: device.name,
+    deviceType: device.type,
+    ownerEmail: deviceDoc?.ownerEmail ?? "unknown",
+    version: latestVersion + 1,
+    settings,
+    secretKeys: Object.keys(secrets),
+    ...(options.label ? { label: options.label } : {}),
+    ...(options.createdBy ? { createdBy: options.createdBy } : {}),
+    ...(about?.["Firmware Version"] ? { firmwareVersion: about["Firmware Version"] } : {}),
+    ...(about?.["MAC Address"] ? { macAddress: about["MAC Address"] } : {}),
+  };
+
+  const createdAt = Timestamp.now();
+  const docRef = await snapshotsCollection().add({ ...snapshot, createdAt });
+
+  if (snapshot.secretKeys.length > 0) {
+    await setSnapshotSecrets(docRef.id, secrets);
+  }
+
+  console.log(`[Provisioning] Captured v${snapshot.version} of "${device.name}" (${Object.keys(values).length} settings)`);
+  return { id: docRef.id, ...snapshot, createdAt: createdAt.toDate() };
+}
+
+/**
+ * Write a snapshot's settings (secrets included) to a device, then reload it
+ * Returns the keys that were written.
+ */
+export async function restoreSnapshot(
+  snapshot: ProvisioningSnapshot,
+  target: ResolvedAlgoDevice
+): Promise<string[]> {
+  const secrets = snapshot.secretKeys.length > 0 ? await getSnapshotSecrets(snapshot.id) : {};
+  const settings = { ...snapshot.settings, ...secrets };
+  const keys = Object.keys(settings);
+
+  if (keys.length === 0) {
+    return [];
+  }
+
+  await setAlgoSettings(target, settings, { reload: true });
+
+  console.log(`[Provisioning] Restored v${snapshot.version} of "${snapshot.deviceName}" to "${target.name}" (${keys.length} settings)`);
+  return keys;
+}
+
+export async function deleteSnapshot(snapshotId: string): Promise<void> {
+  await Promise.all([snapshotsCollection().doc(snapshotId).delete(), deleteSnapshotSecrets(snapshotId)]);
+}
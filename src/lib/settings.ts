@@ -1,34 +1,190 @@
+import {
+  DEFAULT_STROBE_PATTERNS,
+  validateStrobePattern,
+  type StrobePatternKey,
+  type StrobePatterns,
+} from "@/lib/algo/strobe";
+import {
+  DEFAULT_RELAY_TRIGGER_SETTINGS,
+  MAX_RELAY_POLL_INTERVAL_MS,
+  MIN_RELAY_POLL_INTERVAL_MS,
+  TRIGGER_MODES,
+  type RelayTriggerSettings,
+} from "@/lib/algo/relay-trigger";
+import { DEFAULT_STATION_TIMEZONE, isValidTimeZone } from "@/lib/algo/station-time";
+import {
+  DEFAULT_SCHEDULE,
+  getSchedulePeriod,
+  validateSchedule,
+  type DayHours,
+  type SchedulePeriod,
+  type StationSchedule,
+} from "@/lib/algo/schedule";
+
 /**
- * Utility functions for getting app settings from localStorage
+ * App Settings
+ * One settings document per owner (`appSettings/{ownerEmail}`), shared by the
+ * server routes and the browser. The schema, defaults and validation live
+ * here. In the browser, `SettingsProvider` loads the signed-in owner's
+ * document into a cache so the getters below stay synchronous. On the server
+ * the getters only return defaults - routes read the owner's document with
+ * `getServerAppSettings` (Admin SDK) instead.
  */
 
+// Bump when a field changes meaning, and teach normalizeSettings to upgrade
+export const SETTINGS_VERSION = 1;
+
+export interface AppSettings {
+  idleVolumeDb: number;             // audio.page.vol when speakers are idle (-60 to 0)
+  alwaysKeepPagingOn: boolean;      // Leave the 8301 in transmitter mode between calls
+  strobePatterns: StrobePatterns;
+  relayTrigger: RelayTriggerSettings;
+  timezone: string;                 // Station timezone (IANA, e.g. America/Los_Angeles)
+  schedule: StationSchedule;        // Day/night hours, exceptions and overrides
+}
+
+export interface StoredAppSettings extends AppSettings {
+  ownerEmail: string;
+  version: number;
+  updatedAt?: Date;
+}
+
+export const MIN_IDLE_VOLUME_DB = -60;
+export const MAX_IDLE_VOLUME_DB = 0;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  idleVolumeDb: -45,
+  alwaysKeepPagingOn: false,
+  strobePatterns: DEFAULT_STROBE_PATTERNS,
+  relayTrigger: DEFAULT_RELAY_TRIGGER_SETTINGS,
+  timezone: DEFAULT_STATION_TIMEZONE,
+  schedule: DEFAULT_SCHEDULE,
+};
+
+function isValidIdleVolume(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= MIN_IDLE_VOLUME_DB && (value as number) <= MAX_IDLE_VOLUME_DB;
+}
+
+function normalizeStrobePatterns(saved: Partial<StrobePatterns> | undefined): StrobePatterns {
+  const patterns = { ...DEFAULT_STROBE_PATTERNS };
+  for (const key of Object.keys(patterns) as StrobePatternKey[]) {
+    // Ignore anything the device would reject
+    const pattern = saved?.[key];
+    if (pattern && validateStrobePattern(pattern) === null) {
+      patterns[key] = pattern;
+    }
+  }
+  return patterns;
+}
+
+function normalizeRelayTrigger(saved: Partial<RelayTriggerSettings> | undefined): RelayTriggerSettings {
+  const interval = saved?.pollIntervalMs;
+  return {
+    mode: saved?.mode && TRIGGER_MODES.includes(saved.mode) ? saved.mode : DEFAULT_RELAY_TRIGGER_SETTINGS.mode,
+    deviceIds: Array.isArray(saved?.deviceIds) ? saved.deviceIds.filter((id) => typeof id === "string") : [],
+    pollIntervalMs: Number.isInteger(interval) && interval! >= MIN_RELAY_POLL_INTERVAL_MS && interval! <= MAX_RELAY_POLL_INTERVAL_MS
+      ? interval!
+      : DEFAULT_RELAY_TRIGGER_SETTINGS.pollIntervalMs,
+  };
+}
+
+function normalizeHours(saved: Partial<DayHours> | undefined, fallback: DayHours): DayHours {
+  const isHour = (value: unknown) => typeof value === "number" && value >= 0 && value <= 24 && (value * 2) % 1 === 0;
+  return {
+    dayStartHour: isHour(saved?.dayStartHour) ? saved!.dayStartHour! : fallback.dayStartHour,
+    dayEndHour: isHour(saved?.dayEndHour) ? saved!.dayEndHour! : fallback.dayEndHour,
+  };
+}
+
+function normalizeSchedule(saved: Partial<StationSchedule> | undefined): StationSchedule {
+  const schedule: StationSchedule = {
+    weekday: normalizeHours(saved?.weekday, DEFAULT_SCHEDULE.weekday),
+    weekend: normalizeHours(saved?.weekend, DEFAULT_SCHEDULE.weekend),
+    weekendDays: Array.isArray(saved?.weekendDays)
+      ? saved.weekendDays.filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+      : DEFAULT_SCHEDULE.weekendDays,
+    exceptions: Array.isArray(saved?.exceptions) ? saved.exceptions : [],
+    override: saved?.override ?? null,
+  };
+  // Drop exceptions and overrides the schedule can't evaluate rather than lose the rest
+  return validateSchedule(schedule).length === 0
+    ? schedule
+    : { ...schedule, exceptions: [], override: null };
+}
+
 /**
- * Get the configured idle volume level for speakers
- * @returns The idle volume in dB (default: -45)
+ * Stored (or legacy) settings → full settings, with anything missing or
+ * invalid replaced by its default
  */
-export function getIdleVolume(): number {
-  if (typeof window === "undefined") {
-    return -45; // Server-side default
-  }
+export function normalizeSettings(raw: unknown): AppSettings {
+  const saved = (raw && typeof raw === "object" ? raw : {}) as Partial<AppSettings>;
+  return {
+    idleVolumeDb: isValidIdleVolume(saved.idleVolumeDb) ? saved.idleVolumeDb : DEFAULT_SETTINGS.idleVolumeDb,
+    alwaysKeepPagingOn: typeof saved.alwaysKeepPagingOn === "boolean" ? saved.alwaysKeepPagingOn : DEFAULT_SETTINGS.alwaysKeepPagingOn,
+    strobePatterns: normalizeStrobePatterns(saved.strobePatterns),
+    relayTrigger: normalizeRelayTrigger(saved.relayTrigger),
+    timezone: typeof saved.timezone === "string" && isValidTimeZone(saved.timezone) ? saved.timezone : DEFAULT_SETTINGS.timezone,
+    schedule: normalizeSchedule(saved.schedule),
+  };
+}
 
-  const saved = localStorage.getItem("algoapp-idle-volume");
-  if (saved) {
-    const parsed = parseInt(saved);
-    // Validate range
-    if (parsed >= -60 && parsed <= 0) {
-      return parsed;
-    }
+/**
+ * Problems that would stop settings from being saved (empty = valid). Relay
+ * input devices are checked against the device list by the Doors page.
+ */
+export function validateSettings(settings: AppSettings): string[] {
+  const errors: string[] = [];
+  if (!isValidIdleVolume(settings.idleVolumeDb)) {
+    errors.push(`Idle volume must be a whole number from ${MIN_IDLE_VOLUME_DB} to ${MAX_IDLE_VOLUME_DB} dB`);
+  }
+  for (const key of Object.keys(DEFAULT_STROBE_PATTERNS) as StrobePatternKey[]) {
+    const error = validateStrobePattern(settings.strobePatterns[key]);
+    if (error) errors.push(`Strobe pattern (${key}): ${error}`);
+  }
+  if (!TRIGGER_MODES.includes(settings.relayTrigger.mode)) {
+    errors.push("Unknown trigger mode");
+  }
+  const interval = settings.relayTrigger.pollIntervalMs;
+  if (!Number.isInteger(interval) || interval < MIN_RELAY_POLL_INTERVAL_MS || interval > MAX_RELAY_POLL_INTERVAL_MS) {
+    errors.push(`Poll interval must be ${MIN_RELAY_POLL_INTERVAL_MS}-${MAX_RELAY_POLL_INTERVAL_MS} ms`);
+  }
+  if (!isValidTimeZone(settings.timezone)) {
+    errors.push(`Unknown timezone: ${settings.timezone}`);
   }
+  errors.push(...validateSchedule(settings.schedule));
+  return errors;
+}
+
+// ============ Browser cache ============
+
+let cachedSettings: AppSettings = DEFAULT_SETTINGS;
+
+/**
+ * Replace the cached settings (called by SettingsProvider on load and save)
+ */
+export function applySettings(settings: AppSettings): void {
+  cachedSettings = settings;
+}
 
-  return -45; // Default
+function currentSettings(): AppSettings {
+  return typeof window === "undefined" ? DEFAULT_SETTINGS : cachedSettings;
+}
+
+/**
+ * Get the configured idle volume level for speakers
+ * @returns The idle volume in dB (default: -45)
+ */
+export function getIdleVolume(): number {
+  return currentSettings().idleVolumeDb;
 }
 
 /**
  * Get the idle volume as a string with "dB" suffix (for Algo API)
+ * @param settings Settings to read (defaults to the signed-in owner's)
  * @returns The idle volume as a string like "-45dB"
  */
-export function getIdleVolumeString(): string {
-  return `${getIdleVolume()}dB`;
+export function getIdleVolumeString(settings: AppSettings = currentSettings()): string {
+  return `${settings.idleVolumeDb}dB`;
 }
 
 /**
@@ -36,10 +192,93 @@ export function getIdleVolumeString(): string {
  * @returns true if paging device should always be in mode 1, false to toggle based on audio
  */
 export function getAlwaysKeepPagingOn(): boolean {
-  if (typeof window === "undefined") {
-    return false; // Server-side default
-  }
+  return currentSettings().alwaysKeepPagingOn;
+}
+
+/**
+ * Get the strobe pattern for each input channel (8128/8138 visual alerters)
+ * @returns Saved patterns merged over the defaults (fire red, medical blue...)
+ */
+export function getStrobePatterns(): StrobePatterns {
+  return currentSettings().strobePatterns;
+}
+
+/**
+ * Get how calls are triggered (audio level, relay input, or both)
+ */
+export function getRelayTriggerSettings(): RelayTriggerSettings {
+  return currentSettings().relayTrigger;
+}
+
+/**
+ * Get the station timezone (IANA name)
+ */
+export function getStationTimezone(): string {
+  return currentSettings().timezone;
+}
+
+/**
+ * Get the station's day/night schedule
+ */
+export function getSchedule(): StationSchedule {
+  return currentSettings().schedule;
+}
+
+/**
+ * Day or night at the station right now, and which rule decided it
+ */
+export function getStationPeriod(at: Date = new Date()): SchedulePeriod {
+  const settings = currentSettings();
+  return getSchedulePeriod(settings.schedule, settings.timezone, at);
+}
+
+/**
+ * Whether it's night at the station - what coordinators pass as `isNight`
+ */
+export function isStationNight(at: Date = new Date()): boolean {
+  return getStationPeriod(at).night;
+}
+
+// ============ Legacy localStorage ============
+
+const LEGACY_KEYS = {
+  IDLE_VOLUME: "algoapp-idle-volume",
+  ALWAYS_KEEP_PAGING_ON: "algoapp-always-keep-paging-on",
+  STROBE_PATTERNS: "algoapp-strobe-patterns",
+  RELAY_TRIGGER: "algoapp-relay-trigger",
+};
 
-  const saved = localStorage.getItem("algoapp-always-keep-paging-on");
-  return saved === "true";
+/**
+ * Settings this browser saved before they moved to Firestore, or null if
+ * there are none. Used once, to seed an owner's first settings document.
+ */
+export function readLegacySettings(): AppSettings | null {
+  if (typeof window === "undefined") return null;
+
+  const values = Object.values(LEGACY_KEYS).map((key) => localStorage.getItem(key));
+  if (values.every((value) => value === null)) return null;
+
+  const [idleVolume, alwaysKeepPagingOn, strobePatterns, relayTrigger] = values;
+  const parse = (value: string | null) => {
+    try {
+      return JSON.parse(value || "{}");
+    } catch {
+      return {};
+    }
+  };
+  return normalizeSettings({
+    idleVolumeDb: idleVolume !== null ? parseInt(idleVolume) : undefined,
+    alwaysKeepPagingOn: alwaysKeepPagingOn === "true",
+    strobePatterns: parse(strobePatterns),
+    relayTrigger: parse(relayTrigger),
+  });
+}
+
+/**
+ * Remove the legacy keys once they've been copied to Firestore
+ */
+export function clearLegacySettings(): void {
+  for (const key of Object.values(LEGACY_KEYS)) {
+    localStorage.removeItem(key);
+  }
 }
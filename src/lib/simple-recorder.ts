@@ -15,6 +15,9 @@
  */
 
 import { RingBuffer } from './ring-buffer';
+import { getProfileVolume } from './algo/volume-profiles';
+import { DEFAULT_STATION_TIMEZONE, formatStationFileTime, formatStationTimestamp, getStationClock, getTimeZoneLabel } from './algo/station-time';
+import type { VolumeProfileChannel, ZoneVolumeProfile } from './algo/types';
 
 // ============================================================================
 // Types
@@ -31,8 +34,8 @@ interface AudioBatch {
 
 interface SessionMetadata {
   sessionId: string;
-  firstDetectedAt: string; // ISO 8601 in PST
-  timezone: string;
+  firstDetectedAt: string; // ISO 8601 in station time, with its UTC offset
+  timezone: string; // Station timezone (IANA)
   firstBatchId: string;
   batches: AudioBatch[];
   playbackStartTime?: number;
@@ -53,6 +56,7 @@ interface SimpleRecorderConfig {
                           // Higher = more forgiving pauses in same session
   audioThreshold?: number; // Audio level threshold (0-100) to trigger voice detection (default: 5)
   sustainDuration?: number; // How long audio must stay above threshold (ms) before triggering (default: 500)
+  triggerMode?: 'audio' | 'relay' | 'relay_and_audio'; // Call trigger (default: 'audio') - relay modes take onRelayChange()
 
   // Hardware settings
   linkedSpeakers: any[]; // Algo speakers to control
@@ -60,15 +64,19 @@ interface SimpleRecorderConfig {
   playbackDelay?: number; // Delay before playback starts (for speaker stabilization)
   hardwareGracePeriod?: number; // How long to keep speakers active after session ends before deactivating (default: 5000ms)
 
+  // Speaker Volume Profiles (per zone, day/night)
+  volumeProfiles?: ZoneVolumeProfile[]; // Speakers with no matching profile page at 100% of their operating volume
+  inputChannel?: VolumeProfileChannel; // Call type this recorder pages (default: anyCall)
+  isNight?: () => boolean; // Station day/night schedule (default: always day)
+  timeZone?: string; // Station timezone for session times and filenames (default: America/Los_Angeles)
+
   // Playback Volume Ramping (Web Audio API - non-blocking)
   playbackVolume?: number; // Static playback volume (0.0 - 2.0) when NOT ramping
   playbackRampEnabled?: boolean; // Enable volume ramping per session
   playbackRampStartVolume?: number; // Starting volume (0.0 - 2.0)
   playbackRampTargetVolume?: number; // Target volume (0.0 - 2.0)
   playbackRampDuration?: number; // Ramp duration in ms
-  playbackRampScheduleEnabled?: boolean; // Enable time-based ramping schedule
-  playbackRampStartHour?: number; // Start hour for ramping (0-23.5, supports half hours)
-  playbackRampEndHour?: number; // End hour for ramping (0-23.5, supports half hours)
+  playbackRampScheduleEnabled?: boolean; // Only ramp at night (station schedule)
 
   // Emulation Mode (for testing without physical devices)
   emulationMode?: boolean; // Skip actual network calls
@@ -86,7 +94,7 @@ interface SimpleRecorderConfig {
 
   // Hardware Control Callbacks
   setSpeakerZoneIP?: (speakers: any[], zoneIP: string) => Promise<void>; // Set mcast.zone1 IP:port
-  setSpeakerVolume?: (speakerId: string, volumePercent: number) => Promise<void>;
+  setSpeakerVolume?: (speakerId: string, volumePercent: number) => Promise<void>; // % of the speaker's operating volume
 }
 
 // Internal config type with required properties
@@ -156,6 +164,7 @@ export class SimpleRecorder {
   private currentChunks: Blob[] = [];
   private batchStartTime: number = 0;
   private lastAudioTime: number = 0;
+  private relayActive: boolean = false; // Relay input contact closed (holds the session open)
 
   // WebM Initialization Segment (200ms silent pre-roll for ALL batches)
   private initSegment: Blob | null = null;
@@ -169,6 +178,7 @@ export class SimpleRecorder {
   private hardwareState: HardwareState = HardwareState.IDLE;
   private hardwareTransitionAbort: (() => void) | null = null; // To cancel deactivation if needed
   private sessionDrainTarget: number = 0; // Samples remaining to play before session is fully drained (silence keeps buffer filled, so we track session end explicitly)
+  private appliedSpeakerVolumes: Map<string, number> = new Map(); // Last volume sent to each speaker
 
   // Save Queue (max 100 sessions)
   private saveQueue: SaveQueueItem[] = [];
@@ -362,6 +372,7 @@ export class SimpleRecorder {
     this.log('🛑 TOTAL SHUTDOWN - NO WAITING');
     this.log('🛑 ═══════════════════════════════════════');
     this.isMonitoring = false;
+    this.relayActive = false; // Next relay poll re-reports a closed contact
 
     // Stop all intervals immediately
     if (this.statusLogInterval) {
@@ -477,13 +488,35 @@ export class SimpleRecorder {
 
   // Called by audio monitoring when audio level changes
   onAudioDetected(level: number): void {
+    // Relay-only: the contact alone starts and ends sessions
+    if (this.config.triggerMode === 'relay') return;
+    this.handleCallActivity(`audio detected at level ${level}`);
+  }
+
+  // Called with the polled relay input state (dry contact from dispatch).
+  // A closed contact starts batching and activates hardware before any voice
+  // arrives, and holds the session open until it opens. Repeats are ignored.
+  onRelayChange(active: boolean): void {
+    if ((this.config.triggerMode ?? 'audio') === 'audio' || active === this.relayActive) return;
+    this.relayActive = active;
+
+    if (active) {
+      this.log('🔌 Relay input ACTIVE - arming hardware');
+      this.handleCallActivity('relay input active');
+    } else {
+      this.log(`🔌 Relay input idle - ${this.config.silenceTimeout}ms silence countdown starts now`);
+      this.lastAudioTime = Date.now();
+    }
+  }
+
+  private handleCallActivity(reason: string): void {
     this.lastAudioTime = Date.now();
 
     // If not batching, start batching (for storage) + trigger hardware activation.
     // PCM playback ScriptProcessor is already running (started in start()) — it
     // outputs silence until hardware reaches STABLE and ring buffer fills.
     if (!this.isBatching && this.isMonitoring) {
-      this.log(`🎯 Starting batching (audio detected at level ${level})`);
+      this.log(`🎯 Starting batching (${reason})`);
       this.startBatching();
 
       // Activate hardware asynchronously
@@ -509,37 +542,45 @@ export class SimpleRecorder {
     }
   }
 
-  // Check if current time is within the ramp time window (PST timezone)
+  // Check if ramping applies now - always, or only at night when the
+  // schedule is enabled (the station schedule decides what night is)
   private isWithinRampWindow(): boolean {
-    // If schedule not enabled, always allow ramping (if playbackRampEnabled is true)
     if (!this.config.playbackRampScheduleEnabled) {
       return true;
     }
+    return this.isNight();
+  }
 
-    // Get current PST time
-    const now = new Date();
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: 'America/Los_Angeles',
-      hour: 'numeric',
-      minute: 'numeric',
-      hour12: false,
-    });
-    const parts = formatter.formatToParts(now);
-    const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '0');
-    const minute = parseInt(parts.find(p => p.type === 'minute')?.value || '0');
-    const currentTime = hour + (minute / 60); // Convert to decimal hours (e.g., 18.5 = 6:30 PM)
-
-    const startHour = this.config.playbackRampStartHour ?? 18; // Default 6:00 PM
-    const endHour = this.config.playbackRampEndHour ?? 6; // Default 6:00 AM
-
-    // Check if we're within the window (handles overnight ranges like 18:00 - 6:00)
-    if (startHour < endHour) {
-      // Same day range (e.g., 8:00 AM - 5:00 PM)
-      return currentTime >= startHour && currentTime < endHour;
-    } else {
-      // Overnight range (e.g., 6:00 PM - 6:00 AM)
-      return currentTime >= startHour || currentTime < endHour;
-    }
+  private isNight(): boolean {
+    return this.config.isNight?.() ?? false;
+  }
+
+  // A speaker's volume (% of operating volume): its zone's profile for this
+  // call type, day or night, or 100% if none matches
+  private getSpeakerTargetVolume(speaker: { zone?: string | null }): number {
+    const profileVolume = getProfileVolume(
+      this.config.volumeProfiles ?? [],
+      speaker.zone,
+      this.config.inputChannel ?? 'anyCall',
+      this.isNight()
+    );
+    return profileVolume ?? 100;
+  }
+
+  // Send each speaker its target volume, skipping speakers already there
+  private async applySpeakerVolumes(): Promise<void> {
+    if (!this.config.setSpeakerVolume) return;
+
+    const changes = (this.config.linkedSpeakers || [])
+      .map(speaker => ({ speaker, volume: this.getSpeakerTargetVolume(speaker) }))
+      .filter(({ speaker, volume }) => this.appliedSpeakerVolumes.get(speaker.id) !== volume);
+
+    await Promise.all(
+      changes.map(async ({ speaker, volume }) => {
+        await this.config.setSpeakerVolume!(speaker.id, volume);
+        this.appliedSpeakerVolumes.set(speaker.id, volume);
+      })
+    );
   }
 
   // Initialize hardware to idle state with configured volume
@@ -570,29 +611,14 @@ export class SimpleRecorder {
       this.log(`✓ All speakers' zone IP set to 224.0.2.60:50022`);
       this.log('');
 
-      // Set volume for each speaker using its maxVolume from /live-v2 page (in parallel)
+      // Set each speaker to its zone's profile volume (or 100%) of its operating
+      // volume - its maxVolume from /live-v2 page, zone cap and calibration are
+      // applied by setSpeakerVolume (in parallel)
       this.log(`Setting individual volumes for ${linkedSpeakers.length} speakers (in parallel)...`);
-      if (this.config.setSpeakerVolume) {
-        await Promise.all(
-          linkedSpeakers.map(speaker => {
-            const maxVolume = speaker.maxVolume ?? 100; // Use speaker's maxVolume from /live-v2
-            return this.config.setSpeakerVolume!(speaker.id, maxVolume);
-          })
-        );
-      }
+      await this.applySpeakerVolumes();
       this.log(`✓ All speakers' volumes set to their configured levels`);
       this.log('');
 
-      // Show each speaker's maxVolume and corresponding level
-      linkedSpeakers.forEach(speaker => {
-        const maxVolume = speaker.maxVolume ?? 100;
-        const level = Math.round((maxVolume / 100) * 10);
-        const dB = (level - 10) * 3;
-        const dbString = dB === 0 ? "0dB" : `${dB}dB`;
-        this.log(`   ${speaker.name}: ${maxVolume}% (Level ${level} = ${dbString})`);
-      });
-      this.log('');
-
       this.log('✅ All speakers initialized successfully');
       this.log(`   • ${linkedSpeakers.length} speaker${linkedSpeakers.length !== 1 ? 's' : ''} zone set to IDLE`);
       this.log(`   • Volumes: Individual per speaker`);
@@ -789,7 +815,8 @@ export class SimpleRecorder {
 
     // Start silence detection
     this.silenceCheckInterval = window.setInterval(() => {
-      if (!this.isBatching) return;
+      // A closed relay contact counts as continuous audio
+      if (!this.isBatching || this.relayActive) return;
 
       const silenceElapsed = Date.now() - this.lastAudioTime;
 
@@ -820,23 +847,14 @@ export class SimpleRecorder {
     // 🔥 Create NEW sessionID (RECORDING IS THE AUTHORITY)
     this.currentSessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    // Create session metadata (timestamp = NOW in PST)
+    // Create session metadata (timestamp = NOW in station time)
     const now = new Date();
-    const pstTime = new Intl.DateTimeFormat('en-US', {
-      timeZone: 'America/Los_Angeles',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false,
-    }).format(now);
+    const timeZone = this.getTimeZone();
 
     this.currentSessionMeta = {
       sessionId: this.currentSessionId,
-      firstDetectedAt: now.toISOString(),
-      timezone: 'America/Los_Angeles',
+      firstDetectedAt: formatStationTimestamp(now, timeZone),
+      timezone: timeZone,
       firstBatchId: '',
       batches: [],
     };
@@ -845,7 +863,7 @@ export class SimpleRecorder {
 
     this.log(`📋 NEW SESSION CREATED (Recording Authority)`);
     this.log(`   ├─ SessionID: ${this.currentSessionId}`);
-    this.log(`   ├─ Time: ${pstTime} PST`);
+    this.log(`   ├─ Time: ${this.currentSessionMeta.firstDetectedAt} (${getTimeZoneLabel(now, timeZone)})`);
     this.log(`   └─ Timezone: ${this.currentSessionMeta.timezone}`);
 
     // Start MediaRecorder with high-quality audio
@@ -1379,6 +1397,9 @@ export class SimpleRecorder {
         }
         this.log(`✓ All speakers' zone IP set to 224.0.2.60:50002`);
         this.log('');
+
+        // Only speakers whose profile volume changed since the last call (day → night)
+        await this.applySpeakerVolumes();
       } else {
         this.log('⚠️  No linked speakers to activate');
         this.log('');
@@ -1698,7 +1719,7 @@ export class SimpleRecorder {
 
     // Generate filename using first detection time
     const timestamp = new Date(session.firstDetectedAt);
-    const filename = this.generateFilename(timestamp);
+    const filename = this.generateFilename(timestamp, session.timezone);
 
     this.log(`📤 Uploading: ${filename}`);
 
@@ -1731,30 +1752,15 @@ export class SimpleRecorder {
     return '';
   }
 
-  private generateFilename(timestamp: Date): string {
-    // Convert to PST timezone using Intl.DateTimeFormat
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: 'America/Los_Angeles',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true,
-    });
-
-    const parts = formatter.formatToParts(timestamp);
-    const year = parts.find(p => p.type === 'year')?.value || '';
-    const month = parts.find(p => p.type === 'month')?.value || '';
-    const day = parts.find(p => p.type === 'day')?.value || '';
-    const hour = parts.find(p => p.type === 'hour')?.value || '';
-    const minute = parts.find(p => p.type === 'minute')?.value || '';
-    const second = parts.find(p => p.type === 'second')?.value || '';
-    const dayPeriod = parts.find(p => p.type === 'dayPeriod')?.value || '';
+  private generateFilename(timestamp: Date, timeZone: string): string {
+    const date = getStationClock(timestamp, timeZone).date;
 
     // Format: recording-YYYY-MM-DD_HH-MM-SS-AM/PM.webm
-    return `recording-${year}-${month}-${day}_${hour}-${minute}-${second}-${dayPeriod}.webm`;
+    return `recording-${date}_${formatStationFileTime(timestamp, timeZone)}.webm`;
+  }
+
+  private getTimeZone(): string {
+    return this.config.timeZone ?? DEFAULT_STATION_TIMEZONE;
   }
 
   private log(message: string, type: 'info' | 'error' | 'warning' = 'info'): void {
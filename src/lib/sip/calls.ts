@@ -0,0 +1,124 @@
+import { runAlgoCommand } from "@/lib/commands/device-commands";
+import { addSipCallLogEntry } from "@/lib/firebase/admin";
+import { isSipCallActive, parseSipRegistration, toSipCallRequest } from "@/lib/algo/sip";
+import { resolveAlgoDevice, type ResolvedAlgoDevice } from "@/lib/vault/credentials";
+import type { SipCallAction, SipCallLogEntry, SipStatusReading } from "@/lib/algo/types";
+
+/**
+ * SIP Call Commands
+ * Starts and stops calls from a paging adapter through the command dispatcher
+ * and writes every one of them to `sipCallLog`. Also reads SIP registration
+ * and call status for the SIP Calls page.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface SipCallCommand {
+  scheduleId: string | null;
+  name: string;
+  deviceId: string;
+  action: SipCallAction;
+  extension?: string;          // start only
+  tone?: string;
+  intervalSeconds?: number;
+  maxDurationSeconds?: number;
+  trigger: SipCallLogEntry["trigger"];
+  triggeredBy?: string;
+}
+
+export interface SipCallResult {
+  scheduleId: string | null;
+  name: string;
+  deviceId: string;
+  deviceName: string;
+  action: SipCallAction;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Start or stop one call and log it - never throws, a failed call is reported
+ * in the result (and the call log) instead
+ */
+export async function runSipCall(command: SipCallCommand, ownerEmail: string): Promise<SipCallResult> {
+  let deviceName = command.deviceId;
+  let error: string | undefined;
+
+  try {
+    const device = await resolveAlgoDevice(command.deviceId);
+    if (!device) {
+      throw new Error("Calling device not found");
+    }
+    deviceName = device.name;
+
+    // Newest wins - a hang-up queued behind a call that hasn't started yet
+    // replaces it
+    await runAlgoCommand(
+      device,
+      command.action === "start" ? `call ${command.extension}` : "hang up",
+      (client) => (command.action === "start"
+        ? client.startCall(toSipCallRequest({ ...command, extension: command.extension ?? "" }))
+        : client.stopCall()),
+      { coalesceKey: "call" }
+    );
+    console.log(`[SIP] ${command.name}: ${command.action} ${command.extension ?? ""} on ${deviceName} (${command.trigger})`);
+  } catch (callError) {
+    error = callError instanceof Error ? callError.message : String(callError);
+    console.error(`[SIP] ${command.name}: ${command.action} failed on ${deviceName}:`, error);
+  }
+
+  try {
+    await addSipCallLogEntry({
+      ownerEmail,
+      scheduleId: command.scheduleId,
+      name: command.name,
+      deviceId: command.deviceId,
+      deviceName,
+      action: command.action,
+      extension: command.action === "start" ? command.extension : undefined,
+      trigger: command.trigger,
+      triggeredBy: command.triggeredBy,
+      success: !error,
+      error,
+    });
+  } catch (logError) {
+    console.error("[SIP] Failed to write call log entry:", logError);
+  }
+
+  return {
+    scheduleId: command.scheduleId,
+    name: command.name,
+    deviceId: command.deviceId,
+    deviceName,
+    action: command.action,
+    success: !error,
+    error,
+  };
+}
+
+/**
+ * Read a device's SIP registration and call status (single attempt)
+ */
+export async function readSipStatus(device: ResolvedAlgoDevice): Promise<SipStatusReading> {
+  try {
+    const status = await runAlgoCommand(device, "read SIP status", (client) => client.getStatus(), {
+      retry: { attempts: 1 },
+    });
+    return {
+      deviceId: device.id,
+      deviceName: device.name,
+      registration: parseSipRegistration(status?.["SIP Registration"]),
+      registrationRaw: status?.["SIP Registration"],
+      callStatus: status?.["Call Status"],
+      callActive: isSipCallActive(status?.["Call Status"]),
+    };
+  } catch (error) {
+    return {
+      deviceId: device.id,
+      deviceName: device.name,
+      registration: "unknown",
+      callActive: false,
+      error: error instanceof Error ? error.message : "Failed to read SIP status",
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { getServerAppSettings, getSipCallPlans } from "@/lib/firebase/admin";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { getDueSipCalls } from "@/lib/algo/sip";
+import { runSipCall, type SipCallResult } from "./calls";
+
+/**
+ * SIP Call Scheduler
+ * Checks every station's `sipCallPlans` on an interval and places the calls
+ * whose station-time minute has come round. Calls due while the server was
+ * down for more than a few minutes are skipped, not replayed. Started once
+ * per server process from `src/instrumentation.ts`.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export interface SipSchedulerTick {
+  at: number;
+  placed: SipCallResult[];
+}
+
+export class SipCallScheduler {
+  private intervalMs = 15_000;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastCheck = new Date();
+  private ticking: Promise<SipSchedulerTick> | null = null;
+  private lastTick: SipSchedulerTick | null = null;
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  start(intervalMs = this.intervalMs): void {
+    this.intervalMs = intervalMs;
+    this.stop();
+    this.lastCheck = new Date();
+    console.log(`[SipScheduler] Checking every ${Math.round(intervalMs / 1000)}s`);
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error("[SipScheduler] Tick failed:", error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return { running: this.isRunning, intervalMs: this.intervalMs, lastTick: this.lastTick };
+  }
+
+  /**
+   * Place every call that came due since the last check; a tick still in
+   * progress is joined, not doubled
+   */
+  tick(): Promise<SipSchedulerTick> {
+    if (!this.ticking) {
+      this.ticking = this.runTick().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  private async runTick(): Promise<SipSchedulerTick> {
+    const now = new Date();
+    const since = this.lastCheck;
+
+    const plans = await getSipCallPlans();
+    // Call times are in each station's own timezone
+    const timezones = await Promise.all(
+      plans.map(async (plan) => (await getServerAppSettings(plan.ownerEmail))?.timezone ?? DEFAULT_SETTINGS.timezone)
+    );
+    // Only once the plans are in - a failed read leaves the window open for the next tick
+    this.lastCheck = now;
+    const placed = await Promise.all(
+      plans.flatMap((plan, index) =>
+        getDueSipCalls(plan.calls, since, now, timezones[index]).map((call) =>
+          runSipCall(
+            {
+              scheduleId: call.id,
+              name: call.name,
+              deviceId: call.deviceId,
+              action: "start",
+              extension: call.extension,
+              tone: call.tone,
+              intervalSeconds: call.intervalSeconds,
+              maxDurationSeconds: call.maxDurationSeconds,
+              trigger: "scheduled",
+            },
+            plan.ownerEmail
+          )
+        )
+      )
+    );
+
+    this.lastTick = { at: now.getTime(), placed };
+    return this.lastTick;
+  }
+}
+
+// One scheduler per server process - kept on globalThis so dev hot reloads
+// don't start a second timer (and place every call twice)
+const globalForScheduler = globalThis as unknown as { sipCallScheduler?: SipCallScheduler };
+
+export const sipCallScheduler =
+  globalForScheduler.sipCallScheduler ?? (globalForScheduler.sipCallScheduler = new SipCallScheduler());
+
+/**
+ * Start checking unless SIP_SCHEDULER_ENABLED=false
+ */
+export function startSipCallScheduler(): void {
+  if (process.env.SIP_SCHEDULER_ENABLED === "false") {
+    console.log("[SipScheduler] Disabled (SIP_SCHEDULER_ENABLED=false)");
+    return;
+  }
+  if (!sipCallScheduler.isRunning) {
+    sipCallScheduler.start();
+  }
+}
@@ -0,0 +1,135 @@
+import { spawn } from "child_process";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { speechFilename } from "@/lib/algo/speech";
+import { decodeWav, toSpeakerWav } from "@/lib/algo/wav";
+
+/**
+ * Speech Engine
+ * Renders text to a WAV with an offline text-to-speech engine installed on
+ * this machine, then converts it to the speakers' format. Nothing leaves the
+ * station network. Configure with:
+ *   TTS_ENGINE       "piper" or "espeak" (default: piper when TTS_VOICE is an .onnx model, else espeak)
+ *   TTS_ENGINE_PATH  Engine binary (default: "piper" / "espeak-ng" on the PATH)
+ *   TTS_VOICE        Piper voice model path, or eSpeak voice name (default: "en-us")
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export type SpeechEngineName = "piper" | "espeak";
+
+export interface RenderedSpeech {
+  audio: Buffer;     // 16-bit PCM, mono, 16 kHz, at the library loudness
+  filename: string;  // Tones-folder name (speechFilename)
+  duration: number;  // Seconds
+}
+
+// Longest a single rendering may take before the engine is stopped
+const RENDER_TIMEOUT_MS = 30_000;
+
+// Recent renderings, so a preview followed by a play renders once
+const MAX_CACHED_RENDERINGS = 20;
+
+interface EngineConfig {
+  engine: SpeechEngineName;
+  binary: string;
+  voice: string;
+}
+
+function getEngineConfig(): EngineConfig {
+  const voice = process.env.TTS_VOICE?.trim() ?? "";
+  const engine: SpeechEngineName =
+    process.env.TTS_ENGINE === "piper" || process.env.TTS_ENGINE === "espeak"
+      ? process.env.TTS_ENGINE
+      : voice.endsWith(".onnx") ? "piper" : "espeak";
+
+  return {
+    engine,
+    binary: process.env.TTS_ENGINE_PATH?.trim() || (engine === "piper" ? "piper" : "espeak-ng"),
+    voice: voice || (engine === "piper" ? "" : "en-us"),
+  };
+}
+
+// Both engines read the text from stdin, so it's never parsed as an option
+function engineArgs({ engine, voice }: EngineConfig, outputFile: string): string[] {
+  if (engine === "piper") {
+    if (!voice) throw new Error("Set TTS_VOICE to a Piper voice model (.onnx)");
+    return ["--model", voice, "--output_file", outputFile];
+  }
+  return ["-v", voice, "-w", outputFile, "--stdin"];
+}
+
+function runEngine(config: EngineConfig, text: string, outputFile: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(config.binary, engineArgs(config, outputFile), {
+      stdio: ["pipe", "ignore", "pipe"],
+      timeout: RENDER_TIMEOUT_MS,
+    });
+
+    let stderr = "";
+    child.stderr.on("data", (chunk) => {
+      stderr = (stderr + chunk).slice(-500);
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === "ENOENT"
+          ? new Error(`Text-to-speech engine "${config.binary}" isn't installed - set TTS_ENGINE_PATH`)
+          : error
+      );
+    });
+    child.on("close", (code, signal) => {
+      if (code === 0) {
+        resolve();
+      } else if (signal) {
+        reject(new Error(`Text-to-speech engine stopped (${signal}) - rendering took too long`));
+      } else {
+        reject(new Error(`Text-to-speech engine failed (exit ${code})${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+      }
+    });
+
+    child.stdin.end(text);
+  });
+}
+
+async function render(config: EngineConfig, text: string, filename: string): Promise<RenderedSpeech> {
+  const dir = await mkdtemp(path.join(tmpdir(), "algo-tts-"));
+  try {
+    const outputFile = path.join(dir, "speech.wav");
+    await runEngine(config, text, outputFile);
+
+    const wav = decodeWav(await readFile(outputFile));
+    if (wav.duration === 0) {
+      throw new Error("Text-to-speech engine produced no audio");
+    }
+    const { data, duration } = toSpeakerWav(wav);
+    return { audio: Buffer.from(data), filename, duration };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+const globalForSpeech = globalThis as unknown as { speechRenderings?: Map<string, Promise<RenderedSpeech>> };
+const renderings = globalForSpeech.speechRenderings ?? (globalForSpeech.speechRenderings = new Map());
+
+/**
+ * Render text (already validated with validateSpeechText) in the speakers'
+ * format. Concurrent requests for the same text share one rendering.
+ */
+export function renderSpeech(text: string): Promise<RenderedSpeech> {
+  const config = getEngineConfig();
+  const trimmed = text.trim();
+  const filename = speechFilename(trimmed, `${config.engine}:${config.voice}`);
+
+  let rendering = renderings.get(filename);
+  if (!rendering) {
+    rendering = render(config, trimmed, filename);
+    // A failed rendering isn't cached - the next request tries again
+    rendering.catch(() => renderings.delete(filename));
+    renderings.set(filename, rendering);
+    if (renderings.size > MAX_CACHED_RENDERINGS) {
+      renderings.delete(renderings.keys().next().value!);
+    }
+  }
+  return rendering;
+}
@@ -68,21 +68,3 @@ export function generateId(): string {
 export function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
-
-/**
- * Parse Algo volume string to number
- * e.g., "Page Volume: 10 (0dB)" -> 10
- */
-export function parseAlgoVolume(volumeStr: string): number {
-  const match = volumeStr.match(/Volume:\s*(\d+)/);
-  return match ? parseInt(match[1], 10) : 50;
-}
-
-/**
- * Convert volume number to dB string for Algo API
- */
-export function volumeToDb(volume: number): string {
-  // Algo uses -42dB to 0dB range typically
-  const db = Math.round((volume / 100) * 42 - 42);
-  return `${db}dB`;
-}
@@ -0,0 +1,59 @@
+import crypto from "crypto";
+
+/**
+ * AES-256-GCM encryption for device credentials
+ * Server-only: the key comes from DEVICE_VAULT_KEY and never reaches the browser
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+export interface EncryptedSecret {
+  ciphertext: string; // base64
+  iv: string; // base64
+  tag: string; // base64 GCM auth tag
+}
+
+function getVaultKey(): Buffer {
+  const raw = process.env.DEVICE_VAULT_KEY;
+  if (!raw) {
+    throw new Error("DEVICE_VAULT_KEY is not set - device credentials cannot be read or stored");
+  }
+
+  const key = Buffer.from(raw, "base64");
+  if (key.length !== 32) {
+    throw new Error("DEVICE_VAULT_KEY must be 32 bytes, base64-encoded");
+  }
+  return key;
+}
+
+/**
+ * Encrypt a secret, bound to the device it belongs to
+ * (the device ID is authenticated data, so a ciphertext copied onto
+ * another device's record fails to decrypt)
+ */
+export function encryptSecret(plaintext: string, deviceId: string): EncryptedSecret {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getVaultKey(), iv);
+  cipher.setAAD(Buffer.from(deviceId, "utf8"));
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return {
+    ciphertext: ciphertext.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+  };
+}
+
+export function decryptSecret(secret: EncryptedSecret, deviceId: string): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, getVaultKey(), Buffer.from(secret.iv, "base64"));
+  decipher.setAAD(Buffer.from(deviceId, "utf8"));
+  decipher.setAuthTag(Buffer.from(secret.tag, "base64"));
+
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(secret.ciphertext, "base64")),
+    decipher.final(),
+  ]);
+  return plaintext.toString("utf8");
+}
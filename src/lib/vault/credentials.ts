@@ -0,0 +1,260 @@
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import {
+  getAdminDb,
+  getServerDevice,
+  getServerDevices,
+  getServerPoESwitch,
+  getServerPoESwitches,
+} from "@/lib/firebase/admin";
+import type { AlgoAuthMethod, AlgoDeviceType, PoESwitchType } from "@/lib/algo/types";
+import { encryptSecret, decryptSecret, type EncryptedSecret } from "./cipher";
+
+/**
+ * Device Credential Vault
+ * Passwords for Algo devices and PoE switches live encrypted in the
+ * `deviceCredentials` collection, keyed by the device/switch ID, and secret
+ * settings from provisioning snapshots in `provisioningSecrets`. API routes
+ * resolve them here - the browser only ever handles IDs. Everything here
+ * reads and writes through the Admin SDK; the rules keep browsers out.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+export type CredentialKind = "algo" | "poe_switch";
+
+interface StoredCredential extends EncryptedSecret {
+  kind: CredentialKind;
+  ownerEmail: string; // Kept so ownership can be checked after the device is deleted
+  updatedAt: Timestamp;
+}
+
+/**
+ * An Algo device with its password resolved - everything AlgoClient needs
+ */
+export interface ResolvedAlgoDevice {
+  id: string;
+  name: string;
+  type: AlgoDeviceType;
+  ipAddress: string;
+  authMethod: AlgoAuthMethod;
+  password: string;
+  ownerEmail: string;
+  // Page volume inputs (see src/lib/algo/volume.ts)
+  zone: string | null;
+  maxVolume?: number;
+  volumeOffsetDb?: number;
+}
+
+export interface ResolvedPoESwitch {
+  id: string;
+  name: string;
+  type: PoESwitchType;
+  ipAddress: string;
+  password: string;
+  ownerEmail: string;
+}
+
+const COLLECTIONS: Record<CredentialKind, string> = {
+  algo: "devices",
+  poe_switch: "poeSwitches",
+};
+
+// Where the plaintext used to live on the device/switch document
+const LEGACY_FIELDS: Record<CredentialKind, string> = {
+  algo: "apiPassword",
+  poe_switch: "password",
+};
+
+// ============ Credentials ============
+
+export async function setDeviceCredential(deviceId: string, kind: CredentialKind, password: string): Promise<void> {
+  const db = getAdminDb();
+  const deviceRef = db.collection(COLLECTIONS[kind]).doc(deviceId);
+  const device = await deviceRef.get();
+  if (!device.exists) {
+    throw new Error(`No ${kind === "algo" ? "device" : "switch"} with ID ${deviceId}`);
+  }
+
+  const stored: StoredCredential = {
+    kind,
+    ownerEmail: device.get("ownerEmail") ?? "",
+    ...encryptSecret(password, deviceId),
+    updatedAt: Timestamp.now(),
+  };
+  await db.collection("deviceCredentials").doc(deviceId).set(stored);
+
+  // Flag the device and drop any plaintext copy left from before the vault
+  await deviceRef.update({
+    hasCredentials: true,
+    [LEGACY_FIELDS[kind]]: FieldValue.delete(),
+    updatedAt: Timestamp.now(),
+  });
+}
+
+export async function getDeviceCredential(deviceId: string): Promise<string | null> {
+  const snapshot = await getAdminDb().collection("deviceCredentials").doc(deviceId).get();
+  if (!snapshot.exists) return null;
+  return decryptSecret(snapshot.data() as StoredCredential, deviceId);
+}
+
+/**
+ * Owner of the device or switch a credential is for - read from its document
+ * (of `kind`, or either kind), else from the credential itself once the
+ * document is gone. Null if none of them exist.
+ */
+export async function getCredentialOwner(deviceId: string, kind?: CredentialKind): Promise<string | null> {
+  const db = getAdminDb();
+  const kinds = kind ? [kind] : (Object.keys(COLLECTIONS) as CredentialKind[]);
+  for (const k of kinds) {
+    const device = await db.collection(COLLECTIONS[k]).doc(deviceId).get();
+    if (device.exists) return device.get("ownerEmail") ?? null;
+  }
+  if (kind) return null;
+
+  const stored = await db.collection("deviceCredentials").doc(deviceId).get();
+  return stored.exists ? stored.get("ownerEmail") ?? null : null;
+}
+
+export async function deleteDeviceCredential(deviceId: string): Promise<void> {
+  await getAdminDb().collection("deviceCredentials").doc(deviceId).delete();
+}
+
+/**
+ * Password for a device, migrating a legacy plaintext field on first use
+ */
+async function resolvePassword(
+  deviceId: string,
+  kind: CredentialKind,
+  legacyPassword: unknown
+): Promise<string | null> {
+  const password = await getDeviceCredential(deviceId);
+  if (password !== null) return password;
+
+  if (typeof legacyPassword === "string") {
+    console.log(`[Vault] Migrating legacy ${kind} password for ${deviceId}`);
+    await setDeviceCredential(deviceId, kind, legacyPassword);
+    return legacyPassword;
+  }
+  return null;
+}
+
+// ============ Resolvers ============
+
+/**
+ * Look up an Algo device and decrypt its password
+ * Returns null if the device doesn't exist; throws if it has no stored password
+ * (devices with authMethod "none" resolve with an empty password)
+ */
+export async function resolveAlgoDevice(deviceId: string): Promise<ResolvedAlgoDevice | null> {
+  const device = await getServerDevice(deviceId);
+  if (!device) return null;
+
+  const legacy = (device as unknown as Record<string, unknown>)[LEGACY_FIELDS.algo];
+  const password = await resolvePassword(deviceId, "algo", legacy);
+  if (password === null && device.authMethod !== "none") {
+    throw new Error(`No credentials stored for device "${device.name}"`);
+  }
+
+  return {
+    id: device.id,
+    name: device.name,
+    type: device.type,
+    ipAddress: device.ipAddress,
+    authMethod: device.authMethod,
+    password: password ?? "",
+    ownerEmail: device.ownerEmail,
+    zone: device.zone ?? null,
+    maxVolume: device.maxVolume,
+    volumeOffsetDb: device.volumeOffsetDb,
+  };
+}
+
+/**
+ * Resolve several devices at once, reporting IDs that don't exist
+ */
+export async function resolveAlgoDevices(
+  deviceIds: string[]
+): Promise<{ devices: ResolvedAlgoDevice[]; missing: string[] }> {
+  const resolved = await Promise.all(deviceIds.map((id) => resolveAlgoDevice(id)));
+  return {
+    devices: resolved.filter((device): device is ResolvedAlgoDevice => device !== null),
+    missing: deviceIds.filter((_, i) => resolved[i] === null),
+  };
+}
+
+/**
+ * Look up a PoE switch and decrypt its password
+ * Returns null if the switch doesn't exist; throws if it has no stored password
+ */
+export async function resolvePoESwitch(switchId: string): Promise<ResolvedPoESwitch | null> {
+  const poeSwitch = await getServerPoESwitch(switchId);
+  if (!poeSwitch) return null;
+
+  const legacy = (poeSwitch as unknown as Record<string, unknown>)[LEGACY_FIELDS.poe_switch];
+  const password = await resolvePassword(switchId, "poe_switch", legacy);
+  if (password === null) {
+    throw new Error(`No credentials stored for switch "${poeSwitch.name}"`);
+  }
+
+  return {
+    id: poeSwitch.id,
+    name: poeSwitch.name,
+    type: poeSwitch.type,
+    ipAddress: poeSwitch.ipAddress,
+    password,
+    ownerEmail: poeSwitch.ownerEmail,
+  };
+}
+
+// ============ Snapshot Secrets ============
+
+/**
+ * Secret settings from a provisioning snapshot (SIP passwords and the like),
+ * encrypted together into `provisioningSecrets/{snapshotId}`
+ */
+export async function setSnapshotSecrets(snapshotId: string, secrets: Record<string, string>): Promise<void> {
+  await getAdminDb()
+    .collection("provisioningSecrets")
+    .doc(snapshotId)
+    .set({ ...encryptSecret(JSON.stringify(secrets), snapshotId), updatedAt: Timestamp.now() });
+}
+
+export async function getSnapshotSecrets(snapshotId: string): Promise<Record<string, string>> {
+  const snapshot = await getAdminDb().collection("provisioningSecrets").doc(snapshotId).get();
+  if (!snapshot.exists) return {};
+  return JSON.parse(decryptSecret(snapshot.data() as EncryptedSecret, snapshotId));
+}
+
+export async function deleteSnapshotSecrets(snapshotId: string): Promise<void> {
+  await getAdminDb().collection("provisioningSecrets").doc(snapshotId).delete();
+}
+
+// ============ Migration ============
+
+/**
+ * Move every plaintext password still on a device/switch document into the vault
+ */
+export async function migrateLegacyCredentials(ownerEmail?: string): Promise<{ devices: number; switches: number }> {
+  const [devices, switches] = await Promise.all([getServerDevices(ownerEmail), getServerPoESwitches(ownerEmail)]);
+  let migratedDevices = 0;
+  let migratedSwitches = 0;
+
+  for (const device of devices) {
+    const legacy = (device as unknown as Record<string, unknown>)[LEGACY_FIELDS.algo];
+    if (typeof legacy === "string") {
+      await setDeviceCredential(device.id, "algo", legacy);
+      migratedDevices++;
+    }
+  }
+
+  for (const poeSwitch of switches) {
+    const legacy = (poeSwitch as unknown as Record<string, unknown>)[LEGACY_FIELDS.poe_switch];
+    if (typeof legacy === "string") {
+      await setDeviceCredential(poeSwitch.id, "poe_switch", legacy);
+      migratedSwitches++;
+    }
+  }
+
+  console.log(`[Vault] Migrated ${migratedDevices} device and ${migratedSwitches} switch password(s)`);
+  return { devices: migratedDevices, switches: migratedSwitches };
+}